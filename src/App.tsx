@@ -8,6 +8,9 @@ import {
 import { ConfigProvider, theme } from "antd";
 import { Toaster } from "sonner";
 import { AuthProvider } from "./contexts/AuthContext";
+import { CurrencyProvider } from "./contexts/CurrencyContext";
+import { SyncProvider } from "./contexts/SyncContext";
+import { BudgetAlertProvider } from "./contexts/BudgetAlertContext";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 import { LoginForm, RegisterForm } from "./components/auth";
 import {
@@ -17,6 +20,11 @@ import {
   IncomePage,
   BudgetPage,
   ProfilePage,
+  RecurringPage,
+  GoalsPage,
+  ReportsPage,
+  OnboardingPage,
+  RulesPage,
 } from "./pages";
 import { useApiErrorHandler } from "./utils/errorHandler";
 
@@ -71,6 +79,38 @@ const AppContent: React.FC = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/recurring"
+        element={
+          <ProtectedRoute>
+            <RecurringPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/goals"
+        element={
+          <ProtectedRoute>
+            <GoalsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/reports"
+        element={
+          <ProtectedRoute>
+            <ReportsPage />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/rules"
+        element={
+          <ProtectedRoute>
+            <RulesPage />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/profile"
         element={
@@ -80,6 +120,15 @@ const AppContent: React.FC = () => {
         }
       />
 
+      <Route
+        path="/onboarding"
+        element={
+          <ProtectedRoute>
+            <OnboardingPage />
+          </ProtectedRoute>
+        }
+      />
+
       {/* Default redirect */}
       <Route path="/" element={<Navigate to="/dashboard" replace />} />
     </Routes>
@@ -137,10 +186,16 @@ function App() {
       }}
     >
       <AuthProvider>
-        <Router>
-          <AppContent />
-        </Router>
-        <Toaster position="top-right" richColors />
+        <CurrencyProvider>
+          <SyncProvider>
+            <BudgetAlertProvider>
+              <Router>
+                <AppContent />
+              </Router>
+              <Toaster position="top-right" richColors />
+            </BudgetAlertProvider>
+          </SyncProvider>
+        </CurrencyProvider>
       </AuthProvider>
     </ConfigProvider>
   );
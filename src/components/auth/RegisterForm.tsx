@@ -32,7 +32,7 @@ export const RegisterForm: React.FC = () => {
 
     try {
       await register(values.email, values.password, values.name);
-      navigate("/dashboard");
+      navigate("/onboarding");
     } catch (error: any) {
       setError(
         error.response?.data?.message ||
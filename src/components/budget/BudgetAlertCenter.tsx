@@ -0,0 +1,164 @@
+import React, { useState } from "react";
+import {
+  Badge,
+  Button,
+  Checkbox,
+  Drawer,
+  Dropdown,
+  Empty,
+  List,
+  Progress,
+  Space,
+  Tag,
+  Typography,
+} from "antd";
+import {
+  BellOutlined,
+  CheckOutlined,
+  ClockCircleOutlined,
+} from "@ant-design/icons";
+import { useNavigate } from "react-router-dom";
+import dayjs from "dayjs";
+import { useBudgetAlerts } from "../../contexts/BudgetAlertContext";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { ALERT_THRESHOLDS, ActiveBudgetAlert } from "../../utils/budgetAlerts";
+
+const { Text } = Typography;
+
+const SNOOZE_OPTIONS = [
+  { key: "1-day", label: "For 1 day", amount: 1, unit: "day" as const },
+  { key: "3-day", label: "For 3 days", amount: 3, unit: "day" as const },
+  { key: "1-week", label: "For 1 week", amount: 1, unit: "week" as const },
+];
+
+const getAlertColor = (percentage: number) => {
+  if (percentage >= 100) return "#ff4d4f";
+  if (percentage >= 80) return "#faad14";
+  return "#1890ff";
+};
+
+export const BudgetAlertCenter: React.FC = () => {
+  const { alerts, thresholds, setThresholds, dismissAlert, snoozeAlert } =
+    useBudgetAlerts();
+  const { format } = useCurrency();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+
+  const renderAlert = (alert: ActiveBudgetAlert) => (
+    <List.Item
+      actions={[
+        <Dropdown
+          key="snooze"
+          trigger={["click"]}
+          menu={{
+            items: SNOOZE_OPTIONS.map(({ key, label }) => ({ key, label })),
+            onClick: ({ key }) => {
+              const option = SNOOZE_OPTIONS.find((item) => item.key === key);
+              if (option) {
+                snoozeAlert(
+                  alert,
+                  dayjs().add(option.amount, option.unit).toDate()
+                );
+              }
+            },
+          }}
+        >
+          <Button size="small" type="text" icon={<ClockCircleOutlined />}>
+            Snooze
+          </Button>
+        </Dropdown>,
+        <Button
+          key="dismiss"
+          size="small"
+          type="text"
+          icon={<CheckOutlined />}
+          onClick={() => dismissAlert(alert)}
+        >
+          Dismiss
+        </Button>,
+      ]}
+    >
+      <List.Item.Meta
+        title={
+          <Space size="small">
+            <Text strong>{alert.budgetName}</Text>
+            <Tag color={alert.threshold >= 100 ? "red" : "orange"}>
+              {alert.threshold >= 100 ? "Over budget" : `${alert.threshold}%+`}
+            </Tag>
+          </Space>
+        }
+        description={
+          <>
+            <Progress
+              percent={Math.min(Math.round(alert.percentage), 100)}
+              size="small"
+              strokeColor={getAlertColor(alert.percentage)}
+              format={() => `${Math.round(alert.percentage)}%`}
+            />
+            <Text type="secondary" style={{ fontSize: "12px" }}>
+              {format(alert.currentSpent)} of {format(alert.budgetAmount)}
+              {alert.category ? ` - ${alert.category.name}` : ""}
+            </Text>
+          </>
+        }
+      />
+    </List.Item>
+  );
+
+  return (
+    <>
+      <Badge count={alerts.length} size="small" offset={[-4, 4]}>
+        <Button
+          type="text"
+          icon={<BellOutlined />}
+          aria-label="Budget alerts"
+          onClick={() => setOpen(true)}
+        />
+      </Badge>
+
+      <Drawer
+        title="Budget Alerts"
+        placement="right"
+        width={380}
+        open={open}
+        onClose={() => setOpen(false)}
+        extra={
+          <Button
+            size="small"
+            onClick={() => {
+              setOpen(false);
+              navigate("/budget");
+            }}
+          >
+            View budgets
+          </Button>
+        }
+      >
+        <div style={{ marginBottom: "16px" }}>
+          <Text type="secondary">Alert me when a budget reaches</Text>
+          <div style={{ marginTop: "8px" }}>
+            <Checkbox.Group
+              value={thresholds}
+              onChange={(values) =>
+                setThresholds((values as number[]).sort((a, b) => a - b))
+              }
+              options={ALERT_THRESHOLDS.map((threshold) => ({
+                label: `${threshold}%`,
+                value: threshold,
+              }))}
+            />
+          </div>
+        </div>
+
+        {alerts.length === 0 ? (
+          <Empty
+            image={Empty.PRESENTED_IMAGE_SIMPLE}
+            description="All budgets are on track"
+          />
+        ) : (
+          <List dataSource={alerts} renderItem={renderAlert} />
+        )}
+      </Drawer>
+    </>
+  );
+};
@@ -0,0 +1,78 @@
+import React from "react";
+import { Table, Typography } from "antd";
+import dayjs from "dayjs";
+import { BudgetPeriodSummary } from "../../types";
+import { useCurrency } from "../../contexts/CurrencyContext";
+
+const { Text } = Typography;
+
+interface RolloverHistoryProps {
+  history: BudgetPeriodSummary[];
+  currency?: string;
+}
+
+export const RolloverHistory: React.FC<RolloverHistoryProps> = ({
+  history,
+  currency,
+}) => {
+  const { format } = useCurrency();
+
+  const renderSigned = (amount: number) => (
+    <Text type={amount < 0 ? "danger" : amount > 0 ? "success" : "secondary"}>
+      {amount > 0 ? "+" : ""}
+      {format(amount, currency)}
+    </Text>
+  );
+
+  const columns = [
+    {
+      title: "Period",
+      key: "period",
+      render: (record: BudgetPeriodSummary) =>
+        `${dayjs(record.startDate).format("MMM DD, YYYY")} - ${dayjs(
+          record.endDate
+        ).format("MMM DD, YYYY")}`,
+    },
+    {
+      title: "Budgeted",
+      dataIndex: "budgeted",
+      key: "budgeted",
+      render: (amount: number) => format(amount, currency),
+    },
+    {
+      title: "Carried In",
+      dataIndex: "carriedIn",
+      key: "carriedIn",
+      render: renderSigned,
+    },
+    {
+      title: "Available",
+      dataIndex: "available",
+      key: "available",
+      render: (amount: number) => format(amount, currency),
+    },
+    {
+      title: "Spent",
+      dataIndex: "spent",
+      key: "spent",
+      render: (amount: number) => format(amount, currency),
+    },
+    {
+      title: "Carry-over",
+      dataIndex: "carryOver",
+      key: "carryOver",
+      render: renderSigned,
+    },
+  ];
+
+  // Newest period first, matching how the rest of the app lists history
+  return (
+    <Table
+      columns={columns}
+      dataSource={[...history].reverse()}
+      rowKey="startDate"
+      size="small"
+      pagination={false}
+    />
+  );
+};
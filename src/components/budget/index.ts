@@ -0,0 +1,2 @@
+export { RolloverHistory } from "./RolloverHistory";
+export { BudgetAlertCenter } from "./BudgetAlertCenter";
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from "react";
+import { Modal, Form, Button, Alert, Space, Typography } from "antd";
+import { DeleteOutlined } from "@ant-design/icons";
+import { Category } from "../../types";
+import { useCategoryUsage } from "../../hooks/useCategoryUsage";
+import { CategoryTreeSelect } from "./CategoryTreeSelect";
+import { CategoryUsageSummary } from "./CategoryUsageSummary";
+
+const { Text } = Typography;
+
+type CategoryOption = Pick<Category, "id" | "name"> & Partial<Category>;
+
+interface CategoryDeleteFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called with the category that takes over the deleted one's records
+  onSubmit: (reassignTo?: string) => Promise<void>;
+  category?: CategoryOption | null;
+  categories: CategoryOption[];
+  isLoading?: boolean;
+}
+
+export const CategoryDeleteForm: React.FC<CategoryDeleteFormProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  category,
+  categories,
+  isLoading = false,
+}) => {
+  const [form] = Form.useForm<{ reassignTo?: string }>();
+  const [error, setError] = useState("");
+  // Its subcategories move up rather than with it, so only it is counted
+  const { usage, loading, inUse, failed } = useCategoryUsage(
+    isOpen && category ? [category.id] : undefined,
+    categories
+  );
+  // Without the usage counts, records could be orphaned, so a target is needed
+  const needsTarget = inUse || failed;
+
+  useEffect(() => {
+    if (isOpen) {
+      form.setFieldsValue({ reassignTo: undefined });
+    }
+  }, [isOpen, form]);
+
+  const subcategories = category
+    ? categories.filter((item) => item.parentId === category.id).length
+    : 0;
+
+  const handleSubmit = async (values: { reassignTo?: string }) => {
+    setError("");
+
+    try {
+      await onSubmit(needsTarget ? values.reassignTo : undefined);
+      form.resetFields();
+    } catch (error: any) {
+      setError(error.response?.data?.message || "Failed to delete category.");
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    setError("");
+    onClose();
+  };
+
+  return (
+    <Modal
+      title="Delete Category"
+      open={isOpen}
+      onCancel={handleCancel}
+      footer={null}
+      width={500}
+      destroyOnClose
+    >
+      {error && (
+        <Alert
+          message={error}
+          type="error"
+          style={{ marginBottom: 16 }}
+          closable
+          onClose={() => setError("")}
+        />
+      )}
+
+      <Space direction="vertical" size={12} style={{ width: "100%" }}>
+        <Text>
+          <Text strong>{category?.name}</Text> is used by:
+        </Text>
+        <CategoryUsageSummary
+          usage={usage}
+          loading={loading}
+          subcategories={subcategories}
+        />
+        {failed && (
+          <Alert
+            type="warning"
+            showIcon
+            message="Couldn't check what uses this category"
+            description="Choose where its records should go to be safe."
+          />
+        )}
+        {subcategories > 0 && (
+          <Text type="secondary">
+            Its subcategories will move up to the top level.
+          </Text>
+        )}
+      </Space>
+
+      <Form
+        form={form}
+        layout="vertical"
+        onFinish={handleSubmit}
+        size="large"
+        style={{ marginTop: 16 }}
+      >
+        {needsTarget && (
+          <Form.Item
+            name="reassignTo"
+            label="Move its expenses, budgets, recurring items and rules to"
+            rules={[{ required: true, message: "Please choose a category" }]}
+          >
+            <CategoryTreeSelect
+              placeholder="Select a category"
+              categories={categories}
+              disabledIds={category ? [category.id] : []}
+            />
+          </Form.Item>
+        )}
+
+        <Form.Item style={{ marginBottom: 0 }}>
+          <Space style={{ width: "100%", justifyContent: "flex-end" }}>
+            <Button onClick={handleCancel}>Cancel</Button>
+            <Button
+              type="primary"
+              danger
+              htmlType="submit"
+              icon={<DeleteOutlined />}
+              loading={isLoading}
+              disabled={loading}
+            >
+              {needsTarget ? "Move & Delete" : "Delete"}
+            </Button>
+          </Space>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
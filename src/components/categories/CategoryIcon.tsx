@@ -0,0 +1,171 @@
+import React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import {
+  Apple,
+  Baby,
+  Banknote,
+  Beer,
+  Bike,
+  BookOpen,
+  Briefcase,
+  Building2,
+  Bus,
+  Car,
+  CircleParking,
+  Coffee,
+  CreditCard,
+  Droplet,
+  Dumbbell,
+  Film,
+  Flame,
+  Flower2,
+  Fuel,
+  Gamepad2,
+  Gift,
+  GraduationCap,
+  Hammer,
+  HandCoins,
+  Heart,
+  HeartPulse,
+  Hotel,
+  House,
+  Landmark,
+  Laptop,
+  Lightbulb,
+  LucideIcon,
+  MapPin,
+  Music,
+  Package,
+  PawPrint,
+  PiggyBank,
+  Pill,
+  Pizza,
+  Plane,
+  Receipt,
+  Scissors,
+  Shield,
+  Shirt,
+  ShoppingBag,
+  ShoppingCart,
+  Smartphone,
+  Sofa,
+  Sparkles,
+  Stethoscope,
+  Tag,
+  Ticket,
+  Train,
+  TreePalm,
+  TrendingUp,
+  Tv,
+  Umbrella,
+  Utensils,
+  Wallet,
+  Wifi,
+  Wrench,
+  Zap,
+} from "lucide-react";
+
+// Icons a category can pick from, stored on the category by key. Older
+// categories may still hold an emoji, which is shown as-is
+export const CATEGORY_ICONS: Record<
+  string,
+  { label: string; icon: LucideIcon }
+> = {
+  utensils: { label: "Dining", icon: Utensils },
+  "shopping-cart": { label: "Groceries", icon: ShoppingCart },
+  apple: { label: "Produce", icon: Apple },
+  pizza: { label: "Takeaway", icon: Pizza },
+  coffee: { label: "Coffee", icon: Coffee },
+  beer: { label: "Drinks", icon: Beer },
+  house: { label: "Home", icon: House },
+  sofa: { label: "Furniture", icon: Sofa },
+  lightbulb: { label: "Electricity", icon: Lightbulb },
+  zap: { label: "Utilities", icon: Zap },
+  flame: { label: "Gas", icon: Flame },
+  droplet: { label: "Water", icon: Droplet },
+  wifi: { label: "Internet", icon: Wifi },
+  smartphone: { label: "Phone", icon: Smartphone },
+  tv: { label: "Streaming", icon: Tv },
+  car: { label: "Car", icon: Car },
+  fuel: { label: "Fuel", icon: Fuel },
+  "circle-parking": { label: "Parking", icon: CircleParking },
+  bus: { label: "Public transport", icon: Bus },
+  train: { label: "Train", icon: Train },
+  bike: { label: "Bike", icon: Bike },
+  plane: { label: "Flights", icon: Plane },
+  hotel: { label: "Hotels", icon: Hotel },
+  "tree-palm": { label: "Holidays", icon: TreePalm },
+  "map-pin": { label: "Local", icon: MapPin },
+  film: { label: "Movies", icon: Film },
+  music: { label: "Music", icon: Music },
+  "gamepad-2": { label: "Games", icon: Gamepad2 },
+  ticket: { label: "Events", icon: Ticket },
+  "book-open": { label: "Books", icon: BookOpen },
+  "graduation-cap": { label: "Education", icon: GraduationCap },
+  "heart-pulse": { label: "Health", icon: HeartPulse },
+  stethoscope: { label: "Doctor", icon: Stethoscope },
+  pill: { label: "Pharmacy", icon: Pill },
+  dumbbell: { label: "Fitness", icon: Dumbbell },
+  scissors: { label: "Personal care", icon: Scissors },
+  sparkles: { label: "Beauty", icon: Sparkles },
+  shirt: { label: "Clothing", icon: Shirt },
+  "shopping-bag": { label: "Shopping", icon: ShoppingBag },
+  package: { label: "Deliveries", icon: Package },
+  gift: { label: "Gifts", icon: Gift },
+  heart: { label: "Charity", icon: Heart },
+  baby: { label: "Kids", icon: Baby },
+  "paw-print": { label: "Pets", icon: PawPrint },
+  "flower-2": { label: "Garden", icon: Flower2 },
+  wrench: { label: "Repairs", icon: Wrench },
+  hammer: { label: "Home improvement", icon: Hammer },
+  briefcase: { label: "Work", icon: Briefcase },
+  laptop: { label: "Tech", icon: Laptop },
+  "building-2": { label: "Rent", icon: Building2 },
+  shield: { label: "Insurance", icon: Shield },
+  umbrella: { label: "Protection", icon: Umbrella },
+  landmark: { label: "Taxes", icon: Landmark },
+  receipt: { label: "Bills", icon: Receipt },
+  "credit-card": { label: "Card fees", icon: CreditCard },
+  banknote: { label: "Cash", icon: Banknote },
+  wallet: { label: "Wallet", icon: Wallet },
+  "piggy-bank": { label: "Savings", icon: PiggyBank },
+  "trending-up": { label: "Investments", icon: TrendingUp },
+  "hand-coins": { label: "Loans", icon: HandCoins },
+  tag: { label: "Other", icon: Tag },
+};
+
+interface CategoryIconProps {
+  icon?: string | null;
+  color?: string;
+  size?: number;
+}
+
+export const CategoryIcon: React.FC<CategoryIconProps> = ({
+  icon,
+  color,
+  size = 14,
+}) => {
+  if (!icon) return null;
+  const entry = CATEGORY_ICONS[icon];
+  if (!entry) {
+    return <span style={{ fontSize: `${size}px`, lineHeight: 1 }}>{icon}</span>;
+  }
+  const Icon = entry.icon;
+  return (
+    <Icon
+      size={size}
+      color={color || "currentColor"}
+      style={{ verticalAlign: "-0.125em", flexShrink: 0 }}
+    />
+  );
+};
+
+// Charts draw on a canvas, so icons go in as SVG images for rich-text labels
+export const getCategoryIconImage = (icon?: string | null, color?: string) => {
+  const entry = icon ? CATEGORY_ICONS[icon] : undefined;
+  if (!entry) return undefined;
+  const svg = renderToStaticMarkup(
+    <entry.icon size={16} color={color || "#595959"} />
+  );
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import { Button, Empty, Input, Popover, Space, Tooltip } from "antd";
+import { SearchOutlined } from "@ant-design/icons";
+import { CATEGORY_ICONS, CategoryIcon } from "./CategoryIcon";
+
+interface CategoryIconPickerProps {
+  value?: string;
+  onChange?: (icon: string) => void;
+  color?: string;
+}
+
+export const CategoryIconPicker: React.FC<CategoryIconPickerProps> = ({
+  value,
+  onChange,
+  color,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const query = search.trim().toLowerCase();
+  const icons = Object.entries(CATEGORY_ICONS).filter(
+    ([key, { label }]) =>
+      !query || key.includes(query) || label.toLowerCase().includes(query)
+  );
+
+  const handleSelect = (icon: string) => {
+    onChange?.(icon);
+    setOpen(false);
+    setSearch("");
+  };
+
+  const content = (
+    <div style={{ width: 296 }}>
+      <Input
+        placeholder="Search icons"
+        prefix={<SearchOutlined />}
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        allowClear
+        style={{ marginBottom: 8 }}
+      />
+      {icons.length > 0 ? (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(7, 1fr)",
+            gap: 4,
+            maxHeight: 220,
+            overflowY: "auto",
+          }}
+        >
+          {icons.map(([key, { label }]) => (
+            <Tooltip key={key} title={label} mouseEnterDelay={0.4}>
+              <Button
+                type={value === key ? "primary" : "text"}
+                ghost={value === key}
+                aria-label={label}
+                icon={<CategoryIcon icon={key} size={18} />}
+                onClick={() => handleSelect(key)}
+              />
+            </Tooltip>
+          ))}
+        </div>
+      ) : (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="No icons" />
+      )}
+      {value && (
+        <Button
+          type="link"
+          size="small"
+          onClick={() => handleSelect("")}
+          style={{ marginTop: 8, padding: 0 }}
+        >
+          Remove icon
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <Popover
+      content={content}
+      trigger="click"
+      open={open}
+      onOpenChange={setOpen}
+      placement="bottomLeft"
+    >
+      <Button style={{ height: "40px" }}>
+        {value ? (
+          <Space>
+            <CategoryIcon icon={value} color={color} size={18} />
+            {CATEGORY_ICONS[value]?.label || "Custom"}
+          </Space>
+        ) : (
+          "Choose icon"
+        )}
+      </Button>
+    </Popover>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from "react";
+import { Modal, Form, Button, Alert, Space, Typography } from "antd";
+import { MergeCellsOutlined } from "@ant-design/icons";
+import { Category } from "../../types";
+import { useCategoryUsage } from "../../hooks/useCategoryUsage";
+import { getDescendantIds } from "../../utils/categoryTree";
+import { CategoryTreeSelect } from "./CategoryTreeSelect";
+import { CategoryUsageSummary } from "./CategoryUsageSummary";
+
+const { Text } = Typography;
+
+type CategoryOption = Pick<Category, "id" | "name"> & Partial<Category>;
+
+interface MergeValues {
+  sourceId: string;
+  targetId: string;
+}
+
+interface CategoryMergeFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (values: MergeValues) => Promise<void>;
+  sourceId?: string;
+  categories: CategoryOption[];
+  isLoading?: boolean;
+}
+
+export const CategoryMergeForm: React.FC<CategoryMergeFormProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  sourceId,
+  categories,
+  isLoading = false,
+}) => {
+  const [form] = Form.useForm<MergeValues>();
+  const [error, setError] = useState("");
+  const selectedSourceId = Form.useWatch("sourceId", form);
+  const selectedTargetId = Form.useWatch("targetId", form);
+  const { usage, loading } = useCategoryUsage(
+    isOpen && selectedSourceId
+      ? getDescendantIds(categories, selectedSourceId)
+      : undefined,
+    categories
+  );
+
+  useEffect(() => {
+    if (isOpen) {
+      form.setFieldsValue({ sourceId, targetId: undefined });
+    }
+  }, [isOpen, sourceId, form]);
+
+  const findName = (id?: string) =>
+    categories.find((category) => category.id === id)?.name;
+
+  // Default categories are shared, so only custom ones can be merged away
+  const defaultIds = categories
+    .filter((category) => !category.userId)
+    .map((category) => category.id);
+
+  const handleValuesChange = (changed: Partial<MergeValues>) => {
+    if (
+      changed.sourceId &&
+      getDescendantIds(categories, changed.sourceId).includes(
+        form.getFieldValue("targetId")
+      )
+    ) {
+      form.setFieldsValue({ targetId: undefined });
+    }
+  };
+
+  const handleSubmit = async (values: MergeValues) => {
+    setError("");
+
+    try {
+      await onSubmit(values);
+      form.resetFields();
+    } catch (error: any) {
+      setError(error.response?.data?.message || "Failed to merge categories.");
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    setError("");
+    onClose();
+  };
+
+  return (
+    <Modal
+      title="Merge Categories"
+      open={isOpen}
+      onCancel={handleCancel}
+      footer={null}
+      width={500}
+      destroyOnClose
+    >
+      <Text type="secondary" style={{ display: "block", marginBottom: 16 }}>
+        Everything filed under the first category, its history included, moves
+        to the second one. The first category is then deleted.
+      </Text>
+
+      {error && (
+        <Alert
+          message={error}
+          type="error"
+          style={{ marginBottom: 16 }}
+          closable
+          onClose={() => setError("")}
+        />
+      )}
+
+      <Form
+        form={form}
+        layout="vertical"
+        onFinish={handleSubmit}
+        onValuesChange={handleValuesChange}
+        size="large"
+      >
+        <Form.Item
+          name="sourceId"
+          label="Merge"
+          rules={[{ required: true, message: "Please choose a category" }]}
+        >
+          <CategoryTreeSelect
+            placeholder="Category to merge away"
+            categories={categories}
+            disabledIds={defaultIds}
+          />
+        </Form.Item>
+
+        <Form.Item
+          name="targetId"
+          label="Into"
+          rules={[{ required: true, message: "Please choose a category" }]}
+        >
+          <CategoryTreeSelect
+            placeholder="Category to keep"
+            categories={categories}
+            disabledIds={
+              selectedSourceId
+                ? getDescendantIds(categories, selectedSourceId)
+                : []
+            }
+          />
+        </Form.Item>
+
+        {selectedSourceId && (
+          <Space
+            direction="vertical"
+            size={8}
+            style={{ width: "100%", marginBottom: 24 }}
+          >
+            <Text>
+              Moving from <Text strong>{findName(selectedSourceId)}</Text>
+              {selectedTargetId && (
+                <>
+                  {" "}
+                  to <Text strong>{findName(selectedTargetId)}</Text>
+                </>
+              )}
+              :
+            </Text>
+            <CategoryUsageSummary
+              usage={usage}
+              loading={loading}
+              subcategories={
+                categories.filter(
+                  (category) => category.parentId === selectedSourceId
+                ).length
+              }
+            />
+          </Space>
+        )}
+
+        <Form.Item style={{ marginBottom: 0 }}>
+          <Space style={{ width: "100%", justifyContent: "flex-end" }}>
+            <Button onClick={handleCancel}>Cancel</Button>
+            <Button
+              type="primary"
+              htmlType="submit"
+              icon={<MergeCellsOutlined />}
+              loading={isLoading}
+            >
+              Merge
+            </Button>
+          </Space>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
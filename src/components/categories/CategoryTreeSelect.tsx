@@ -0,0 +1,45 @@
+import React from "react";
+import { Space, TreeSelect } from "antd";
+import type { TreeSelectProps } from "antd";
+import { Category } from "../../types";
+import {
+  CategoryTreeOption,
+  toCategoryTreeOptions,
+} from "../../utils/categoryTree";
+import { CategoryIcon } from "./CategoryIcon";
+
+interface CategoryTreeSelectProps
+  extends Omit<TreeSelectProps, "treeData" | "multiple"> {
+  categories: (Pick<Category, "id" | "name"> & Partial<Category>)[];
+  // Categories shown but not selectable, e.g. a category's own subtree
+  disabledIds?: string[];
+}
+
+const withLabels = (options: CategoryTreeOption[]): any[] =>
+  options.map(({ icon, color, children, ...option }) => ({
+    ...option,
+    label: (
+      <Space size={6}>
+        <CategoryIcon icon={icon} color={color} />
+        {option.title}
+      </Space>
+    ),
+    children: withLabels(children),
+  }));
+
+// Category picker that shows subcategories nested under their parent
+export const CategoryTreeSelect: React.FC<CategoryTreeSelectProps> = ({
+  categories,
+  disabledIds,
+  ...props
+}) => (
+  <TreeSelect
+    showSearch
+    treeNodeFilterProp="title"
+    treeNodeLabelProp="label"
+    treeDefaultExpandAll
+    treeTitleRender={(node) => node.label}
+    treeData={withLabels(toCategoryTreeOptions(categories, disabledIds))}
+    {...props}
+  />
+);
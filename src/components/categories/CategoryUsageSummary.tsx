@@ -0,0 +1,52 @@
+import React from "react";
+import { Skeleton, Space, Tag } from "antd";
+import {
+  FolderOutlined,
+  RetweetOutlined,
+  ShoppingOutlined,
+  ThunderboltOutlined,
+  WalletOutlined,
+} from "@ant-design/icons";
+import { CategoryUsage } from "../../hooks/useCategoryUsage";
+
+interface CategoryUsageSummaryProps {
+  usage: CategoryUsage | null;
+  loading: boolean;
+  subcategories?: number;
+}
+
+const countLabel = (count: number, singular: string, plural: string) =>
+  `${count} ${count === 1 ? singular : plural}`;
+
+export const CategoryUsageSummary: React.FC<CategoryUsageSummaryProps> = ({
+  usage,
+  loading,
+  subcategories = 0,
+}) => {
+  if (loading) {
+    return <Skeleton active title={false} paragraph={{ rows: 1 }} />;
+  }
+  if (!usage) return null;
+
+  return (
+    <Space size={[8, 8]} wrap>
+      <Tag icon={<ShoppingOutlined />}>
+        {countLabel(usage.expenses, "expense", "expenses")}
+      </Tag>
+      <Tag icon={<WalletOutlined />}>
+        {countLabel(usage.budgets, "budget", "budgets")}
+      </Tag>
+      <Tag icon={<RetweetOutlined />}>
+        {countLabel(usage.recurring, "recurring item", "recurring items")}
+      </Tag>
+      <Tag icon={<ThunderboltOutlined />}>
+        {countLabel(usage.rules, "rule", "rules")}
+      </Tag>
+      {subcategories > 0 && (
+        <Tag icon={<FolderOutlined />}>
+          {countLabel(subcategories, "subcategory", "subcategories")}
+        </Tag>
+      )}
+    </Space>
+  );
+};
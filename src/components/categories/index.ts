@@ -0,0 +1,10 @@
+export {
+  CategoryIcon,
+  CATEGORY_ICONS,
+  getCategoryIconImage,
+} from "./CategoryIcon";
+export { CategoryIconPicker } from "./CategoryIconPicker";
+export { CategoryTreeSelect } from "./CategoryTreeSelect";
+export { CategoryUsageSummary } from "./CategoryUsageSummary";
+export { CategoryDeleteForm } from "./CategoryDeleteForm";
+export { CategoryMergeForm } from "./CategoryMergeForm";
@@ -0,0 +1,15 @@
+import React from "react";
+import { Select } from "antd";
+import type { SelectProps } from "antd";
+import { CURRENCIES } from "../../utils/currency";
+
+type CurrencySelectProps = Omit<SelectProps<string>, "options">;
+
+export const CurrencySelect: React.FC<CurrencySelectProps> = (props) => (
+  <Select
+    showSearch
+    style={{ width: 90 }}
+    options={CURRENCIES.map((code) => ({ value: code, label: code }))}
+    {...props}
+  />
+);
@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from "react";
+import {
+  Table,
+  InputNumber,
+  Button,
+  Space,
+  Typography,
+  Upload,
+  Popconfirm,
+  Form,
+} from "antd";
+import {
+  PlusOutlined,
+  DeleteOutlined,
+  UploadOutlined,
+  SaveOutlined,
+} from "@ant-design/icons";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { useAuth } from "../../contexts/AuthContext";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { userApi } from "../../utils/api";
+import { handleApiError } from "../../utils/errorHandler";
+import { parseExchangeRates, rebaseExchangeRates } from "../../utils/currency";
+import { CurrencySelect } from "./CurrencySelect";
+
+const { Text } = Typography;
+
+interface RateRow {
+  currency: string;
+  rate: number;
+}
+
+export const ExchangeRateEditor: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const { baseCurrency, exchangeRates, setExchangeRates } = useCurrency();
+  const [rows, setRows] = useState<RateRow[]>([]);
+  const [newCurrency, setNewCurrency] = useState<string>();
+  const [newRate, setNewRate] = useState<number | null>(null);
+  const [savingBase, setSavingBase] = useState(false);
+
+  // Rates are always edited relative to the user's base currency
+  useEffect(() => {
+    const table = rebaseExchangeRates(exchangeRates, baseCurrency);
+    setRows(
+      Object.entries(table.rates)
+        .filter(([currency]) => currency !== baseCurrency)
+        .map(([currency, rate]) => ({ currency, rate }))
+        .sort((a, b) => a.currency.localeCompare(b.currency))
+    );
+  }, [exchangeRates, baseCurrency]);
+
+  const handleBaseCurrencyChange = async (currency: string) => {
+    if (!user) return;
+    setSavingBase(true);
+    try {
+      const response = await userApi.updateProfile({
+        name: user.name,
+        email: user.email,
+        avatar: user.avatar,
+        baseCurrency: currency,
+      });
+      if (response.success && response.data) {
+        updateUser({ ...user, ...response.data.user, baseCurrency: currency });
+        toast.success(`Base currency set to ${currency}`);
+      }
+    } catch (error: any) {
+      handleApiError(error, "update base currency");
+    } finally {
+      setSavingBase(false);
+    }
+  };
+
+  const saveRows = (nextRows: RateRow[]) => {
+    setExchangeRates({
+      reference: baseCurrency,
+      rates: Object.fromEntries([
+        [baseCurrency, 1],
+        ...nextRows.map((row) => [row.currency, row.rate]),
+      ]),
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  const handleAddRate = () => {
+    if (!newCurrency || !newRate || newRate <= 0) return;
+    if (newCurrency === baseCurrency) {
+      toast.error("The base currency always has a rate of 1");
+      return;
+    }
+    setRows((current) =>
+      [
+        ...current.filter((row) => row.currency !== newCurrency),
+        { currency: newCurrency, rate: newRate },
+      ].sort((a, b) => a.currency.localeCompare(b.currency))
+    );
+    setNewCurrency(undefined);
+    setNewRate(null);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const parsed = parseExchangeRates(await file.text());
+      const imported = rebaseExchangeRates(
+        {
+          reference: parsed.reference || baseCurrency,
+          rates: parsed.rates,
+          updatedAt: new Date().toISOString(),
+        },
+        baseCurrency
+      );
+      const importedRows = Object.entries(imported.rates)
+        .filter(([currency]) => currency !== baseCurrency)
+        .map(([currency, rate]) => ({ currency, rate }));
+      if (importedRows.length === 0) {
+        toast.error(
+          `No rates relative to ${baseCurrency} were found in this file`
+        );
+        return false;
+      }
+      const merged = [
+        ...rows.filter(
+          (row) => !importedRows.some((imp) => imp.currency === row.currency)
+        ),
+        ...importedRows,
+      ];
+      setRows(merged.sort((a, b) => a.currency.localeCompare(b.currency)));
+      toast.success(
+        `Imported ${importedRows.length} exchange rates. Save to apply them.`
+      );
+    } catch (error) {
+      toast.error("Could not read exchange rates from this file");
+    }
+    return false;
+  };
+
+  const columns = [
+    {
+      title: "Currency",
+      dataIndex: "currency",
+      key: "currency",
+    },
+    {
+      title: `Units per 1 ${baseCurrency}`,
+      dataIndex: "rate",
+      key: "rate",
+      render: (rate: number, record: RateRow) => (
+        <InputNumber
+          value={rate}
+          min={0.000001}
+          step={0.01}
+          style={{ width: "100%" }}
+          onChange={(value) =>
+            setRows((current) =>
+              current.map((row) =>
+                row.currency === record.currency
+                  ? { ...row, rate: Number(value) || row.rate }
+                  : row
+              )
+            )
+          }
+        />
+      ),
+    },
+    {
+      title: "",
+      key: "actions",
+      width: 60,
+      render: (record: RateRow) => (
+        <Popconfirm
+          title="Remove this rate?"
+          onConfirm={() =>
+            setRows((current) =>
+              current.filter((row) => row.currency !== record.currency)
+            )
+          }
+          okText="Yes"
+          cancelText="No"
+        >
+          <Button type="text" danger icon={<DeleteOutlined />} />
+        </Popconfirm>
+      ),
+    },
+  ];
+
+  return (
+    <>
+      <Form layout="vertical">
+        <Form.Item
+          label="Base Currency"
+          extra="Totals, statistics and charts are converted to this currency."
+        >
+          <CurrencySelect
+            value={baseCurrency}
+            onChange={handleBaseCurrencyChange}
+            loading={savingBase}
+            style={{ width: 160 }}
+          />
+        </Form.Item>
+      </Form>
+
+      <Table
+        columns={columns}
+        dataSource={rows}
+        rowKey="currency"
+        size="small"
+        pagination={false}
+        locale={{ emptyText: "No exchange rates yet" }}
+      />
+
+      <Space style={{ marginTop: 16 }} wrap>
+        <CurrencySelect
+          placeholder="Currency"
+          value={newCurrency}
+          onChange={setNewCurrency}
+          style={{ width: 110 }}
+        />
+        <InputNumber
+          placeholder="Rate"
+          min={0.000001}
+          step={0.01}
+          value={newRate}
+          onChange={(value) => setNewRate(value)}
+        />
+        <Button icon={<PlusOutlined />} onClick={handleAddRate}>
+          Add
+        </Button>
+        <Upload
+          accept=".json,.csv,.txt"
+          showUploadList={false}
+          beforeUpload={handleImport}
+        >
+          <Button icon={<UploadOutlined />}>Import</Button>
+        </Upload>
+        <Button
+          type="primary"
+          icon={<SaveOutlined />}
+          onClick={() => {
+            saveRows(rows);
+            toast.success("Exchange rates saved");
+          }}
+        >
+          Save Rates
+        </Button>
+      </Space>
+
+      <div style={{ marginTop: 8 }}>
+        <Text type="secondary" style={{ fontSize: "12px" }}>
+          Rates are stored in this browser.
+          {exchangeRates.updatedAt &&
+            dayjs(exchangeRates.updatedAt).year() > 1970 &&
+            ` Last updated ${dayjs(exchangeRates.updatedAt).format(
+              "MMM DD, YYYY HH:mm"
+            )}.`}
+        </Text>
+      </div>
+    </>
+  );
+};
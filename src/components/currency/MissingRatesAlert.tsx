@@ -0,0 +1,32 @@
+import React from "react";
+import { Alert, Button } from "antd";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useCurrency } from "../../contexts/CurrencyContext";
+
+// Amounts without an exchange rate are added to totals unconverted, so every
+// page says so until the rate is filled in
+export const MissingRatesAlert: React.FC = () => {
+  const { missingRates, baseCurrency } = useCurrency();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  if (missingRates.length === 0) return null;
+  const list = missingRates.join(", ");
+
+  return (
+    <Alert
+      type="warning"
+      showIcon
+      style={{ marginBottom: 16 }}
+      message={`No exchange rate for ${list}`}
+      description={`Amounts in ${list} are counted as if they were ${baseCurrency} in totals, charts and budgets, so those figures are off until the rate is added.`}
+      action={
+        location.pathname !== "/profile" && (
+          <Button size="small" onClick={() => navigate("/profile")}>
+            Add rates
+          </Button>
+        )
+      }
+    />
+  );
+};
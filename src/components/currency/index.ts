@@ -0,0 +1,3 @@
+export { CurrencySelect } from "./CurrencySelect";
+export { ExchangeRateEditor } from "./ExchangeRateEditor";
+export { MissingRatesAlert } from "./MissingRatesAlert";
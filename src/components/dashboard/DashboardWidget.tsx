@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { Button, Col, Segmented, Space, Tooltip, Typography } from "antd";
+import {
+  CloseOutlined,
+  HolderOutlined,
+  LeftOutlined,
+  RightOutlined,
+} from "@ant-design/icons";
+import { DashboardWidgetSize } from "../../types";
+import {
+  DASHBOARD_WIDGET_SIZES,
+  DashboardWidgetDefinition,
+} from "../../utils/dashboardLayout";
+
+const { Text } = Typography;
+
+const DRAG_TYPE = "application/x-dashboard-widget";
+
+interface DashboardWidgetProps {
+  definition: DashboardWidgetDefinition;
+  size: DashboardWidgetSize;
+  editing: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onResize: (size: DashboardWidgetSize) => void;
+  onRemove: () => void;
+  // Moves this widget by one place, for keyboard and touch users
+  onShift: (offset: -1 | 1) => void;
+  // Called on the widget something was dropped onto, with the dragged id
+  onDropWidget: (draggedId: string) => void;
+  children: React.ReactNode;
+}
+
+export const DashboardWidget: React.FC<DashboardWidgetProps> = ({
+  definition,
+  size,
+  editing,
+  isFirst,
+  isLast,
+  onResize,
+  onRemove,
+  onShift,
+  onDropWidget,
+  children,
+}) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const { span } = DASHBOARD_WIDGET_SIZES[size];
+  const colProps = span ? { xs: 24, lg: span } : { flex: "1 1 220px" };
+
+  if (!editing) {
+    return <Col {...colProps}>{children}</Col>;
+  }
+
+  return (
+    <Col {...colProps}>
+      <div
+        draggable
+        onDragStart={(event) => {
+          event.dataTransfer.setData(DRAG_TYPE, definition.id);
+          event.dataTransfer.effectAllowed = "move";
+        }}
+        onDragOver={(event) => {
+          if (event.dataTransfer.types.includes(DRAG_TYPE)) {
+            event.preventDefault();
+            setIsDragOver(true);
+          }
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={(event) => {
+          event.preventDefault();
+          setIsDragOver(false);
+          const draggedId = event.dataTransfer.getData(DRAG_TYPE);
+          if (draggedId && draggedId !== definition.id) {
+            onDropWidget(draggedId);
+          }
+        }}
+        style={{
+          height: "100%",
+          borderRadius: "8px",
+          outline: isDragOver ? "2px dashed #1890ff" : "1px dashed #d9d9d9",
+          outlineOffset: "2px",
+          cursor: "move",
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: "8px",
+            padding: "4px 8px",
+            flexWrap: "wrap",
+          }}
+        >
+          <Space size="small">
+            <HolderOutlined />
+            <Text strong ellipsis style={{ maxWidth: 160 }}>
+              {definition.title}
+            </Text>
+          </Space>
+          <Space size={4}>
+            {definition.sizes.length > 1 && (
+              <Segmented
+                size="small"
+                value={size}
+                onChange={(value) => onResize(value as DashboardWidgetSize)}
+                options={definition.sizes.map((option) => ({
+                  value: option,
+                  label: DASHBOARD_WIDGET_SIZES[option].label,
+                }))}
+              />
+            )}
+            <Tooltip title="Move earlier">
+              <Button
+                size="small"
+                type="text"
+                icon={<LeftOutlined />}
+                disabled={isFirst}
+                onClick={() => onShift(-1)}
+              />
+            </Tooltip>
+            <Tooltip title="Move later">
+              <Button
+                size="small"
+                type="text"
+                icon={<RightOutlined />}
+                disabled={isLast}
+                onClick={() => onShift(1)}
+              />
+            </Tooltip>
+            <Tooltip title="Remove widget">
+              <Button
+                size="small"
+                type="text"
+                icon={<CloseOutlined />}
+                onClick={onRemove}
+              />
+            </Tooltip>
+          </Space>
+        </div>
+        {/* Charts and links stay inert while the layout is being arranged */}
+        <div style={{ pointerEvents: "none" }}>{children}</div>
+      </div>
+    </Col>
+  );
+};
@@ -0,0 +1 @@
+export { DashboardWidget } from "./DashboardWidget";
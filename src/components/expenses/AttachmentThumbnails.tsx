@@ -0,0 +1,59 @@
+import React from "react";
+import { Image, Badge, Space, Tooltip } from "antd";
+import { FilePdfOutlined, PaperClipOutlined } from "@ant-design/icons";
+import { ExpenseAttachment } from "../../types";
+
+interface AttachmentThumbnailsProps {
+  attachments?: ExpenseAttachment[];
+  size?: number;
+}
+
+export const isImageAttachment = (attachment: {
+  type?: string;
+  url?: string;
+}) =>
+  attachment.type?.startsWith("image/") ||
+  /^data:image\//.test(attachment.url || "") ||
+  /\.(png|jpe?g|gif|webp|heic)(\?|$)/i.test(attachment.url || "");
+
+export const AttachmentThumbnails: React.FC<AttachmentThumbnailsProps> = ({
+  attachments = [],
+  size = 36,
+}) => {
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter(isImageAttachment);
+  const documents = attachments.filter(
+    (attachment) => !isImageAttachment(attachment)
+  );
+
+  return (
+    <Space size={4}>
+      {images.length > 0 && (
+        // The lightbox pages through every image, not just the thumbnail
+        <Image.PreviewGroup items={images.map((image) => image.url)}>
+          <Badge count={images.length > 1 ? images.length : 0} size="small">
+            <Image
+              src={images[0].url}
+              alt={images[0].name}
+              width={size}
+              height={size}
+              style={{ objectFit: "cover", borderRadius: 4 }}
+            />
+          </Badge>
+        </Image.PreviewGroup>
+      )}
+      {documents.map((document, index) => (
+        <Tooltip key={document.id || index} title={document.name}>
+          <a href={document.url} target="_blank" rel="noopener noreferrer">
+            {document.type === "application/pdf" ? (
+              <FilePdfOutlined style={{ fontSize: size / 2 }} />
+            ) : (
+              <PaperClipOutlined style={{ fontSize: size / 2 }} />
+            )}
+          </a>
+        </Tooltip>
+      ))}
+    </Space>
+  );
+};
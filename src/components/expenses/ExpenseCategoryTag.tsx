@@ -0,0 +1,56 @@
+import React from "react";
+import { Tag, Tooltip, Space } from "antd";
+import { Category, Expense } from "../../types";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { getRecordCurrency } from "../../utils/currency";
+import { isSplitExpense } from "../../utils/splits";
+import { CategoryIcon } from "../categories";
+
+interface ExpenseCategoryTagProps {
+  expense: Expense;
+  categories?: Category[];
+}
+
+export const ExpenseCategoryTag: React.FC<ExpenseCategoryTagProps> = ({
+  expense,
+  categories = [],
+}) => {
+  const { format } = useCurrency();
+
+  const getCategory = (categoryId: string, fallback?: Category) =>
+    categories.find((cat) => cat.id === categoryId) || fallback;
+
+  if (!isSplitExpense(expense)) {
+    const category = getCategory(expense.categoryId, expense.category);
+    return (
+      <Tag color="blue">
+        <Space>
+          <CategoryIcon icon={category?.icon} />
+          {category?.name || "Unknown"}
+        </Space>
+      </Tag>
+    );
+  }
+
+  return (
+    <Tooltip
+      title={
+        <div>
+          {expense.splits!.map((split, index) => {
+            const category = getCategory(split.categoryId, split.category);
+            return (
+              <div key={split.id || index}>
+                <CategoryIcon icon={category?.icon} />{" "}
+                {category?.name || "Unknown"}:{" "}
+                {format(split.amount, getRecordCurrency(expense.currency))}
+                {split.note && ` (${split.note})`}
+              </div>
+            );
+          })}
+        </div>
+      }
+    >
+      <Tag color="purple">Split ({expense.splits!.length})</Tag>
+    </Tooltip>
+  );
+};
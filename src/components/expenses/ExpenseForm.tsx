@@ -1,37 +1,93 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import {
   Modal,
   Form,
   Input,
-  Select,
+  InputNumber,
   DatePicker,
   Button,
   Alert,
   Space,
+  Switch,
+  Row,
+  Col,
+  Typography,
+  Upload,
 } from "antd";
-import { DollarOutlined, FileTextOutlined } from "@ant-design/icons";
+import type { UploadFile } from "antd";
+import {
+  DollarOutlined,
+  FileTextOutlined,
+  PlusOutlined,
+  MinusCircleOutlined,
+  CameraOutlined,
+  ThunderboltOutlined,
+} from "@ant-design/icons";
 import dayjs from "dayjs";
-import { Category, Expense } from "../../types";
+import {
+  CategorizationRule,
+  Category,
+  Expense,
+  ExpenseAttachment,
+} from "../../types";
 import { categoriesApi } from "../../utils/api";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { getRecordCurrency } from "../../utils/currency";
+import { CurrencySelect } from "../currency";
+import { TagSelect } from "../tags";
+import {
+  getSplitRemainder,
+  isSplitExpense,
+  roundAmount,
+} from "../../utils/splits";
+import { StoredFile, uploadFile } from "../../utils/storage";
+import { CategoryTreeSelect } from "../categories";
+import { useCategorizationRules } from "../../hooks/useCategorizationRules";
+import {
+  findMatchingRule,
+  withExistingCategories,
+} from "../../utils/categorizationRules";
+
+const { Text } = Typography;
+
+const MAX_ATTACHMENTS = 5;
+
+export interface ExpenseFormData {
+  amount: number;
+  currency: string;
+  description: string;
+  categoryId: string;
+  date: string;
+  splits: { amount: number; categoryId: string; note?: string }[];
+  attachments: Omit<ExpenseAttachment, "id">[];
+  tagIds: string[];
+}
 
 interface ExpenseFormProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: {
-    amount: number;
-    description: string;
-    categoryId: string;
-    date: string;
-  }) => Promise<void>;
+  onSubmit: (data: ExpenseFormData) => Promise<void>;
   expense?: Expense;
+  // Prefill for a new expense, e.g. from the home-screen share target
+  defaultValues?: { description?: string; amount?: number };
   isLoading?: boolean;
 }
 
+interface SplitValues {
+  amount?: number;
+  categoryId?: string;
+  note?: string;
+}
+
 interface FormValues {
   amount: number;
+  currency: string;
   description: string;
   categoryId: string;
   date: dayjs.Dayjs;
+  isSplit: boolean;
+  splits?: SplitValues[];
+  tagIds?: string[];
 }
 
 export const ExpenseForm: React.FC<ExpenseFormProps> = ({
@@ -39,29 +95,75 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
   onClose,
   onSubmit,
   expense,
+  defaultValues,
   isLoading = false,
 }) => {
   const [form] = Form.useForm<FormValues>();
+  const { baseCurrency, format, toBase } = useCurrency();
   const [categories, setCategories] = useState<Category[]>([]);
   const [error, setError] = useState("");
+  const [receipts, setReceipts] = useState<UploadFile<StoredFile>[]>([]);
+  // Rules only help with new expenses; edits keep what was chosen
+  const { rules } = useCategorizationRules(isOpen && !expense);
+  const [matchedRule, setMatchedRule] = useState<{
+    rule: CategorizationRule;
+    applied: boolean;
+  }>();
+  // Set once the user picks a category, which auto-applied rules then respect
+  const categoryPicked = useRef(false);
+  const amount = Form.useWatch("amount", form);
+  const currency = Form.useWatch("currency", form);
+  const isSplit = Form.useWatch("isSplit", form);
+  const splits = Form.useWatch("splits", form) as SplitValues[] | undefined;
+  const remainder = getSplitRemainder(Number(amount) || 0, splits || []);
 
   useEffect(() => {
     if (expense) {
       form.setFieldsValue({
         amount: expense.amount,
+        currency: getRecordCurrency(expense.currency),
         description: expense.description,
         categoryId: expense.categoryId,
         date: dayjs(expense.date),
+        tagIds: (expense.tags || []).map((tag) => tag.id),
+        isSplit: isSplitExpense(expense),
+        splits: (expense.splits || []).map((split) => ({
+          amount: split.amount,
+          categoryId: split.categoryId,
+          note: split.note,
+        })),
       });
+      setReceipts(
+        (expense.attachments || []).map((attachment, index) => ({
+          uid: attachment.id || `existing-${index}`,
+          name: attachment.name,
+          status: "done",
+          url: attachment.url,
+          type: attachment.type,
+          response: {
+            url: attachment.url,
+            name: attachment.name,
+            type: attachment.type,
+            size: attachment.size || 0,
+          },
+        }))
+      );
     } else {
       form.setFieldsValue({
-        amount: undefined,
-        description: "",
+        amount: defaultValues?.amount,
+        currency: baseCurrency,
+        description: defaultValues?.description || "",
         categoryId: "",
         date: dayjs(),
+        tagIds: [],
+        isSplit: false,
+        splits: [],
       });
+      setReceipts([]);
     }
-  }, [expense, form]);
+    categoryPicked.current = false;
+    setMatchedRule(undefined);
+  }, [expense, defaultValues, form, baseCurrency]);
 
   useEffect(() => {
     const fetchCategories = async () => {
@@ -87,24 +189,170 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
     }
   }, [isOpen]);
 
+  const applyRule = useCallback(
+    (rule: CategorizationRule) => {
+      if (rule.categoryId && !form.getFieldValue("isSplit")) {
+        form.setFieldsValue({ categoryId: rule.categoryId });
+      }
+      if (rule.tagIds?.length) {
+        const tagIds: string[] = form.getFieldValue("tagIds") || [];
+        form.setFieldsValue({
+          tagIds: [
+            ...tagIds,
+            ...rule.tagIds.filter((id) => !tagIds.includes(id)),
+          ],
+        });
+      }
+      setMatchedRule({ rule, applied: true });
+    },
+    [form]
+  );
+
+  const checkRules = useCallback(() => {
+    if (expense) return;
+    const values = form.getFieldsValue(["description", "amount", "currency"]);
+    const amount = parseFloat(values.amount);
+    const rule = findMatchingRule(withExistingCategories(rules, categories), {
+      type: "expense",
+      description: values.description,
+      amount: isNaN(amount) ? null : toBase(amount, values.currency),
+    });
+    if (!rule) {
+      setMatchedRule(undefined);
+    } else if (rule.autoApply && !categoryPicked.current) {
+      applyRule(rule);
+    } else {
+      setMatchedRule((current) =>
+        current?.rule.id === rule.id ? current : { rule, applied: false }
+      );
+    }
+  }, [expense, form, rules, categories, toBase, applyRule]);
+
+  // Prefilled descriptions are checked as soon as the rules arrive
+  useEffect(() => {
+    if (isOpen) checkRules();
+  }, [isOpen, checkRules]);
+
+  // Start a split from the current category so nothing has to be retyped
+  const handleValuesChange = (changed: Partial<FormValues>) => {
+    if ("categoryId" in changed) {
+      categoryPicked.current = true;
+    }
+    if (
+      "description" in changed ||
+      "amount" in changed ||
+      "currency" in changed
+    ) {
+      checkRules();
+    }
+    if (changed.isSplit && !(form.getFieldValue("splits") || []).length) {
+      form.setFieldsValue({
+        splits: [
+          {
+            amount: Number(form.getFieldValue("amount")) || undefined,
+            categoryId: form.getFieldValue("categoryId") || undefined,
+          },
+          {},
+        ],
+      });
+    }
+  };
+
+  // Receipts upload as soon as they are picked; the expense stores the URLs
+  const handleAddReceipt = (file: File) => {
+    const uid = `${Date.now()}-${file.name}`;
+    setReceipts((current) => [
+      ...current,
+      { uid, name: file.name, type: file.type, status: "uploading" },
+    ]);
+    uploadFile(file, { folder: "receipts" })
+      .then((stored) =>
+        setReceipts((current) =>
+          current.map((item) =>
+            item.uid === uid
+              ? {
+                  ...item,
+                  status: "done",
+                  url: stored.url,
+                  thumbUrl: stored.url,
+                  response: stored,
+                }
+              : item
+          )
+        )
+      )
+      .catch(() =>
+        setReceipts((current) =>
+          current.map((item) =>
+            item.uid === uid
+              ? { ...item, status: "error", error: "Upload failed" }
+              : item
+          )
+        )
+      );
+    return false;
+  };
+
   const handleSubmit = async (values: FormValues) => {
     setError("");
 
+    if (receipts.some((receipt) => receipt.status === "uploading")) {
+      setError("Please wait for the receipts to finish uploading.");
+      return;
+    }
+
+    const splitLines = values.isSplit
+      ? (values.splits || []).map((split) => ({
+          amount: roundAmount(Number(split.amount)),
+          categoryId: split.categoryId as string,
+          note: split.note?.trim() || undefined,
+        }))
+      : [];
+    // The largest split becomes the expense's primary category
+    const primarySplit = splitLines.reduce<(typeof splitLines)[0] | undefined>(
+      (largest, split) =>
+        !largest || split.amount > largest.amount ? split : largest,
+      undefined
+    );
+
     try {
       await onSubmit({
         amount: parseFloat(values.amount.toString()),
+        currency: values.currency || baseCurrency,
         description: values.description,
-        categoryId: values.categoryId,
+        categoryId: primarySplit ? primarySplit.categoryId : values.categoryId,
         date: values.date.toISOString(),
+        splits: splitLines,
+        tagIds: values.tagIds || [],
+        attachments: receipts
+          .filter((receipt) => receipt.status === "done" && receipt.response)
+          .map((receipt) => ({
+            url: receipt.response!.url,
+            name: receipt.response!.name,
+            type: receipt.response!.type,
+            size: receipt.response!.size,
+          })),
       });
       form.resetFields();
+      setReceipts([]);
     } catch (error: any) {
       setError(error.response?.data?.message || "Failed to save expense.");
     }
   };
 
+  const getRuleOutcome = (rule: CategorizationRule) => {
+    const category = categories.find((item) => item.id === rule.categoryId);
+    const tagCount = rule.tagIds?.length || 0;
+    const parts = [
+      category && `"${category.name}"`,
+      tagCount > 0 && `${tagCount} tag${tagCount === 1 ? "" : "s"}`,
+    ].filter(Boolean);
+    return parts.join(" and ") || "no changes";
+  };
+
   const handleCancel = () => {
     form.resetFields();
+    setReceipts([]);
     setError("");
     onClose();
   };
@@ -115,7 +363,7 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
       open={isOpen}
       onCancel={handleCancel}
       footer={null}
-      width={500}
+      width={isSplit ? 640 : 500}
       destroyOnClose
     >
       {error && (
@@ -128,7 +376,13 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
         />
       )}
 
-      <Form form={form} layout="vertical" onFinish={handleSubmit} size="large">
+      <Form
+        form={form}
+        layout="vertical"
+        onFinish={handleSubmit}
+        onValuesChange={handleValuesChange}
+        size="large"
+      >
         <Form.Item
           name="amount"
           label="Amount"
@@ -154,6 +408,11 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
             min="0.01"
             placeholder="Enter amount"
             autoComplete="off"
+            addonAfter={
+              <Form.Item name="currency" noStyle>
+                <CurrencySelect variant="borderless" />
+              </Form.Item>
+            }
           />
         </Form.Item>
 
@@ -172,27 +431,138 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
         </Form.Item>
 
         <Form.Item
-          name="categoryId"
-          label="Category"
-          rules={[{ required: true, message: "Please select a category" }]}
+          name="isSplit"
+          label="Split across categories"
+          valuePropName="checked"
         >
-          <Select
-            placeholder="Select a category"
-            showSearch
-            optionFilterProp="label"
-          >
-            {Array.isArray(categories) &&
-              categories.map((category) => (
-                <Select.Option key={category.id} value={category.id}>
-                  <Space>
-                    {category.icon && <span>{category.icon}</span>}
-                    {category.name}
-                  </Space>
-                </Select.Option>
-              ))}
-          </Select>
+          <Switch />
         </Form.Item>
 
+        {isSplit ? (
+          <Form.List
+            name="splits"
+            rules={[
+              {
+                validator: async (_, lines?: SplitValues[]) => {
+                  if (!lines || lines.length < 2) {
+                    throw new Error("Add at least two split lines");
+                  }
+                  const left = getSplitRemainder(
+                    Number(form.getFieldValue("amount")) || 0,
+                    lines
+                  );
+                  if (left !== 0) {
+                    throw new Error("Split amounts must add up to the total");
+                  }
+                },
+              },
+            ]}
+          >
+            {(fields, { add, remove }, { errors }) => (
+              <>
+                {fields.map(({ key, name, ...restField }) => (
+                  <Row key={key} gutter={8} align="top">
+                    <Col span={6}>
+                      <Form.Item
+                        {...restField}
+                        name={[name, "amount"]}
+                        rules={[{ required: true, message: "Enter amount" }]}
+                      >
+                        <InputNumber
+                          min={0.01}
+                          step={0.01}
+                          placeholder="Amount"
+                          style={{ width: "100%" }}
+                        />
+                      </Form.Item>
+                    </Col>
+                    <Col span={9}>
+                      <Form.Item
+                        {...restField}
+                        name={[name, "categoryId"]}
+                        rules={[{ required: true, message: "Pick a category" }]}
+                      >
+                        <CategoryTreeSelect
+                          placeholder="Category"
+                          categories={categories}
+                        />
+                      </Form.Item>
+                    </Col>
+                    <Col span={7}>
+                      <Form.Item {...restField} name={[name, "note"]}>
+                        <Input placeholder="Note" />
+                      </Form.Item>
+                    </Col>
+                    <Col span={2}>
+                      <Button
+                        type="text"
+                        danger
+                        icon={<MinusCircleOutlined />}
+                        onClick={() => remove(name)}
+                      />
+                    </Col>
+                  </Row>
+                ))}
+                <Space
+                  style={{ width: "100%", justifyContent: "space-between" }}
+                >
+                  <Button
+                    type="dashed"
+                    icon={<PlusOutlined />}
+                    onClick={() =>
+                      add({ amount: remainder > 0 ? remainder : undefined })
+                    }
+                  >
+                    Add split
+                  </Button>
+                  <Text type={remainder === 0 ? "success" : "danger"}>
+                    Remaining: {format(remainder, currency)}
+                  </Text>
+                </Space>
+                <Form.ErrorList errors={errors} />
+              </>
+            )}
+          </Form.List>
+        ) : (
+          <Form.Item
+            name="categoryId"
+            label="Category"
+            rules={[{ required: true, message: "Please select a category" }]}
+          >
+            <CategoryTreeSelect
+              placeholder="Select a category"
+              categories={categories}
+            />
+          </Form.Item>
+        )}
+
+        {matchedRule && (
+          <Alert
+            type={matchedRule.applied ? "success" : "info"}
+            icon={<ThunderboltOutlined />}
+            showIcon
+            style={{ marginBottom: 16 }}
+            message={
+              matchedRule.applied
+                ? `Filled in by rule "${matchedRule.rule.name}"`
+                : `Rule "${matchedRule.rule.name}" suggests ${getRuleOutcome(
+                    matchedRule.rule
+                  )}`
+            }
+            action={
+              !matchedRule.applied && (
+                <Button
+                  size="small"
+                  type="primary"
+                  onClick={() => applyRule(matchedRule.rule)}
+                >
+                  Apply
+                </Button>
+              )
+            }
+          />
+        )}
+
         <Form.Item
           name="date"
           label="Date"
@@ -205,6 +575,44 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
           />
         </Form.Item>
 
+        <Form.Item name="tagIds" label="Tags">
+          <TagSelect placeholder="e.g., business trip, reimbursable" />
+        </Form.Item>
+
+        <Form.Item label="Receipts">
+          <Upload
+            listType="picture-card"
+            accept="image/*,application/pdf"
+            multiple
+            fileList={receipts}
+            beforeUpload={handleAddReceipt}
+            onRemove={(file) =>
+              setReceipts((current) =>
+                current.filter((item) => item.uid !== file.uid)
+              )
+            }
+          >
+            {receipts.length < MAX_ATTACHMENTS && (
+              <div>
+                <PlusOutlined />
+                <div style={{ marginTop: 8 }}>Upload</div>
+              </div>
+            )}
+          </Upload>
+          {receipts.length < MAX_ATTACHMENTS && (
+            <Upload
+              accept="image/*"
+              capture="environment"
+              showUploadList={false}
+              beforeUpload={handleAddReceipt}
+            >
+              <Button icon={<CameraOutlined />} size="middle">
+                Take photo
+              </Button>
+            </Upload>
+          )}
+        </Form.Item>
+
         <Form.Item style={{ marginBottom: 0, paddingTop: 16 }}>
           <Space style={{ width: "100%", justifyContent: "flex-end" }}>
             <Button onClick={handleCancel} disabled={isLoading}>
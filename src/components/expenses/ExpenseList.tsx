@@ -1,20 +1,48 @@
 import React from "react";
-import { Table, Button, Space, Typography, Empty, Tag, Popconfirm } from "antd";
+import { Table, Button, Space, Typography, Empty, Popconfirm } from "antd";
 import {
   EditOutlined,
   DeleteOutlined,
   CalendarOutlined,
 } from "@ant-design/icons";
-import type { ColumnsType } from "antd/es/table";
-import { Expense } from "../../types";
+import type {
+  ColumnsType,
+  TablePaginationConfig,
+  TableProps,
+} from "antd/es/table";
+import { Expense, ExpenseSortField, SortOrder } from "../../types";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { getRecordCurrency } from "../../utils/currency";
+import { getAmountInCategories, isSplitExpense } from "../../utils/splits";
+import { ExpenseCategoryTag } from "./ExpenseCategoryTag";
+import { AttachmentThumbnails } from "./AttachmentThumbnails";
+import { TagChips } from "../tags";
+import { PendingSyncTag } from "../layout";
+import { fromTableSorter, toColumnSortOrder } from "../../hooks/useTableQuery";
 
 const { Text } = Typography;
 
+// Distance from the bottom (px) at which the next page is requested
+const LOAD_MORE_THRESHOLD = 200;
+
 interface ExpenseListProps {
   expenses: Expense[];
   onEdit: (expense: Expense) => void;
   onDelete: (id: string) => void;
   isLoading?: boolean;
+  pagination?: TablePaginationConfig | false;
+  sortBy?: ExpenseSortField;
+  sortOrder?: SortOrder;
+  onSortChange?: (sortBy?: ExpenseSortField, sortOrder?: SortOrder) => void;
+  // When filtering by category, split expenses show the share in these
+  categoryIds?: string[];
+  infiniteScroll?: {
+    hasMore: boolean;
+    loadingMore: boolean;
+    onLoadMore: () => void;
+    total?: number;
+    height?: number;
+  };
 }
 
 export const ExpenseList: React.FC<ExpenseListProps> = ({
@@ -22,7 +50,28 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({
   onEdit,
   onDelete,
   isLoading = false,
+  pagination = false,
+  sortBy,
+  sortOrder,
+  onSortChange,
+  categoryIds,
+  infiniteScroll,
 }) => {
+  const { format } = useCurrency();
+  const serverSorting = !!onSortChange;
+
+  // Without a sort handler the list sorts the rows it was given
+  const getSorter = (
+    field: ExpenseSortField,
+    compare: (a: Expense, b: Expense) => number
+  ) =>
+    serverSorting
+      ? {
+          sorter: true,
+          sortOrder: toColumnSortOrder(field, sortBy, sortOrder),
+        }
+      : { sorter: compare };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -31,27 +80,32 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({
     });
   };
 
-  const formatAmount = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  };
-
   const columns: ColumnsType<Expense> = [
     {
-      title: "Description",
+      title: "Description / Date",
       dataIndex: "description",
-      key: "description",
+      key: "date",
+      ...getSorter(
+        "date",
+        (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+      ),
       render: (text: string, record: Expense) => (
         <Space direction="vertical" size="small">
-          <Text strong>{text}</Text>
+          <Space size="small">
+            <Text strong>{text}</Text>
+            <PendingSyncTag pending={record.pendingSync} />
+          </Space>
           <Space size="small">
             <CalendarOutlined style={{ color: "#999" }} />
             <Text type="secondary" style={{ fontSize: "12px" }}>
               {formatDate(record.date)}
             </Text>
           </Space>
+          {record.tags && record.tags.length > 0 && (
+            <div>
+              <TagChips tags={record.tags} />
+            </div>
+          )}
         </Space>
       ),
     },
@@ -59,15 +113,20 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({
       title: "Category",
       dataIndex: ["category", "name"],
       key: "category",
-      render: (text: string, record: Expense) => (
-        <Tag color="blue">
-          <Space>
-            {record.category?.icon && (
-              <span style={{ fontSize: "14px" }}>{record.category.icon}</span>
-            )}
-            {text}
-          </Space>
-        </Tag>
+      ...getSorter("category", (a, b) =>
+        (a.category?.name || "").localeCompare(b.category?.name || "")
+      ),
+      render: (_: string, record: Expense) => (
+        <ExpenseCategoryTag expense={record} />
+      ),
+    },
+    {
+      title: "Receipts",
+      dataIndex: "attachments",
+      key: "attachments",
+      width: 100,
+      render: (_, record: Expense) => (
+        <AttachmentThumbnails attachments={record.attachments} />
       ),
     },
     {
@@ -75,12 +134,27 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({
       dataIndex: "amount",
       key: "amount",
       align: "right",
-      render: (amount: number) => (
-        <Text strong style={{ fontSize: "16px", color: "#f5222d" }}>
-          {formatAmount(amount)}
-        </Text>
-      ),
-      sorter: (a: Expense, b: Expense) => a.amount - b.amount,
+      render: (amount: number, record: Expense) => {
+        const currency = getRecordCurrency(record.currency);
+        if (!categoryIds || !isSplitExpense(record)) {
+          return (
+            <Text strong style={{ fontSize: "16px", color: "#f5222d" }}>
+              {format(amount, currency)}
+            </Text>
+          );
+        }
+        return (
+          <Space direction="vertical" size={0} align="end">
+            <Text strong style={{ fontSize: "16px", color: "#f5222d" }}>
+              {format(getAmountInCategories(record, categoryIds), currency)}
+            </Text>
+            <Text type="secondary" style={{ fontSize: "12px" }}>
+              of {format(amount, currency)}
+            </Text>
+          </Space>
+        );
+      },
+      ...getSorter("amount", (a, b) => a.amount - b.amount),
     },
     {
       title: "Actions",
@@ -125,13 +199,62 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({
     );
   }
 
+  const handleTableChange: TableProps<Expense>["onChange"] = (
+    _,
+    __,
+    sorter,
+    extra
+  ) => {
+    if (extra.action !== "sort" || !onSortChange) return;
+    const next = fromTableSorter(sorter);
+    onSortChange(next.sortBy as ExpenseSortField | undefined, next.sortOrder);
+  };
+
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    if (!infiniteScroll?.hasMore || infiniteScroll.loadingMore) return;
+    const { scrollTop, scrollHeight, clientHeight } = event.currentTarget;
+    if (scrollHeight - scrollTop - clientHeight < LOAD_MORE_THRESHOLD) {
+      infiniteScroll.onLoadMore();
+    }
+  };
+
+  if (infiniteScroll) {
+    return (
+      <Table
+        columns={columns}
+        dataSource={expenses}
+        rowKey="id"
+        loading={isLoading}
+        pagination={false}
+        virtual
+        scroll={{ x: 600, y: infiniteScroll.height ?? 600 }}
+        onScroll={handleScroll}
+        onChange={handleTableChange}
+        size="middle"
+        showSorterTooltip={false}
+        footer={() => (
+          <Text type="secondary" style={{ fontSize: "12px" }}>
+            {infiniteScroll.loadingMore
+              ? "Loading more expenses..."
+              : infiniteScroll.hasMore
+              ? `Showing ${expenses.length} of ${
+                  infiniteScroll.total ?? expenses.length
+                } expenses. Scroll to load more.`
+              : `All ${expenses.length} expenses loaded`}
+          </Text>
+        )}
+      />
+    );
+  }
+
   return (
     <Table
       columns={columns}
       dataSource={expenses}
       rowKey="id"
       loading={isLoading}
-      pagination={false}
+      pagination={pagination}
+      onChange={handleTableChange}
       scroll={{ x: 600 }}
       size="middle"
       showSorterTooltip={false}
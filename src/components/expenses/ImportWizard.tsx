@@ -0,0 +1,634 @@
+import React, { useState, useMemo } from "react";
+import {
+  Modal,
+  Steps,
+  Upload,
+  Select,
+  Switch,
+  Table,
+  Tag,
+  Button,
+  Space,
+  Typography,
+  Row,
+  Col,
+  Form,
+  Alert,
+  Result,
+} from "antd";
+import { InboxOutlined, ThunderboltOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import { CategorizationRule, Category, Expense } from "../../types";
+import { expensesApi } from "../../utils/api";
+import { handleApiError } from "../../utils/errorHandler";
+import { fetchAllExpenses } from "../../utils/dataExport";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { useCategorizationRules } from "../../hooks/useCategorizationRules";
+import {
+  findMatchingRule,
+  withExistingCategories,
+} from "../../utils/categorizationRules";
+import { CurrencySelect } from "../currency";
+import {
+  StatementFormat,
+  ParsedTransaction,
+  CsvColumnMapping,
+  DATE_FORMATS,
+  detectFormat,
+  parseCsv,
+  parseOfx,
+  parseOfxCurrency,
+  parseQif,
+  guessCsvMapping,
+  applyCsvMapping,
+  findDuplicate,
+} from "../../utils/statementImport";
+
+const { Text } = Typography;
+
+type ExpenseSign = "negative" | "positive" | "all";
+
+interface ImportRow extends ParsedTransaction {
+  categoryId?: string;
+  tagIds?: string[];
+  // The matching rule, and whether it's been applied or only suggested
+  rule?: CategorizationRule;
+  ruleApplied?: boolean;
+  duplicateOf?: Expense;
+  isExpense: boolean;
+}
+
+interface ImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  categories: Category[];
+}
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({
+  isOpen,
+  onClose,
+  onImported,
+  categories,
+}) => {
+  const { baseCurrency, toBase } = useCurrency();
+  const { rules } = useCategorizationRules(isOpen);
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<StatementFormat>("csv");
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({
+    dateFormat: DATE_FORMATS[0],
+    hasHeader: true,
+  });
+  const [parsed, setParsed] = useState<ParsedTransaction[]>([]);
+  const [expenseSign, setExpenseSign] = useState<ExpenseSign>("negative");
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<React.Key[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [importedCount, setImportedCount] = useState(0);
+
+  const transactions = useMemo(
+    () => (format === "csv" ? applyCsvMapping(csvRows, mapping) : parsed),
+    [format, csvRows, mapping, parsed]
+  );
+
+  const reset = () => {
+    setStep(0);
+    setFileName("");
+    setCsvRows([]);
+    setParsed([]);
+    setRows([]);
+    setSelectedKeys([]);
+    setCurrency(baseCurrency);
+    setError("");
+    setImportedCount(0);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    setError("");
+    try {
+      const content = await file.text();
+      const detected = detectFormat(file.name, content);
+      setFileName(file.name);
+      setFormat(detected);
+
+      if (detected === "csv") {
+        const rows = parseCsv(content);
+        const guessed = guessCsvMapping(rows);
+        setCsvRows(rows);
+        setMapping(guessed);
+        const sample = applyCsvMapping(rows, guessed);
+        const negatives = sample.filter((t) => (t.amount || 0) < 0).length;
+        setExpenseSign(negatives > 0 ? "negative" : "all");
+      } else {
+        setParsed(detected === "ofx" ? parseOfx(content) : parseQif(content));
+        setExpenseSign("negative");
+        if (detected === "ofx") {
+          setCurrency(parseOfxCurrency(content) || baseCurrency);
+        }
+      }
+      setStep(1);
+    } catch (error) {
+      setError("Could not read this file. Please check the format.");
+    }
+    return false;
+  };
+
+  const isExpenseAmount = (amount: number | null) => {
+    if (amount === null) return false;
+    if (expenseSign === "negative") return amount < 0;
+    if (expenseSign === "positive") return amount > 0;
+    return amount !== 0;
+  };
+
+  const handleReview = async () => {
+    setError("");
+    if (
+      format === "csv" &&
+      (mapping.date === undefined ||
+        mapping.amount === undefined ||
+        mapping.description === undefined)
+    ) {
+      setError("Map the date, amount and description columns to continue.");
+      return;
+    }
+
+    const valid = transactions.filter((t) => t.date && t.amount !== null);
+    if (valid.length === 0) {
+      setError("No rows with a valid date and amount were found.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const dates = valid.map((t) => dayjs(t.date as string));
+      const startDate = dates
+        .reduce((min, date) => (date.isBefore(min) ? date : min))
+        .startOf("day");
+      const endDate = dates
+        .reduce((max, date) => (date.isAfter(max) ? date : max))
+        .endOf("day");
+      const existing = await fetchAllExpenses({
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      });
+      const usableRules = withExistingCategories(rules, categories);
+
+      const reviewRows = transactions.map((transaction) => {
+        const rule = findMatchingRule(usableRules, {
+          type: "expense",
+          description: transaction.description,
+          amount:
+            transaction.amount === null
+              ? null
+              : toBase(transaction.amount, currency),
+        });
+        const row: ImportRow = {
+          ...transaction,
+          isExpense: isExpenseAmount(transaction.amount),
+          duplicateOf: findDuplicate({ ...transaction, currency }, existing),
+          rule,
+        };
+        return rule?.autoApply ? applyRuleToRow(row) : row;
+      });
+      setRows(reviewRows);
+      setSelectedKeys(
+        reviewRows
+          .filter((row) => row.isExpense && row.date && !row.duplicateOf)
+          .map((row) => row.key)
+      );
+      setStep(2);
+    } catch (error: any) {
+      handleApiError(error, "check for duplicate expenses");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyRuleToRow = (row: ImportRow): ImportRow =>
+    row.rule
+      ? {
+          ...row,
+          categoryId: row.rule.categoryId || row.categoryId,
+          tagIds: row.rule.tagIds,
+          ruleApplied: true,
+        }
+      : row;
+
+  const applySuggestions = (keys: React.Key[]) => {
+    setRows((current) =>
+      current.map((row) =>
+        keys.includes(row.key) && !row.ruleApplied ? applyRuleToRow(row) : row
+      )
+    );
+  };
+
+  const setRowCategory = (keys: React.Key[], categoryId: string) => {
+    setRows((current) =>
+      current.map((row) =>
+        keys.includes(row.key) ? { ...row, categoryId } : row
+      )
+    );
+  };
+
+  const handleImport = async () => {
+    setError("");
+    const selected = rows.filter((row) => selectedKeys.includes(row.key));
+    if (selected.length === 0) {
+      setError("Select at least one row to import.");
+      return;
+    }
+    if (selected.some((row) => !row.categoryId)) {
+      setError("Every selected row needs a category.");
+      return;
+    }
+    if (selected.some((row) => !row.date || row.amount === null)) {
+      setError("Some selected rows have an invalid date or amount.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await expensesApi.createExpensesBulk(
+        selected.map((row) => ({
+          amount: Math.abs(row.amount as number),
+          currency,
+          description: row.description || "Imported transaction",
+          categoryId: row.categoryId as string,
+          date: row.date as string,
+          tagIds: row.tagIds,
+        }))
+      );
+      if (response.success) {
+        setImportedCount(response.data?.count ?? selected.length);
+        setStep(3);
+        onImported();
+      }
+    } catch (error: any) {
+      handleApiError(error, "import expenses");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const columnOptions = (csvRows[0] || []).map((cell, index) => ({
+    value: index,
+    label: mapping.hasHeader
+      ? cell || `Column ${index + 1}`
+      : `Column ${index + 1}`,
+  }));
+
+  const categoryOptions = categories.map((category) => ({
+    value: category.id,
+    label: category.name,
+  }));
+
+  const formatAmount = (amount: number | null) =>
+    amount === null ? "—" : amount.toFixed(2);
+
+  const renderUploadStep = () => (
+    <Upload.Dragger
+      accept=".csv,.ofx,.qfx,.qif,.txt"
+      showUploadList={false}
+      beforeUpload={handleFile}
+    >
+      <p className="ant-upload-drag-icon">
+        <InboxOutlined />
+      </p>
+      <p className="ant-upload-text">
+        Click or drag a bank statement to this area
+      </p>
+      <p className="ant-upload-hint">
+        CSV, OFX/QFX and QIF files are read in your browser and never uploaded
+        as-is.
+      </p>
+    </Upload.Dragger>
+  );
+
+  const renderMappingStep = () => (
+    <>
+      <Text type="secondary" style={{ display: "block", marginBottom: 16 }}>
+        {fileName} — detected as {format.toUpperCase()}
+      </Text>
+      <Form layout="vertical">
+        {format === "csv" && (
+          <>
+            <Row gutter={16}>
+              <Col span={8}>
+                <Form.Item label="Date column" required>
+                  <Select
+                    value={mapping.date}
+                    options={columnOptions}
+                    onChange={(date) => setMapping({ ...mapping, date })}
+                    placeholder="Select column"
+                  />
+                </Form.Item>
+              </Col>
+              <Col span={8}>
+                <Form.Item label="Amount column" required>
+                  <Select
+                    value={mapping.amount}
+                    options={columnOptions}
+                    onChange={(amount) => setMapping({ ...mapping, amount })}
+                    placeholder="Select column"
+                  />
+                </Form.Item>
+              </Col>
+              <Col span={8}>
+                <Form.Item label="Description column" required>
+                  <Select
+                    value={mapping.description}
+                    options={columnOptions}
+                    onChange={(description) =>
+                      setMapping({ ...mapping, description })
+                    }
+                    placeholder="Select column"
+                  />
+                </Form.Item>
+              </Col>
+            </Row>
+            <Row gutter={16}>
+              <Col span={8}>
+                <Form.Item label="Date format">
+                  <Select
+                    value={mapping.dateFormat}
+                    options={DATE_FORMATS.map((value) => ({
+                      value,
+                      label: value,
+                    }))}
+                    onChange={(dateFormat) =>
+                      setMapping({ ...mapping, dateFormat })
+                    }
+                  />
+                </Form.Item>
+              </Col>
+              <Col span={8}>
+                <Form.Item label="First row is a header">
+                  <Switch
+                    checked={mapping.hasHeader}
+                    onChange={(hasHeader) =>
+                      setMapping({ ...mapping, hasHeader })
+                    }
+                  />
+                </Form.Item>
+              </Col>
+            </Row>
+          </>
+        )}
+        <Form.Item label="Which rows are expenses?">
+          <Select
+            value={expenseSign}
+            onChange={setExpenseSign}
+            options={[
+              { value: "negative", label: "Negative amounts (debits)" },
+              { value: "positive", label: "Positive amounts" },
+              { value: "all", label: "All rows" },
+            ]}
+          />
+        </Form.Item>
+        <Form.Item label="Statement currency">
+          <CurrencySelect
+            value={currency}
+            onChange={setCurrency}
+            style={{ width: 120 }}
+          />
+        </Form.Item>
+      </Form>
+
+      <Table
+        size="small"
+        rowKey="key"
+        dataSource={transactions.slice(0, 5)}
+        pagination={false}
+        columns={[
+          {
+            title: "Date",
+            dataIndex: "date",
+            render: (date: string | null) =>
+              date ? (
+                dayjs(date).format("MMM DD, YYYY")
+              ) : (
+                <Tag color="red">Invalid</Tag>
+              ),
+          },
+          { title: "Description", dataIndex: "description", ellipsis: true },
+          {
+            title: "Amount",
+            dataIndex: "amount",
+            align: "right" as const,
+            render: formatAmount,
+          },
+        ]}
+      />
+    </>
+  );
+
+  const suggestedKeys = rows
+    .filter((row) => row.rule && !row.ruleApplied)
+    .map((row) => row.key);
+
+  const renderReviewStep = () => (
+    <>
+      <Space style={{ marginBottom: 16 }} wrap>
+        <Text>
+          {selectedKeys.length} of {rows.length} rows selected
+        </Text>
+        <Select
+          style={{ width: 220 }}
+          placeholder="Set category for selected"
+          options={categoryOptions}
+          disabled={selectedKeys.length === 0}
+          value={null}
+          onChange={(categoryId: string) =>
+            setRowCategory(selectedKeys, categoryId)
+          }
+        />
+        {suggestedKeys.length > 0 && (
+          <Button
+            icon={<ThunderboltOutlined />}
+            onClick={() => applySuggestions(suggestedKeys)}
+          >
+            Apply {suggestedKeys.length} rule suggestion
+            {suggestedKeys.length === 1 ? "" : "s"}
+          </Button>
+        )}
+      </Space>
+      <Table
+        size="small"
+        rowKey="key"
+        dataSource={rows}
+        scroll={{ x: 700, y: 360 }}
+        pagination={false}
+        rowSelection={{
+          selectedRowKeys: selectedKeys,
+          onChange: setSelectedKeys,
+          getCheckboxProps: (row: ImportRow) => ({
+            disabled: !row.date || row.amount === null,
+          }),
+        }}
+        columns={[
+          {
+            title: "Date",
+            dataIndex: "date",
+            width: 110,
+            render: (date: string | null) =>
+              date ? dayjs(date).format("MMM DD, YYYY") : "—",
+          },
+          {
+            title: "Description",
+            dataIndex: "description",
+            ellipsis: true,
+          },
+          {
+            title: "Amount",
+            dataIndex: "amount",
+            width: 100,
+            align: "right" as const,
+            render: formatAmount,
+          },
+          {
+            title: "Category",
+            key: "category",
+            width: 180,
+            render: (_: any, row: ImportRow) => (
+              <>
+                <Select
+                  size="small"
+                  style={{ width: "100%" }}
+                  placeholder="Category"
+                  options={categoryOptions}
+                  value={row.categoryId}
+                  showSearch
+                  optionFilterProp="label"
+                  onChange={(categoryId: string) =>
+                    setRowCategory([row.key], categoryId)
+                  }
+                />
+                {row.rule &&
+                  (row.ruleApplied ? (
+                    <Text type="secondary" style={{ fontSize: 12 }}>
+                      <ThunderboltOutlined /> {row.rule.name}
+                    </Text>
+                  ) : (
+                    <Button
+                      type="link"
+                      size="small"
+                      icon={<ThunderboltOutlined />}
+                      style={{ padding: 0, fontSize: 12 }}
+                      onClick={() => applySuggestions([row.key])}
+                    >
+                      Use "{row.rule.name}"
+                    </Button>
+                  ))}
+              </>
+            ),
+          },
+          {
+            title: "Status",
+            key: "status",
+            width: 110,
+            render: (_: any, row: ImportRow) => {
+              if (!row.date || row.amount === null) {
+                return <Tag color="red">Invalid</Tag>;
+              }
+              if (row.duplicateOf) {
+                return <Tag color="orange">Duplicate</Tag>;
+              }
+              if (!row.isExpense) {
+                return <Tag>Not an expense</Tag>;
+              }
+              return <Tag color="green">New</Tag>;
+            },
+          },
+        ]}
+      />
+    </>
+  );
+
+  const renderDoneStep = () => (
+    <Result
+      status="success"
+      title={`Imported ${importedCount} expense${
+        importedCount === 1 ? "" : "s"
+      }`}
+      subTitle={fileName}
+    />
+  );
+
+  const footer = (
+    <Space style={{ width: "100%", justifyContent: "flex-end" }}>
+      {step === 3 ? (
+        <Button type="primary" onClick={handleClose}>
+          Done
+        </Button>
+      ) : (
+        <>
+          <Button onClick={handleClose} disabled={loading}>
+            Cancel
+          </Button>
+          {step > 0 && (
+            <Button onClick={() => setStep(step - 1)} disabled={loading}>
+              Back
+            </Button>
+          )}
+          {step === 1 && (
+            <Button type="primary" onClick={handleReview} loading={loading}>
+              Next
+            </Button>
+          )}
+          {step === 2 && (
+            <Button type="primary" onClick={handleImport} loading={loading}>
+              Import {selectedKeys.length} Expenses
+            </Button>
+          )}
+        </>
+      )}
+    </Space>
+  );
+
+  return (
+    <Modal
+      title="Import Bank Statement"
+      open={isOpen}
+      onCancel={handleClose}
+      footer={footer}
+      width={900}
+      destroyOnClose
+    >
+      <Steps
+        current={step}
+        size="small"
+        style={{ marginBottom: 24 }}
+        items={[
+          { title: "Upload" },
+          { title: "Map Columns" },
+          { title: "Review" },
+          { title: "Done" },
+        ]}
+      />
+
+      {error && (
+        <Alert
+          message={error}
+          type="error"
+          style={{ marginBottom: 16 }}
+          closable
+          onClose={() => setError("")}
+        />
+      )}
+
+      {step === 0 && renderUploadStep()}
+      {step === 1 && renderMappingStep()}
+      {step === 2 && renderReviewStep()}
+      {step === 3 && renderDoneStep()}
+    </Modal>
+  );
+};
@@ -1,2 +1,5 @@
 export { ExpenseForm } from "./ExpenseForm";
 export { ExpenseList } from "./ExpenseList";
+export { ImportWizard } from "./ImportWizard";
+export { ExpenseCategoryTag } from "./ExpenseCategoryTag";
+export { AttachmentThumbnails } from "./AttachmentThumbnails";
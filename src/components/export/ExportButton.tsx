@@ -0,0 +1,74 @@
+import React, { useState } from "react";
+import { Button, Dropdown } from "antd";
+import type { ButtonProps } from "antd";
+import {
+  DownloadOutlined,
+  FileTextOutlined,
+  FileExcelOutlined,
+  CodeOutlined,
+} from "@ant-design/icons";
+import { toast } from "sonner";
+import {
+  ExportFormat,
+  ExportSheet,
+  exportSheets,
+} from "../../utils/dataExport";
+import { handleApiError } from "../../utils/errorHandler";
+
+interface ExportButtonProps {
+  getSheets: () => Promise<ExportSheet[]>;
+  fileName: string;
+  label?: string;
+  buttonProps?: ButtonProps;
+}
+
+export const ExportButton: React.FC<ExportButtonProps> = ({
+  getSheets,
+  fileName,
+  label = "Export",
+  buttonProps,
+}) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const sheets = await getSheets();
+      const rowCount = sheets.reduce(
+        (sum, sheet) => sum + sheet.rows.length,
+        0
+      );
+      if (rowCount === 0) {
+        toast.info("There is nothing to export for the current filters");
+        return;
+      }
+      await exportSheets(sheets, format, fileName);
+      toast.success(`Exported ${rowCount} records`);
+    } catch (error: any) {
+      handleApiError(error, "export data");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const items = [
+    { key: "csv", label: "CSV", icon: <FileTextOutlined /> },
+    { key: "xlsx", label: "Excel (XLSX)", icon: <FileExcelOutlined /> },
+    { key: "json", label: "JSON", icon: <CodeOutlined /> },
+  ];
+
+  return (
+    <Dropdown
+      menu={{
+        items,
+        onClick: ({ key }) => handleExport(key as ExportFormat),
+      }}
+      trigger={["click"]}
+      disabled={exporting}
+    >
+      <Button icon={<DownloadOutlined />} loading={exporting} {...buttonProps}>
+        {label}
+      </Button>
+    </Dropdown>
+  );
+};
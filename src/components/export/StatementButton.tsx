@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { Button, DatePicker, Modal, Space, Typography } from "antd";
+import type { ButtonProps } from "antd";
+import { FilePdfOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { useAuth } from "../../contexts/AuthContext";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { downloadBlob } from "../../utils/dataExport";
+import { handleApiError } from "../../utils/errorHandler";
+import { generateMonthlyStatement } from "../../utils/statementPdf";
+
+const { Text } = Typography;
+
+interface StatementButtonProps {
+  buttonProps?: ButtonProps;
+}
+
+export const StatementButton: React.FC<StatementButtonProps> = ({
+  buttonProps,
+}) => {
+  const { user } = useAuth();
+  const { baseCurrency, toBase, convert, format } = useCurrency();
+  const [open, setOpen] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  // Statements usually go out for the month that just closed
+  const [month, setMonth] = useState(() => dayjs().subtract(1, "month"));
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const blob = await generateMonthlyStatement({
+        month,
+        user,
+        baseCurrency,
+        toBase,
+        convert,
+        format,
+      });
+      downloadBlob(blob, `statement-${month.format("YYYY-MM")}.pdf`);
+      toast.success(`Statement for ${month.format("MMMM YYYY")} downloaded`);
+      setOpen(false);
+    } catch (error: any) {
+      handleApiError(error, "generate statement");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        icon={<FilePdfOutlined />}
+        onClick={() => setOpen(true)}
+        {...buttonProps}
+      >
+        Statement
+      </Button>
+
+      <Modal
+        title="Monthly Statement"
+        open={open}
+        onCancel={() => setOpen(false)}
+        footer={
+          <Space>
+            <Button onClick={() => setOpen(false)} disabled={generating}>
+              Cancel
+            </Button>
+            <Button
+              type="primary"
+              icon={<FilePdfOutlined />}
+              loading={generating}
+              onClick={handleGenerate}
+            >
+              Download PDF
+            </Button>
+          </Space>
+        }
+        width={420}
+        destroyOnClose
+      >
+        <Text type="secondary" style={{ display: "block", marginBottom: 16 }}>
+          Totals, spending by category, budget performance, income by source and
+          every transaction for the month, in {baseCurrency}.
+        </Text>
+        <DatePicker
+          picker="month"
+          value={month}
+          onChange={(value) => value && setMonth(value)}
+          disabledDate={(date) => date.isAfter(dayjs(), "month")}
+          allowClear={false}
+          style={{ width: "100%" }}
+        />
+      </Modal>
+    </>
+  );
+};
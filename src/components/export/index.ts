@@ -0,0 +1,2 @@
+export { ExportButton } from "./ExportButton";
+export { StatementButton } from "./StatementButton";
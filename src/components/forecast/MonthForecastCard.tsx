@@ -0,0 +1,107 @@
+import React from "react";
+import { Card, Empty, Statistic, Table, Typography } from "antd";
+import { LineChartOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { CategoryForecast, SpendingProjection } from "../../utils/forecast";
+
+const { Text } = Typography;
+
+interface MonthForecastCardProps {
+  forecast: {
+    total: SpendingProjection;
+    byCategory: CategoryForecast[];
+  } | null;
+  loading?: boolean;
+}
+
+export const MonthForecastCard: React.FC<MonthForecastCardProps> = ({
+  forecast,
+  loading = false,
+}) => {
+  const { format } = useCurrency();
+
+  const columns = [
+    {
+      title: "Category",
+      dataIndex: "name",
+      key: "name",
+      render: (name: string, record: CategoryForecast) => (
+        <span>
+          <span
+            style={{
+              display: "inline-block",
+              width: 8,
+              height: 8,
+              borderRadius: "50%",
+              marginRight: 8,
+              background: record.color || "#1890ff",
+            }}
+          />
+          {name}
+        </span>
+      ),
+    },
+    {
+      title: "So Far",
+      dataIndex: "spentToDate",
+      key: "spentToDate",
+      render: (amount: number) => format(amount),
+    },
+    {
+      title: "Projected",
+      dataIndex: "projected",
+      key: "projected",
+      render: (amount: number, record: CategoryForecast) => (
+        <div>
+          <Text strong>{format(amount)}</Text>
+          <br />
+          <Text type="secondary" style={{ fontSize: "12px" }}>
+            {format(record.low)} - {format(record.high)}
+          </Text>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <Card
+      title={
+        <span>
+          <LineChartOutlined style={{ marginRight: 8 }} />
+          {dayjs().format("MMMM")} Forecast
+        </span>
+      }
+      loading={loading}
+    >
+      {!forecast || forecast.byCategory.length === 0 ? (
+        <Empty
+          image={Empty.PRESENTED_IMAGE_SIMPLE}
+          description="Not enough recent spending to forecast"
+        />
+      ) : (
+        <>
+          <Statistic
+            title="Projected month-end spending"
+            value={forecast.total.projected}
+            formatter={(value) => format(Number(value))}
+          />
+          <Text type="secondary" style={{ fontSize: "12px" }}>
+            Likely between {format(forecast.total.low)} and{" "}
+            {format(forecast.total.high)}, {format(forecast.total.spentToDate)}{" "}
+            spent so far
+          </Text>
+          <Table
+            columns={columns}
+            dataSource={forecast.byCategory}
+            rowKey="categoryId"
+            size="small"
+            pagination={false}
+            scroll={{ y: 180 }}
+            style={{ marginTop: "12px" }}
+          />
+        </>
+      )}
+    </Card>
+  );
+};
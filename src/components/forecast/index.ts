@@ -0,0 +1 @@
+export { MonthForecastCard } from "./MonthForecastCard";
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Form,
+  Input,
+  DatePicker,
+  Button,
+  Alert,
+  Space,
+  Typography,
+} from "antd";
+import { DollarOutlined, FileTextOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import { SavingsGoal } from "../../types";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { getGoalRemaining } from "../../utils/goals";
+import { getRecordCurrency } from "../../utils/currency";
+
+const { Text } = Typography;
+
+interface ContributionFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: {
+    amount: number;
+    date: string;
+    note?: string;
+  }) => Promise<void>;
+  goal?: SavingsGoal;
+  isLoading?: boolean;
+}
+
+interface FormValues {
+  amount: number;
+  date: dayjs.Dayjs;
+  note?: string;
+}
+
+export const ContributionForm: React.FC<ContributionFormProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  goal,
+  isLoading = false,
+}) => {
+  const [form] = Form.useForm<FormValues>();
+  const { format } = useCurrency();
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      form.setFieldsValue({ amount: undefined, date: dayjs(), note: "" });
+    }
+  }, [isOpen, form]);
+
+  const handleSubmit = async (values: FormValues) => {
+    setError("");
+
+    try {
+      await onSubmit({
+        amount: parseFloat(values.amount.toString()),
+        date: values.date.toISOString(),
+        note: values.note || undefined,
+      });
+      form.resetFields();
+    } catch (error: any) {
+      setError(error.response?.data?.message || "Failed to add contribution.");
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    setError("");
+    onClose();
+  };
+
+  return (
+    <Modal
+      title="Add Contribution"
+      open={isOpen}
+      onCancel={handleCancel}
+      footer={null}
+      width={500}
+      destroyOnClose
+    >
+      {goal && (
+        <Text type="secondary" style={{ display: "block", marginBottom: 16 }}>
+          {format(getGoalRemaining(goal), getRecordCurrency(goal.currency))}{" "}
+          left to reach {goal.name}.
+        </Text>
+      )}
+
+      {error && (
+        <Alert
+          message={error}
+          type="error"
+          style={{ marginBottom: 16 }}
+          closable
+          onClose={() => setError("")}
+        />
+      )}
+
+      <Form form={form} layout="vertical" onFinish={handleSubmit} size="large">
+        <Form.Item
+          name="amount"
+          label={`Amount${
+            goal ? ` (${getRecordCurrency(goal.currency)})` : ""
+          }`}
+          rules={[
+            { required: true, message: "Please enter the amount" },
+            {
+              validator: (_, value) => {
+                const numValue = parseFloat(value);
+                if (isNaN(numValue) || numValue <= 0) {
+                  return Promise.reject(
+                    new Error("Amount must be greater than 0")
+                  );
+                }
+                return Promise.resolve();
+              },
+            },
+          ]}
+        >
+          <Input
+            prefix={<DollarOutlined />}
+            type="number"
+            step="0.01"
+            min="0.01"
+            placeholder="Enter amount"
+            autoComplete="off"
+          />
+        </Form.Item>
+
+        <Form.Item
+          name="date"
+          label="Date"
+          rules={[{ required: true, message: "Please select a date" }]}
+        >
+          <DatePicker
+            style={{ width: "100%" }}
+            format="YYYY-MM-DD"
+            placeholder="Select date"
+          />
+        </Form.Item>
+
+        <Form.Item name="note" label="Note">
+          <Input
+            prefix={<FileTextOutlined />}
+            placeholder="e.g., Bonus, Monthly transfer"
+          />
+        </Form.Item>
+
+        <Form.Item style={{ marginBottom: 0, paddingTop: 16 }}>
+          <Space style={{ width: "100%", justifyContent: "flex-end" }}>
+            <Button onClick={handleCancel} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="primary" htmlType="submit" loading={isLoading}>
+              Add Contribution
+            </Button>
+          </Space>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from "react";
+import { Modal, Form, Input, DatePicker, Button, Alert, Space } from "antd";
+import { DollarOutlined, FlagOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import { SavingsGoal } from "../../types";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { CurrencySelect } from "../currency";
+import { GOAL_COLORS } from "../../utils/goals";
+import { getRecordCurrency } from "../../utils/currency";
+
+interface GoalFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: {
+    name: string;
+    targetAmount: number;
+    currency: string;
+    deadline?: string;
+    color: string;
+  }) => Promise<void>;
+  goal?: SavingsGoal;
+  isLoading?: boolean;
+}
+
+interface FormValues {
+  name: string;
+  targetAmount: number;
+  currency: string;
+  deadline?: dayjs.Dayjs;
+  color: string;
+}
+
+export const GoalForm: React.FC<GoalFormProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  goal,
+  isLoading = false,
+}) => {
+  const [form] = Form.useForm<FormValues>();
+  const { baseCurrency } = useCurrency();
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (goal) {
+      form.setFieldsValue({
+        name: goal.name,
+        targetAmount: goal.targetAmount,
+        currency: getRecordCurrency(goal.currency),
+        deadline: goal.deadline ? dayjs(goal.deadline) : undefined,
+        color: goal.color || GOAL_COLORS[0],
+      });
+    } else {
+      form.setFieldsValue({
+        name: "",
+        targetAmount: undefined,
+        currency: baseCurrency,
+        deadline: undefined,
+        color: GOAL_COLORS[0],
+      });
+    }
+  }, [goal, form, baseCurrency]);
+
+  const handleSubmit = async (values: FormValues) => {
+    setError("");
+
+    try {
+      await onSubmit({
+        name: values.name,
+        targetAmount: parseFloat(values.targetAmount.toString()),
+        currency: values.currency || baseCurrency,
+        deadline: values.deadline
+          ? values.deadline.endOf("day").toISOString()
+          : undefined,
+        color: values.color,
+      });
+      form.resetFields();
+    } catch (error: any) {
+      setError(error.response?.data?.message || "Failed to save goal.");
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    setError("");
+    onClose();
+  };
+
+  return (
+    <Modal
+      title={goal ? "Edit Goal" : "Add New Goal"}
+      open={isOpen}
+      onCancel={handleCancel}
+      footer={null}
+      width={500}
+      destroyOnClose
+    >
+      {error && (
+        <Alert
+          message={error}
+          type="error"
+          style={{ marginBottom: 16 }}
+          closable
+          onClose={() => setError("")}
+        />
+      )}
+
+      <Form form={form} layout="vertical" onFinish={handleSubmit} size="large">
+        <Form.Item
+          name="name"
+          label="Goal Name"
+          rules={[
+            { required: true, message: "Please enter a goal name" },
+            { min: 2, message: "Name must be at least 2 characters" },
+          ]}
+        >
+          <Input
+            prefix={<FlagOutlined />}
+            placeholder="e.g., Emergency fund, New laptop"
+          />
+        </Form.Item>
+
+        <Form.Item
+          name="targetAmount"
+          label="Target Amount"
+          rules={[
+            { required: true, message: "Please enter the target amount" },
+            {
+              validator: (_, value) => {
+                const numValue = parseFloat(value);
+                if (isNaN(numValue) || numValue <= 0) {
+                  return Promise.reject(
+                    new Error("Amount must be greater than 0")
+                  );
+                }
+                return Promise.resolve();
+              },
+            },
+          ]}
+        >
+          <Input
+            prefix={<DollarOutlined />}
+            type="number"
+            step="0.01"
+            min="0.01"
+            placeholder="Enter target amount"
+            autoComplete="off"
+            addonAfter={
+              <Form.Item name="currency" noStyle>
+                <CurrencySelect variant="borderless" />
+              </Form.Item>
+            }
+          />
+        </Form.Item>
+
+        <Form.Item
+          name="deadline"
+          label="Deadline"
+          extra="Leave empty to save at your own pace"
+          rules={[
+            {
+              validator: (_, value?: dayjs.Dayjs) =>
+                !value || !value.isBefore(dayjs(), "day")
+                  ? Promise.resolve()
+                  : Promise.reject(new Error("Deadline can't be in the past")),
+            },
+          ]}
+        >
+          <DatePicker
+            style={{ width: "100%" }}
+            format="YYYY-MM-DD"
+            placeholder="Select deadline"
+          />
+        </Form.Item>
+
+        <Form.Item name="color" label="Color">
+          <Input
+            type="color"
+            style={{ width: "100px", height: "40px", padding: "4px" }}
+          />
+        </Form.Item>
+
+        <Form.Item style={{ marginBottom: 0, paddingTop: 16 }}>
+          <Space style={{ width: "100%", justifyContent: "flex-end" }}>
+            <Button onClick={handleCancel} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="primary" htmlType="submit" loading={isLoading}>
+              {goal ? "Update" : "Add"} Goal
+            </Button>
+          </Space>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,75 @@
+import React from "react";
+import { Card, Progress, Statistic, Typography } from "antd";
+import { FlagOutlined } from "@ant-design/icons";
+import { useNavigate } from "react-router-dom";
+import { SavingsGoal } from "../../types";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { getGoalSaved, getGoalStatus } from "../../utils/goals";
+
+const { Text } = Typography;
+
+interface GoalsSummaryCardProps {
+  goals: SavingsGoal[];
+}
+
+export const GoalsSummaryCard: React.FC<GoalsSummaryCardProps> = ({
+  goals,
+}) => {
+  const { toBase, format } = useCurrency();
+  const navigate = useNavigate();
+
+  const totalSaved = goals.reduce(
+    (sum, goal) => sum + toBase(getGoalSaved(goal), goal.currency),
+    0
+  );
+  const totalTarget = goals.reduce(
+    (sum, goal) => sum + toBase(goal.targetAmount, goal.currency),
+    0
+  );
+  const behind = goals.filter((goal) =>
+    ["behind", "overdue"].includes(getGoalStatus(goal))
+  ).length;
+  const percent = totalTarget > 0 ? (totalSaved / totalTarget) * 100 : 0;
+
+  return (
+    <Card
+      hoverable
+      onClick={() => navigate("/goals")}
+      style={{
+        height: "120px",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "center",
+      }}
+    >
+      <div style={{ width: "100%" }}>
+        <Statistic
+          title="Savings Goals"
+          value={totalSaved}
+          precision={2}
+          prefix={<FlagOutlined style={{ color: "#722ed1" }} />}
+          formatter={(value) => format(Number(value))}
+          valueStyle={{ color: "#722ed1", fontSize: "18px" }}
+        />
+        {goals.length === 0 ? (
+          <Text type="secondary" style={{ fontSize: "12px" }}>
+            Set a goal to start saving
+          </Text>
+        ) : (
+          <>
+            <Progress
+              percent={Math.round(percent)}
+              size="small"
+              strokeColor="#722ed1"
+              style={{ marginBottom: 0 }}
+            />
+            <Text type="secondary" style={{ fontSize: "12px" }}>
+              of {format(totalTarget)}
+              {behind > 0 ? ` - ${behind} behind schedule` : ""}
+            </Text>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,3 @@
+export { GoalForm } from "./GoalForm";
+export { ContributionForm } from "./ContributionForm";
+export { GoalsSummaryCard } from "./GoalsSummaryCard";
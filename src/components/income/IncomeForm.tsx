@@ -1,21 +1,30 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { Modal, Form, Input, DatePicker, Button, Alert, Space } from "antd";
 import {
   DollarOutlined,
   FileTextOutlined,
   BankOutlined,
+  ThunderboltOutlined,
 } from "@ant-design/icons";
 import dayjs from "dayjs";
-import { Income } from "../../types";
+import { CategorizationRule, Income } from "../../types";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { getRecordCurrency } from "../../utils/currency";
+import { CurrencySelect } from "../currency";
+import { TagSelect } from "../tags";
+import { useCategorizationRules } from "../../hooks/useCategorizationRules";
+import { findMatchingRule } from "../../utils/categorizationRules";
 
 interface IncomeFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (data: {
     amount: number;
+    currency: string;
     description: string;
     source: string;
     date: string;
+    tagIds: string[];
   }) => Promise<void>;
   income?: Income;
   isLoading?: boolean;
@@ -23,9 +32,11 @@ interface IncomeFormProps {
 
 interface FormValues {
   amount: number;
+  currency: string;
   description: string;
   source: string;
   date: dayjs.Dayjs;
+  tagIds?: string[];
 }
 
 export const IncomeForm: React.FC<IncomeFormProps> = ({
@@ -36,25 +47,88 @@ export const IncomeForm: React.FC<IncomeFormProps> = ({
   isLoading = false,
 }) => {
   const [form] = Form.useForm<FormValues>();
+  const { baseCurrency, toBase } = useCurrency();
   const [error, setError] = useState("");
+  const { rules } = useCategorizationRules(isOpen && !income);
+  const [matchedRule, setMatchedRule] = useState<{
+    rule: CategorizationRule;
+    applied: boolean;
+  }>();
 
   useEffect(() => {
     if (income) {
       form.setFieldsValue({
         amount: income.amount,
+        currency: getRecordCurrency(income.currency),
         description: income.description,
         source: income.source,
         date: dayjs(income.date),
+        tagIds: (income.tags || []).map((tag) => tag.id),
       });
     } else {
       form.setFieldsValue({
         amount: undefined,
+        currency: baseCurrency,
         description: "",
         source: "",
         date: dayjs(),
+        tagIds: [],
       });
     }
-  }, [income, form]);
+    setMatchedRule(undefined);
+  }, [income, form, baseCurrency]);
+
+  const applyRule = useCallback(
+    (rule: CategorizationRule) => {
+      const tagIds: string[] = form.getFieldValue("tagIds") || [];
+      form.setFieldsValue({
+        tagIds: [
+          ...tagIds,
+          ...(rule.tagIds || []).filter((id) => !tagIds.includes(id)),
+        ],
+      });
+      setMatchedRule({ rule, applied: true });
+    },
+    [form]
+  );
+
+  // Income rules only add tags, so auto-applying never overrides a choice
+  const checkRules = useCallback(() => {
+    if (income) return;
+    const values = form.getFieldsValue([
+      "description",
+      "source",
+      "amount",
+      "currency",
+    ]);
+    const amount = parseFloat(values.amount);
+    const rule = findMatchingRule(rules, {
+      type: "income",
+      description: values.description,
+      source: values.source,
+      amount: isNaN(amount) ? null : toBase(amount, values.currency),
+    });
+    if (!rule) {
+      setMatchedRule(undefined);
+    } else if (rule.autoApply) {
+      applyRule(rule);
+    } else {
+      setMatchedRule((current) =>
+        current?.rule.id === rule.id ? current : { rule, applied: false }
+      );
+    }
+  }, [income, form, rules, toBase, applyRule]);
+
+  const handleValuesChange = (changed: Partial<FormValues>) => {
+    if (
+      "description" in changed ||
+      "source" in changed ||
+      "amount" in changed ||
+      "currency" in changed
+    ) {
+      checkRules();
+    }
+  };
 
   const handleSubmit = async (values: FormValues) => {
     setError("");
@@ -62,9 +136,11 @@ export const IncomeForm: React.FC<IncomeFormProps> = ({
     try {
       await onSubmit({
         amount: parseFloat(values.amount.toString()),
+        currency: values.currency || baseCurrency,
         description: values.description,
         source: values.source,
         date: values.date.toISOString(),
+        tagIds: values.tagIds || [],
       });
       form.resetFields();
     } catch (error: any) {
@@ -97,7 +173,13 @@ export const IncomeForm: React.FC<IncomeFormProps> = ({
         />
       )}
 
-      <Form form={form} layout="vertical" onFinish={handleSubmit} size="large">
+      <Form
+        form={form}
+        layout="vertical"
+        onFinish={handleSubmit}
+        onValuesChange={handleValuesChange}
+        size="large"
+      >
         <Form.Item
           name="amount"
           label="Amount"
@@ -123,6 +205,11 @@ export const IncomeForm: React.FC<IncomeFormProps> = ({
             min="0.01"
             placeholder="Enter amount"
             autoComplete="off"
+            addonAfter={
+              <Form.Item name="currency" noStyle>
+                <CurrencySelect variant="borderless" />
+              </Form.Item>
+            }
           />
         </Form.Item>
 
@@ -166,6 +253,37 @@ export const IncomeForm: React.FC<IncomeFormProps> = ({
           />
         </Form.Item>
 
+        <Form.Item name="tagIds" label="Tags">
+          <TagSelect placeholder="e.g., bonus, side project" />
+        </Form.Item>
+
+        {matchedRule && (
+          <Alert
+            type={matchedRule.applied ? "success" : "info"}
+            icon={<ThunderboltOutlined />}
+            showIcon
+            style={{ marginBottom: 16 }}
+            message={
+              matchedRule.applied
+                ? `Tagged by rule "${matchedRule.rule.name}"`
+                : `Rule "${matchedRule.rule.name}" suggests adding ${
+                    matchedRule.rule.tagIds?.length || 0
+                  } tag${matchedRule.rule.tagIds?.length === 1 ? "" : "s"}`
+            }
+            action={
+              !matchedRule.applied && (
+                <Button
+                  size="small"
+                  type="primary"
+                  onClick={() => applyRule(matchedRule.rule)}
+                >
+                  Apply
+                </Button>
+              )
+            }
+          />
+        )}
+
         <Form.Item style={{ marginBottom: 0, paddingTop: 16 }}>
           <Space style={{ width: "100%", justifyContent: "flex-end" }}>
             <Button onClick={handleCancel} disabled={isLoading}>
@@ -1,6 +1,7 @@
 import React, { ReactNode } from "react";
 import { Layout as AntLayout } from "antd";
 import { Navbar } from "./Navbar";
+import { MissingRatesAlert } from "../currency";
 
 const { Content } = AntLayout;
 
@@ -13,7 +14,10 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
     <AntLayout style={{ minHeight: "100vh" }}>
       <Navbar />
       <Content className="expense-tracker-content">
-        <div style={{ maxWidth: 1200, margin: "0 auto" }}>{children}</div>
+        <div style={{ maxWidth: 1200, margin: "0 auto" }}>
+          <MissingRatesAlert />
+          {children}
+        </div>
       </Content>
     </AntLayout>
   );
@@ -8,6 +8,7 @@ import {
   Typography,
   Dropdown,
   Drawer,
+  Modal,
 } from "antd";
 import {
   DashboardOutlined,
@@ -18,9 +19,15 @@ import {
   MenuOutlined,
   DollarOutlined,
   WalletOutlined,
+  SyncOutlined,
+  FlagOutlined,
+  BarChartOutlined,
+  ThunderboltOutlined,
 } from "@ant-design/icons";
 import { Link, useLocation, useNavigate } from "react-router-dom";
-import { useAuth } from "../../contexts/AuthContext";
+import { UnsyncedChangesError, useAuth } from "../../contexts/AuthContext";
+import { SyncIndicator } from "./SyncIndicator";
+import { BudgetAlertCenter } from "../budget";
 import "./Navbar.css";
 
 const { Header } = Layout;
@@ -30,6 +37,7 @@ export const Navbar: React.FC = () => {
   const { user, logout } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
+  const [modal, modalContextHolder] = Modal.useModal();
   const [mobileMenuVisible, setMobileMenuVisible] = useState(false);
 
   const navigation = [
@@ -37,15 +45,33 @@ export const Navbar: React.FC = () => {
     { key: "/expenses", label: "Expenses", icon: <CreditCardOutlined /> },
     { key: "/income", label: "Income", icon: <DollarOutlined /> },
     { key: "/budget", label: "Budget", icon: <WalletOutlined /> },
+    { key: "/recurring", label: "Recurring", icon: <SyncOutlined /> },
+    { key: "/goals", label: "Goals", icon: <FlagOutlined /> },
+    { key: "/reports", label: "Reports", icon: <BarChartOutlined /> },
     { key: "/categories", label: "Categories", icon: <SettingOutlined /> },
+    { key: "/rules", label: "Rules", icon: <ThunderboltOutlined /> },
     { key: "/profile", label: "Profile", icon: <UserOutlined /> },
   ];
 
-  const handleLogout = async () => {
+  const handleLogout = async (discardUnsynced = false) => {
     try {
-      await logout();
+      await logout({ discardUnsynced });
       navigate("/login");
     } catch (error) {
+      if (error instanceof UnsyncedChangesError) {
+        modal.confirm({
+          title: "Unsynced changes",
+          content: `${error.count} change${
+            error.count === 1 ? "" : "s"
+          } made offline couldn't be sent to the server. Logging out now discards ${
+            error.count === 1 ? "it" : "them"
+          }.`,
+          okText: "Log out anyway",
+          okButtonProps: { danger: true },
+          cancelText: "Stay signed in",
+          onOk: () => handleLogout(true),
+        });
+      }
       // console.error("Logout error:", error);
     }
   };
@@ -55,7 +81,7 @@ export const Navbar: React.FC = () => {
       key: "logout",
       label: "Logout",
       icon: <LogoutOutlined />,
-      onClick: handleLogout,
+      onClick: () => handleLogout(),
     },
   ];
 
@@ -70,6 +96,7 @@ export const Navbar: React.FC = () => {
         zIndex: 1000,
       }}
     >
+      {modalContextHolder}
       <div
         className="navbar-container"
         style={{
@@ -136,6 +163,8 @@ export const Navbar: React.FC = () => {
           style={{ minWidth: "120px", textAlign: "right" }}
         >
           <Space>
+            <SyncIndicator />
+            <BudgetAlertCenter />
             <Space
               style={{ cursor: "pointer" }}
               onClick={() => navigate("/profile")}
@@ -157,12 +186,16 @@ export const Navbar: React.FC = () => {
 
         {/* Mobile Menu Button */}
         <div className="mobile-menu-button" style={{ display: "none" }}>
-          <Button
-            type="text"
-            icon={<MenuOutlined />}
-            onClick={() => setMobileMenuVisible(true)}
-            size="large"
-          />
+          <Space>
+            <SyncIndicator />
+            <BudgetAlertCenter />
+            <Button
+              type="text"
+              icon={<MenuOutlined />}
+              onClick={() => setMobileMenuVisible(true)}
+              size="large"
+            />
+          </Space>
         </div>
       </div>
 
@@ -0,0 +1,169 @@
+import React from "react";
+import {
+  Badge,
+  Button,
+  Empty,
+  List,
+  Popover,
+  Space,
+  Tag,
+  Tooltip,
+  Typography,
+} from "antd";
+import {
+  CloudOutlined,
+  CloudSyncOutlined,
+  DisconnectOutlined,
+  WarningOutlined,
+} from "@ant-design/icons";
+import { useSync } from "../../contexts/SyncContext";
+import { QueuedMutation } from "../../utils/offlineStore";
+
+const { Text } = Typography;
+
+const ACTION_LABELS: Record<QueuedMutation["action"], string> = {
+  create: "Add",
+  update: "Edit",
+  delete: "Delete",
+};
+
+const describeMutation = (mutation: QueuedMutation) => {
+  const entity = mutation.entity === "expense" ? "expense" : "income";
+  const name =
+    mutation.payload?.description || mutation.serverRecord?.description;
+  return `${ACTION_LABELS[mutation.action]} ${entity}${
+    name ? `: ${name}` : ""
+  }`;
+};
+
+export const SyncIndicator: React.FC = () => {
+  const { isOnline, syncing, queue, syncNow, resolveMutation } = useSync();
+
+  const pending = queue.filter((mutation) => mutation.status === "pending");
+  const needsAttention = queue.filter(
+    (mutation) => mutation.status !== "pending"
+  );
+
+  const icon = !isOnline ? (
+    <DisconnectOutlined style={{ color: "#faad14" }} />
+  ) : needsAttention.length > 0 ? (
+    <WarningOutlined style={{ color: "#ff4d4f" }} />
+  ) : pending.length > 0 || syncing ? (
+    <CloudSyncOutlined spin={syncing} style={{ color: "#1890ff" }} />
+  ) : (
+    <CloudOutlined style={{ color: "#52c41a" }} />
+  );
+
+  const status = !isOnline
+    ? "Offline - changes are saved on this device"
+    : syncing
+    ? "Syncing..."
+    : queue.length > 0
+    ? `${queue.length} change${queue.length === 1 ? "" : "s"} not synced`
+    : "All changes synced";
+
+  const content = (
+    <div style={{ width: 320 }}>
+      {queue.length === 0 ? (
+        <Empty
+          image={Empty.PRESENTED_IMAGE_SIMPLE}
+          description="No pending changes"
+        />
+      ) : (
+        <List
+          size="small"
+          dataSource={queue}
+          style={{ maxHeight: 320, overflowY: "auto" }}
+          renderItem={(mutation) => (
+            <List.Item
+              actions={
+                mutation.status === "pending"
+                  ? undefined
+                  : [
+                      <Tooltip
+                        key="keep"
+                        title="Overwrite the server with your change"
+                      >
+                        <Button
+                          size="small"
+                          type="link"
+                          disabled={!isOnline}
+                          onClick={() => resolveMutation(mutation, "keep-mine")}
+                        >
+                          Keep mine
+                        </Button>
+                      </Tooltip>,
+                      <Button
+                        key="discard"
+                        size="small"
+                        type="link"
+                        danger
+                        onClick={() => resolveMutation(mutation, "discard")}
+                      >
+                        {mutation.status === "conflict"
+                          ? "Use server"
+                          : "Discard"}
+                      </Button>,
+                    ]
+              }
+            >
+              <List.Item.Meta
+                title={<Text ellipsis>{describeMutation(mutation)}</Text>}
+                description={
+                  mutation.status === "pending" ? (
+                    <Tag color="blue">Pending</Tag>
+                  ) : (
+                    <Space direction="vertical" size={0}>
+                      <Tag
+                        color={
+                          mutation.status === "conflict" ? "red" : "orange"
+                        }
+                      >
+                        {mutation.status === "conflict" ? "Conflict" : "Failed"}
+                      </Tag>
+                      {mutation.error && (
+                        <Text type="secondary" style={{ fontSize: "12px" }}>
+                          {mutation.error}
+                        </Text>
+                      )}
+                    </Space>
+                  )
+                }
+              />
+            </List.Item>
+          )}
+        />
+      )}
+      <Button
+        block
+        icon={<CloudSyncOutlined />}
+        loading={syncing}
+        disabled={!isOnline || pending.length === 0}
+        onClick={syncNow}
+        style={{ marginTop: 8 }}
+      >
+        Sync now
+      </Button>
+    </div>
+  );
+
+  return (
+    <Popover
+      title={status}
+      content={content}
+      trigger="click"
+      placement="bottomRight"
+    >
+      <Badge count={queue.length} size="small" offset={[-4, 4]}>
+        <Button type="text" icon={icon} aria-label={status} />
+      </Badge>
+    </Popover>
+  );
+};
+
+export const PendingSyncTag: React.FC<{ pending?: boolean }> = ({ pending }) =>
+  pending ? (
+    <Tag color="gold" icon={<CloudSyncOutlined />}>
+      Pending sync
+    </Tag>
+  ) : null;
@@ -1,2 +1,3 @@
 export { Layout } from "./Layout";
 export { Navbar } from "./Navbar";
+export { SyncIndicator, PendingSyncTag } from "./SyncIndicator";
@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Form,
+  Input,
+  Select,
+  Button,
+  Alert,
+  Space,
+  Typography,
+} from "antd";
+import {
+  DollarOutlined,
+  FileTextOutlined,
+  BankOutlined,
+} from "@ant-design/icons";
+import dayjs from "dayjs";
+import { Category, RecurringOccurrence } from "../../types";
+
+const { Text } = Typography;
+
+interface OccurrenceFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: {
+    amount: number;
+    description: string;
+    categoryId?: string;
+    source?: string;
+  }) => Promise<void>;
+  occurrence?: RecurringOccurrence;
+  categories: Category[];
+  isLoading?: boolean;
+}
+
+interface FormValues {
+  amount: number;
+  description: string;
+  categoryId?: string;
+  source?: string;
+}
+
+export const OccurrenceForm: React.FC<OccurrenceFormProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  occurrence,
+  categories,
+  isLoading = false,
+}) => {
+  const [form] = Form.useForm<FormValues>();
+  const [error, setError] = useState("");
+  const isIncome = occurrence?.recurring.type === "income";
+
+  useEffect(() => {
+    if (occurrence) {
+      form.setFieldsValue({
+        amount: occurrence.amount,
+        description: occurrence.description,
+        categoryId: occurrence.categoryId,
+        source: occurrence.source,
+      });
+    }
+  }, [occurrence, form]);
+
+  const handleSubmit = async (values: FormValues) => {
+    setError("");
+
+    try {
+      await onSubmit({
+        amount: parseFloat(values.amount.toString()),
+        description: values.description,
+        categoryId: isIncome ? undefined : values.categoryId,
+        source: isIncome ? values.source : undefined,
+      });
+      form.resetFields();
+    } catch (error: any) {
+      setError(error.response?.data?.message || "Failed to save occurrence.");
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    setError("");
+    onClose();
+  };
+
+  return (
+    <Modal
+      title="Edit Occurrence"
+      open={isOpen}
+      onCancel={handleCancel}
+      footer={null}
+      width={500}
+      destroyOnClose
+    >
+      {occurrence && (
+        <Text type="secondary" style={{ display: "block", marginBottom: 16 }}>
+          Changes apply only to the occurrence on{" "}
+          {dayjs(occurrence.dueDate).format("MMM DD, YYYY")}. The rest of the
+          series is left untouched.
+        </Text>
+      )}
+
+      {error && (
+        <Alert
+          message={error}
+          type="error"
+          style={{ marginBottom: 16 }}
+          closable
+          onClose={() => setError("")}
+        />
+      )}
+
+      <Form form={form} layout="vertical" onFinish={handleSubmit} size="large">
+        <Form.Item
+          name="amount"
+          label="Amount"
+          rules={[
+            { required: true, message: "Please enter the amount" },
+            {
+              validator: (_, value) => {
+                const numValue = parseFloat(value);
+                if (isNaN(numValue) || numValue <= 0) {
+                  return Promise.reject(
+                    new Error("Amount must be greater than 0")
+                  );
+                }
+                return Promise.resolve();
+              },
+            },
+          ]}
+        >
+          <Input
+            prefix={<DollarOutlined />}
+            type="number"
+            step="0.01"
+            min="0.01"
+            placeholder="Enter amount"
+            autoComplete="off"
+          />
+        </Form.Item>
+
+        <Form.Item
+          name="description"
+          label="Description"
+          rules={[
+            { required: true, message: "Please enter a description" },
+            { min: 3, message: "Description must be at least 3 characters" },
+          ]}
+        >
+          <Input
+            prefix={<FileTextOutlined />}
+            placeholder="Enter description"
+          />
+        </Form.Item>
+
+        {isIncome ? (
+          <Form.Item
+            name="source"
+            label="Source"
+            rules={[
+              { required: true, message: "Please enter the income source" },
+            ]}
+          >
+            <Input prefix={<BankOutlined />} placeholder="e.g., Salary" />
+          </Form.Item>
+        ) : (
+          <Form.Item
+            name="categoryId"
+            label="Category"
+            rules={[{ required: true, message: "Please select a category" }]}
+          >
+            <Select
+              placeholder="Select a category"
+              showSearch
+              optionFilterProp="label"
+              options={categories.map((category) => ({
+                value: category.id,
+                label: category.name,
+              }))}
+            />
+          </Form.Item>
+        )}
+
+        <Form.Item style={{ marginBottom: 0, paddingTop: 16 }}>
+          <Space style={{ width: "100%", justifyContent: "flex-end" }}>
+            <Button onClick={handleCancel} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="primary" htmlType="submit" loading={isLoading}>
+              Save Occurrence
+            </Button>
+          </Space>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
@@ -0,0 +1,375 @@
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  DatePicker,
+  Button,
+  Alert,
+  Space,
+  Radio,
+  Row,
+  Col,
+} from "antd";
+import {
+  DollarOutlined,
+  FileTextOutlined,
+  BankOutlined,
+} from "@ant-design/icons";
+import dayjs from "dayjs";
+import {
+  Category,
+  RecurrenceFrequency,
+  RecurringTransaction,
+  WeekendAdjustment,
+} from "../../types";
+import { categoriesApi } from "../../utils/api";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { getRecordCurrency } from "../../utils/currency";
+import { CurrencySelect } from "../currency";
+import { CategoryTreeSelect } from "../categories";
+import {
+  DATE_KEY_FORMAT,
+  frequencyLabels,
+  weekendAdjustmentLabels,
+} from "../../utils/recurrence";
+
+export interface RecurringFormData {
+  type: "expense" | "income";
+  amount: number;
+  currency: string;
+  description: string;
+  categoryId?: string;
+  source?: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string;
+  weekendAdjustment: WeekendAdjustment;
+  skipDates: string[];
+}
+
+interface RecurringFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: RecurringFormData) => Promise<void>;
+  recurring?: RecurringTransaction;
+  isLoading?: boolean;
+}
+
+interface FormValues {
+  type: "expense" | "income";
+  amount: number;
+  currency?: string;
+  description: string;
+  categoryId?: string;
+  source?: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: dayjs.Dayjs;
+  endDate?: dayjs.Dayjs | null;
+  weekendAdjustment: WeekendAdjustment;
+  skipDates?: dayjs.Dayjs[];
+}
+
+export const RecurringForm: React.FC<RecurringFormProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  recurring,
+  isLoading = false,
+}) => {
+  const { baseCurrency } = useCurrency();
+  const [form] = Form.useForm<FormValues>();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [error, setError] = useState("");
+  const type = Form.useWatch("type", form);
+
+  useEffect(() => {
+    if (recurring) {
+      form.setFieldsValue({
+        type: recurring.type,
+        amount: recurring.amount,
+        currency: getRecordCurrency(recurring.currency),
+        description: recurring.description,
+        categoryId: recurring.categoryId,
+        source: recurring.source,
+        frequency: recurring.frequency,
+        interval: recurring.interval,
+        startDate: dayjs(recurring.startDate),
+        endDate: recurring.endDate ? dayjs(recurring.endDate) : null,
+        weekendAdjustment: recurring.weekendAdjustment,
+        skipDates: (recurring.skipDates || []).map((date) => dayjs(date)),
+      });
+    } else {
+      form.setFieldsValue({
+        type: "expense",
+        amount: undefined,
+        currency: baseCurrency,
+        description: "",
+        categoryId: undefined,
+        source: "",
+        frequency: "monthly",
+        interval: 1,
+        startDate: dayjs(),
+        endDate: null,
+        weekendAdjustment: "none",
+        skipDates: [],
+      });
+    }
+  }, [recurring, form, isOpen, baseCurrency]);
+
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const response = await categoriesApi.getCategories();
+        if (response.success && response.data && Array.isArray(response.data)) {
+          setCategories(response.data);
+        } else {
+          setCategories([]);
+        }
+      } catch (error) {
+        setCategories([]);
+      }
+    };
+
+    if (isOpen) {
+      fetchCategories();
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (values: FormValues) => {
+    setError("");
+
+    try {
+      await onSubmit({
+        type: values.type,
+        amount: parseFloat(values.amount.toString()),
+        currency: values.currency || baseCurrency,
+        description: values.description,
+        categoryId: values.type === "expense" ? values.categoryId : undefined,
+        source: values.type === "income" ? values.source : undefined,
+        frequency: values.frequency,
+        interval: values.interval,
+        startDate: values.startDate.toISOString(),
+        endDate: values.endDate ? values.endDate.toISOString() : undefined,
+        weekendAdjustment: values.weekendAdjustment,
+        skipDates: (values.skipDates || []).map((date) =>
+          date.format(DATE_KEY_FORMAT)
+        ),
+      });
+      form.resetFields();
+    } catch (error: any) {
+      setError(
+        error.response?.data?.message || "Failed to save recurring schedule."
+      );
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    setError("");
+    onClose();
+  };
+
+  return (
+    <Modal
+      title={recurring ? "Edit Recurring Schedule" : "Add Recurring Schedule"}
+      open={isOpen}
+      onCancel={handleCancel}
+      footer={null}
+      width={560}
+      destroyOnClose
+    >
+      {error && (
+        <Alert
+          message={error}
+          type="error"
+          style={{ marginBottom: 16 }}
+          closable
+          onClose={() => setError("")}
+        />
+      )}
+
+      <Form form={form} layout="vertical" onFinish={handleSubmit} size="large">
+        <Form.Item name="type" label="Type">
+          <Radio.Group disabled={!!recurring}>
+            <Radio.Button value="expense">Expense</Radio.Button>
+            <Radio.Button value="income">Income</Radio.Button>
+          </Radio.Group>
+        </Form.Item>
+
+        <Form.Item
+          name="amount"
+          label="Amount"
+          rules={[
+            { required: true, message: "Please enter the amount" },
+            {
+              validator: (_, value) => {
+                const numValue = parseFloat(value);
+                if (isNaN(numValue) || numValue <= 0) {
+                  return Promise.reject(
+                    new Error("Amount must be greater than 0")
+                  );
+                }
+                return Promise.resolve();
+              },
+            },
+          ]}
+        >
+          <Input
+            prefix={<DollarOutlined />}
+            type="number"
+            step="0.01"
+            min="0.01"
+            placeholder="Enter amount"
+            autoComplete="off"
+            addonAfter={
+              <Form.Item name="currency" noStyle>
+                <CurrencySelect variant="borderless" />
+              </Form.Item>
+            }
+          />
+        </Form.Item>
+
+        <Form.Item
+          name="description"
+          label="Description"
+          rules={[
+            { required: true, message: "Please enter a description" },
+            { min: 3, message: "Description must be at least 3 characters" },
+          ]}
+        >
+          <Input
+            prefix={<FileTextOutlined />}
+            placeholder="e.g., Rent, Netflix, Salary"
+          />
+        </Form.Item>
+
+        {type === "income" ? (
+          <Form.Item
+            name="source"
+            label="Source"
+            rules={[
+              { required: true, message: "Please enter the income source" },
+              { min: 2, message: "Source must be at least 2 characters" },
+            ]}
+          >
+            <Input
+              prefix={<BankOutlined />}
+              placeholder="e.g., Salary, Freelance, Investment"
+            />
+          </Form.Item>
+        ) : (
+          <Form.Item
+            name="categoryId"
+            label="Category"
+            rules={[{ required: true, message: "Please select a category" }]}
+          >
+            <CategoryTreeSelect
+              placeholder="Select a category"
+              categories={categories}
+            />
+          </Form.Item>
+        )}
+
+        <Row gutter={16}>
+          <Col span={12}>
+            <Form.Item
+              name="frequency"
+              label="Frequency"
+              rules={[{ required: true, message: "Please select a frequency" }]}
+            >
+              <Select>
+                {Object.entries(frequencyLabels).map(([value, label]) => (
+                  <Select.Option key={value} value={value}>
+                    {label}
+                  </Select.Option>
+                ))}
+              </Select>
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item
+              name="interval"
+              label="Repeat Every"
+              rules={[{ required: true, message: "Please enter an interval" }]}
+            >
+              <InputNumber style={{ width: "100%" }} min={1} precision={0} />
+            </Form.Item>
+          </Col>
+        </Row>
+
+        <Row gutter={16}>
+          <Col span={12}>
+            <Form.Item
+              name="startDate"
+              label="Start Date"
+              rules={[{ required: true, message: "Please select start date" }]}
+            >
+              <DatePicker style={{ width: "100%" }} format="YYYY-MM-DD" />
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item
+              name="endDate"
+              label="End Date"
+              dependencies={["startDate"]}
+              rules={[
+                ({ getFieldValue }) => ({
+                  validator(_, value) {
+                    const startDate = getFieldValue("startDate");
+                    if (!value || !startDate || !value.isBefore(startDate)) {
+                      return Promise.resolve();
+                    }
+                    return Promise.reject(
+                      new Error("End date must be after start date")
+                    );
+                  },
+                }),
+              ]}
+            >
+              <DatePicker
+                style={{ width: "100%" }}
+                format="YYYY-MM-DD"
+                placeholder="No end date"
+              />
+            </Form.Item>
+          </Col>
+        </Row>
+
+        <Form.Item name="weekendAdjustment" label="Weekends">
+          <Select>
+            {Object.entries(weekendAdjustmentLabels).map(([value, label]) => (
+              <Select.Option key={value} value={value}>
+                {label}
+              </Select.Option>
+            ))}
+          </Select>
+        </Form.Item>
+
+        <Form.Item name="skipDates" label="Skip Dates">
+          <DatePicker
+            multiple
+            style={{ width: "100%" }}
+            format="YYYY-MM-DD"
+            placeholder="Select dates to skip"
+          />
+        </Form.Item>
+
+        <Form.Item style={{ marginBottom: 0, paddingTop: 16 }}>
+          <Space style={{ width: "100%", justifyContent: "flex-end" }}>
+            <Button onClick={handleCancel} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="primary" htmlType="submit" loading={isLoading}>
+              {recurring ? "Update" : "Add"} Schedule
+            </Button>
+          </Space>
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+};
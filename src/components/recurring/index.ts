@@ -0,0 +1,2 @@
+export { RecurringForm } from "./RecurringForm";
+export { OccurrenceForm } from "./OccurrenceForm";
@@ -0,0 +1,196 @@
+import React from "react";
+import { Card, Empty, Table, Typography } from "antd";
+import { ArrowDownOutlined, ArrowUpOutlined } from "@ant-design/icons";
+import ReactECharts from "echarts-for-react";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { ComparisonRow } from "../../utils/periodComparison";
+import { iconAxisLabel } from "../../utils/chartOptions";
+import { CategoryIcon, getCategoryIconImage } from "../categories";
+
+const { Text } = Typography;
+
+// Rows beyond this are left to the table so the chart stays readable
+const CHART_ROWS = 12;
+
+interface PeriodComparisonCardProps {
+  title: React.ReactNode;
+  rows: ComparisonRow[];
+  currentLabel: string;
+  previousLabel: string;
+  // Whether a rise is good news (income) or bad news (spending)
+  higherIsBetter: boolean;
+  loading?: boolean;
+}
+
+export const ChangeText: React.FC<{
+  delta: number;
+  change: number | null;
+  higherIsBetter: boolean;
+}> = ({ delta, change, higherIsBetter }) => {
+  const { format } = useCurrency();
+  if (delta === 0) return <Text type="secondary">No change</Text>;
+  const rose = delta > 0;
+  const color = rose === higherIsBetter ? "#52c41a" : "#ff4d4f";
+  return (
+    <span style={{ color }}>
+      {rose ? <ArrowUpOutlined /> : <ArrowDownOutlined />}{" "}
+      {format(Math.abs(delta))}
+      {change !== null ? ` (${Math.abs(change).toFixed(1)}%)` : " (new)"}
+    </span>
+  );
+};
+
+export const PeriodComparisonCard: React.FC<PeriodComparisonCardProps> = ({
+  title,
+  rows,
+  currentLabel,
+  previousLabel,
+  higherIsBetter,
+  loading = false,
+}) => {
+  const { format } = useCurrency();
+  const formatAxisValue = (value: number) => format(value).replace(/\.00$/, "");
+
+  const chartRows = rows.slice(0, CHART_ROWS);
+
+  const chartOption = {
+    tooltip: {
+      trigger: "axis",
+      axisPointer: { type: "shadow" },
+      formatter: (params: any) =>
+        [
+          params[0].name,
+          ...params.map(
+            (item: any) =>
+              `${item.marker}${item.seriesName}: ${format(item.value)}`
+          ),
+        ].join("<br/>"),
+    },
+    legend: {
+      bottom: "0%",
+      left: "center",
+    },
+    grid: {
+      left: "3%",
+      right: "4%",
+      bottom: "12%",
+      containLabel: true,
+    },
+    xAxis: {
+      type: "category",
+      data: chartRows.map((row) => row.name),
+      axisLabel: {
+        rotate: chartRows.length > 5 ? 30 : 0,
+        interval: 0,
+        ...iconAxisLabel(chartRows, getCategoryIconImage),
+      },
+    },
+    yAxis: {
+      type: "value",
+      axisLabel: {
+        formatter: formatAxisValue,
+      },
+    },
+    series: [
+      {
+        name: previousLabel,
+        type: "bar",
+        data: chartRows.map((row) => row.previous),
+        itemStyle: { color: "#bfbfbf" },
+      },
+      {
+        name: currentLabel,
+        type: "bar",
+        data: chartRows.map((row) => ({
+          value: row.current,
+          itemStyle: { color: row.color || "#1890ff" },
+        })),
+        itemStyle: { color: "#1890ff" },
+      },
+    ],
+  };
+
+  const columns = [
+    {
+      title: "Name",
+      dataIndex: "name",
+      key: "name",
+      render: (name: string, record: ComparisonRow) => (
+        <span>
+          {record.color && (
+            <span
+              style={{
+                display: "inline-block",
+                width: 8,
+                height: 8,
+                borderRadius: "50%",
+                marginRight: 8,
+                background: record.color,
+              }}
+            />
+          )}
+          {record.icon && (
+            <span style={{ marginRight: 6 }}>
+              <CategoryIcon icon={record.icon} color={record.color} />
+            </span>
+          )}
+          {name}
+        </span>
+      ),
+    },
+    {
+      title: previousLabel,
+      dataIndex: "previous",
+      key: "previous",
+      align: "right" as const,
+      sorter: (a: ComparisonRow, b: ComparisonRow) => a.previous - b.previous,
+      render: (amount: number) => format(amount),
+    },
+    {
+      title: currentLabel,
+      dataIndex: "current",
+      key: "current",
+      align: "right" as const,
+      sorter: (a: ComparisonRow, b: ComparisonRow) => a.current - b.current,
+      render: (amount: number) => <Text strong>{format(amount)}</Text>,
+    },
+    {
+      title: "Change",
+      dataIndex: "delta",
+      key: "delta",
+      align: "right" as const,
+      sorter: (a: ComparisonRow, b: ComparisonRow) => a.delta - b.delta,
+      render: (delta: number, record: ComparisonRow) => (
+        <ChangeText
+          delta={delta}
+          change={record.change}
+          higherIsBetter={higherIsBetter}
+        />
+      ),
+    },
+  ];
+
+  return (
+    <Card title={title} loading={loading}>
+      {rows.length === 0 ? (
+        <Empty
+          image={Empty.PRESENTED_IMAGE_SIMPLE}
+          description="Nothing recorded in either period"
+        />
+      ) : (
+        <>
+          <ReactECharts option={chartOption} style={{ height: "320px" }} />
+          <Table
+            columns={columns}
+            dataSource={rows}
+            rowKey="key"
+            size="small"
+            pagination={{ pageSize: 10, hideOnSinglePage: true }}
+            scroll={{ x: 500 }}
+            style={{ marginTop: "16px" }}
+          />
+        </>
+      )}
+    </Card>
+  );
+};
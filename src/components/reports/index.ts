@@ -0,0 +1 @@
+export { PeriodComparisonCard, ChangeText } from "./PeriodComparisonCard";
@@ -0,0 +1,341 @@
+import React, { useState, useEffect } from "react";
+import {
+  Modal,
+  Form,
+  Input,
+  InputNumber,
+  Button,
+  Alert,
+  Space,
+  Radio,
+  Row,
+  Col,
+  Switch,
+  Typography,
+} from "antd";
+import { ExperimentOutlined } from "@ant-design/icons";
+import {
+  CategorizationRule,
+  Category,
+  RuleConditions,
+  RuleTransactionType,
+} from "../../types";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { CategoryTreeSelect } from "../categories";
+import { TagSelect } from "../tags";
+import {
+  compileRulePattern,
+  getRuleConditionsError,
+} from "../../utils/categorizationRules";
+import { RuleTestModal } from "./RuleTestModal";
+
+const { Text } = Typography;
+
+export interface RuleFormData {
+  name: string;
+  transactionType: RuleTransactionType;
+  conditions: RuleConditions;
+  categoryId?: string;
+  tagIds: string[];
+  autoApply: boolean;
+  enabled: boolean;
+}
+
+interface RuleFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: RuleFormData) => Promise<void>;
+  rule?: CategorizationRule;
+  categories: Category[];
+  isLoading?: boolean;
+}
+
+interface FormValues {
+  name: string;
+  transactionType: RuleTransactionType;
+  descriptionContains?: string;
+  descriptionRegex?: string;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  source?: string;
+  categoryId?: string;
+  tagIds?: string[];
+  autoApply: boolean;
+  enabled: boolean;
+}
+
+// Empty fields are left out so they don't count as conditions
+const toRuleFormData = (values: FormValues): RuleFormData => {
+  const isIncome = values.transactionType === "income";
+  const conditions: RuleConditions = {
+    descriptionContains: values.descriptionContains?.trim() || undefined,
+    descriptionRegex: values.descriptionRegex?.trim() || undefined,
+    minAmount: values.minAmount ?? undefined,
+    maxAmount: values.maxAmount ?? undefined,
+    source: (isIncome && values.source?.trim()) || undefined,
+  };
+  return {
+    name: values.name?.trim() || "",
+    transactionType: values.transactionType,
+    conditions,
+    categoryId: (!isIncome && values.categoryId) || undefined,
+    tagIds: values.tagIds || [],
+    autoApply: values.autoApply,
+    enabled: values.enabled,
+  };
+};
+
+export const RuleForm: React.FC<RuleFormProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  rule,
+  categories,
+  isLoading = false,
+}) => {
+  const { baseCurrency } = useCurrency();
+  const [form] = Form.useForm<FormValues>();
+  const [error, setError] = useState("");
+  const [testRule, setTestRule] = useState<RuleFormData>();
+  const transactionType = Form.useWatch("transactionType", form);
+
+  useEffect(() => {
+    if (rule) {
+      form.setFieldsValue({
+        name: rule.name,
+        transactionType: rule.transactionType,
+        descriptionContains: rule.conditions.descriptionContains,
+        descriptionRegex: rule.conditions.descriptionRegex,
+        minAmount: rule.conditions.minAmount ?? null,
+        maxAmount: rule.conditions.maxAmount ?? null,
+        source: rule.conditions.source,
+        categoryId: rule.categoryId,
+        tagIds: rule.tagIds || [],
+        autoApply: rule.autoApply,
+        enabled: rule.enabled,
+      });
+    } else {
+      form.setFieldsValue({
+        name: "",
+        transactionType: "expense",
+        descriptionContains: "",
+        descriptionRegex: "",
+        minAmount: null,
+        maxAmount: null,
+        source: "",
+        categoryId: undefined,
+        tagIds: [],
+        autoApply: false,
+        enabled: true,
+      });
+    }
+  }, [rule, form, isOpen]);
+
+  // Checked on submit and before testing, since conditions span several fields
+  const getDraftError = (data: RuleFormData) => {
+    const conditionsError = getRuleConditionsError(data.conditions);
+    if (conditionsError) return conditionsError;
+    if (!data.categoryId && data.tagIds.length === 0) {
+      return data.transactionType === "income"
+        ? "Pick at least one tag to add"
+        : "Pick a category or at least one tag to add";
+    }
+    return undefined;
+  };
+
+  const handleTest = () => {
+    const data = toRuleFormData(form.getFieldsValue(true));
+    const conditionsError = getRuleConditionsError(data.conditions);
+    if (conditionsError) {
+      setError(conditionsError);
+      return;
+    }
+    setError("");
+    setTestRule(data);
+  };
+
+  const handleSubmit = async (values: FormValues) => {
+    setError("");
+    const data = toRuleFormData(values);
+    const draftError = getDraftError(data);
+    if (draftError) {
+      setError(draftError);
+      return;
+    }
+
+    try {
+      await onSubmit(data);
+      form.resetFields();
+    } catch (error: any) {
+      setError(error.response?.data?.message || "Failed to save rule.");
+    }
+  };
+
+  const handleCancel = () => {
+    form.resetFields();
+    setError("");
+    onClose();
+  };
+
+  return (
+    <Modal
+      title={rule ? "Edit Rule" : "Add Rule"}
+      open={isOpen}
+      onCancel={handleCancel}
+      footer={null}
+      width={560}
+      destroyOnClose
+    >
+      {error && (
+        <Alert
+          message={error}
+          type="error"
+          style={{ marginBottom: 16 }}
+          closable
+          onClose={() => setError("")}
+        />
+      )}
+
+      <Form form={form} layout="vertical" onFinish={handleSubmit} size="large">
+        <Form.Item
+          name="name"
+          label="Name"
+          rules={[{ required: true, message: "Please enter a rule name" }]}
+        >
+          <Input placeholder="e.g., Supermarkets" />
+        </Form.Item>
+
+        <Form.Item name="transactionType" label="Applies to">
+          <Radio.Group>
+            <Radio.Button value="expense">Expenses</Radio.Button>
+            <Radio.Button value="income">Income</Radio.Button>
+          </Radio.Group>
+        </Form.Item>
+
+        <Text strong style={{ display: "block", marginBottom: 8 }}>
+          When every filled-in condition matches
+        </Text>
+
+        <Form.Item name="descriptionContains" label="Description contains">
+          <Input placeholder="e.g., tesco" />
+        </Form.Item>
+
+        <Form.Item
+          name="descriptionRegex"
+          label="Description matches (regular expression)"
+          rules={[
+            {
+              validator: (_, value) =>
+                !value || compileRulePattern(value)
+                  ? Promise.resolve()
+                  : Promise.reject(new Error("Not a valid regular expression")),
+            },
+          ]}
+        >
+          <Input placeholder="e.g., ^(uber|lyft)\b" />
+        </Form.Item>
+
+        <Row gutter={16}>
+          <Col span={12}>
+            <Form.Item name="minAmount" label={`Min amount (${baseCurrency})`}>
+              <InputNumber min={0} step={1} style={{ width: "100%" }} />
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item
+              name="maxAmount"
+              label={`Max amount (${baseCurrency})`}
+              dependencies={["minAmount"]}
+              rules={[
+                ({ getFieldValue }) => ({
+                  validator(_, value) {
+                    const minAmount = getFieldValue("minAmount");
+                    if (
+                      value === null ||
+                      value === undefined ||
+                      minAmount === null ||
+                      minAmount === undefined ||
+                      value >= minAmount
+                    ) {
+                      return Promise.resolve();
+                    }
+                    return Promise.reject(
+                      new Error("Max amount must be above the min amount")
+                    );
+                  },
+                }),
+              ]}
+            >
+              <InputNumber min={0} step={1} style={{ width: "100%" }} />
+            </Form.Item>
+          </Col>
+        </Row>
+
+        {transactionType === "income" && (
+          <Form.Item name="source" label="Source contains">
+            <Input placeholder="e.g., salary" />
+          </Form.Item>
+        )}
+
+        <Text strong style={{ display: "block", marginBottom: 8 }}>
+          Then
+        </Text>
+
+        {transactionType !== "income" && (
+          <Form.Item name="categoryId" label="Set category">
+            <CategoryTreeSelect
+              placeholder="Leave the category as it is"
+              categories={categories}
+              allowClear
+            />
+          </Form.Item>
+        )}
+
+        <Form.Item name="tagIds" label="Add tags">
+          <TagSelect placeholder="e.g., groceries, reimbursable" />
+        </Form.Item>
+
+        <Row gutter={16}>
+          <Col span={12}>
+            <Form.Item
+              name="autoApply"
+              label="Apply automatically"
+              valuePropName="checked"
+              extra="Otherwise it's offered as a suggestion"
+            >
+              <Switch />
+            </Form.Item>
+          </Col>
+          <Col span={12}>
+            <Form.Item name="enabled" label="Enabled" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          </Col>
+        </Row>
+
+        <Form.Item style={{ marginBottom: 0, paddingTop: 16 }}>
+          <Space style={{ width: "100%", justifyContent: "space-between" }}>
+            <Button icon={<ExperimentOutlined />} onClick={handleTest}>
+              Test against history
+            </Button>
+            <Space>
+              <Button onClick={handleCancel} disabled={isLoading}>
+                Cancel
+              </Button>
+              <Button type="primary" htmlType="submit" loading={isLoading}>
+                {rule ? "Update" : "Add"} Rule
+              </Button>
+            </Space>
+          </Space>
+        </Form.Item>
+      </Form>
+
+      <RuleTestModal
+        isOpen={!!testRule}
+        onClose={() => setTestRule(undefined)}
+        rule={testRule}
+        categories={categories}
+      />
+    </Modal>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  Modal,
+  Table,
+  Tag,
+  Space,
+  Typography,
+  Row,
+  Col,
+  Statistic,
+  Select,
+  Button,
+} from "antd";
+import dayjs from "dayjs";
+import { CategorizationRule, Category, Expense, Income } from "../../types";
+import { handleApiError } from "../../utils/errorHandler";
+import { fetchAllExpenses, fetchAllIncomes } from "../../utils/dataExport";
+import { useCurrency } from "../../contexts/CurrencyContext";
+import { getRecordCurrency } from "../../utils/currency";
+import {
+  RuleMatch,
+  describeRuleConditions,
+  testRuleAgainstHistory,
+} from "../../utils/categorizationRules";
+
+const { Text } = Typography;
+
+type TestedRule = Pick<
+  CategorizationRule,
+  "name" | "transactionType" | "conditions" | "categoryId" | "tagIds"
+>;
+
+interface RuleTestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rule?: TestedRule;
+  categories: Category[];
+}
+
+// Shows which past transactions a rule would catch without changing any
+export const RuleTestModal: React.FC<RuleTestModalProps> = ({
+  isOpen,
+  onClose,
+  rule,
+  categories,
+}) => {
+  const { toBase, format } = useCurrency();
+  const [months, setMonths] = useState(12);
+  const [history, setHistory] = useState<{
+    expenses: Expense[];
+    incomes: Income[];
+  }>({ expenses: [], incomes: [] });
+  const [loading, setLoading] = useState(false);
+  const transactionType = rule?.transactionType;
+
+  useEffect(() => {
+    if (!isOpen || !transactionType) return;
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        const filters = {
+          startDate: dayjs()
+            .subtract(months, "month")
+            .startOf("day")
+            .toISOString(),
+          endDate: dayjs().endOf("day").toISOString(),
+        };
+        const [expenses, incomes] = await Promise.all([
+          transactionType === "expense" ? fetchAllExpenses(filters) : [],
+          transactionType === "income" ? fetchAllIncomes(filters) : [],
+        ]);
+        if (!cancelled) setHistory({ expenses, incomes });
+      } catch (error: any) {
+        if (!cancelled) handleApiError(error, "fetch your history");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, transactionType, months]);
+
+  const matches = useMemo(
+    () => (rule ? testRuleAgainstHistory(rule, history, toBase) : []),
+    [rule, history, toBase]
+  );
+  const changeCount = matches.filter((match) => !match.unchanged).length;
+
+  const getCategoryName = (categoryId?: string) =>
+    categories.find((category) => category.id === categoryId)?.name ||
+    "Uncategorized";
+
+  const columns = [
+    {
+      title: "Date",
+      dataIndex: "date",
+      key: "date",
+      width: 120,
+      render: (date: string) => dayjs(date).format("MMM DD, YYYY"),
+    },
+    {
+      title: "Description",
+      dataIndex: "description",
+      key: "description",
+      ellipsis: true,
+    },
+    {
+      title: "Amount",
+      dataIndex: "amount",
+      key: "amount",
+      width: 110,
+      align: "right" as const,
+      render: (amount: number, record: RuleMatch) =>
+        format(amount, getRecordCurrency(record.currency)),
+    },
+    ...(transactionType === "expense"
+      ? [
+          {
+            title: "Current Category",
+            dataIndex: "currentCategoryId",
+            key: "currentCategoryId",
+            width: 150,
+            render: (categoryId?: string) => getCategoryName(categoryId),
+          },
+        ]
+      : []),
+    {
+      title: "Result",
+      dataIndex: "unchanged",
+      key: "unchanged",
+      width: 120,
+      render: (unchanged: boolean) =>
+        unchanged ? (
+          <Tag>Already filed</Tag>
+        ) : (
+          <Tag color="blue">Would change</Tag>
+        ),
+    },
+  ];
+
+  return (
+    <Modal
+      title={`Test "${rule?.name || "Untitled rule"}"`}
+      open={isOpen}
+      onCancel={onClose}
+      footer={<Button onClick={onClose}>Close</Button>}
+      width={800}
+      destroyOnClose
+    >
+      {rule && (
+        <Text type="secondary" style={{ display: "block", marginBottom: 16 }}>
+          Matches {rule.transactionType === "income" ? "income" : "expenses"}{" "}
+          where {describeRuleConditions(rule.conditions, format).join(" and ")}
+          {rule.categoryId &&
+            `, filing them under ${getCategoryName(rule.categoryId)}`}
+        </Text>
+      )}
+
+      <Row gutter={[16, 16]} style={{ marginBottom: 16 }} align="middle">
+        <Col xs={12} sm={8}>
+          <Statistic title="Matches" value={matches.length} loading={loading} />
+        </Col>
+        <Col xs={12} sm={8}>
+          <Statistic
+            title="Would change"
+            value={changeCount}
+            loading={loading}
+            valueStyle={{ color: changeCount > 0 ? "#1890ff" : undefined }}
+          />
+        </Col>
+        <Col xs={24} sm={8}>
+          <Space direction="vertical" size={4}>
+            <Text type="secondary">History checked</Text>
+            <Select
+              value={months}
+              onChange={setMonths}
+              style={{ width: 160 }}
+              options={[
+                { value: 3, label: "Last 3 months" },
+                { value: 6, label: "Last 6 months" },
+                { value: 12, label: "Last 12 months" },
+                { value: 24, label: "Last 24 months" },
+              ]}
+            />
+          </Space>
+        </Col>
+      </Row>
+
+      <Table
+        size="small"
+        rowKey="id"
+        columns={columns}
+        dataSource={matches}
+        loading={loading}
+        scroll={{ x: 600 }}
+        pagination={{ pageSize: 10, hideOnSinglePage: true }}
+      />
+    </Modal>
+  );
+};
@@ -0,0 +1,2 @@
+export { RuleForm } from "./RuleForm";
+export { RuleTestModal } from "./RuleTestModal";
@@ -0,0 +1,26 @@
+import React from "react";
+import { Tag as AntTag } from "antd";
+import { Tag } from "../../types";
+
+interface TagChipsProps {
+  tags?: Tag[];
+}
+
+export const TagChips: React.FC<TagChipsProps> = ({ tags = [] }) => {
+  if (tags.length === 0) return null;
+
+  return (
+    <>
+      {tags.map((tag) => (
+        <AntTag
+          key={tag.id}
+          color={tag.color}
+          bordered={false}
+          style={{ marginBottom: 4 }}
+        >
+          #{tag.name}
+        </AntTag>
+      ))}
+    </>
+  );
+};
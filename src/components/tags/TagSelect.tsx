@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from "react";
+import { Select, Space } from "antd";
+import type { SelectProps } from "antd";
+import { Tag } from "../../types";
+import { tagsApi } from "../../utils/api";
+import { handleApiError } from "../../utils/errorHandler";
+
+export const TAG_COLORS = [
+  "#1890ff",
+  "#52c41a",
+  "#faad14",
+  "#eb2f96",
+  "#722ed1",
+  "#13c2c2",
+  "#fa541c",
+  "#2f54eb",
+];
+
+interface TagSelectProps
+  extends Omit<SelectProps, "value" | "onChange" | "mode" | "options"> {
+  value?: string[];
+  onChange?: (tagIds: string[]) => void;
+  allowCreate?: boolean;
+}
+
+export const TagSelect: React.FC<TagSelectProps> = ({
+  value = [],
+  onChange,
+  allowCreate = true,
+  placeholder = "Add tags",
+  ...props
+}) => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        const response = await tagsApi.getTags();
+        if (response.success && Array.isArray(response.data)) {
+          setTags(response.data);
+        }
+      } catch (error) {
+        setTags([]);
+      }
+    };
+    fetchTags();
+  }, []);
+
+  // Typed values that are not tag ids become new tags (or reuse one by name)
+  const handleChange = async (values: string[]) => {
+    const known = new Set(tags.map((tag) => tag.id));
+    const typed = values.filter((item) => !known.has(item));
+    if (typed.length === 0) {
+      onChange?.(values);
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const created: Tag[] = [];
+      const resolved: Record<string, string> = {};
+      for (const name of typed) {
+        const trimmed = name.trim();
+        const existing = [...tags, ...created].find(
+          (tag) => tag.name.toLowerCase() === trimmed.toLowerCase()
+        );
+        if (existing) {
+          resolved[name] = existing.id;
+        } else if (trimmed) {
+          const response = await tagsApi.createTag({
+            name: trimmed,
+            color:
+              TAG_COLORS[(tags.length + created.length) % TAG_COLORS.length],
+          });
+          if (response.success && response.data) {
+            created.push(response.data);
+            resolved[name] = response.data.id;
+          }
+        }
+      }
+      setTags((current) => [...current, ...created]);
+      onChange?.(
+        Array.from(
+          new Set(
+            values
+              .map((item) => (known.has(item) ? item : resolved[item]))
+              .filter(Boolean)
+          )
+        )
+      );
+    } catch (error: any) {
+      handleApiError(error, "create tag");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Select
+      mode={allowCreate ? "tags" : "multiple"}
+      value={value}
+      onChange={handleChange}
+      loading={creating}
+      placeholder={placeholder}
+      optionFilterProp="label"
+      tokenSeparators={allowCreate ? [","] : undefined}
+      options={tags.map((tag) => ({ value: tag.id, label: tag.name }))}
+      optionRender={(option) => {
+        const tag = tags.find((item) => item.id === option.value);
+        return (
+          <Space>
+            <span
+              style={{
+                display: "inline-block",
+                width: 8,
+                height: 8,
+                borderRadius: "50%",
+                backgroundColor: tag?.color || "#d9d9d9",
+              }}
+            />
+            {option.label}
+          </Space>
+        );
+      }}
+      {...props}
+    />
+  );
+};
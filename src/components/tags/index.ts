@@ -0,0 +1,2 @@
+export { TagSelect } from "./TagSelect";
+export { TagChips } from "./TagChips";
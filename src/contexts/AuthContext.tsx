@@ -6,7 +6,26 @@ import React, {
   ReactNode,
 } from "react";
 import { User } from "../types";
-import { authApi } from "../utils/api";
+import { authApi, syncApi } from "../utils/api";
+import { clearOfflineStore, getQueuedMutations } from "../utils/offlineStore";
+
+// Thrown by logout while offline changes still haven't reached the server
+export class UnsyncedChangesError extends Error {
+  count: number;
+
+  constructor(count: number) {
+    super(`${count} offline change(s) haven't synced yet`);
+    this.count = count;
+  }
+}
+
+// Tries to send queued changes and returns how many are still left
+const syncBeforeLogout = async () => {
+  const queued = await getQueuedMutations().catch(() => []);
+  if (queued.length === 0) return 0;
+  if (navigator.onLine) await syncApi.replay().catch(() => undefined);
+  return (await getQueuedMutations().catch(() => [])).length;
+};
 
 interface AuthState {
   user: User | null;
@@ -51,7 +70,8 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
 interface AuthContextType extends AuthState {
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name: string) => Promise<void>;
-  logout: () => Promise<void>;
+  // Rejects with UnsyncedChangesError unless discardUnsynced is set
+  logout: (options?: { discardUnsynced?: boolean }) => Promise<void>;
   checkAuth: () => Promise<void>;
   updateUser: (user: User) => void;
 }
@@ -129,12 +149,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const logout = async () => {
+  const logout = async ({ discardUnsynced = false } = {}) => {
+    if (!discardUnsynced) {
+      const unsynced = await syncBeforeLogout();
+      if (unsynced > 0) throw new UnsyncedChangesError(unsynced);
+    }
+
     try {
       await authApi.logout();
     } catch (error) {
       // console.error("Logout error:", error);
     } finally {
+      // Cached data and unsynced changes belong to this user only
+      await clearOfflineStore().catch(() => undefined);
       dispatch({ type: "LOGOUT" });
     }
   };
@@ -0,0 +1,191 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  ReactNode,
+} from "react";
+import { toast } from "sonner";
+import { BudgetAlert } from "../types";
+import { useAuth } from "./AuthContext";
+import { budgetApi } from "../utils/api";
+import {
+  ActiveBudgetAlert,
+  BudgetAlertState,
+  getActiveAlerts,
+  getCrossedThreshold,
+  loadAlertSettings,
+  loadAlertState,
+  saveAlertSettings,
+  saveAlertState,
+} from "../utils/budgetAlerts";
+
+interface BudgetAlertContextType {
+  alerts: ActiveBudgetAlert[];
+  thresholds: number[];
+  setThresholds: (thresholds: number[]) => void;
+  // With notify, toasts for every budget that passed a new threshold
+  refreshAlerts: (options?: { notify?: boolean }) => Promise<void>;
+  dismissAlert: (alert: ActiveBudgetAlert) => void;
+  snoozeAlert: (alert: ActiveBudgetAlert, until: Date) => void;
+}
+
+const BudgetAlertContext = createContext<BudgetAlertContextType | undefined>(
+  undefined
+);
+
+export const useBudgetAlerts = () => {
+  const context = useContext(BudgetAlertContext);
+  if (context === undefined) {
+    throw new Error(
+      "useBudgetAlerts must be used within a BudgetAlertProvider"
+    );
+  }
+  return context;
+};
+
+interface BudgetAlertProviderProps {
+  children: ReactNode;
+}
+
+export const BudgetAlertProvider: React.FC<BudgetAlertProviderProps> = ({
+  children,
+}) => {
+  const { isAuthenticated, user } = useAuth();
+  const userId = user?.id;
+  const [budgetAlerts, setBudgetAlerts] = useState<BudgetAlert[]>([]);
+  const [thresholds, setThresholdsState] = useState(
+    () => loadAlertSettings(userId).thresholds
+  );
+  const [alertState, setAlertState] = useState<BudgetAlertState>(() =>
+    loadAlertState(userId)
+  );
+  const [alertUserId, setAlertUserId] = useState(userId);
+
+  // Restore the signed-in user's own settings whenever the user changes
+  if (userId !== alertUserId) {
+    setAlertUserId(userId);
+    setThresholdsState(loadAlertSettings(userId).thresholds);
+    setAlertState(loadAlertState(userId));
+  }
+
+  // Threshold each budget had reached at the last fetch
+  const reachedRef = useRef<Record<string, number | undefined>>({});
+
+  const refreshAlerts = useCallback(
+    async ({ notify = false }: { notify?: boolean } = {}) => {
+      if (thresholds.length === 0) {
+        setBudgetAlerts([]);
+        return;
+      }
+      try {
+        const response = await budgetApi.getBudgetAlerts({
+          threshold: Math.min(...thresholds),
+        });
+        const next = response.data || [];
+
+        next.forEach((alert) => {
+          const reached = getCrossedThreshold(alert.percentage, thresholds);
+          const previous = reachedRef.current[alert.budgetId];
+          if (
+            notify &&
+            reached !== undefined &&
+            (previous === undefined || reached > previous)
+          ) {
+            const message = `${alert.budgetName} is at ${Math.round(
+              alert.percentage
+            )}% of its budget`;
+            if (reached >= 100) {
+              toast.error(message);
+            } else {
+              toast.warning(message);
+            }
+          }
+        });
+
+        reachedRef.current = Object.fromEntries(
+          next.map((alert) => [
+            alert.budgetId,
+            getCrossedThreshold(alert.percentage, thresholds),
+          ])
+        );
+        setBudgetAlerts(next);
+      } catch (error) {
+        // Alerts are a background convenience; the budget page shows errors
+      }
+    },
+    [thresholds]
+  );
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      reachedRef.current = {};
+      setBudgetAlerts([]);
+      return;
+    }
+    refreshAlerts();
+
+    const handleSynced = () => refreshAlerts({ notify: true });
+    window.addEventListener("offline:synced", handleSynced);
+    return () => window.removeEventListener("offline:synced", handleSynced);
+  }, [isAuthenticated, refreshAlerts]);
+
+  const setThresholds = useCallback(
+    (next: number[]) => {
+      if (userId) saveAlertSettings(userId, { thresholds: next });
+      setThresholdsState(next);
+    },
+    [userId]
+  );
+
+  const updateAlertState = useCallback(
+    (budgetId: string, changes: BudgetAlertState[string]) => {
+      setAlertState((current) => {
+        const next = {
+          ...current,
+          [budgetId]: { ...current[budgetId], ...changes },
+        };
+        if (userId) saveAlertState(userId, next);
+        return next;
+      });
+    },
+    [userId]
+  );
+
+  const dismissAlert = useCallback(
+    (alert: ActiveBudgetAlert) =>
+      updateAlertState(alert.budgetId, {
+        dismissedThreshold: alert.threshold,
+      }),
+    [updateAlertState]
+  );
+
+  const snoozeAlert = useCallback(
+    (alert: ActiveBudgetAlert, until: Date) =>
+      updateAlertState(alert.budgetId, { snoozedUntil: until.toISOString() }),
+    [updateAlertState]
+  );
+
+  const alerts = useMemo(
+    () => getActiveAlerts(budgetAlerts, thresholds, alertState),
+    [budgetAlerts, thresholds, alertState]
+  );
+
+  const value: BudgetAlertContextType = {
+    alerts,
+    thresholds,
+    setThresholds,
+    refreshAlerts,
+    dismissAlert,
+    snoozeAlert,
+  };
+
+  return (
+    <BudgetAlertContext.Provider value={value}>
+      {children}
+    </BudgetAlertContext.Provider>
+  );
+};
@@ -0,0 +1,127 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useCallback,
+  useMemo,
+  useRef,
+  ReactNode,
+} from "react";
+import { ExchangeRateTable } from "../types";
+import { useAuth } from "./AuthContext";
+import {
+  DEFAULT_CURRENCY,
+  loadExchangeRates,
+  saveExchangeRates,
+  convertAmount,
+  formatMoney,
+  getRecordCurrency,
+  hasRate,
+} from "../utils/currency";
+
+interface CurrencyContextType {
+  baseCurrency: string;
+  exchangeRates: ExchangeRateTable;
+  setExchangeRates: (table: ExchangeRateTable) => void;
+  convert: (amount: number, from: string, to: string) => number;
+  toBase: (amount: number, currency?: string) => number;
+  format: (amount: number, currency?: string) => string;
+  // Currencies that were converted without a rate and so counted as-is
+  missingRates: string[];
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(
+  undefined
+);
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error("useCurrency must be used within a CurrencyProvider");
+  }
+  return context;
+};
+
+interface CurrencyProviderProps {
+  children: ReactNode;
+}
+
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({
+  children,
+}) => {
+  const { user } = useAuth();
+  const [exchangeRates, setRatesState] =
+    useState<ExchangeRateTable>(loadExchangeRates);
+  const baseCurrency = user?.baseCurrency || DEFAULT_CURRENCY;
+  const [usedCurrencies, setUsedCurrencies] = useState<string[]>([]);
+  const seenCurrencies = useRef(new Set<string>());
+
+  // Remembers every currency that goes through a conversion. Conversions run
+  // while rendering, so the state update waits until afterwards
+  const noteCurrencies = useCallback((...currencies: string[]) => {
+    const added = currencies.filter(
+      (currency) => !seenCurrencies.current.has(currency)
+    );
+    if (added.length === 0) return;
+    added.forEach((currency) => seenCurrencies.current.add(currency));
+    setTimeout(() => setUsedCurrencies(Array.from(seenCurrencies.current)));
+  }, []);
+
+  const setExchangeRates = useCallback((table: ExchangeRateTable) => {
+    saveExchangeRates(table);
+    setRatesState(table);
+  }, []);
+
+  const convert = useCallback(
+    (amount: number, from: string, to: string) => {
+      if (from !== to) noteCurrencies(from, to);
+      return convertAmount(amount, from, to, exchangeRates);
+    },
+    [exchangeRates, noteCurrencies]
+  );
+
+  const toBase = useCallback(
+    (amount: number, currency?: string) =>
+      convert(amount, getRecordCurrency(currency), baseCurrency),
+    [baseCurrency, convert]
+  );
+
+  const missingRates = useMemo(
+    () =>
+      usedCurrencies.filter((currency) => !hasRate(currency, exchangeRates)),
+    [usedCurrencies, exchangeRates]
+  );
+
+  const format = useCallback(
+    (amount: number, currency?: string) =>
+      formatMoney(amount, currency || baseCurrency),
+    [baseCurrency]
+  );
+
+  const value = useMemo(
+    () => ({
+      baseCurrency,
+      exchangeRates,
+      setExchangeRates,
+      convert,
+      toBase,
+      format,
+      missingRates,
+    }),
+    [
+      baseCurrency,
+      exchangeRates,
+      setExchangeRates,
+      convert,
+      toBase,
+      format,
+      missingRates,
+    ]
+  );
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
@@ -0,0 +1,144 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from "react";
+import { toast } from "sonner";
+import { useAuth } from "./AuthContext";
+import { syncApi } from "../utils/api";
+import { handleApiError } from "../utils/errorHandler";
+import {
+  QueuedMutation,
+  getQueuedMutations,
+  subscribeToOfflineStore,
+} from "../utils/offlineStore";
+
+interface SyncContextType {
+  isOnline: boolean;
+  syncing: boolean;
+  queue: QueuedMutation[];
+  syncNow: () => Promise<void>;
+  resolveMutation: (
+    mutation: QueuedMutation,
+    resolution: "keep-mine" | "discard"
+  ) => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export const useSync = () => {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error("useSync must be used within a SyncProvider");
+  }
+  return context;
+};
+
+// Pages listen for this to refetch once queued changes reach the server
+export const notifyOfflineSynced = () =>
+  window.dispatchEvent(new CustomEvent("offline:synced"));
+
+interface SyncProviderProps {
+  children: ReactNode;
+}
+
+export const SyncProvider: React.FC<SyncProviderProps> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const [isOnline, setIsOnline] = useState(
+    typeof navigator === "undefined" ? true : navigator.onLine
+  );
+  const [queue, setQueue] = useState<QueuedMutation[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setQueue(await getQueuedMutations());
+    } catch (error) {
+      setQueue([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+    return subscribeToOfflineStore(loadQueue);
+  }, [loadQueue]);
+
+  const syncNow = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+    try {
+      const result = await syncApi.replay();
+      if (result.applied > 0) {
+        toast.success(
+          `Synced ${result.applied} offline change${
+            result.applied === 1 ? "" : "s"
+          }`
+        );
+        notifyOfflineSynced();
+      }
+      if (result.conflicts > 0 || result.failed > 0) {
+        toast.warning(
+          `${
+            result.conflicts + result.failed
+          } offline change(s) need your attention`
+        );
+      }
+    } catch (error) {
+      handleApiError(error, "sync offline changes");
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, []);
+
+  const resolveMutation = useCallback(
+    async (mutation: QueuedMutation, resolution: "keep-mine" | "discard") => {
+      try {
+        await syncApi.resolve(mutation, resolution);
+        if (resolution === "keep-mine") {
+          toast.success("Your offline change was saved");
+          notifyOfflineSynced();
+        }
+      } catch (error) {
+        handleApiError(error, "resolve offline change");
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [syncNow]);
+
+  // Flush anything left over from a previous session once signed in
+  useEffect(() => {
+    if (isAuthenticated) syncNow();
+  }, [isAuthenticated, syncNow]);
+
+  const value: SyncContextType = {
+    isOnline,
+    syncing,
+    queue,
+    syncNow,
+    resolveMutation,
+  };
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+};
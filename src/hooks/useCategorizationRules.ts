@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from "react";
+import { CategorizationRule } from "../types";
+import { rulesApi } from "../utils/api";
+import { sortRules } from "../utils/categorizationRules";
+
+// The user's rules in priority order. Forms pass enabled only while open so
+// the rules are fresh each time without fetching on every page
+export const useCategorizationRules = (enabled = true) => {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await rulesApi.getRules();
+      setRules(sortRules(response.data || []));
+    } catch (error) {
+      // Rules only add suggestions; forms work the same without them
+      setRules([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  return { rules, loading, refresh };
+};
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { budgetApi, expensesApi, recurringApi, rulesApi } from "../utils/api";
+import { handleApiError } from "../utils/errorHandler";
+import { Category } from "../types";
+import { getDescendantIds } from "../utils/categoryTree";
+import { isInBudgetCategory } from "../utils/splits";
+
+export interface CategoryUsage {
+  expenses: number;
+  budgets: number;
+  recurring: number;
+  rules: number;
+}
+
+// How many records point at the categories, so deleting or merging them can
+// say what will move. Budgets count when they track spending in any of them,
+// a parent category's budget included
+export const useCategoryUsage = (
+  categoryIds: string[] | undefined,
+  categories: (Pick<Category, "id" | "name"> & Partial<Category>)[]
+) => {
+  const [usage, setUsage] = useState<CategoryUsage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const idsKey = categoryIds?.join(",") || "";
+
+  useEffect(() => {
+    setFailed(false);
+    if (!idsKey) {
+      setUsage(null);
+      return;
+    }
+    const ids = idsKey.split(",");
+    let cancelled = false;
+
+    const fetchUsage = async () => {
+      setLoading(true);
+      try {
+        // One row is enough: the server's total covers split lines too
+        const [
+          expensesResponse,
+          budgetsResponse,
+          recurringResponse,
+          rulesResponse,
+        ] = await Promise.all([
+          expensesApi.getExpenses({ categoryIds: idsKey, limit: 1 }),
+          budgetApi.getBudgets(),
+          recurringApi.getRecurring(),
+          rulesApi.getRules(),
+        ]);
+        if (cancelled) return;
+        setUsage({
+          expenses: expensesResponse.data?.total || 0,
+          budgets: (budgetsResponse.data || []).filter(
+            (budget) =>
+              !!budget.categoryId &&
+              ids.some((id) =>
+                isInBudgetCategory(
+                  {
+                    categoryId: budget.categoryId,
+                    categoryIds: getDescendantIds(
+                      categories,
+                      budget.categoryId!
+                    ),
+                  },
+                  id
+                )
+              )
+          ).length,
+          recurring: (recurringResponse.data || []).filter(
+            (item) => !!item.categoryId && ids.includes(item.categoryId)
+          ).length,
+          rules: (rulesResponse.data || []).filter(
+            (rule) => !!rule.categoryId && ids.includes(rule.categoryId)
+          ).length,
+        });
+      } catch (error: any) {
+        if (!cancelled) {
+          setUsage(null);
+          setFailed(true);
+          handleApiError(error, "fetch category usage");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchUsage();
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey, categories]);
+
+  const inUse =
+    !!usage &&
+    usage.expenses + usage.budgets + usage.recurring + usage.rules > 0;
+
+  // Callers should assume the category is in use when this is set
+  return { usage, loading, inUse, failed };
+};
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from "react";
+import { DashboardWidgetLayout } from "../types";
+import { useAuth } from "../contexts/AuthContext";
+import { userApi } from "../utils/api";
+import {
+  DEFAULT_DASHBOARD_LAYOUT,
+  isNewerDashboardLayout,
+  loadDashboardLayout,
+  normalizeDashboardLayout,
+  saveDashboardLayout,
+} from "../utils/dashboardLayout";
+
+// The layout saved on the profile follows the user across devices, unless
+// the local copy is newer because its save never reached the server
+const getInitialLayout = (user: ReturnType<typeof useAuth>["user"]) => {
+  if (!user) return DEFAULT_DASHBOARD_LAYOUT;
+  const local = loadDashboardLayout(user.id);
+  const server = normalizeDashboardLayout(user.dashboardLayout);
+  if (
+    local &&
+    (!server ||
+      isNewerDashboardLayout(local.updatedAt, user.dashboardLayoutUpdatedAt))
+  ) {
+    return local.layout;
+  }
+  return server || DEFAULT_DASHBOARD_LAYOUT;
+};
+
+export const useDashboardLayout = () => {
+  const { user, updateUser } = useAuth();
+  const [layout, setLayoutState] = useState(() => getInitialLayout(user));
+  const [layoutUserId, setLayoutUserId] = useState(user?.id);
+
+  // Restore whenever a different user signs in
+  if (user?.id !== layoutUserId) {
+    setLayoutUserId(user?.id);
+    setLayoutState(getInitialLayout(user));
+  }
+
+  const pushLayout = useCallback(
+    async (next: DashboardWidgetLayout[], updatedAt: string) => {
+      if (!user) return;
+      try {
+        await userApi.updateDashboardLayout(next, updatedAt);
+        updateUser({
+          ...user,
+          dashboardLayout: next,
+          dashboardLayoutUpdatedAt: updatedAt,
+        });
+      } catch (error) {
+        // Kept locally and pushed again on the next visit or save
+      }
+    },
+    [user, updateUser]
+  );
+
+  // Bring the server up to date with a local save it never received
+  useEffect(() => {
+    if (!user) return;
+    const local = loadDashboardLayout(user.id);
+    if (
+      local?.updatedAt &&
+      isNewerDashboardLayout(local.updatedAt, user.dashboardLayoutUpdatedAt)
+    ) {
+      pushLayout(local.layout, local.updatedAt);
+    }
+  }, [user, pushLayout]);
+
+  const setLayout = useCallback(
+    async (next: DashboardWidgetLayout[]) => {
+      setLayoutState(next);
+      if (!user) return;
+      const updatedAt = new Date().toISOString();
+      saveDashboardLayout(user.id, next, updatedAt);
+      await pushLayout(next, updatedAt);
+    },
+    [user, pushLayout]
+  );
+
+  const resetLayout = useCallback(
+    () => setLayout(DEFAULT_DASHBOARD_LAYOUT),
+    [setLayout]
+  );
+
+  return { layout, setLayout, resetLayout };
+};
@@ -0,0 +1,33 @@
+import { useEffect, useRef, useState } from "react";
+
+const SEARCH_DELAY = 300;
+
+// The search box updates as the user types, but onSearch (which writes the
+// URL and so refetches) only runs once typing pauses
+export const useDebouncedSearch = (
+  value: string,
+  onSearch: (value: string) => void
+) => {
+  const [input, setInput] = useState(value);
+  // The last value handed to onSearch, so our own update isn't mistaken for
+  // an outside change (back button, shared link) and doesn't reset the box
+  const sent = useRef(value);
+
+  useEffect(() => {
+    if (value !== sent.current) {
+      sent.current = value;
+      setInput(value);
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (input === sent.current) return;
+    const timer = setTimeout(() => {
+      sent.current = input;
+      onSearch(input);
+    }, SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [input, onSearch]);
+
+  return [input, setInput] as const;
+};
@@ -0,0 +1,82 @@
+import { useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+import type {
+  SorterResult,
+  SortOrder as ColumnSortOrder,
+} from "antd/es/table/interface";
+import { SortOrder } from "../types";
+
+export const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+const DEFAULT_PAGE_SIZE = 10;
+
+type QueryValue = string | number | null | undefined;
+
+// Table state (page, size, sort and filters) lives in the URL query string
+// so it survives reloads and can be shared as a link
+export const useTableQuery = <S extends string>(sortFields: readonly S[]) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const page = Math.max(1, Math.floor(Number(searchParams.get("page")) || 1));
+  const requestedSize = Number(searchParams.get("pageSize"));
+  const pageSize = PAGE_SIZE_OPTIONS.includes(requestedSize)
+    ? requestedSize
+    : DEFAULT_PAGE_SIZE;
+
+  const sortParam = searchParams.get("sortBy") as S | null;
+  const sortBy =
+    sortParam && sortFields.includes(sortParam) ? sortParam : undefined;
+  const sortOrder: SortOrder | undefined = sortBy
+    ? searchParams.get("sortOrder") === "asc"
+      ? "asc"
+      : "desc"
+    : undefined;
+
+  const getParam = useCallback(
+    (key: string) => searchParams.get(key) || undefined,
+    [searchParams]
+  );
+
+  // Any change other than paging sends the user back to the first page
+  const setParams = useCallback(
+    (changes: Record<string, QueryValue>) => {
+      setSearchParams(
+        (current) => {
+          const next = new URLSearchParams(current);
+          Object.entries(changes).forEach(([key, value]) => {
+            if (value === undefined || value === null || value === "") {
+              next.delete(key);
+            } else {
+              next.set(key, String(value));
+            }
+          });
+          if (!("page" in changes)) next.delete("page");
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  return { page, pageSize, sortBy, sortOrder, getParam, setParams };
+};
+
+export const toColumnSortOrder = (
+  field: string,
+  sortBy?: string,
+  sortOrder?: SortOrder
+): ColumnSortOrder =>
+  sortBy === field ? (sortOrder === "asc" ? "ascend" : "descend") : null;
+
+export const fromTableSorter = <T>(
+  sorter: SorterResult<T> | SorterResult<T>[]
+) => {
+  const active = Array.isArray(sorter) ? sorter[0] : sorter;
+  if (!active?.order || !active.columnKey) {
+    return { sortBy: undefined, sortOrder: undefined };
+  }
+  return {
+    sortBy: String(active.columnKey),
+    sortOrder: (active.order === "ascend" ? "asc" : "desc") as SortOrder,
+  };
+};
@@ -2,6 +2,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
+import * as serviceWorkerRegistration from './serviceWorkerRegistration';
 import reportWebVitals from './reportWebVitals';
 
 const root = ReactDOM.createRoot(
@@ -13,6 +14,12 @@ root.render(
   </React.StrictMode>
 );
 
+// Caches the app shell for offline use and installability, and offers a
+// reload when a newer build has been deployed
+serviceWorkerRegistration.register({
+  onUpdate: serviceWorkerRegistration.promptForUpdate,
+});
+
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
 // or send to an analytics endpoint. Learn more: https://bit.ly/CRA-vitals
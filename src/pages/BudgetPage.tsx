@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import {
   Card,
   Table,
@@ -14,29 +14,78 @@ import {
   Progress,
   Row,
   Col,
+  Radio,
+  Switch,
+  Tag,
+  Tooltip,
+  Typography,
 } from "antd";
 import {
   PlusOutlined,
   EditOutlined,
   DeleteOutlined,
-  DollarOutlined,
   WarningOutlined,
+  SyncOutlined,
 } from "@ant-design/icons";
 import { toast } from "sonner";
 import { Layout } from "../components/layout";
-import { api } from "../utils/api";
+import { api, budgetApi, categoriesApi } from "../utils/api";
 import { handleApiError } from "../utils/errorHandler";
+import { ExportButton } from "../components/export";
+import { toBudgetRows } from "../utils/dataExport";
+import { useCurrency } from "../contexts/CurrencyContext";
+import { useBudgetAlerts } from "../contexts/BudgetAlertContext";
+import { getBudgetSpent, getRecordCurrency } from "../utils/currency";
+import { fetchExpensesInRanges } from "../utils/dataExport";
+import {
+  addBudgetSpending,
+  getBudgetSpendingRange,
+} from "../utils/budgetSpending";
+import { CategoryIcon, CategoryTreeSelect } from "../components/categories";
+import { CurrencySelect } from "../components/currency";
+import { RolloverHistory } from "../components/budget";
+import { ROLLOVER_POLICY_LABELS } from "../utils/budgetRollover";
+import {
+  budgetPeriodLabels,
+  getCurrentPeriodWindow,
+  getPeriodEnd,
+  renewExpiredBudgets,
+} from "../utils/budgetPeriods";
+import {
+  BudgetMode,
+  BudgetPeriod,
+  BudgetPeriodSummary,
+  RolloverPolicy,
+} from "../types";
+import { BudgetForecast } from "../utils/forecast";
 import dayjs from "dayjs";
 
+const { Text } = Typography;
+
+// Flag budgets when the projection says they're more likely than not to overrun
+const LIKELY_OVERRUN_PROBABILITY = 0.5;
+
 interface Budget {
   id: string;
   name: string;
   amount: number;
+  currency?: string;
   spent: number;
+  spentByCurrency?: Record<string, number>;
   categoryId?: string;
+  categoryIds?: string[];
   startDate: string;
   endDate: string;
   isActive: boolean;
+  period?: BudgetPeriod;
+  autoRenew?: boolean;
+  mode?: BudgetMode;
+  rolloverPolicy?: RolloverPolicy;
+  rolloverCap?: number;
+  previousBudgetId?: string;
+  carriedIn?: number;
+  history?: BudgetPeriodSummary[];
+  forecast?: BudgetForecast;
   createdAt: string;
   category?: {
     id: string;
@@ -47,32 +96,95 @@ interface Budget {
 interface Category {
   id: string;
   name: string;
+  icon?: string;
+  color?: string;
+  parentId?: string | null;
 }
 
+// Spending is recalculated from the expenses so splits count correctly
+const withSplitSpending = async (
+  budgetList: Budget[],
+  convert: (amount: number, from: string, to: string) => number
+) => {
+  if (budgetList.length === 0) return budgetList;
+  const today = dayjs();
+  const [expenses, categoriesResponse] = await Promise.all([
+    fetchExpensesInRanges([getBudgetSpendingRange(budgetList, today)]),
+    categoriesApi.getCategories(),
+  ]);
+  return addBudgetSpending(
+    budgetList,
+    expenses,
+    categoriesResponse.data || [],
+    convert,
+    today
+  );
+};
+
 export const BudgetPage: React.FC = () => {
+  const { baseCurrency, convert, toBase, format } = useCurrency();
+  const { refreshAlerts } = useBudgetAlerts();
   const [budgets, setBudgets] = useState<Budget[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(false);
   const [modalOpen, setModalOpen] = useState(false);
   const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
   const [form] = Form.useForm();
+  const mode = Form.useWatch("mode", form);
+  const rolloverPolicy = Form.useWatch("rolloverPolicy", form);
+  // Overlapping fetches (StrictMode, currency changes) share one renewal run
+  const renewing = useRef<Promise<number> | null>(null);
 
-  useEffect(() => {
-    fetchBudgets();
-    fetchCategories();
-  }, []);
-
-  const fetchBudgets = async () => {
+  const fetchBudgets = useCallback(async () => {
     try {
       setLoading(true);
       const response = await api.get("/budget");
-      setBudgets(response.data.data || []);
+      let budgetList = await withSplitSpending(
+        response.data.data || [],
+        convert
+      );
+
+      // Runs on the enriched list so envelopes can hand on their carry-over
+      const startsRenewal = !renewing.current;
+      if (!renewing.current) {
+        renewing.current = renewExpiredBudgets(budgetList).finally(() => {
+          renewing.current = null;
+        });
+      }
+      const renewed = await renewing.current.catch((error) => {
+        if (startsRenewal) handleApiError(error, "renew budgets");
+        return 0;
+      });
+      if (renewed > 0) {
+        if (startsRenewal) {
+          toast.success(
+            `Started a new period for ${renewed} budget${
+              renewed === 1 ? "" : "s"
+            }`
+          );
+        }
+        const refreshed = await api.get("/budget");
+        budgetList = await withSplitSpending(
+          refreshed.data.data || [],
+          convert
+        );
+      }
+
+      setBudgets(budgetList);
     } catch (error: any) {
       handleApiError(error, "fetch budgets");
     } finally {
       setLoading(false);
     }
-  };
+  }, [convert]);
+
+  useEffect(() => {
+    fetchBudgets();
+  }, [fetchBudgets]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
 
   const fetchCategories = async () => {
     try {
@@ -103,6 +215,7 @@ export const BudgetPage: React.FC = () => {
       setEditingBudget(null);
       form.resetFields();
       fetchBudgets();
+      refreshAlerts();
     } catch (error: any) {
       handleApiError(error, "save budget");
     }
@@ -112,6 +225,11 @@ export const BudgetPage: React.FC = () => {
     setEditingBudget(budget);
     form.setFieldsValue({
       ...budget,
+      currency: getRecordCurrency(budget.currency),
+      period: budget.period || "monthly",
+      autoRenew: !!budget.autoRenew,
+      mode: budget.mode || "standard",
+      rolloverPolicy: budget.rolloverPolicy || "full",
       startDate: dayjs(budget.startDate),
       endDate: dayjs(budget.endDate),
     });
@@ -123,11 +241,48 @@ export const BudgetPage: React.FC = () => {
       await api.delete(`/budget/${id}`);
       toast.success("Budget deleted successfully");
       fetchBudgets();
+      refreshAlerts();
     } catch (error: any) {
       handleApiError(error, "delete budget");
     }
   };
 
+  // Picking a period fills in its dates; moving the start keeps the length
+  const handleValuesChange = (changed: Record<string, any>, values: any) => {
+    if ("period" in changed) {
+      const window =
+        editingBudget && values.startDate
+          ? {
+              startDate: values.startDate,
+              endDate: getPeriodEnd(values.startDate, changed.period),
+            }
+          : getCurrentPeriodWindow(changed.period);
+      form.setFieldsValue(window);
+    } else if ("startDate" in changed && changed.startDate) {
+      form.setFieldsValue({
+        endDate: getPeriodEnd(changed.startDate, values.period),
+      });
+    }
+  };
+
+  const getExportSheets = async () => {
+    const response = await budgetApi.getBudgets();
+    return [
+      { name: "Budgets", rows: toBudgetRows(response.data || [], categories) },
+    ];
+  };
+
+  const getSpent = (budget: Budget) => getBudgetSpent(budget, convert);
+
+  // Envelope budgets are measured against the current period, carry-over included
+  const getBudgetFigures = (budget: Budget) => {
+    const current =
+      budget.mode === "envelope" ? budget.history?.slice(-1)[0] : undefined;
+    return current
+      ? { spent: current.spent, limit: current.available, current }
+      : { spent: getSpent(budget), limit: budget.amount, current };
+  };
+
   const getProgressStatus = (spent: number, amount: number) => {
     const percentage = (spent / amount) * 100;
     if (percentage >= 100) return "exception";
@@ -147,39 +302,137 @@ export const BudgetPage: React.FC = () => {
       title: "Name",
       dataIndex: "name",
       key: "name",
+      render: (name: string, record: Budget) => (
+        <Space size="small">
+          {name}
+          {record.mode === "envelope" && <Tag color="purple">Envelope</Tag>}
+        </Space>
+      ),
     },
     {
       title: "Category",
       dataIndex: "category",
       key: "category",
-      render: (category: any) => category?.name || "All Categories",
+      render: (category: any, record: Budget) => {
+        if (!category) return "All Categories";
+        const listed = categories.find((item) => item.id === record.categoryId);
+        return (
+          <Space size="small">
+            <CategoryIcon
+              icon={listed?.icon || category.icon}
+              color={listed?.color || category.color}
+            />
+            {category.name}
+            {record.categoryIds && record.categoryIds.length > 1 && (
+              <Tooltip title="Spending in its subcategories counts too">
+                <Tag>+{record.categoryIds.length - 1} sub</Tag>
+              </Tooltip>
+            )}
+          </Space>
+        );
+      },
+    },
+    {
+      title: "Period",
+      dataIndex: "period",
+      key: "period",
+      render: (period: BudgetPeriod | undefined, record: Budget) => (
+        <Space direction="vertical" size={0}>
+          <Space size="small">
+            {budgetPeriodLabels[period || "monthly"]}
+            {record.autoRenew && (
+              <Tooltip title="Renews automatically">
+                <SyncOutlined style={{ color: "#1890ff" }} />
+              </Tooltip>
+            )}
+          </Space>
+          <Text type="secondary" style={{ fontSize: "12px" }}>
+            {dayjs(record.startDate).format("MMM DD")} -{" "}
+            {dayjs(record.endDate).format("MMM DD, YYYY")}
+          </Text>
+        </Space>
+      ),
     },
     {
       title: "Budget Amount",
       dataIndex: "amount",
       key: "amount",
-      render: (amount: number) => `$${amount.toFixed(2)}`,
+      render: (amount: number, record: Budget) => {
+        const { current } = getBudgetFigures(record);
+        return (
+          <Space direction="vertical" size={0}>
+            {format(amount, getRecordCurrency(record.currency))}
+            {current && current.carriedIn !== 0 && (
+              <Text
+                type={current.carriedIn < 0 ? "danger" : "success"}
+                style={{ fontSize: "12px" }}
+              >
+                {current.carriedIn > 0 ? "+" : ""}
+                {format(
+                  current.carriedIn,
+                  getRecordCurrency(record.currency)
+                )}{" "}
+                carried in
+              </Text>
+            )}
+          </Space>
+        );
+      },
     },
     {
       title: "Spent",
       dataIndex: "spent",
       key: "spent",
-      render: (spent: number) => `$${(spent || 0).toFixed(2)}`,
+      render: (_: number, record: Budget) =>
+        format(
+          getBudgetFigures(record).spent,
+          getRecordCurrency(record.currency)
+        ),
     },
     {
       title: "Progress",
       key: "progress",
       render: (record: Budget) => {
-        const spent = record.spent || 0;
-        const percentage = Math.min((spent / record.amount) * 100, 100);
+        const { spent, limit } = getBudgetFigures(record);
+        // An envelope can start a period at or below zero after overspending
+        const percentage =
+          limit > 0 ? Math.min((spent / limit) * 100, 100) : 100;
+        const { forecast } = record;
+        const likelyOverrun =
+          forecast &&
+          spent <= limit &&
+          forecast.exceedProbability >= LIKELY_OVERRUN_PROBABILITY;
         return (
-          <Progress
-            percent={Math.round(percentage * 100) / 100} // Round to 2 decimal places
-            size="small"
-            status={getProgressStatus(spent, record.amount)}
-            strokeColor={getProgressColor(spent, record.amount)}
-            format={(percent) => `${(percent || 0).toFixed(2)}%`}
-          />
+          <>
+            <Progress
+              percent={Math.round(percentage * 100) / 100} // Round to 2 decimal places
+              size="small"
+              status={getProgressStatus(spent, limit)}
+              strokeColor={getProgressColor(spent, limit)}
+              format={(percent) => `${(percent || 0).toFixed(2)}%`}
+            />
+            {likelyOverrun && (
+              <Tooltip
+                title={`Projected ${format(
+                  forecast.projected,
+                  record.currency
+                )} by ${dayjs(
+                  record.history?.slice(-1)[0]?.endDate || record.endDate
+                ).format("MMM DD")} (likely ${format(
+                  forecast.low,
+                  record.currency
+                )} - ${format(
+                  forecast.high,
+                  getRecordCurrency(record.currency)
+                )})`}
+              >
+                <Text type="warning" style={{ fontSize: "12px" }}>
+                  <WarningOutlined /> Likely to exceed (
+                  {Math.round(forecast.exceedProbability * 100)}%)
+                </Text>
+              </Tooltip>
+            )}
+          </>
         );
       },
     },
@@ -214,14 +467,20 @@ export const BudgetPage: React.FC = () => {
     },
   ];
 
-  const totalBudget = budgets.reduce((sum, budget) => sum + budget.amount, 0);
+  const totalBudget = budgets.reduce(
+    (sum, budget) =>
+      sum + toBase(getBudgetFigures(budget).limit, budget.currency),
+    0
+  );
   const totalSpent = budgets.reduce(
-    (sum, budget) => sum + (budget.spent || 0),
+    (sum, budget) =>
+      sum + toBase(getBudgetFigures(budget).spent, budget.currency),
     0
   );
-  const overBudgetCount = budgets.filter(
-    (budget) => (budget.spent || 0) > budget.amount
-  ).length;
+  const overBudgetCount = budgets.filter((budget) => {
+    const { spent, limit } = getBudgetFigures(budget);
+    return spent > limit;
+  }).length;
 
   return (
     <Layout>
@@ -238,8 +497,7 @@ export const BudgetPage: React.FC = () => {
                 <Statistic
                   title="Total Budget"
                   value={totalBudget}
-                  prefix={<DollarOutlined />}
-                  precision={2}
+                  formatter={(value) => format(Number(value))}
                 />
               </Card>
             </Col>
@@ -248,8 +506,7 @@ export const BudgetPage: React.FC = () => {
                 <Statistic
                   title="Total Spent"
                   value={totalSpent}
-                  prefix={<DollarOutlined />}
-                  precision={2}
+                  formatter={(value) => format(Number(value))}
                   valueStyle={{
                     color: totalSpent > totalBudget ? "#cf1322" : "#3f8600",
                   }}
@@ -270,17 +527,26 @@ export const BudgetPage: React.FC = () => {
             </Col>
           </Row>
 
-          <Button
-            type="primary"
-            icon={<PlusOutlined />}
-            onClick={() => {
-              setEditingBudget(null);
-              form.resetFields();
-              setModalOpen(true);
-            }}
-          >
-            Add Budget
-          </Button>
+          <Space>
+            <Button
+              type="primary"
+              icon={<PlusOutlined />}
+              onClick={() => {
+                setEditingBudget(null);
+                form.resetFields();
+                form.setFieldsValue({
+                  currency: baseCurrency,
+                  period: "monthly",
+                  autoRenew: true,
+                  ...getCurrentPeriodWindow("monthly"),
+                });
+                setModalOpen(true);
+              }}
+            >
+              Add Budget
+            </Button>
+            <ExportButton getSheets={getExportSheets} fileName="budgets" />
+          </Space>
         </div>
 
         <Card>
@@ -290,6 +556,16 @@ export const BudgetPage: React.FC = () => {
             rowKey="id"
             loading={loading}
             scroll={{ x: 800 }}
+            expandable={{
+              rowExpandable: (record) =>
+                record.mode === "envelope" && !!record.history?.length,
+              expandedRowRender: (record) => (
+                <RolloverHistory
+                  history={record.history || []}
+                  currency={getRecordCurrency(record.currency)}
+                />
+              ),
+            }}
           />
         </Card>
 
@@ -303,7 +579,12 @@ export const BudgetPage: React.FC = () => {
           }}
           footer={null}
         >
-          <Form form={form} layout="vertical" onFinish={handleSubmit}>
+          <Form
+            form={form}
+            layout="vertical"
+            onFinish={handleSubmit}
+            onValuesChange={handleValuesChange}
+          >
             <Form.Item
               name="name"
               label="Budget Name"
@@ -324,20 +605,111 @@ export const BudgetPage: React.FC = () => {
                 placeholder="0.00"
                 min={0}
                 precision={2}
-                prefix="$"
+                addonAfter={
+                  <Form.Item name="currency" noStyle>
+                    <CurrencySelect variant="borderless" />
+                  </Form.Item>
+                }
               />
             </Form.Item>
 
             <Form.Item name="categoryId" label="Category">
-              <Select placeholder="Select category (optional)" allowClear>
-                {categories.map((category) => (
-                  <Select.Option key={category.id} value={category.id}>
-                    {category.name}
-                  </Select.Option>
-                ))}
-              </Select>
+              <CategoryTreeSelect
+                placeholder="Select category (optional)"
+                allowClear
+                categories={categories}
+              />
             </Form.Item>
 
+            <Row gutter={16}>
+              <Col span={12}>
+                <Form.Item
+                  name="period"
+                  label="Period"
+                  rules={[
+                    { required: true, message: "Please select a period" },
+                  ]}
+                >
+                  <Select
+                    options={(
+                      Object.keys(budgetPeriodLabels) as BudgetPeriod[]
+                    ).map((period) => ({
+                      value: period,
+                      label: budgetPeriodLabels[period],
+                    }))}
+                  />
+                </Form.Item>
+              </Col>
+              <Col span={12}>
+                <Form.Item
+                  name="autoRenew"
+                  label="Renew Automatically"
+                  valuePropName="checked"
+                  tooltip="Creates the next period's budget when this one ends"
+                >
+                  <Switch />
+                </Form.Item>
+              </Col>
+            </Row>
+
+            <Form.Item
+              name="mode"
+              label="Budget Mode"
+              initialValue="standard"
+              extra={
+                mode === "envelope"
+                  ? "Unused or overspent money moves into the next period."
+                  : undefined
+              }
+            >
+              <Radio.Group
+                optionType="button"
+                options={[
+                  { label: "Standard", value: "standard" },
+                  { label: "Envelope", value: "envelope" },
+                ]}
+              />
+            </Form.Item>
+
+            {mode === "envelope" && (
+              <Row gutter={16}>
+                <Col span={12}>
+                  <Form.Item
+                    name="rolloverPolicy"
+                    label="Rollover"
+                    initialValue="full"
+                  >
+                    <Select
+                      options={(
+                        Object.keys(ROLLOVER_POLICY_LABELS) as RolloverPolicy[]
+                      ).map((policy) => ({
+                        value: policy,
+                        label: ROLLOVER_POLICY_LABELS[policy],
+                      }))}
+                    />
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  {rolloverPolicy === "capped" && (
+                    <Form.Item
+                      name="rolloverCap"
+                      label="Rollover Cap"
+                      rules={[
+                        { required: true, message: "Please enter a cap" },
+                      ]}
+                    >
+                      <InputNumber
+                        style={{ width: "100%" }}
+                        placeholder="0.00"
+                        min={0}
+                        precision={2}
+                      />
+                    </Form.Item>
+                  )}
+                </Col>
+              </Row>
+            )}
+
             <Row gutter={16}>
               <Col span={12}>
                 <Form.Item
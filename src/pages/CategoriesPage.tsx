@@ -1,34 +1,54 @@
 import React, { useState, useEffect } from "react";
 import {
   Card,
-  Table,
+  Tree,
   Button,
   Space,
   Modal,
   Form,
   Input,
-  Popconfirm,
+  Spin,
   Tag,
+  Tooltip,
   Typography,
 } from "antd";
+import type { TreeProps } from "antd";
+import type { DataNode } from "antd/es/tree";
 import {
   PlusOutlined,
   EditOutlined,
   DeleteOutlined,
+  MergeCellsOutlined,
   FolderOutlined,
   ReloadOutlined,
 } from "@ant-design/icons";
 import { toast } from "sonner";
 import { Layout } from "../components/layout";
-import { api } from "../utils/api";
+import { api, categoriesApi } from "../utils/api";
 import { handleApiError } from "../utils/errorHandler";
+import { moveCategoryReferences } from "../utils/categoryReassignment";
+import {
+  CategoryTree,
+  buildCategoryTree,
+  canReparent,
+  getDescendantIds,
+} from "../utils/categoryTree";
+import {
+  CategoryDeleteForm,
+  CategoryIcon,
+  CategoryIconPicker,
+  CategoryMergeForm,
+  CategoryTreeSelect,
+} from "../components/categories";
 
-const { Title, Paragraph } = Typography;
+const { Title, Paragraph, Text } = Typography;
 
 interface Category {
   id: string;
   name: string;
+  icon?: string;
   color: string;
+  parentId?: string | null;
   userId?: string;
   createdAt: string;
   updatedAt: string;
@@ -39,7 +59,15 @@ export const CategoriesPage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [modalOpen, setModalOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [expandedKeys, setExpandedKeys] = useState<React.Key[]>([]);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(
+    null
+  );
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [mergeSourceId, setMergeSourceId] = useState<string>();
+  const [submitting, setSubmitting] = useState(false);
   const [form] = Form.useForm();
+  const color = Form.useWatch("color", form);
 
   useEffect(() => {
     fetchCategories();
@@ -50,7 +78,9 @@ export const CategoriesPage: React.FC = () => {
       setLoading(true);
       const response = await api.get("/categories");
       // console.log("Categories API response:", response.data);
-      setCategories(response.data.data || []);
+      const categoryList: Category[] = response.data.data || [];
+      setCategories(categoryList);
+      setExpandedKeys(categoryList.map((category) => category.id));
     } catch (error: any) {
       handleApiError(error, "fetch categories");
     } finally {
@@ -62,7 +92,9 @@ export const CategoriesPage: React.FC = () => {
     try {
       const categoryData = {
         name: values.name,
+        icon: values.icon || "",
         color: values.color || "#1890ff",
+        parentId: values.parentId || null,
       };
 
       if (editingCategory) {
@@ -86,97 +118,201 @@ export const CategoriesPage: React.FC = () => {
     setEditingCategory(category);
     form.setFieldsValue({
       name: category.name,
+      icon: category.icon || undefined,
       color: category.color,
+      parentId: category.parentId || undefined,
     });
     setModalOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
+  const openCreate = (parentId?: string) => {
+    setEditingCategory(null);
+    form.resetFields();
+    form.setFieldsValue({ parentId });
+    setModalOpen(true);
+  };
+
+  const getCategoryName = (id?: string) =>
+    categories.find((category) => category.id === id)?.name || "";
+
+  // The category is already gone by now, so a failure here is only reported
+  const moveReferences = async (categoryIds: string[], targetId: string) => {
+    try {
+      await moveCategoryReferences(categoryIds, targetId);
+    } catch (error: any) {
+      handleApiError(error, "move budgets and rules to the new category");
+    }
+  };
+
+  // Errors are shown in the dialog, so they're left to propagate
+  const handleDelete = async (reassignTo?: string) => {
+    if (!deletingCategory) return;
+    setSubmitting(true);
+    try {
+      await categoriesApi.deleteCategory(deletingCategory.id, reassignTo);
+      if (reassignTo) {
+        await moveReferences([deletingCategory.id], reassignTo);
+      }
+      toast.success(
+        reassignTo
+          ? `Category deleted and its records moved to ${getCategoryName(
+              reassignTo
+            )}`
+          : "Category deleted successfully!"
+      );
+      setDeletingCategory(null);
+      fetchCategories();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openMerge = (sourceId?: string) => {
+    setMergeSourceId(sourceId);
+    setMergeOpen(true);
+  };
+
+  const handleMerge = async ({
+    sourceId,
+    targetId,
+  }: {
+    sourceId: string;
+    targetId: string;
+  }) => {
+    setSubmitting(true);
     try {
-      await api.delete(`/categories/${id}`);
-      toast.success("Category deleted successfully!");
+      const movedIds = getDescendantIds(categories, sourceId);
+      await categoriesApi.mergeCategory(sourceId, targetId);
+      await moveReferences(movedIds, targetId);
+      toast.success(
+        `${getCategoryName(sourceId)} merged into ${getCategoryName(
+          targetId
+        )} successfully!`
+      );
+      setMergeOpen(false);
+      fetchCategories();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const categoryTree = buildCategoryTree(categories);
+
+  // Where each category actually sits, ignoring parents that no longer exist
+  const parentById = new Map<string, string | null>();
+  const collectParents = (
+    nodes: CategoryTree<Category>[],
+    parentId: string | null
+  ) =>
+    nodes.forEach((node) => {
+      parentById.set(node.id, parentId);
+      collectParents(node.children, node.id);
+    });
+  collectParents(categoryTree, null);
+
+  // Dropping onto a category nests under it; dropping between rows moves it
+  // alongside that row, under the same parent
+  const handleDrop: TreeProps["onDrop"] = async (info) => {
+    const category = categories.find((item) => item.id === info.dragNode.key);
+    const targetId = String(info.node.key);
+    if (!category) return;
+
+    const parentId = info.dropToGap
+      ? parentById.get(targetId) || null
+      : targetId;
+    if ((parentById.get(category.id) || null) === parentId) return;
+    if (!canReparent(categories, category.id, parentId)) {
+      toast.error("A category can't be moved into its own subcategory");
+      return;
+    }
+
+    try {
+      await api.put(`/categories/${category.id}`, {
+        name: category.name,
+        icon: category.icon || "",
+        color: category.color,
+        parentId,
+      });
+      toast.success("Category moved successfully!");
       fetchCategories();
     } catch (error: any) {
-      handleApiError(error, "delete category");
+      handleApiError(error, "move category");
     }
   };
 
-  const columns = [
-    {
-      title: "Name",
-      dataIndex: "name",
-      key: "name",
-      width: 200,
-      render: (name: string, record: Category) => (
-        <Space>
-          <div
-            style={{
-              width: 16,
-              height: 16,
-              borderRadius: "50%",
-              backgroundColor: record.color,
-              display: "inline-block",
-            }}
-          />
-          <span>{name}</span>
-        </Space>
-      ),
-    },
-    {
-      title: "Color",
-      dataIndex: "color",
-      key: "color",
-      width: 100,
-      render: (color: string) => (
-        <Tag color={color} style={{ color: "#fff", border: "none" }}>
-          {color}
-        </Tag>
-      ),
-    },
-    {
-      title: "Type",
-      key: "type",
-      width: 100,
-      render: (record: Category) => (
-        <Tag color={record.userId ? "blue" : "green"}>
-          {record.userId ? "Custom" : "Default"}
+  const renderTitle = (category: CategoryTree<Category>) => (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "space-between",
+        gap: "8px",
+      }}
+    >
+      <Space>
+        <div
+          style={{
+            width: 16,
+            height: 16,
+            borderRadius: "50%",
+            backgroundColor: category.color,
+            display: "inline-block",
+            verticalAlign: "middle",
+          }}
+        />
+        <CategoryIcon icon={category.icon} color={category.color} size={16} />
+        <span>{category.name}</span>
+        <Tag color={category.userId ? "blue" : "green"}>
+          {category.userId ? "Custom" : "Default"}
         </Tag>
-      ),
-    },
-    {
-      title: "Created",
-      dataIndex: "createdAt",
-      key: "createdAt",
-      width: 120,
-      render: (date: string) => new Date(date).toLocaleDateString(),
-    },
-    {
-      title: "Actions",
-      key: "actions",
-      width: 120,
-      fixed: "right" as const,
-      render: (record: Category) => (
-        <Space>
+        {category.children.length > 0 && (
+          <Text type="secondary" style={{ fontSize: "12px" }}>
+            {category.children.length === 1
+              ? "1 subcategory"
+              : `${category.children.length} subcategories`}
+          </Text>
+        )}
+      </Space>
+      <Space size={0} onClick={(e) => e.stopPropagation()}>
+        <Tooltip title="Add subcategory">
           <Button
             type="text"
-            icon={<EditOutlined />}
-            onClick={() => handleEdit(record)}
+            icon={<PlusOutlined />}
+            onClick={() => openCreate(category.id)}
           />
-          {record.userId && (
-            <Popconfirm
-              title="Delete Category"
-              description="Are you sure you want to delete this category?"
-              onConfirm={() => handleDelete(record.id)}
-              okText="Yes"
-              cancelText="No"
-            >
-              <Button type="text" danger icon={<DeleteOutlined />} />
-            </Popconfirm>
-          )}
-        </Space>
-      ),
-    },
-  ];
+        </Tooltip>
+        <Button
+          type="text"
+          icon={<EditOutlined />}
+          onClick={() => handleEdit(category)}
+        />
+        {category.userId && (
+          <>
+            <Tooltip title="Merge into another category">
+              <Button
+                type="text"
+                icon={<MergeCellsOutlined />}
+                onClick={() => openMerge(category.id)}
+              />
+            </Tooltip>
+            <Button
+              type="text"
+              danger
+              icon={<DeleteOutlined />}
+              onClick={() => setDeletingCategory(category)}
+            />
+          </>
+        )}
+      </Space>
+    </div>
+  );
+
+  const toTreeData = (nodes: CategoryTree<Category>[]): DataNode[] =>
+    nodes.map((node) => ({
+      key: node.id,
+      title: renderTitle(node),
+      children: toTreeData(node.children),
+    }));
 
   return (
     <Layout>
@@ -188,20 +324,26 @@ export const CategoriesPage: React.FC = () => {
           </Title>
           <Paragraph>
             Manage your expense categories to better organize your spending.
+            Drag a category onto another to make it a subcategory; spending in
+            subcategories adds up to their parent on the dashboard and in
+            budgets.
           </Paragraph>
 
           <Space>
             <Button
               type="primary"
               icon={<PlusOutlined />}
-              onClick={() => {
-                setEditingCategory(null);
-                form.resetFields();
-                setModalOpen(true);
-              }}
+              onClick={() => openCreate()}
             >
               Add Category
             </Button>
+            <Button
+              icon={<MergeCellsOutlined />}
+              onClick={() => openMerge()}
+              disabled={categories.length < 2}
+            >
+              Merge Categories
+            </Button>
             <Button
               icon={<ReloadOutlined />}
               onClick={fetchCategories}
@@ -213,51 +355,45 @@ export const CategoriesPage: React.FC = () => {
         </div>
 
         <Card>
-          <Table
-            columns={columns}
-            dataSource={categories}
-            rowKey="id"
-            loading={loading}
-            scroll={{ x: 600 }}
-            pagination={{
-              pageSize: 10,
-              showSizeChanger: true,
-              showQuickJumper: true,
-            }}
-            locale={{
-              emptyText: (
-                <div style={{ padding: "40px", textAlign: "center" }}>
-                  <FolderOutlined
-                    style={{ fontSize: "48px", color: "#d9d9d9" }}
-                  />
-                  <div
-                    style={{
-                      marginTop: "16px",
-                      fontSize: "16px",
-                      color: "#999",
-                    }}
-                  >
-                    No categories found
-                  </div>
-                  <div style={{ marginTop: "8px", color: "#999" }}>
-                    Start by adding your first category
-                  </div>
-                  <Button
-                    type="primary"
-                    icon={<PlusOutlined />}
-                    style={{ marginTop: "16px" }}
-                    onClick={() => {
-                      setEditingCategory(null);
-                      form.resetFields();
-                      setModalOpen(true);
-                    }}
-                  >
-                    Add Category
-                  </Button>
+          <Spin spinning={loading}>
+            {categories.length > 0 ? (
+              <Tree
+                treeData={toTreeData(categoryTree)}
+                expandedKeys={expandedKeys}
+                onExpand={(keys) => setExpandedKeys(keys)}
+                onDrop={handleDrop}
+                draggable={{ icon: false }}
+                selectable={false}
+                blockNode
+              />
+            ) : (
+              <div style={{ padding: "40px", textAlign: "center" }}>
+                <FolderOutlined
+                  style={{ fontSize: "48px", color: "#d9d9d9" }}
+                />
+                <div
+                  style={{
+                    marginTop: "16px",
+                    fontSize: "16px",
+                    color: "#999",
+                  }}
+                >
+                  No categories found
                 </div>
-              ),
-            }}
-          />
+                <div style={{ marginTop: "8px", color: "#999" }}>
+                  Start by adding your first category
+                </div>
+                <Button
+                  type="primary"
+                  icon={<PlusOutlined />}
+                  style={{ marginTop: "16px" }}
+                  onClick={() => openCreate()}
+                >
+                  Add Category
+                </Button>
+              </div>
+            )}
+          </Spin>
         </Card>
 
         <Modal
@@ -289,6 +425,19 @@ export const CategoriesPage: React.FC = () => {
               <Input placeholder="e.g., Food & Dining, Transportation" />
             </Form.Item>
 
+            <Form.Item name="parentId" label="Parent Category">
+              <CategoryTreeSelect
+                placeholder="None (top-level category)"
+                allowClear
+                categories={categories}
+                disabledIds={
+                  editingCategory
+                    ? getDescendantIds(categories, editingCategory.id)
+                    : []
+                }
+              />
+            </Form.Item>
+
             <Form.Item
               name="color"
               label="Color"
@@ -301,6 +450,10 @@ export const CategoriesPage: React.FC = () => {
               />
             </Form.Item>
 
+            <Form.Item name="icon" label="Icon">
+              <CategoryIconPicker color={color} />
+            </Form.Item>
+
             <Form.Item>
               <Space>
                 <Button type="primary" htmlType="submit">
@@ -319,6 +472,24 @@ export const CategoriesPage: React.FC = () => {
             </Form.Item>
           </Form>
         </Modal>
+
+        <CategoryDeleteForm
+          isOpen={!!deletingCategory}
+          onClose={() => setDeletingCategory(null)}
+          onSubmit={handleDelete}
+          category={deletingCategory}
+          categories={categories}
+          isLoading={submitting}
+        />
+
+        <CategoryMergeForm
+          isOpen={mergeOpen}
+          onClose={() => setMergeOpen(false)}
+          onSubmit={handleMerge}
+          sourceId={mergeSourceId}
+          categories={categories}
+          isLoading={submitting}
+        />
       </div>
     </Layout>
   );
@@ -12,6 +12,10 @@ import {
   Button,
   Progress,
   Tag,
+  Dropdown,
+  Popconfirm,
+  Empty,
+  Alert,
 } from "antd";
 import {
   DollarOutlined,
@@ -21,32 +25,82 @@ import {
   MinusCircleOutlined,
   WalletOutlined,
   TrophyOutlined,
+  AppstoreOutlined,
+  PlusOutlined,
+  UndoOutlined,
+  CheckOutlined,
+  RocketOutlined,
 } from "@ant-design/icons";
 import ReactECharts from "echarts-for-react";
+import { useNavigate } from "react-router-dom";
 import dayjs from "dayjs";
 import { toast } from "sonner";
-import { ExpenseStats } from "../types";
-import { expensesApi, incomeApi, api } from "../utils/api";
+import { useAuth } from "../contexts/AuthContext";
+import { dismissOnboarding, isOnboardingDismissed } from "../utils/onboarding";
+import {
+  BudgetMode,
+  DashboardWidgetSize,
+  ExpenseStats,
+  IncomeVsExpenseStats,
+  SavingsGoal,
+} from "../types";
+import {
+  expensesApi,
+  incomeApi,
+  categoriesApi,
+  goalsApi,
+  api,
+} from "../utils/api";
+import { useCurrency } from "../contexts/CurrencyContext";
+import {
+  convertExpenseStats,
+  convertIncomeStats,
+  getBudgetSpent,
+  getRecordCurrency,
+} from "../utils/currency";
+import { fetchExpensesInRanges, isInDateRange } from "../utils/dataExport";
+import {
+  addBudgetSpending,
+  getBudgetSpendingRange,
+} from "../utils/budgetSpending";
+import { buildCategoryStats } from "../utils/splits";
+import { rollUpCategoryStats } from "../utils/categoryTree";
+import { TagStat, buildTagStats } from "../utils/tags";
+import { FORECAST_LOOKBACK_DAYS, buildMonthForecast } from "../utils/forecast";
+import { MonthForecastCard } from "../components/forecast";
+import { GoalsSummaryCard } from "../components/goals";
+import { StatementButton } from "../components/export";
+import { DashboardWidget } from "../components/dashboard";
+import { getCategoryIconImage } from "../components/categories";
+import { useDashboardLayout } from "../hooks/useDashboardLayout";
+import { getExpensesLink } from "../utils/drillDown";
+import {
+  getBudgetProgressChartOption,
+  getCategoryExpenseChartOption,
+  getIncomeVsExpenseChartOption,
+} from "../utils/chartOptions";
+import {
+  DASHBOARD_WIDGETS,
+  DashboardWidgetId,
+  getWidgetDefinition,
+  moveDashboardWidget,
+} from "../utils/dashboardLayout";
 
 const { Title, Text } = Typography;
 const { RangePicker } = DatePicker;
 
-interface Income {
-  id: string;
-  amount: number;
-  description: string;
-  source: string;
-  date: string;
-}
-
 interface Budget {
   id: string;
   name: string;
   amount: number;
+  currency?: string;
   spent: number;
+  spentByCurrency?: Record<string, number>;
   categoryId?: string;
   startDate: string;
   endDate: string;
+  isActive: boolean;
+  mode?: BudgetMode;
   category?: {
     id: string;
     name: string;
@@ -54,18 +108,33 @@ interface Budget {
 }
 
 export const DashboardPage: React.FC = () => {
+  const { convert, toBase, format } = useCurrency();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const navigate = useNavigate();
   const [stats, setStats] = useState<ExpenseStats | null>(null);
+  const [incomeStats, setIncomeStats] = useState<IncomeVsExpenseStats | null>(
+    null
+  );
   const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [tagStats, setTagStats] = useState<TagStat[]>([]);
+  const [monthForecast, setMonthForecast] = useState<ReturnType<
+    typeof buildMonthForecast
+  > | null>(null);
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [showOnboarding, setShowOnboarding] = useState(false);
   const [loading, setLoading] = useState(true);
+  const { layout, setLayout, resetLayout } = useDashboardLayout();
+  const [editingLayout, setEditingLayout] = useState(false);
   const [dateRange, setDateRange] = useState<[dayjs.Dayjs, dayjs.Dayjs]>([
     dayjs().subtract(30, "days"),
     dayjs(),
   ]);
 
   // Calculated metrics
-  const [totalIncome, setTotalIncome] = useState(0);
-  const [netSavings, setNetSavings] = useState(0);
   const [budgetAdherence, setBudgetAdherence] = useState(0);
+  const totalIncome = incomeStats?.totalIncome || 0;
+  const netSavings = incomeStats?.netSavings || 0;
 
   const fetchAllData = useCallback(async () => {
     setLoading(true);
@@ -77,35 +146,76 @@ export const DashboardPage: React.FC = () => {
       };
 
       // Fetch all data in parallel
-      const [statsResponse, incomesResponse, budgetsResponse] =
-        await Promise.all([
-          expensesApi.getStats(params),
-          incomeApi.getIncomes(params),
-          api.get("/budget"),
-        ]);
-
-      // Set stats
+      const [
+        statsResponse,
+        incomeStatsResponse,
+        budgetsResponse,
+        categoriesResponse,
+      ] = await Promise.all([
+        expensesApi.getStats(params),
+        incomeApi.getIncomeStats(params),
+        api.get("/budget"),
+        categoriesApi.getCategories(),
+      ]);
+      const categoryList = categoriesResponse.data || [];
+      const budgetResults: Budget[] =
+        (budgetsResponse.data.success && budgetsResponse.data.data) || [];
+
+      // One download covers the selected range, the budgets' periods and the
+      // forecast's history (always the current month and recent weeks)
+      const today = dayjs();
+      const forecastRange: [dayjs.Dayjs, dayjs.Dayjs] = [
+        today.subtract(FORECAST_LOOKBACK_DAYS, "day").startOf("day"),
+        today.endOf("day"),
+      ];
+      const allExpenses = await fetchExpensesInRanges([
+        dateRange,
+        forecastRange,
+        getBudgetSpendingRange(budgetResults, today),
+      ]);
+      const expenseList = allExpenses.filter((expense) =>
+        isInDateRange(expense.date, dateRange)
+      );
+
+      // Set stats, counting each split under its own category and rolling
+      // subcategories up into their top-level category
       if (statsResponse.success && statsResponse.data) {
-        setStats(statsResponse.data);
+        setStats({
+          ...convertExpenseStats(statsResponse.data, toBase),
+          categoryStats: rollUpCategoryStats(
+            buildCategoryStats(expenseList, categoryList, toBase),
+            categoryList
+          ),
+        });
       }
+      setTagStats(buildTagStats(expenseList, toBase));
 
-      // Set incomes and calculate total
-      if (incomesResponse.success && incomesResponse.data) {
-        const incomeList = incomesResponse.data.incomes || [];
-        const totalIncomeAmount = incomeList
-          .filter((income: Income) => {
-            const incomeDate = dayjs(income.date);
-            return (
-              incomeDate.isAfter(startDate) && incomeDate.isBefore(endDate)
-            );
-          })
-          .reduce((sum: number, income: Income) => sum + income.amount, 0);
-        setTotalIncome(totalIncomeAmount);
+      // Income, expenses and savings per month, totalled by the server
+      if (incomeStatsResponse.success && incomeStatsResponse.data) {
+        setIncomeStats(convertIncomeStats(incomeStatsResponse.data, toBase));
       }
 
-      // Set budgets and calculate metrics
+      setMonthForecast(
+        buildMonthForecast(
+          allExpenses.filter((expense) =>
+            isInDateRange(expense.date, forecastRange)
+          ),
+          categoryList,
+          toBase,
+          today
+        )
+      );
+
+      // Set budgets and calculate metrics, with the same split-aware spending
+      // as the budget page
       if (budgetsResponse.data.success && budgetsResponse.data.data) {
-        const budgetList = budgetsResponse.data.data;
+        const budgetList = addBudgetSpending(
+          budgetResults,
+          allExpenses,
+          categoryList,
+          convert,
+          today
+        );
         setBudgets(budgetList);
 
         // Filter budgets that overlap with our date range
@@ -116,100 +226,193 @@ export const DashboardPage: React.FC = () => {
         });
 
         const totalBudgetAmount = activeBudgets.reduce(
-          (sum: number, budget: Budget) => sum + budget.amount,
+          (sum: number, budget: Budget) =>
+            sum + toBase(budget.amount, budget.currency),
           0
         );
 
         // Calculate budget adherence (percentage of budget spent)
         const totalSpent = activeBudgets.reduce(
-          (sum: number, budget: Budget) => sum + (budget.spent || 0),
+          (sum: number, budget: Budget) =>
+            sum + toBase(getBudgetSpent(budget, convert), budget.currency),
           0
         );
         const adherence =
           totalBudgetAmount > 0 ? (totalSpent / totalBudgetAmount) * 100 : 0;
         setBudgetAdherence(adherence);
       }
-
-      // Calculate net savings
-      const totalExpenseAmount = stats?.totalStats.totalAmount || 0;
-      setNetSavings(totalIncome - totalExpenseAmount);
     } catch (error: any) {
       // console.error("Failed to fetch dashboard data:", error);
       toast.error("Failed to fetch dashboard data");
     } finally {
       setLoading(false);
     }
-  }, [dateRange, stats?.totalStats.totalAmount, totalIncome]);
+  }, [dateRange, toBase, convert]);
 
   useEffect(() => {
     fetchAllData();
   }, [fetchAllData]);
 
+  // Accounts with nothing recorded yet, in any range, are offered the setup.
+  // Categories say nothing here since the default ones are shared
+  useEffect(() => {
+    setShowOnboarding(false);
+    if (!userId || isOnboardingDismissed(userId)) return;
+    let cancelled = false;
+    Promise.all([
+      expensesApi.getExpenses({ limit: 1 }),
+      incomeApi.getIncomes({ limit: 1 }),
+    ])
+      .then(([expensesResponse, incomesResponse]) => {
+        if (cancelled) return;
+        setShowOnboarding(
+          !!expensesResponse.data &&
+            !!incomesResponse.data &&
+            expensesResponse.data.total === 0 &&
+            incomesResponse.data.total === 0
+        );
+      })
+      .catch(() => {
+        // The banner is only a hint, so it stays hidden
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Goals aren't tied to the selected range, so they load once
+  useEffect(() => {
+    goalsApi
+      .getGoals()
+      .then((response) => setGoals(response.data || []))
+      .catch(() => setGoals([]));
+  }, []);
+
   // Chart configurations
-  const getIncomeVsExpenseChart = () => {
-    const totalExpenses = stats?.totalStats.totalAmount || 0;
+  const getIncomeVsExpenseChart = () =>
+    getIncomeVsExpenseChartOption(
+      totalIncome,
+      stats?.totalStats.totalAmount || 0,
+      format
+    );
 
-    if (totalIncome === 0 && totalExpenses === 0) {
+  const getMonthlyComparisonChart = () => {
+    const months = incomeStats?.monthlyComparison || [];
+    if (months.length === 0) {
       return {
         title: {
-          text: "No income or expense data available",
+          text: "No monthly income or expense data available",
           left: "center",
         },
       };
     }
 
+    // A month without income has no meaningful savings rate
+    const savingsRates = months.map((month) =>
+      month.income > 0
+        ? Number(((month.savings / month.income) * 100).toFixed(1))
+        : null
+    );
+
     return {
       tooltip: {
-        trigger: "item",
-        formatter: (params: any) => {
-          return `${params.name}: $${params.value.toFixed(2)} (${
-            params.percent
-          }%)`;
-        },
+        trigger: "axis",
+        formatter: (params: any) =>
+          [
+            params[0].name,
+            ...params
+              .filter(
+                (item: any) => item.value !== null && item.value !== undefined
+              )
+              .map((item: any) =>
+                item.seriesName === "Savings Rate"
+                  ? `${item.marker}${item.seriesName}: ${item.value}%`
+                  : `${item.marker}${item.seriesName}: ${format(item.value)}`
+              ),
+          ].join("<br/>"),
       },
       legend: {
         bottom: "0%",
         left: "center",
       },
-      series: [
+      grid: {
+        left: "3%",
+        right: "3%",
+        bottom: "12%",
+        containLabel: true,
+      },
+      xAxis: {
+        type: "category",
+        data: months.map((month) => dayjs(month.month).format("MMM YYYY")),
+      },
+      yAxis: [
         {
-          type: "pie",
-          radius: ["40%", "70%"],
-          center: ["50%", "50%"],
-          data: [
-            {
-              value: totalIncome,
-              name: "Income",
-              itemStyle: { color: "#52c41a" },
-            },
-            {
-              value: totalExpenses,
-              name: "Expenses",
-              itemStyle: { color: "#ff4d4f" },
-            },
-          ],
-          emphasis: {
-            itemStyle: {
-              shadowBlur: 10,
-              shadowOffsetX: 0,
-              shadowColor: "rgba(0, 0, 0, 0.5)",
-            },
+          type: "value",
+          axisLabel: {
+            formatter: formatAxisValue,
+          },
+        },
+        {
+          type: "value",
+          axisLabel: {
+            formatter: "{value}%",
           },
+          splitLine: { show: false },
+        },
+      ],
+      series: [
+        {
+          name: "Income",
+          type: "bar",
+          data: months.map((month) => month.income),
+          itemStyle: { color: "#52c41a" },
+        },
+        {
+          name: "Expenses",
+          type: "bar",
+          data: months.map((month) => month.expenses),
+          itemStyle: { color: "#ff4d4f" },
+        },
+        {
+          name: "Savings",
+          type: "line",
+          data: months.map((month) => month.savings),
+          smooth: true,
+          lineStyle: { width: 3, color: "#1890ff" },
+          itemStyle: { color: "#1890ff" },
+        },
+        {
+          name: "Savings Rate",
+          type: "line",
+          yAxisIndex: 1,
+          data: savingsRates,
+          lineStyle: { width: 2, type: "dashed", color: "#722ed1" },
+          itemStyle: { color: "#722ed1" },
+          connectNulls: true,
         },
       ],
     };
   };
 
-  const getCategoryExpenseChart = () => {
-    if (!stats?.categoryStats || stats.categoryStats.length === 0) {
+  const getCategoryExpenseChart = () =>
+    getCategoryExpenseChartOption(
+      stats?.categoryStats || [],
+      format,
+      getCategoryIconImage
+    );
+
+  const getTagExpenseChart = () => {
+    if (tagStats.length === 0) {
       return {
         title: {
-          text: "No category data available",
+          text: "No tagged expenses in this period",
           left: "center",
         },
       };
     }
 
+    const topTags = tagStats.slice(0, 10).reverse();
+
     return {
       tooltip: {
         trigger: "axis",
@@ -218,101 +421,51 @@ export const DashboardPage: React.FC = () => {
         },
         formatter: (params: any) => {
           const param = params[0];
-          return `${param.name}: $${param.value.toFixed(2)}`;
+          const stat = topTags[param.dataIndex];
+          return `${param.name}: ${format(param.value)} (${stat.count} expense${
+            stat.count === 1 ? "" : "s"
+          })`;
         },
       },
+      grid: {
+        left: "3%",
+        right: "4%",
+        bottom: "3%",
+        containLabel: true,
+      },
       xAxis: {
-        type: "category",
-        data: stats.categoryStats.map((cat) => cat.category.name),
+        type: "value",
         axisLabel: {
-          rotate: 45,
-          interval: 0,
+          formatter: formatAxisValue,
         },
       },
       yAxis: {
-        type: "value",
-        axisLabel: {
-          formatter: (value: number) => `$${value}`,
-        },
+        type: "category",
+        data: topTags.map((stat) => `#${stat.tag.name}`),
       },
       series: [
         {
           type: "bar",
-          data: stats.categoryStats.map((cat) => ({
-            value: cat._sum.amount,
+          data: topTags.map((stat) => ({
+            value: stat.amount,
             itemStyle: {
-              color: cat.category.color || "#1890ff",
+              color: stat.tag.color || "#1890ff",
             },
           })),
-          emphasis: {
-            itemStyle: {
-              shadowBlur: 10,
-              shadowColor: "rgba(0, 0, 0, 0.5)",
-            },
-          },
         },
       ],
     };
   };
 
-  const getBudgetProgressChart = () => {
-    if (!budgets || budgets.length === 0) {
-      return {
-        title: {
-          text: "No budget data available",
-          left: "center",
-        },
-      };
-    }
-
-    return {
-      tooltip: {
-        trigger: "axis",
-        formatter: (params: any) => {
-          const budgetParam = params.find(
-            (p: any) => p.seriesName === "Budget"
-          );
-          const spentParam = params.find((p: any) => p.seriesName === "Spent");
-          return `${budgetParam.name}<br/>
-                  Budget: $${budgetParam.value.toFixed(2)}<br/>
-                  Spent: $${spentParam.value.toFixed(2)}<br/>
-                  Remaining: $${(budgetParam.value - spentParam.value).toFixed(
-                    2
-                  )}`;
-        },
-      },
-      xAxis: {
-        type: "category",
-        data: budgets.map((budget) =>
-          budget.category ? budget.category.name : budget.name
-        ),
-        axisLabel: {
-          rotate: 45,
-          interval: 0,
-        },
-      },
-      yAxis: {
-        type: "value",
-        axisLabel: {
-          formatter: (value: number) => `$${value}`,
-        },
-      },
-      series: [
-        {
-          name: "Budget",
-          type: "bar",
-          data: budgets.map((budget) => budget.amount),
-          itemStyle: { color: "#1890ff" },
-        },
-        {
-          name: "Spent",
-          type: "bar",
-          data: budgets.map((budget) => budget.spent || 0),
-          itemStyle: { color: "#ff4d4f" },
-        },
-      ],
-    };
-  };
+  const getBudgetProgressChart = () =>
+    getBudgetProgressChartOption(
+      budgets.map((budget) => ({
+        name: budget.category ? budget.category.name : budget.name,
+        amount: toBase(budget.amount, budget.currency),
+        spent: toBase(getBudgetSpent(budget, convert), budget.currency),
+      })),
+      format
+    );
 
   const getMonthlyTrendChart = () => {
     if (!stats?.monthlyStats || stats.monthlyStats.length === 0) {
@@ -324,28 +477,104 @@ export const DashboardPage: React.FC = () => {
       };
     }
 
+    const months = stats.monthlyStats.map((stat) => stat.month);
+    const actual: (number | null)[] = stats.monthlyStats.map((stat) =>
+      Number(stat.total_amount)
+    );
+
+    // Extend the line to a projected month end when the range reaches this month
+    const today = dayjs();
+    const projection =
+      monthForecast && !dateRange[1].isBefore(today, "month")
+        ? monthForecast.total
+        : null;
+    let currentIndex = months.findIndex((month) =>
+      dayjs(month).isSame(today, "month")
+    );
+    if (projection && currentIndex === -1) {
+      months.push(today.format("YYYY-MM"));
+      actual.push(null);
+      currentIndex = months.length - 1;
+    }
+    const projectionPoint = (value: number) =>
+      months.map((_, index) => {
+        if (index === currentIndex) return value;
+        if (index === currentIndex - 1) return actual[index];
+        return null;
+      });
+
+    const projectionSeries = projection
+      ? [
+          {
+            name: "Projected",
+            type: "line",
+            data: projectionPoint(projection.projected),
+            lineStyle: { width: 2, type: "dashed", color: "#faad14" },
+            itemStyle: { color: "#faad14" },
+            connectNulls: false,
+          },
+          // Confidence band: an invisible lower edge with the range stacked on top
+          {
+            name: "Range low",
+            type: "line",
+            data: projectionPoint(projection.low),
+            stack: "forecast-band",
+            lineStyle: { opacity: 0 },
+            symbol: "none",
+          },
+          {
+            name: "Range",
+            type: "line",
+            data: months.map((_, index) => {
+              if (index === currentIndex)
+                return projection.high - projection.low;
+              if (index === currentIndex - 1) return 0;
+              return null;
+            }),
+            stack: "forecast-band",
+            lineStyle: { opacity: 0 },
+            symbol: "none",
+            areaStyle: { color: "rgba(250, 173, 20, 0.2)" },
+          },
+        ]
+      : [];
+
     return {
       tooltip: {
         trigger: "axis",
         formatter: (params: any) => {
           const param = params[0];
-          return `${param.name}<br/>Amount: $${param.value.toFixed(2)}`;
+          const spent = params.find((item: any) => item.seriesName === "Spent");
+          const lines = [param.name];
+          if (spent && spent.value !== null && spent.value !== undefined) {
+            lines.push(`Amount: ${format(spent.value)}`);
+          }
+          if (projection && param.dataIndex === currentIndex) {
+            lines.push(
+              `Projected: ${format(projection.projected)}`,
+              `Likely range: ${format(projection.low)} - ${format(
+                projection.high
+              )}`
+            );
+          }
+          return lines.join("<br/>");
         },
       },
       xAxis: {
         type: "category",
-        data: stats.monthlyStats.map((stat) => stat.month),
+        data: months,
       },
       yAxis: {
         type: "value",
         axisLabel: {
-          formatter: (value: number) => `$${value}`,
+          formatter: formatAxisValue,
         },
       },
       series: [
         {
+          name: "Spent",
           type: "line",
-          data: stats.monthlyStats.map((stat) => Number(stat.total_amount)),
+          data: actual,
           smooth: true,
           lineStyle: {
             width: 3,
@@ -365,17 +594,81 @@ export const DashboardPage: React.FC = () => {
             },
           },
         },
+        ...projectionSeries,
       ],
     };
   };
 
+  const hiddenWidgets = DASHBOARD_WIDGETS.filter(
+    (widget) => !layout.some((item) => item.id === widget.id)
+  );
+
+  const handleAddWidget = (id: string) => {
+    const definition = getWidgetDefinition(id);
+    if (definition) {
+      setLayout([...layout, { id, size: definition.defaultSize }]);
+    }
+  };
+
+  const handleRemoveWidget = (id: string) =>
+    setLayout(layout.filter((item) => item.id !== id));
+
+  const handleResizeWidget = (id: string, size: DashboardWidgetSize) =>
+    setLayout(
+      layout.map((item) => (item.id === id ? { ...item, size } : item))
+    );
+
+  const handleShiftWidget = (index: number, offset: -1 | 1) => {
+    const target = layout[index + offset];
+    if (target) {
+      setLayout(moveDashboardWidget(layout, layout[index].id, target.id));
+    }
+  };
+
+  // Chart drill-downs open the matching expenses for the selected range
+  const handleCategoryChartClick = (params: any) => {
+    const stat = stats?.categoryStats[params.dataIndex];
+    if (!stat) return;
+    navigate(
+      getExpensesLink({
+        categoryId: stat.categoryId,
+        startDate: dateRange[0],
+        endDate: dateRange[1],
+      })
+    );
+  };
+
+  const handleTagChartClick = (params: any) => {
+    const stat = tagStats.slice(0, 10).reverse()[params.dataIndex];
+    if (!stat) return;
+    navigate(
+      getExpensesLink({
+        tagIds: [stat.tag.id],
+        startDate: dateRange[0],
+        endDate: dateRange[1],
+      })
+    );
+  };
+
+  const openMonthExpenses = (value?: string) => {
+    const month = dayjs(value);
+    if (!value || !month.isValid()) return;
+    navigate(
+      getExpensesLink({
+        startDate: month.startOf("month"),
+        endDate: month.endOf("month"),
+      })
+    );
+  };
+
   const handleDateRangeChange = (dates: any) => {
     if (dates) {
       setDateRange(dates as [dayjs.Dayjs, dayjs.Dayjs]);
     }
   };
 
-  const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+  const formatCurrency = (value: number) => format(value);
+  const formatAxisValue = (value: number) => format(value).replace(/\.00$/, "");
 
   const getSavingsStatus = () => {
     if (netSavings > 0)
@@ -415,8 +708,8 @@ export const DashboardPage: React.FC = () => {
 
           {/* Key Metrics Cards Skeleton */}
           <Row gutter={[16, 16]} style={{ marginBottom: "24px" }}>
-            {[1, 2, 3, 4].map((i) => (
-              <Col xs={24} sm={12} lg={6} key={i}>
+            {[1, 2, 3, 4, 5].map((i) => (
+              <Col flex="1 1 220px" key={i}>
                 <Card style={{ height: "120px" }}>
                   <Skeleton active paragraph={{ rows: 2 }} />
                 </Card>
@@ -462,6 +755,179 @@ export const DashboardPage: React.FC = () => {
   const savingsStatus = getSavingsStatus();
   const budgetStatus = getBudgetStatus();
 
+  const statCardStyle: React.CSSProperties = {
+    height: "120px",
+    display: "flex",
+    flexDirection: "column",
+    justifyContent: "center",
+  };
+
+  const renderChart = (option: object, onClick?: (params: any) => void) => (
+    <Card>
+      <ReactECharts
+        option={option}
+        style={{ height: "300px" }}
+        onEvents={onClick ? { click: onClick } : undefined}
+      />
+    </Card>
+  );
+
+  const widgetContent: Record<DashboardWidgetId, () => React.ReactNode> = {
+    "total-income": () => (
+      <Card style={statCardStyle}>
+        <Statistic
+          title="Total Income"
+          value={totalIncome}
+          precision={2}
+          prefix={<DollarOutlined style={{ color: "#52c41a" }} />}
+          formatter={(value) => formatCurrency(Number(value))}
+          valueStyle={{ color: "#52c41a", fontSize: "18px" }}
+        />
+      </Card>
+    ),
+    "total-expenses": () => (
+      <Card style={statCardStyle}>
+        <Statistic
+          title="Total Expenses"
+          value={stats?.totalStats.totalAmount || 0}
+          precision={2}
+          prefix={<CreditCardOutlined style={{ color: "#ff4d4f" }} />}
+          formatter={(value) => formatCurrency(Number(value))}
+          valueStyle={{ color: "#ff4d4f", fontSize: "18px" }}
+        />
+      </Card>
+    ),
+    "net-savings": () => (
+      <Card style={statCardStyle}>
+        <Statistic
+          title="Net Savings"
+          value={Math.abs(netSavings)}
+          precision={2}
+          prefix={savingsStatus.icon}
+          formatter={(value) => formatCurrency(Number(value))}
+          valueStyle={{ color: savingsStatus.color, fontSize: "18px" }}
+        />
+        <div>
+          <Tag color={savingsStatus.color} style={{ marginTop: "4px" }}>
+            {netSavings >= 0 ? "Positive" : "Deficit"}
+          </Tag>
+          {totalIncome > 0 && (
+            <Text type="secondary" style={{ fontSize: "12px" }}>
+              {(incomeStats?.savingsRate || 0).toFixed(1)}% of income
+            </Text>
+          )}
+        </div>
+      </Card>
+    ),
+    "savings-goals": () => <GoalsSummaryCard goals={goals} />,
+    "budget-adherence": () => (
+      <Card style={statCardStyle}>
+        <Statistic
+          title="Budget Adherence"
+          value={budgetAdherence}
+          precision={1}
+          suffix="%"
+          prefix={<TrophyOutlined style={{ color: budgetStatus.color }} />}
+          valueStyle={{ color: budgetStatus.color, fontSize: "18px" }}
+        />
+        <div>
+          <Tag color={budgetStatus.color} style={{ marginTop: "4px" }}>
+            {budgetStatus.status}
+          </Tag>
+        </div>
+      </Card>
+    ),
+    "budget-overview": () => (
+      <Card title="Budget Progress Overview">
+        {budgets.length === 0 ? (
+          <div
+            style={{
+              textAlign: "center",
+              padding: "40px 20px",
+              color: "#999",
+            }}
+          >
+            <Text type="secondary">No budget data available</Text>
+          </div>
+        ) : (
+          <Row gutter={[16, 16]}>
+            {budgets.slice(0, 4).map((budget) => {
+              const spent = getBudgetSpent(budget, convert);
+              const percentage =
+                budget.amount > 0 ? (spent / budget.amount) * 100 : 0;
+              const status =
+                percentage > 100
+                  ? "exception"
+                  : percentage > 80
+                  ? "active"
+                  : "success";
+
+              return (
+                <Col flex="1 1 200px" key={budget.id}>
+                  <Card size="small">
+                    <div style={{ marginBottom: "8px" }}>
+                      <strong>{budget.name}</strong>
+                      {budget.category && (
+                        <Tag style={{ marginLeft: "8px" }}>
+                          {budget.category.name}
+                        </Tag>
+                      )}
+                    </div>
+                    <Progress
+                      percent={Math.min(percentage, 100)}
+                      status={status}
+                      format={() => `${percentage.toFixed(1)}%`}
+                    />
+                    <div
+                      style={{
+                        marginTop: "8px",
+                        fontSize: "12px",
+                        color: "#666",
+                      }}
+                    >
+                      {format(spent, getRecordCurrency(budget.currency))} /{" "}
+                      {format(
+                        budget.amount,
+                        getRecordCurrency(budget.currency)
+                      )}
+                    </div>
+                  </Card>
+                </Col>
+              );
+            })}
+          </Row>
+        )}
+      </Card>
+    ),
+    "monthly-comparison": () => (
+      <Card title="Monthly Income vs Expenses">
+        <ReactECharts
+          option={getMonthlyComparisonChart()}
+          style={{ height: "340px" }}
+          onEvents={{
+            click: (params: any) =>
+              openMonthExpenses(
+                incomeStats?.monthlyComparison[params.dataIndex]?.month
+              ),
+          }}
+        />
+      </Card>
+    ),
+    "income-vs-expense": () => renderChart(getIncomeVsExpenseChart()),
+    "category-expenses": () =>
+      renderChart(getCategoryExpenseChart(), handleCategoryChartClick),
+    "budget-progress": () => renderChart(getBudgetProgressChart()),
+    "monthly-trend": () =>
+      renderChart(getMonthlyTrendChart(), (params) =>
+        openMonthExpenses(params.name)
+      ),
+    "tag-expenses": () =>
+      renderChart(getTagExpenseChart(), handleTagChartClick),
+    "month-forecast": () => (
+      <MonthForecastCard forecast={monthForecast} loading={loading} />
+    ),
+  };
+
   return (
     <Layout>
       <div style={{ padding: "24px" }}>
@@ -477,205 +943,117 @@ export const DashboardPage: React.FC = () => {
             </Title>
           </Col>
           <Col>
-            <Space>
-              <RangePicker
-                value={dateRange}
-                onChange={handleDateRangeChange}
-                format="YYYY-MM-DD"
-                allowClear={false}
-              />
-              <Button icon={<ReloadOutlined />} onClick={fetchAllData}>
-                Refresh
-              </Button>
-            </Space>
-          </Col>
-        </Row>
-
-        {/* Key Metrics Cards */}
-        <Row gutter={[16, 16]} style={{ marginBottom: "24px" }}>
-          <Col xs={24} sm={12} lg={6}>
-            <Card
-              style={{ height: "120px", display: "flex", alignItems: "center" }}
-            >
-              <div style={{ width: "100%" }}>
-                <Statistic
-                  title="Total Income"
-                  value={totalIncome}
-                  precision={2}
-                  prefix={<DollarOutlined style={{ color: "#52c41a" }} />}
-                  formatter={(value) => formatCurrency(Number(value))}
-                  valueStyle={{ color: "#52c41a", fontSize: "18px" }}
-                />
-              </div>
-            </Card>
-          </Col>
-          <Col xs={24} sm={12} lg={6}>
-            <Card
-              style={{ height: "120px", display: "flex", alignItems: "center" }}
-            >
-              <div style={{ width: "100%" }}>
-                <Statistic
-                  title="Total Expenses"
-                  value={stats?.totalStats.totalAmount || 0}
-                  precision={2}
-                  prefix={<CreditCardOutlined style={{ color: "#ff4d4f" }} />}
-                  formatter={(value) => formatCurrency(Number(value))}
-                  valueStyle={{ color: "#ff4d4f", fontSize: "18px" }}
-                />
-              </div>
-            </Card>
-          </Col>
-          <Col xs={24} sm={12} lg={6}>
-            <Card
-              style={{
-                height: "120px",
-                display: "flex",
-                flexDirection: "column",
-                justifyContent: "center",
-              }}
-            >
-              <div style={{ width: "100%" }}>
-                <Statistic
-                  title="Net Savings"
-                  value={Math.abs(netSavings)}
-                  precision={2}
-                  prefix={savingsStatus.icon}
-                  formatter={(value) => formatCurrency(Number(value))}
-                  valueStyle={{ color: savingsStatus.color, fontSize: "18px" }}
-                />
-                <Tag color={savingsStatus.color} style={{ marginTop: "4px" }}>
-                  {netSavings >= 0 ? "Positive" : "Deficit"}
-                </Tag>
-              </div>
-            </Card>
-          </Col>
-          <Col xs={24} sm={12} lg={6}>
-            <Card
-              style={{
-                height: "120px",
-                display: "flex",
-                flexDirection: "column",
-                justifyContent: "center",
-              }}
-            >
-              <div style={{ width: "100%" }}>
-                <Statistic
-                  title="Budget Adherence"
-                  value={budgetAdherence}
-                  precision={1}
-                  suffix="%"
-                  prefix={
-                    <TrophyOutlined style={{ color: budgetStatus.color }} />
-                  }
-                  valueStyle={{ color: budgetStatus.color, fontSize: "18px" }}
-                />
-                <Tag color={budgetStatus.color} style={{ marginTop: "4px" }}>
-                  {budgetStatus.status}
-                </Tag>
-              </div>
-            </Card>
-          </Col>
-        </Row>
-
-        {/* Budget Progress */}
-        <Row gutter={[16, 16]} style={{ marginBottom: "24px" }}>
-          <Col span={24}>
-            <Card title="Budget Progress Overview">
-              {budgets.length === 0 ? (
-                <div
-                  style={{
-                    textAlign: "center",
-                    padding: "40px 20px",
-                    color: "#999",
+            {editingLayout ? (
+              <Space wrap>
+                <Dropdown
+                  trigger={["click"]}
+                  disabled={hiddenWidgets.length === 0}
+                  menu={{
+                    items: hiddenWidgets.map((widget) => ({
+                      key: widget.id,
+                      label: widget.title,
+                    })),
+                    onClick: ({ key }) => handleAddWidget(key),
                   }}
                 >
-                  <Text type="secondary">No budget data available</Text>
-                </div>
-              ) : (
-                <Row gutter={[16, 16]}>
-                  {budgets.slice(0, 4).map((budget) => {
-                    const percentage =
-                      budget.amount > 0
-                        ? (budget.spent / budget.amount) * 100
-                        : 0;
-                    const status =
-                      percentage > 100
-                        ? "exception"
-                        : percentage > 80
-                        ? "active"
-                        : "success";
-
-                    return (
-                      <Col xs={24} sm={12} lg={6} key={budget.id}>
-                        <Card size="small">
-                          <div style={{ marginBottom: "8px" }}>
-                            <strong>{budget.name}</strong>
-                            {budget.category && (
-                              <Tag style={{ marginLeft: "8px" }}>
-                                {budget.category.name}
-                              </Tag>
-                            )}
-                          </div>
-                          <Progress
-                            percent={Math.min(percentage, 100)}
-                            status={status}
-                            format={() => `${percentage.toFixed(1)}%`}
-                          />
-                          <div
-                            style={{
-                              marginTop: "8px",
-                              fontSize: "12px",
-                              color: "#666",
-                            }}
-                          >
-                            ${budget.spent.toFixed(2)} / $
-                            {budget.amount.toFixed(2)}
-                          </div>
-                        </Card>
-                      </Col>
-                    );
-                  })}
-                </Row>
-              )}
-            </Card>
+                  <Button icon={<PlusOutlined />}>Add Widget</Button>
+                </Dropdown>
+                <Popconfirm
+                  title="Reset Layout"
+                  description="Restore the default widgets and order?"
+                  onConfirm={resetLayout}
+                  okText="Yes"
+                  cancelText="No"
+                >
+                  <Button icon={<UndoOutlined />}>Reset</Button>
+                </Popconfirm>
+                <Button
+                  type="primary"
+                  icon={<CheckOutlined />}
+                  onClick={() => setEditingLayout(false)}
+                >
+                  Done
+                </Button>
+              </Space>
+            ) : (
+              <Space wrap>
+                <RangePicker
+                  value={dateRange}
+                  onChange={handleDateRangeChange}
+                  format="YYYY-MM-DD"
+                  allowClear={false}
+                />
+                <Button icon={<ReloadOutlined />} onClick={fetchAllData}>
+                  Refresh
+                </Button>
+                <StatementButton />
+                <Button
+                  icon={<AppstoreOutlined />}
+                  onClick={() => setEditingLayout(true)}
+                >
+                  Customize
+                </Button>
+              </Space>
+            )}
           </Col>
         </Row>
 
-        {/* Charts */}
-        <Row gutter={[16, 16]}>
-          <Col xs={24} lg={12}>
-            <Card>
-              <ReactECharts
-                option={getIncomeVsExpenseChart()}
-                style={{ height: "300px" }}
-              />
-            </Card>
-          </Col>
-          <Col xs={24} lg={12}>
-            <Card>
-              <ReactECharts
-                option={getCategoryExpenseChart()}
-                style={{ height: "300px" }}
-              />
-            </Card>
-          </Col>
-          <Col xs={24} lg={12}>
-            <Card>
-              <ReactECharts
-                option={getBudgetProgressChart()}
-                style={{ height: "300px" }}
-              />
-            </Card>
-          </Col>
-          <Col xs={24} lg={12}>
-            <Card>
-              <ReactECharts
-                option={getMonthlyTrendChart()}
-                style={{ height: "300px" }}
-              />
-            </Card>
-          </Col>
-        </Row>
+        {showOnboarding && (
+          <Alert
+            type="info"
+            showIcon
+            icon={<RocketOutlined />}
+            message="Set up your account"
+            description="Start from a household, student or freelancer template to get categories, a first budget and optional sample data."
+            action={
+              <Button type="primary" onClick={() => navigate("/onboarding")}>
+                Get started
+              </Button>
+            }
+            closable
+            onClose={() => userId && dismissOnboarding(userId)}
+            style={{ marginBottom: "24px" }}
+          />
+        )}
+
+        {layout.length === 0 ? (
+          <Card>
+            <Empty description="Your dashboard has no widgets">
+              <Button
+                type="primary"
+                icon={<AppstoreOutlined />}
+                onClick={() => setEditingLayout(true)}
+              >
+                Add widgets
+              </Button>
+            </Empty>
+          </Card>
+        ) : (
+          <Row gutter={[16, 16]}>
+            {layout.map((item, index) => {
+              const definition = getWidgetDefinition(item.id);
+              if (!definition) return null;
+              return (
+                <DashboardWidget
+                  key={item.id}
+                  definition={definition}
+                  size={item.size}
+                  editing={editingLayout}
+                  isFirst={index === 0}
+                  isLast={index === layout.length - 1}
+                  onResize={(size) => handleResizeWidget(item.id, size)}
+                  onRemove={() => handleRemoveWidget(item.id)}
+                  onShift={(offset) => handleShiftWidget(index, offset)}
+                  onDropWidget={(draggedId) =>
+                    setLayout(moveDashboardWidget(layout, draggedId, item.id))
+                  }
+                >
+                  {widgetContent[definition.id]()}
+                </DashboardWidget>
+              );
+            })}
+          </Row>
+        )}
       </div>
     </Layout>
   );
@@ -1,50 +1,134 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   Card,
   Table,
   Button,
   Space,
-  Tag,
   Typography,
   Row,
   Col,
   Statistic,
   DatePicker,
   Input,
-  Select,
   Popconfirm,
+  Segmented,
 } from "antd";
+import type { TableProps } from "antd";
 import {
   PlusOutlined,
   EditOutlined,
   DeleteOutlined,
-  DollarOutlined,
   SearchOutlined,
+  UploadOutlined,
 } from "@ant-design/icons";
 import dayjs from "dayjs";
 import { toast } from "sonner";
 import { Layout } from "../components/layout";
-import { Expense, Category } from "../types";
+import { Expense, Category, ExpenseSortField, SortOrder } from "../types";
 import { expensesApi, categoriesApi } from "../utils/api";
-import { ExpenseForm } from "../components/expenses";
+import {
+  AttachmentThumbnails,
+  ExpenseCategoryTag,
+  ExpenseForm,
+  ExpenseList,
+  ImportWizard,
+} from "../components/expenses";
+import type { ExpenseFormData } from "../components/expenses/ExpenseForm";
+import { ExportButton } from "../components/export";
+import { TagChips, TagSelect } from "../components/tags";
+import { PendingSyncTag } from "../components/layout";
+import { CategoryTreeSelect } from "../components/categories";
+import { useCurrency } from "../contexts/CurrencyContext";
+import { useBudgetAlerts } from "../contexts/BudgetAlertContext";
+import { convertExpenseStats, getRecordCurrency } from "../utils/currency";
+import { fetchAllExpenses, toExpenseRows } from "../utils/dataExport";
+import { parseSharedExpense } from "../utils/quickAdd";
+import { getDescendantIds } from "../utils/categoryTree";
+import { getAmountInCategories, isSplitExpense } from "../utils/splits";
+import {
+  PAGE_SIZE_OPTIONS,
+  fromTableSorter,
+  toColumnSortOrder,
+  useTableQuery,
+} from "../hooks/useTableQuery";
+import { useDebouncedSearch } from "../hooks/useDebouncedSearch";
 
 const { Title } = Typography;
 const { RangePicker } = DatePicker;
 
+const EXPENSE_SORT_FIELDS: ExpenseSortField[] = ["date", "amount", "category"];
+const INFINITE_PAGE_SIZE = 50;
+
 export const ExpensesPage: React.FC = () => {
+  const { format, toBase } = useCurrency();
+  const { refreshAlerts } = useBudgetAlerts();
+  const { page, pageSize, sortBy, sortOrder, getParam, setParams } =
+    useTableQuery(EXPENSE_SORT_FIELDS);
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | undefined>();
-  const [searchText, setSearchText] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState<string>("");
-  const [dateRange, setDateRange] = useState<[dayjs.Dayjs, dayjs.Dayjs] | null>(
-    null
-  );
+  const [quickAddValues, setQuickAddValues] = useState<
+    ReturnType<typeof parseSharedExpense> | undefined
+  >();
+  const [totalItems, setTotalItems] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [loadedPage, setLoadedPage] = useState(0);
   const [totalExpenses, setTotalExpenses] = useState(0);
   const [totalCount, setTotalCount] = useState(0);
 
+  const searchText = getParam("search") || "";
+  const handleSearch = useCallback(
+    (search: string) => setParams({ search }),
+    [setParams]
+  );
+  const [searchInput, setSearchInput] = useDebouncedSearch(
+    searchText,
+    handleSearch
+  );
+  const selectedCategory = getParam("categoryId") || "";
+  const startDate = getParam("startDate");
+  const endDate = getParam("endDate");
+  const tagsParam = getParam("tags");
+  const isInfinite = getParam("view") === "infinite";
+
+  const selectedTags = useMemo(
+    () => (tagsParam ? tagsParam.split(",") : []),
+    [tagsParam]
+  );
+
+  // A parent category also lists its subcategories' expenses
+  const categoryIdsParam = useMemo(
+    () =>
+      selectedCategory
+        ? getDescendantIds(categories, selectedCategory).join(",")
+        : undefined,
+    [categories, selectedCategory]
+  );
+  const selectedCategoryIds = useMemo(
+    () => categoryIdsParam?.split(","),
+    [categoryIdsParam]
+  );
+
+  const dateRange = useMemo<[dayjs.Dayjs, dayjs.Dayjs] | null>(
+    () => (startDate && endDate ? [dayjs(startDate), dayjs(endDate)] : null),
+    [startDate, endDate]
+  );
+
+  const filters = useMemo(
+    () => ({
+      search: searchText || undefined,
+      categoryIds: categoryIdsParam,
+      startDate: dateRange?.[0].startOf("day").toISOString(),
+      endDate: dateRange?.[1].endOf("day").toISOString(),
+      tags: tagsParam,
+    }),
+    [searchText, categoryIdsParam, dateRange, tagsParam]
+  );
+
   const fetchCategories = useCallback(async () => {
     try {
       const response = await categoriesApi.getCategories();
@@ -56,71 +140,121 @@ export const ExpensesPage: React.FC = () => {
     }
   }, []);
 
-  const fetchExpenses = useCallback(async () => {
-    setLoading(true);
+  // Same filters as the list so the totals describe what's shown
+  const fetchStats = useCallback(async () => {
     try {
-      const params: any = {};
-      if (searchText) params.search = searchText;
-      if (selectedCategory) params.categoryId = selectedCategory;
-      if (dateRange) {
-        params.startDate = dateRange[0].toISOString();
-        params.endDate = dateRange[1].toISOString();
+      const response = await expensesApi.getStats(filters);
+      if (response.success && response.data) {
+        const stats = convertExpenseStats(response.data, toBase);
+        setTotalExpenses(stats.totalStats.totalAmount);
+        setTotalCount(stats.totalStats.totalCount);
       }
+    } catch (error: any) {
+      toast.error("Failed to fetch expense statistics");
+    }
+  }, [filters, toBase]);
 
-      // Fetch both expenses and stats
-      const [expensesResponse, statsResponse] = await Promise.all([
-        expensesApi.getExpenses(params),
-        expensesApi.getStats({
-          categoryId: selectedCategory || undefined,
-          startDate: dateRange?.[0]?.toISOString(),
-          endDate: dateRange?.[1]?.toISOString(),
-        }),
-      ]);
-
-      if (expensesResponse.success && expensesResponse.data) {
-        setExpenses(expensesResponse.data.expenses);
-      }
+  // Infinite scroll always restarts from the first page
+  const fetchExpenses = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await expensesApi.getExpenses({
+        ...filters,
+        sortBy,
+        sortOrder,
+        page: isInfinite ? 1 : page,
+        limit: isInfinite ? INFINITE_PAGE_SIZE : pageSize,
+      });
 
-      if (statsResponse.success && statsResponse.data) {
-        setTotalExpenses(statsResponse.data.totalStats.totalAmount);
-        setTotalCount(statsResponse.data.totalStats.totalCount);
+      if (response.success && response.data) {
+        const { expenses, total, totalPages } = response.data;
+        if (!isInfinite && totalPages > 0 && page > totalPages) {
+          setParams({ page: totalPages });
+          return;
+        }
+        setExpenses(expenses);
+        setTotalItems(total);
+        setTotalPages(totalPages);
+        setLoadedPage(1);
       }
     } catch (error: any) {
       toast.error("Failed to fetch expenses");
     } finally {
       setLoading(false);
     }
-  }, [searchText, selectedCategory, dateRange]);
+  }, [filters, sortBy, sortOrder, page, pageSize, isInfinite, setParams]);
+
+  const loadMoreExpenses = async () => {
+    if (loadingMore || loadedPage >= totalPages) return;
+    setLoadingMore(true);
+    try {
+      const response = await expensesApi.getExpenses({
+        ...filters,
+        sortBy,
+        sortOrder,
+        page: loadedPage + 1,
+        limit: INFINITE_PAGE_SIZE,
+      });
+      if (response.success && response.data) {
+        const { expenses: nextPage, totalPages } = response.data;
+        setExpenses((current) => [
+          ...current,
+          ...nextPage.filter(
+            (expense) => !current.some((item) => item.id === expense.id)
+          ),
+        ]);
+        setLoadedPage(loadedPage + 1);
+        setTotalPages(totalPages);
+      }
+    } catch (error: any) {
+      toast.error("Failed to load more expenses");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const refreshExpenses = () => {
+    fetchExpenses();
+    fetchStats();
+  };
 
   useEffect(() => {
     fetchExpenses();
+  }, [fetchExpenses]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  useEffect(() => {
+    const handleSynced = () => {
+      fetchExpenses();
+      fetchStats();
+    };
+    window.addEventListener("offline:synced", handleSynced);
+    return () => window.removeEventListener("offline:synced", handleSynced);
+  }, [fetchExpenses, fetchStats]);
+
+  useEffect(() => {
     fetchCategories();
-  }, [fetchExpenses, fetchCategories]);
-
-  const handleCreateExpense = async (data: {
-    amount: number;
-    description: string;
-    categoryId: string;
-    date: string;
-  }) => {
+  }, [fetchCategories]);
+
+  const handleCreateExpense = async (data: ExpenseFormData) => {
     try {
       const response = await expensesApi.createExpense(data);
       if (response.success) {
         toast.success("Expense added successfully!");
         setIsFormOpen(false);
-        fetchExpenses();
+        setQuickAddValues(undefined);
+        refreshExpenses();
+        refreshAlerts({ notify: true });
       }
     } catch (error: any) {
       throw error;
     }
   };
 
-  const handleUpdateExpense = async (data: {
-    amount: number;
-    description: string;
-    categoryId: string;
-    date: string;
-  }) => {
+  const handleUpdateExpense = async (data: ExpenseFormData) => {
     if (!editingExpense) return;
 
     try {
@@ -129,7 +263,8 @@ export const ExpensesPage: React.FC = () => {
         toast.success("Expense updated successfully!");
         setIsFormOpen(false);
         setEditingExpense(undefined);
-        fetchExpenses();
+        refreshExpenses();
+        refreshAlerts({ notify: true });
       }
     } catch (error: any) {
       throw error;
@@ -141,16 +276,66 @@ export const ExpensesPage: React.FC = () => {
       const response = await expensesApi.deleteExpense(expenseId);
       if (response.success) {
         toast.success("Expense deleted successfully!");
-        fetchExpenses();
+        refreshExpenses();
       }
     } catch (error: any) {
       toast.error("Failed to delete expense");
     }
   };
 
-  const getCategoryName = (categoryId: string) => {
-    const category = categories.find((cat) => cat.id === categoryId);
-    return category?.name || "Unknown";
+  // The home-screen shortcut and the share target both land here
+  useEffect(() => {
+    const shared = {
+      title: getParam("title"),
+      text: getParam("text"),
+      url: getParam("url"),
+    };
+    if (getParam("quickAdd") !== "1" && !Object.values(shared).some(Boolean)) {
+      return;
+    }
+    setEditingExpense(undefined);
+    setQuickAddValues(parseSharedExpense(shared));
+    setIsFormOpen(true);
+    setParams({
+      quickAdd: undefined,
+      title: undefined,
+      text: undefined,
+      url: undefined,
+    });
+  }, [getParam, setParams]);
+
+  const handleEditExpense = (expense: Expense) => {
+    setEditingExpense(expense);
+    setIsFormOpen(true);
+  };
+
+  const handleSortChange = (
+    nextSortBy?: ExpenseSortField,
+    nextSortOrder?: SortOrder
+  ) => {
+    setParams({ sortBy: nextSortBy, sortOrder: nextSortOrder });
+  };
+
+  const handleTableChange: TableProps<Expense>["onChange"] = (
+    pagination,
+    _,
+    sorter,
+    extra
+  ) => {
+    if (extra.action === "paginate") {
+      setParams({ page: pagination.current, pageSize: pagination.pageSize });
+    } else if (extra.action === "sort") {
+      const next = fromTableSorter(sorter);
+      handleSortChange(
+        next.sortBy as ExpenseSortField | undefined,
+        next.sortOrder
+      );
+    }
+  };
+
+  const getExportSheets = async () => {
+    const expenses = await fetchAllExpenses(filters);
+    return [{ name: "Expenses", rows: toExpenseRows(expenses, categories) }];
   };
 
   const columns = [
@@ -160,8 +345,8 @@ export const ExpensesPage: React.FC = () => {
       key: "date",
       width: 120,
       render: (date: string) => dayjs(date).format("MMM DD, YYYY"),
-      sorter: (a: Expense, b: Expense) =>
-        dayjs(a.date).unix() - dayjs(b.date).unix(),
+      sorter: true,
+      sortOrder: toColumnSortOrder("date", sortBy, sortOrder),
     },
     {
       title: "Description",
@@ -169,14 +354,37 @@ export const ExpensesPage: React.FC = () => {
       key: "description",
       width: 200,
       ellipsis: true,
+      render: (description: string, record: Expense) => (
+        <>
+          {description} <PendingSyncTag pending={record.pendingSync} />
+        </>
+      ),
     },
     {
       title: "Category",
       dataIndex: "categoryId",
       key: "category",
       width: 120,
-      render: (categoryId: string) => (
-        <Tag color="blue">{getCategoryName(categoryId)}</Tag>
+      render: (_: string, record: Expense) => (
+        <ExpenseCategoryTag expense={record} categories={categories} />
+      ),
+      sorter: true,
+      sortOrder: toColumnSortOrder("category", sortBy, sortOrder),
+    },
+    {
+      title: "Tags",
+      dataIndex: "tags",
+      key: "tags",
+      width: 140,
+      render: (_: unknown, record: Expense) => <TagChips tags={record.tags} />,
+    },
+    {
+      title: "Receipts",
+      dataIndex: "attachments",
+      key: "attachments",
+      width: 90,
+      render: (_: unknown, record: Expense) => (
+        <AttachmentThumbnails attachments={record.attachments} size={28} />
       ),
     },
     {
@@ -184,12 +392,33 @@ export const ExpensesPage: React.FC = () => {
       dataIndex: "amount",
       key: "amount",
       width: 100,
-      render: (amount: number) => (
-        <span style={{ color: "#ff4d4f", fontWeight: "bold" }}>
-          -${amount.toFixed(2)}
-        </span>
-      ),
-      sorter: (a: Expense, b: Expense) => a.amount - b.amount,
+      render: (amount: number, record: Expense) => {
+        const currency = getRecordCurrency(record.currency);
+        if (!selectedCategoryIds || !isSplitExpense(record)) {
+          return (
+            <span style={{ color: "#ff4d4f", fontWeight: "bold" }}>
+              -{format(amount, currency)}
+            </span>
+          );
+        }
+        // Only the split lines in the filtered categories count towards it
+        return (
+          <>
+            <span style={{ color: "#ff4d4f", fontWeight: "bold" }}>
+              -
+              {format(
+                getAmountInCategories(record, selectedCategoryIds),
+                currency
+              )}
+            </span>
+            <div style={{ color: "#8c8c8c", fontSize: "12px" }}>
+              of {format(amount, currency)}
+            </div>
+          </>
+        );
+      },
+      sorter: true,
+      sortOrder: toColumnSortOrder("amount", sortBy, sortOrder),
     },
     {
       title: "Actions",
@@ -201,10 +430,7 @@ export const ExpensesPage: React.FC = () => {
           <Button
             icon={<EditOutlined />}
             size="small"
-            onClick={() => {
-              setEditingExpense(record);
-              setIsFormOpen(true);
-            }}
+            onClick={() => handleEditExpense(record)}
           />
           <Popconfirm
             title="Delete Expense"
@@ -236,8 +462,7 @@ export const ExpensesPage: React.FC = () => {
               <Statistic
                 title="Total Expenses"
                 value={totalExpenses}
-                prefix={<DollarOutlined />}
-                precision={2}
+                formatter={(value) => format(Number(value))}
                 valueStyle={{ color: "#ff4d4f" }}
               />
             </Card>
@@ -252,8 +477,7 @@ export const ExpensesPage: React.FC = () => {
               <Statistic
                 title="Average Expense"
                 value={totalCount > 0 ? totalExpenses / totalCount : 0}
-                prefix={<DollarOutlined />}
-                precision={2}
+                formatter={(value) => format(Number(value))}
               />
             </Card>
           </Col>
@@ -262,71 +486,128 @@ export const ExpensesPage: React.FC = () => {
         {/* Filters and Actions */}
         <Card style={{ marginBottom: "16px" }}>
           <Row gutter={[16, 16]} align="middle">
-            <Col xs={24} sm={6}>
+            <Col xs={24} sm={12} md={6}>
               <Input
                 placeholder="Search expenses..."
                 prefix={<SearchOutlined />}
-                value={searchText}
-                onChange={(e) => setSearchText(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
                 allowClear
               />
             </Col>
-            <Col xs={24} sm={6}>
-              <Select
+            <Col xs={24} sm={12} md={6}>
+              <CategoryTreeSelect
+                categories={categories}
                 placeholder="Filter by category"
                 style={{ width: "100%" }}
                 allowClear
                 value={selectedCategory || undefined}
-                onChange={(value) => setSelectedCategory(value || "")}
-              >
-                {categories.map((category) => (
-                  <Select.Option key={category.id} value={category.id}>
-                    {category.name}
-                  </Select.Option>
-                ))}
-              </Select>
+                onChange={(value) => setParams({ categoryId: value })}
+              />
             </Col>
-            <Col xs={24} sm={6}>
+            <Col xs={24} sm={12} md={6}>
+              <TagSelect
+                allowCreate={false}
+                placeholder="Filter by tags"
+                style={{ width: "100%" }}
+                allowClear
+                maxTagCount="responsive"
+                value={selectedTags}
+                onChange={(tagIds) => setParams({ tags: tagIds.join(",") })}
+              />
+            </Col>
+            <Col xs={24} sm={12} md={6}>
               <RangePicker
                 style={{ width: "100%" }}
                 value={dateRange}
                 onChange={(dates) =>
-                  setDateRange(dates as [dayjs.Dayjs, dayjs.Dayjs] | null)
+                  setParams({
+                    startDate: dates?.[0]?.format("YYYY-MM-DD"),
+                    endDate: dates?.[1]?.format("YYYY-MM-DD"),
+                  })
                 }
                 format="YYYY-MM-DD"
               />
             </Col>
-            <Col xs={24} sm={6} style={{ textAlign: "right" }}>
-              <Button
-                type="primary"
-                icon={<PlusOutlined />}
-                onClick={() => {
-                  setEditingExpense(undefined);
-                  setIsFormOpen(true);
-                }}
-              >
-                Add Expense
-              </Button>
+            <Col xs={24} style={{ textAlign: "right" }}>
+              <Space wrap>
+                <ExportButton getSheets={getExportSheets} fileName="expenses" />
+                <Button
+                  icon={<UploadOutlined />}
+                  onClick={() => setIsImportOpen(true)}
+                >
+                  Import
+                </Button>
+                <Button
+                  type="primary"
+                  icon={<PlusOutlined />}
+                  onClick={() => {
+                    setEditingExpense(undefined);
+                    setIsFormOpen(true);
+                  }}
+                >
+                  Add Expense
+                </Button>
+              </Space>
             </Col>
           </Row>
         </Card>
 
         {/* Expense Table */}
-        <Card>
-          <Table
-            columns={columns}
-            dataSource={expenses}
-            rowKey="id"
-            loading={loading}
-            scroll={{ x: 800 }}
-            pagination={{
-              pageSize: 10,
-              showSizeChanger: true,
-              showQuickJumper: true,
-              showTotal: (total, range) =>
-                `${range[0]}-${range[1]} of ${total} expenses`,
-            }}
-          />
+        <Card
+          extra={
+            <Segmented
+              value={isInfinite ? "infinite" : "pages"}
+              onChange={(value) =>
+                setParams({
+                  view: value === "infinite" ? "infinite" : undefined,
+                })
+              }
+              options={[
+                { label: "Pages", value: "pages" },
+                { label: "Infinite scroll", value: "infinite" },
+              ]}
+            />
+          }
+        >
+          {isInfinite ? (
+            <ExpenseList
+              expenses={expenses}
+              onEdit={handleEditExpense}
+              onDelete={handleDeleteExpense}
+              isLoading={loading}
+              sortBy={sortBy}
+              sortOrder={sortOrder}
+              onSortChange={handleSortChange}
+              categoryIds={selectedCategoryIds}
+              infiniteScroll={{
+                hasMore: loadedPage < totalPages,
+                loadingMore,
+                onLoadMore: loadMoreExpenses,
+                total: totalItems,
+              }}
+            />
+          ) : (
+            <Table
+              columns={columns}
+              dataSource={expenses}
+              rowKey="id"
+              loading={loading}
+              scroll={{ x: 800 }}
+              onChange={handleTableChange}
+              showSorterTooltip={false}
+              pagination={{
+                current: page,
+                pageSize,
+                total: totalItems,
+                pageSizeOptions: PAGE_SIZE_OPTIONS,
+                showSizeChanger: true,
+                showQuickJumper: true,
+                showTotal: (total, range) =>
+                  `${range[0]}-${range[1]} of ${total} expenses`,
+              }}
+            />
+          )}
         </Card>
 
         {/* Expense Form Modal */}
@@ -335,9 +616,22 @@ export const ExpensesPage: React.FC = () => {
           onClose={() => {
             setIsFormOpen(false);
             setEditingExpense(undefined);
+            setQuickAddValues(undefined);
           }}
           onSubmit={editingExpense ? handleUpdateExpense : handleCreateExpense}
           expense={editingExpense}
+          defaultValues={quickAddValues}
+        />
+
+        {/* Statement Import Wizard */}
+        <ImportWizard
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          onImported={() => {
+            refreshExpenses();
+            refreshAlerts({ notify: true });
+          }}
+          categories={categories}
         />
       </div>
     </Layout>
@@ -0,0 +1,498 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  Button,
+  Space,
+  Tag,
+  Typography,
+  Row,
+  Col,
+  Statistic,
+  Progress,
+  Popconfirm,
+  Tooltip,
+  Empty,
+  List,
+  Spin,
+} from "antd";
+import {
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  FlagOutlined,
+  ReloadOutlined,
+} from "@ant-design/icons";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { Layout } from "../components/layout";
+import { SavingsGoal } from "../types";
+import { goalsApi } from "../utils/api";
+import { handleApiError } from "../utils/errorHandler";
+import { useCurrency } from "../contexts/CurrencyContext";
+import { getRecordCurrency } from "../utils/currency";
+import {
+  GOAL_COLORS,
+  GoalStatus,
+  getGoalProgress,
+  getGoalRemaining,
+  getGoalSaved,
+  getGoalStatus,
+  getMonthsRemaining,
+  getProjectedCompletion,
+  getRequiredMonthlyContribution,
+  goalStatusLabels,
+} from "../utils/goals";
+import { GoalForm, ContributionForm } from "../components/goals";
+
+const { Title, Text } = Typography;
+
+// Contributions listed on each card before the rest are collapsed
+const RECENT_CONTRIBUTIONS = 3;
+
+const statusColors: Record<GoalStatus, string> = {
+  completed: "green",
+  "on-track": "blue",
+  behind: "orange",
+  overdue: "red",
+  "no-deadline": "default",
+};
+
+export const GoalsPage: React.FC = () => {
+  const { toBase, format } = useCurrency();
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<SavingsGoal | undefined>();
+  const [contributingGoal, setContributingGoal] = useState<
+    SavingsGoal | undefined
+  >();
+  const [expandedGoals, setExpandedGoals] = useState<string[]>([]);
+
+  const fetchGoals = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await goalsApi.getGoals();
+      if (response.success && response.data) {
+        setGoals(response.data);
+      }
+    } catch (error: any) {
+      handleApiError(error, "fetch goals");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGoals();
+  }, [fetchGoals]);
+
+  const totalSaved = goals.reduce(
+    (sum, goal) => sum + toBase(getGoalSaved(goal), goal.currency),
+    0
+  );
+  const totalTarget = goals.reduce(
+    (sum, goal) => sum + toBase(goal.targetAmount, goal.currency),
+    0
+  );
+  const requiredMonthly = goals.reduce(
+    (sum, goal) =>
+      sum + toBase(getRequiredMonthlyContribution(goal) || 0, goal.currency),
+    0
+  );
+  const completedCount = goals.filter(
+    (goal) => getGoalStatus(goal) === "completed"
+  ).length;
+
+  const handleSubmitGoal = async (data: {
+    name: string;
+    targetAmount: number;
+    currency: string;
+    deadline?: string;
+    color: string;
+  }) => {
+    try {
+      if (editingGoal) {
+        const response = await goalsApi.updateGoal(editingGoal.id, {
+          ...data,
+          deadline: data.deadline || null,
+        });
+        if (response.success) {
+          toast.success("Goal updated successfully!");
+          fetchGoals();
+        }
+      } else {
+        const response = await goalsApi.createGoal(data);
+        if (response.success) {
+          toast.success("Goal created successfully!");
+          fetchGoals();
+        }
+      }
+      setIsFormOpen(false);
+      setEditingGoal(undefined);
+    } catch (error: any) {
+      throw error;
+    }
+  };
+
+  const handleDeleteGoal = async (id: string) => {
+    try {
+      const response = await goalsApi.deleteGoal(id);
+      if (response.success) {
+        toast.success("Goal deleted successfully!");
+        setGoals((list) => list.filter((goal) => goal.id !== id));
+      }
+    } catch (error: any) {
+      handleApiError(error, "delete goal");
+    }
+  };
+
+  const handleAddContribution = async (data: {
+    amount: number;
+    date: string;
+    note?: string;
+  }) => {
+    if (!contributingGoal) return;
+
+    try {
+      const response = await goalsApi.addContribution(
+        contributingGoal.id,
+        data
+      );
+      if (response.success) {
+        const reached =
+          getGoalRemaining(contributingGoal) > 0 &&
+          getGoalRemaining(contributingGoal) <= data.amount;
+        toast.success(
+          reached
+            ? `${contributingGoal.name} reached its target!`
+            : "Contribution added successfully!"
+        );
+        setContributingGoal(undefined);
+        fetchGoals();
+      }
+    } catch (error: any) {
+      throw error;
+    }
+  };
+
+  const handleDeleteContribution = async (
+    goal: SavingsGoal,
+    contributionId: string
+  ) => {
+    try {
+      const response = await goalsApi.deleteContribution(
+        goal.id,
+        contributionId
+      );
+      if (response.success) {
+        toast.success("Contribution removed successfully!");
+        setGoals((list) =>
+          list.map((item) =>
+            item.id === goal.id
+              ? {
+                  ...item,
+                  contributions: (item.contributions || []).filter(
+                    (contribution) => contribution.id !== contributionId
+                  ),
+                }
+              : item
+          )
+        );
+      }
+    } catch (error: any) {
+      handleApiError(error, "remove contribution");
+    }
+  };
+
+  const toggleExpanded = (id: string) =>
+    setExpandedGoals((list) =>
+      list.includes(id) ? list.filter((item) => item !== id) : [...list, id]
+    );
+
+  const renderDeadline = (goal: SavingsGoal) => {
+    if (!goal.deadline) {
+      const projected = getProjectedCompletion(goal);
+      return (
+        <Text type="secondary">
+          {projected
+            ? `At your recent pace: ${projected.format("MMM YYYY")}`
+            : "No deadline"}
+        </Text>
+      );
+    }
+    const months = getMonthsRemaining(goal.deadline);
+    return (
+      <Text type="secondary">
+        By {dayjs(goal.deadline).format("MMM DD, YYYY")}
+        {months > 0 ? ` (${months} month${months === 1 ? "" : "s"} left)` : ""}
+      </Text>
+    );
+  };
+
+  const renderGoal = (goal: SavingsGoal, index: number) => {
+    const status = getGoalStatus(goal);
+    const required = getRequiredMonthlyContribution(goal);
+    const color = goal.color || GOAL_COLORS[index % GOAL_COLORS.length];
+    const contributions = [...(goal.contributions || [])].sort(
+      (a, b) => dayjs(b.date).valueOf() - dayjs(a.date).valueOf()
+    );
+    const expanded = expandedGoals.includes(goal.id);
+
+    return (
+      <Col xs={24} md={12} lg={8} key={goal.id}>
+        <Card
+          title={
+            <Space>
+              <FlagOutlined style={{ color }} />
+              {goal.name}
+            </Space>
+          }
+          extra={
+            <Tag color={statusColors[status]}>{goalStatusLabels[status]}</Tag>
+          }
+          actions={[
+            <Button
+              key="contribute"
+              type="link"
+              icon={<PlusOutlined />}
+              disabled={status === "completed"}
+              onClick={() => setContributingGoal(goal)}
+            >
+              Contribute
+            </Button>,
+            <Button
+              key="edit"
+              type="text"
+              icon={<EditOutlined />}
+              onClick={() => {
+                setEditingGoal(goal);
+                setIsFormOpen(true);
+              }}
+            />,
+            <Popconfirm
+              key="delete"
+              title="Delete Goal"
+              description="Delete this goal and its contributions?"
+              onConfirm={() => handleDeleteGoal(goal.id)}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Button type="text" icon={<DeleteOutlined />} danger />
+            </Popconfirm>,
+          ]}
+        >
+          <div style={{ textAlign: "center", marginBottom: "16px" }}>
+            <Progress
+              type="circle"
+              percent={Math.round(getGoalProgress(goal))}
+              strokeColor={color}
+              status={status === "completed" ? "success" : "normal"}
+            />
+            <div style={{ marginTop: "8px" }}>
+              <Text strong>
+                {format(getGoalSaved(goal), getRecordCurrency(goal.currency))}
+              </Text>
+              <Text type="secondary">
+                {" "}
+                of {format(goal.targetAmount, getRecordCurrency(goal.currency))}
+              </Text>
+            </div>
+            {renderDeadline(goal)}
+          </div>
+
+          {required !== undefined && status !== "completed" && (
+            <Statistic
+              title="Needed per month"
+              value={required}
+              formatter={(value) =>
+                format(Number(value), getRecordCurrency(goal.currency))
+              }
+              valueStyle={{
+                fontSize: "18px",
+                color: status === "on-track" ? "#52c41a" : "#fa8c16",
+              }}
+              style={{ marginBottom: "12px" }}
+            />
+          )}
+
+          {contributions.length > 0 && (
+            <>
+              <List
+                size="small"
+                dataSource={
+                  expanded
+                    ? contributions
+                    : contributions.slice(0, RECENT_CONTRIBUTIONS)
+                }
+                renderItem={(contribution) => (
+                  <List.Item
+                    actions={[
+                      <Popconfirm
+                        key="delete"
+                        title="Remove Contribution"
+                        description="Remove this contribution?"
+                        onConfirm={() =>
+                          handleDeleteContribution(goal, contribution.id)
+                        }
+                        okText="Yes"
+                        cancelText="No"
+                      >
+                        <Tooltip title="Remove">
+                          <Button
+                            type="text"
+                            size="small"
+                            icon={<DeleteOutlined />}
+                          />
+                        </Tooltip>
+                      </Popconfirm>,
+                    ]}
+                  >
+                    <List.Item.Meta
+                      title={format(
+                        contribution.amount,
+                        getRecordCurrency(goal.currency)
+                      )}
+                      description={`${dayjs(contribution.date).format(
+                        "MMM DD, YYYY"
+                      )}${contribution.note ? ` - ${contribution.note}` : ""}`}
+                    />
+                  </List.Item>
+                )}
+              />
+              {contributions.length > RECENT_CONTRIBUTIONS && (
+                <Button
+                  type="link"
+                  size="small"
+                  onClick={() => toggleExpanded(goal.id)}
+                >
+                  {expanded
+                    ? "Show less"
+                    : `Show all ${contributions.length} contributions`}
+                </Button>
+              )}
+            </>
+          )}
+        </Card>
+      </Col>
+    );
+  };
+
+  return (
+    <Layout>
+      <div style={{ padding: "24px" }}>
+        <Row
+          gutter={[16, 16]}
+          style={{ marginBottom: "24px" }}
+          justify="space-between"
+          align="middle"
+        >
+          <Col>
+            <Title level={2} style={{ margin: 0 }}>
+              <FlagOutlined style={{ marginRight: "8px" }} />
+              Savings Goals
+            </Title>
+          </Col>
+          <Col>
+            <Space>
+              <Button
+                icon={<ReloadOutlined />}
+                onClick={fetchGoals}
+                loading={loading}
+              />
+              <Button
+                type="primary"
+                icon={<PlusOutlined />}
+                onClick={() => {
+                  setEditingGoal(undefined);
+                  setIsFormOpen(true);
+                }}
+              >
+                Add Goal
+              </Button>
+            </Space>
+          </Col>
+        </Row>
+
+        {/* Stats Cards */}
+        <Row gutter={[16, 16]} style={{ marginBottom: "24px" }}>
+          <Col xs={24} sm={12} md={6}>
+            <Card>
+              <Statistic
+                title="Total Saved"
+                value={totalSaved}
+                formatter={(value) => format(Number(value))}
+                valueStyle={{ color: "#52c41a" }}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} md={6}>
+            <Card>
+              <Statistic
+                title="Total Target"
+                value={totalTarget}
+                formatter={(value) => format(Number(value))}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} md={6}>
+            <Card>
+              <Statistic
+                title="Needed per Month"
+                value={requiredMonthly}
+                formatter={(value) => format(Number(value))}
+                valueStyle={{ color: "#fa8c16" }}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} md={6}>
+            <Card>
+              <Statistic
+                title="Completed"
+                value={completedCount}
+                suffix={`/ ${goals.length}`}
+              />
+            </Card>
+          </Col>
+        </Row>
+
+        <Spin spinning={loading}>
+          {goals.length === 0 ? (
+            <Card>
+              <Empty description="No savings goals yet">
+                <Button
+                  type="primary"
+                  icon={<PlusOutlined />}
+                  onClick={() => {
+                    setEditingGoal(undefined);
+                    setIsFormOpen(true);
+                  }}
+                >
+                  Create your first goal
+                </Button>
+              </Empty>
+            </Card>
+          ) : (
+            <Row gutter={[16, 16]}>{goals.map(renderGoal)}</Row>
+          )}
+        </Spin>
+
+        <GoalForm
+          isOpen={isFormOpen}
+          onClose={() => {
+            setIsFormOpen(false);
+            setEditingGoal(undefined);
+          }}
+          onSubmit={handleSubmitGoal}
+          goal={editingGoal}
+        />
+
+        <ContributionForm
+          isOpen={!!contributingGoal}
+          onClose={() => setContributingGoal(undefined)}
+          onSubmit={handleAddContribution}
+          goal={contributingGoal}
+        />
+      </div>
+    </Layout>
+  );
+};
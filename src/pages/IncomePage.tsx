@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   Card,
   Table,
@@ -13,80 +13,167 @@ import {
   Input,
   Popconfirm,
 } from "antd";
+import type { TableProps } from "antd";
 import {
   PlusOutlined,
   EditOutlined,
   DeleteOutlined,
-  DollarOutlined,
   SearchOutlined,
 } from "@ant-design/icons";
 import dayjs from "dayjs";
 import { toast } from "sonner";
 import { Layout } from "../components/layout";
-import { Income } from "../types";
+import { Income, IncomeSortField } from "../types";
 import { incomeApi } from "../utils/api";
 import { IncomeForm } from "../components/income";
+import { ExportButton } from "../components/export";
+import { TagChips, TagSelect } from "../components/tags";
+import { PendingSyncTag } from "../components/layout";
+import { useCurrency } from "../contexts/CurrencyContext";
+import { getRecordCurrency } from "../utils/currency";
+import { fetchAllIncomes, toIncomeRows } from "../utils/dataExport";
+import {
+  PAGE_SIZE_OPTIONS,
+  fromTableSorter,
+  toColumnSortOrder,
+  useTableQuery,
+} from "../hooks/useTableQuery";
+import { useDebouncedSearch } from "../hooks/useDebouncedSearch";
 
 const { Title } = Typography;
 const { RangePicker } = DatePicker;
 
+const INCOME_SORT_FIELDS: IncomeSortField[] = ["date", "amount", "source"];
+
 export const IncomePage: React.FC = () => {
+  const { format, toBase } = useCurrency();
+  const { page, pageSize, sortBy, sortOrder, getParam, setParams } =
+    useTableQuery(INCOME_SORT_FIELDS);
   const [incomes, setIncomes] = useState<Income[]>([]);
   const [loading, setLoading] = useState(false);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingIncome, setEditingIncome] = useState<Income | undefined>();
-  const [searchText, setSearchText] = useState("");
-  const [dateRange, setDateRange] = useState<[dayjs.Dayjs, dayjs.Dayjs] | null>(
-    null
-  );
   const [totalIncome, setTotalIncome] = useState(0);
   const [totalCount, setTotalCount] = useState(0);
 
+  const searchText = getParam("search") || "";
+  const handleSearch = useCallback(
+    (search: string) => setParams({ search }),
+    [setParams]
+  );
+  const [searchInput, setSearchInput] = useDebouncedSearch(
+    searchText,
+    handleSearch
+  );
+  const startDate = getParam("startDate");
+  const endDate = getParam("endDate");
+  const tagsParam = getParam("tags");
+
+  const selectedTags = useMemo(
+    () => (tagsParam ? tagsParam.split(",") : []),
+    [tagsParam]
+  );
+
+  const dateRange = useMemo<[dayjs.Dayjs, dayjs.Dayjs] | null>(
+    () => (startDate && endDate ? [dayjs(startDate), dayjs(endDate)] : null),
+    [startDate, endDate]
+  );
+
+  const filters = useMemo(
+    () => ({
+      search: searchText || undefined,
+      startDate: dateRange?.[0].startOf("day").toISOString(),
+      endDate: dateRange?.[1].endOf("day").toISOString(),
+      tags: tagsParam,
+    }),
+    [searchText, dateRange, tagsParam]
+  );
+
   const fetchIncomes = useCallback(async () => {
     setLoading(true);
     try {
-      const params: any = {};
-      if (searchText) params.search = searchText;
-      if (dateRange) {
-        params.startDate = dateRange[0].toISOString();
-        params.endDate = dateRange[1].toISOString();
-      }
-
-      const response = await incomeApi.getIncomes(params);
+      const response = await incomeApi.getIncomes({
+        ...filters,
+        sortBy,
+        sortOrder,
+        page,
+        limit: pageSize,
+      });
       if (response.success && response.data) {
-        setIncomes(response.data.incomes);
-        setTotalCount(response.data.total);
-
-        // Calculate total income
-        const total = response.data.incomes.reduce(
-          (sum, income) => sum + income.amount,
-          0
-        );
-        setTotalIncome(total);
+        const { incomes, total, totalPages } = response.data;
+        if (totalPages > 0 && page > totalPages) {
+          setParams({ page: totalPages });
+          return;
+        }
+        setIncomes(incomes);
+        setTotalCount(total);
       }
     } catch (error: any) {
       toast.error("Failed to fetch incomes");
     } finally {
       setLoading(false);
     }
-  }, [searchText, dateRange]);
+  }, [filters, sortBy, sortOrder, page, pageSize, setParams]);
+
+  // The list endpoint is paginated, so the total is summed across all pages
+  const fetchTotalIncome = useCallback(async () => {
+    try {
+      const allIncomes = await fetchAllIncomes(filters);
+      setTotalIncome(
+        allIncomes.reduce(
+          (sum, income) => sum + toBase(income.amount, income.currency),
+          0
+        )
+      );
+    } catch (error: any) {
+      toast.error("Failed to calculate total income");
+    }
+  }, [filters, toBase]);
+
+  const refreshIncomes = () => {
+    fetchIncomes();
+    fetchTotalIncome();
+  };
 
   useEffect(() => {
     fetchIncomes();
   }, [fetchIncomes]);
 
+  useEffect(() => {
+    fetchTotalIncome();
+  }, [fetchTotalIncome]);
+
+  // Opened from the home-screen "Add income" shortcut
+  useEffect(() => {
+    if (getParam("quickAdd") !== "1") return;
+    setEditingIncome(undefined);
+    setIsFormOpen(true);
+    setParams({ quickAdd: undefined });
+  }, [getParam, setParams]);
+
+  useEffect(() => {
+    const handleSynced = () => {
+      fetchIncomes();
+      fetchTotalIncome();
+    };
+    window.addEventListener("offline:synced", handleSynced);
+    return () => window.removeEventListener("offline:synced", handleSynced);
+  }, [fetchIncomes, fetchTotalIncome]);
+
   const handleCreateIncome = async (data: {
     amount: number;
+    currency: string;
     description: string;
     source: string;
     date: string;
+    tagIds: string[];
   }) => {
     try {
       const response = await incomeApi.createIncome(data);
       if (response.success) {
         toast.success("Income added successfully!");
         setIsFormOpen(false);
-        fetchIncomes();
+        refreshIncomes();
       }
     } catch (error: any) {
       throw error;
@@ -95,9 +182,11 @@ export const IncomePage: React.FC = () => {
 
   const handleUpdateIncome = async (data: {
     amount: number;
+    currency: string;
     description: string;
     source: string;
     date: string;
+    tagIds: string[];
   }) => {
     if (!editingIncome) return;
 
@@ -107,7 +196,7 @@ export const IncomePage: React.FC = () => {
         toast.success("Income updated successfully!");
         setIsFormOpen(false);
         setEditingIncome(undefined);
-        fetchIncomes();
+        refreshIncomes();
       }
     } catch (error: any) {
       throw error;
@@ -119,13 +208,32 @@ export const IncomePage: React.FC = () => {
       const response = await incomeApi.deleteIncome(incomeId);
       if (response.success) {
         toast.success("Income deleted successfully!");
-        fetchIncomes();
+        refreshIncomes();
       }
     } catch (error: any) {
       toast.error("Failed to delete income");
     }
   };
 
+  const handleTableChange: TableProps<Income>["onChange"] = (
+    pagination,
+    _,
+    sorter,
+    extra
+  ) => {
+    if (extra.action === "paginate") {
+      setParams({ page: pagination.current, pageSize: pagination.pageSize });
+    } else if (extra.action === "sort") {
+      const next = fromTableSorter(sorter);
+      setParams({ sortBy: next.sortBy, sortOrder: next.sortOrder });
+    }
+  };
+
+  const getExportSheets = async () => {
+    const incomes = await fetchAllIncomes(filters);
+    return [{ name: "Income", rows: toIncomeRows(incomes) }];
+  };
+
   const columns = [
     {
       title: "Date",
@@ -133,8 +241,8 @@ export const IncomePage: React.FC = () => {
       key: "date",
       width: 120,
       render: (date: string) => dayjs(date).format("MMM DD, YYYY"),
-      sorter: (a: Income, b: Income) =>
-        dayjs(a.date).unix() - dayjs(b.date).unix(),
+      sorter: true,
+      sortOrder: toColumnSortOrder("date", sortBy, sortOrder),
     },
     {
       title: "Description",
@@ -142,6 +250,11 @@ export const IncomePage: React.FC = () => {
       key: "description",
       width: 200,
       ellipsis: true,
+      render: (description: string, record: Income) => (
+        <>
+          {description} <PendingSyncTag pending={record.pendingSync} />
+        </>
+      ),
     },
     {
       title: "Source",
@@ -149,18 +262,28 @@ export const IncomePage: React.FC = () => {
       key: "source",
       width: 120,
       render: (source: string) => <Tag color="blue">{source}</Tag>,
+      sorter: true,
+      sortOrder: toColumnSortOrder("source", sortBy, sortOrder),
+    },
+    {
+      title: "Tags",
+      dataIndex: "tags",
+      key: "tags",
+      width: 140,
+      render: (_: unknown, record: Income) => <TagChips tags={record.tags} />,
     },
     {
       title: "Amount",
       dataIndex: "amount",
       key: "amount",
       width: 100,
-      render: (amount: number) => (
+      render: (amount: number, record: Income) => (
         <span style={{ color: "#52c41a", fontWeight: "bold" }}>
-          +${amount.toFixed(2)}
+          +{format(amount, getRecordCurrency(record.currency))}
         </span>
       ),
-      sorter: (a: Income, b: Income) => a.amount - b.amount,
+      sorter: true,
+      sortOrder: toColumnSortOrder("amount", sortBy, sortOrder),
     },
     {
       title: "Actions",
@@ -207,8 +330,7 @@ export const IncomePage: React.FC = () => {
               <Statistic
                 title="Total Income"
                 value={totalIncome}
-                prefix={<DollarOutlined />}
-                precision={2}
+                formatter={(value) => format(Number(value))}
                 valueStyle={{ color: "#52c41a" }}
               />
             </Card>
@@ -223,8 +345,7 @@ export const IncomePage: React.FC = () => {
               <Statistic
                 title="Average Income"
                 value={totalCount > 0 ? totalIncome / totalCount : 0}
-                prefix={<DollarOutlined />}
-                precision={2}
+                formatter={(value) => format(Number(value))}
               />
             </Card>
           </Col>
@@ -233,36 +354,53 @@ export const IncomePage: React.FC = () => {
         {/* Filters and Actions */}
         <Card style={{ marginBottom: "16px" }}>
           <Row gutter={[16, 16]} align="middle">
-            <Col xs={24} sm={8}>
+            <Col xs={24} sm={12} md={6}>
               <Input
                 placeholder="Search incomes..."
                 prefix={<SearchOutlined />}
-                value={searchText}
-                onChange={(e) => setSearchText(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                allowClear
+              />
+            </Col>
+            <Col xs={24} sm={12} md={6}>
+              <TagSelect
+                allowCreate={false}
+                placeholder="Filter by tags"
+                style={{ width: "100%" }}
                 allowClear
+                maxTagCount="responsive"
+                value={selectedTags}
+                onChange={(tagIds) => setParams({ tags: tagIds.join(",") })}
               />
             </Col>
-            <Col xs={24} sm={8}>
+            <Col xs={24} sm={12} md={6}>
               <RangePicker
                 style={{ width: "100%" }}
                 value={dateRange}
                 onChange={(dates) =>
-                  setDateRange(dates as [dayjs.Dayjs, dayjs.Dayjs] | null)
+                  setParams({
+                    startDate: dates?.[0]?.format("YYYY-MM-DD"),
+                    endDate: dates?.[1]?.format("YYYY-MM-DD"),
+                  })
                 }
                 format="YYYY-MM-DD"
               />
             </Col>
-            <Col xs={24} sm={8} style={{ textAlign: "right" }}>
-              <Button
-                type="primary"
-                icon={<PlusOutlined />}
-                onClick={() => {
-                  setEditingIncome(undefined);
-                  setIsFormOpen(true);
-                }}
-              >
-                Add Income
-              </Button>
+            <Col xs={24} sm={12} md={6} style={{ textAlign: "right" }}>
+              <Space>
+                <ExportButton getSheets={getExportSheets} fileName="income" />
+                <Button
+                  type="primary"
+                  icon={<PlusOutlined />}
+                  onClick={() => {
+                    setEditingIncome(undefined);
+                    setIsFormOpen(true);
+                  }}
+                >
+                  Add Income
+                </Button>
+              </Space>
             </Col>
           </Row>
         </Card>
@@ -275,8 +413,13 @@ export const IncomePage: React.FC = () => {
             rowKey="id"
             loading={loading}
             scroll={{ x: 800 }}
+            onChange={handleTableChange}
+            showSorterTooltip={false}
             pagination={{
-              pageSize: 10,
+              current: page,
+              pageSize,
+              total: totalCount,
+              pageSizeOptions: PAGE_SIZE_OPTIONS,
               showSizeChanger: true,
               showQuickJumper: true,
               showTotal: (total, range) =>
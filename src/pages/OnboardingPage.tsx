@@ -0,0 +1,423 @@
+import React, { useState } from "react";
+import {
+  Card,
+  Button,
+  Space,
+  Typography,
+  Row,
+  Col,
+  Steps,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Switch,
+  Tag,
+  Alert,
+  Descriptions,
+} from "antd";
+import { RocketOutlined } from "@ant-design/icons";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { Layout } from "../components/layout";
+import { CategoryIcon } from "../components/categories";
+import { useAuth } from "../contexts/AuthContext";
+import { useCurrency } from "../contexts/CurrencyContext";
+import { handleApiError } from "../utils/errorHandler";
+import { budgetPeriodLabels } from "../utils/budgetPeriods";
+import {
+  CategoryTemplate,
+  ONBOARDING_TEMPLATES,
+  OnboardingTemplate,
+  SAMPLE_TAG_NAME,
+  applyOnboardingSetup,
+  countTemplateCategories,
+  dismissOnboarding,
+  getOnboardingTemplate,
+} from "../utils/onboarding";
+
+const { Title, Text, Paragraph } = Typography;
+
+interface SetupValues {
+  startingBalance?: number;
+  createBudget: boolean;
+  budgetName: string;
+  budgetAmount: number;
+  budgetPeriod: OnboardingTemplate["budget"]["period"];
+  budgetCategory?: string;
+  includeSampleData: boolean;
+}
+
+const STEPS = ["Template", "Starting balance", "First budget", "Finish"];
+
+// Fields checked before leaving each step
+const STEP_FIELDS: (keyof SetupValues)[][] = [
+  [],
+  ["startingBalance"],
+  ["budgetName", "budgetAmount", "budgetPeriod"],
+  [],
+];
+
+const flattenCategories = (
+  categories: CategoryTemplate[]
+): CategoryTemplate[] =>
+  categories.flatMap((category) => [
+    category,
+    ...flattenCategories(category.children || []),
+  ]);
+
+const getBudgetDefaults = (template: OnboardingTemplate) => ({
+  budgetName: template.budget.name,
+  budgetAmount: template.budget.amount,
+  budgetPeriod: template.budget.period,
+  budgetCategory: template.budget.categoryName,
+});
+
+export const OnboardingPage: React.FC = () => {
+  const { user, updateUser } = useAuth();
+  const { baseCurrency, format } = useCurrency();
+  const navigate = useNavigate();
+  const [form] = Form.useForm<SetupValues>();
+  const [step, setStep] = useState(0);
+  const [templateId, setTemplateId] = useState(ONBOARDING_TEMPLATES[0].id);
+  const [submitting, setSubmitting] = useState(false);
+  const [progress, setProgress] = useState("");
+  const createBudget = Form.useWatch("createBudget", form);
+
+  const template = getOnboardingTemplate(templateId) || ONBOARDING_TEMPLATES[0];
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const next = getOnboardingTemplate(id);
+    if (next) form.setFieldsValue(getBudgetDefaults(next));
+  };
+
+  const handleNext = async () => {
+    try {
+      await form.validateFields(STEP_FIELDS[step]);
+      setStep(step + 1);
+    } catch (error) {
+      // The form shows what needs fixing
+    }
+  };
+
+  const handleSkip = () => {
+    if (user) dismissOnboarding(user.id);
+    navigate("/dashboard");
+  };
+
+  const handleFinish = async () => {
+    const values = form.getFieldsValue(true) as SetupValues;
+    setSubmitting(true);
+    try {
+      const updatedUser = await applyOnboardingSetup(
+        {
+          template,
+          currency: baseCurrency,
+          startingBalance: values.startingBalance || undefined,
+          budget: values.createBudget
+            ? {
+                name: values.budgetName,
+                amount: values.budgetAmount,
+                period: values.budgetPeriod,
+                categoryName: values.budgetCategory,
+              }
+            : undefined,
+          includeSampleData: values.includeSampleData,
+        },
+        setProgress
+      );
+      if (user && updatedUser) updateUser({ ...user, ...updatedUser });
+      if (user) dismissOnboarding(user.id);
+      toast.success("Your account is set up!");
+      navigate("/dashboard");
+    } catch (error: any) {
+      handleApiError(error, "set up your account");
+    } finally {
+      setSubmitting(false);
+      setProgress("");
+    }
+  };
+
+  const renderTemplateStep = () => (
+    <>
+      <Row gutter={[16, 16]}>
+        {ONBOARDING_TEMPLATES.map((item) => (
+          <Col xs={24} md={8} key={item.id}>
+            <Card
+              hoverable
+              onClick={() => handleTemplateChange(item.id)}
+              style={{
+                height: "100%",
+                borderColor: item.id === templateId ? "#1890ff" : undefined,
+                borderWidth: item.id === templateId ? 2 : 1,
+              }}
+            >
+              <Space direction="vertical" size={4}>
+                <CategoryIcon icon={item.icon} size={28} color="#1890ff" />
+                <Text strong style={{ fontSize: "16px" }}>
+                  {item.name}
+                </Text>
+                <Text type="secondary">{item.description}</Text>
+                <Text type="secondary" style={{ fontSize: "12px" }}>
+                  {countTemplateCategories(item.categories)} categories
+                </Text>
+              </Space>
+            </Card>
+          </Col>
+        ))}
+      </Row>
+
+      <Card
+        size="small"
+        title={`${template.name} categories`}
+        style={{ marginTop: "16px" }}
+      >
+        <Space direction="vertical" size={8} style={{ width: "100%" }}>
+          {template.categories.map((category) => (
+            <div key={category.name}>
+              <Tag color={category.color}>
+                <Space size={6}>
+                  <CategoryIcon icon={category.icon} />
+                  {category.name}
+                </Space>
+              </Tag>
+              {category.children && (
+                <Text type="secondary">
+                  {category.children.map((child) => child.name).join(", ")}
+                </Text>
+              )}
+            </div>
+          ))}
+        </Space>
+      </Card>
+    </>
+  );
+
+  const renderBalanceStep = () => (
+    <>
+      <Paragraph type="secondary">
+        How much money do you have right now? It's saved as your opening
+        balance, separate from income, so your income totals only count what you
+        earn from now on. Leave it empty to start from zero.
+      </Paragraph>
+      <Form.Item
+        name="startingBalance"
+        label={`Starting balance (${baseCurrency})`}
+        rules={[
+          {
+            validator: (_, value) =>
+              value === undefined || value === null || value >= 0
+                ? Promise.resolve()
+                : Promise.reject(new Error("Balance can't be negative")),
+          },
+        ]}
+      >
+        <InputNumber
+          min={0}
+          step={100}
+          placeholder="0.00"
+          style={{ width: "100%" }}
+        />
+      </Form.Item>
+    </>
+  );
+
+  const renderBudgetStep = () => (
+    <>
+      <Paragraph type="secondary">
+        A budget warns you before spending runs over. This one renews every
+        period; you can change it any time on the Budgets page.
+      </Paragraph>
+      <Form.Item
+        name="createBudget"
+        label="Create a budget"
+        valuePropName="checked"
+      >
+        <Switch />
+      </Form.Item>
+      {createBudget && (
+        <>
+          <Form.Item
+            name="budgetName"
+            label="Name"
+            rules={[{ required: true, message: "Please enter a name" }]}
+          >
+            <Input />
+          </Form.Item>
+          <Row gutter={16}>
+            <Col span={12}>
+              <Form.Item
+                name="budgetAmount"
+                label={`Amount (${baseCurrency})`}
+                rules={[
+                  { required: true, message: "Please enter the amount" },
+                  {
+                    validator: (_, value) =>
+                      !value || value > 0
+                        ? Promise.resolve()
+                        : Promise.reject(
+                            new Error("Amount must be greater than 0")
+                          ),
+                  },
+                ]}
+              >
+                <InputNumber min={0.01} step={10} style={{ width: "100%" }} />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item
+                name="budgetPeriod"
+                label="Period"
+                rules={[{ required: true, message: "Please pick a period" }]}
+              >
+                <Select
+                  options={Object.entries(budgetPeriodLabels).map(
+                    ([value, label]) => ({ value, label })
+                  )}
+                />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Form.Item name="budgetCategory" label="Category">
+            <Select
+              placeholder="All categories"
+              allowClear
+              options={flattenCategories(template.categories).map(
+                (category) => ({
+                  value: category.name,
+                  label: (
+                    <Space size={6}>
+                      <CategoryIcon
+                        icon={category.icon}
+                        color={category.color}
+                      />
+                      {category.name}
+                    </Space>
+                  ),
+                })
+              )}
+            />
+          </Form.Item>
+        </>
+      )}
+    </>
+  );
+
+  const renderFinishStep = () => {
+    const values = form.getFieldsValue(true) as SetupValues;
+    return (
+      <>
+        <Descriptions column={1} bordered size="small">
+          <Descriptions.Item label="Template">
+            {template.name} ({countTemplateCategories(template.categories)}{" "}
+            categories)
+          </Descriptions.Item>
+          <Descriptions.Item label="Starting balance">
+            {values.startingBalance
+              ? format(values.startingBalance)
+              : "Not recorded"}
+          </Descriptions.Item>
+          <Descriptions.Item label="First budget">
+            {values.createBudget
+              ? `${values.budgetName}: ${format(values.budgetAmount || 0)} ${(
+                  budgetPeriodLabels[values.budgetPeriod] || ""
+                ).toLowerCase()}${
+                  values.budgetCategory ? ` on ${values.budgetCategory}` : ""
+                }`
+              : "None"}
+          </Descriptions.Item>
+        </Descriptions>
+        <Form.Item
+          name="includeSampleData"
+          label="Add sample data"
+          valuePropName="checked"
+          extra={`A few example expenses and income, tagged "${SAMPLE_TAG_NAME}" so they're easy to delete later.`}
+          style={{ marginTop: "24px" }}
+        >
+          <Switch />
+        </Form.Item>
+        {submitting && progress && (
+          <Alert type="info" message={`${progress}...`} showIcon />
+        )}
+      </>
+    );
+  };
+
+  const stepContent = [
+    renderTemplateStep,
+    renderBalanceStep,
+    renderBudgetStep,
+    renderFinishStep,
+  ];
+
+  return (
+    <Layout>
+      <div style={{ padding: "24px", maxWidth: 960, margin: "0 auto" }}>
+        <Title level={2}>
+          <RocketOutlined style={{ marginRight: "8px" }} />
+          Welcome{user?.name ? `, ${user.name}` : ""}!
+        </Title>
+        <Paragraph>
+          Let's set up your account. Pick a starting point; everything can be
+          changed later.
+        </Paragraph>
+
+        <Card>
+          <Steps
+            current={step}
+            items={STEPS.map((title) => ({ title }))}
+            size="small"
+            style={{ marginBottom: "24px" }}
+          />
+
+          <Form
+            form={form}
+            layout="vertical"
+            size="large"
+            initialValues={{
+              createBudget: true,
+              includeSampleData: false,
+              ...getBudgetDefaults(template),
+            }}
+          >
+            {stepContent[step]()}
+          </Form>
+
+          <Space
+            style={{
+              width: "100%",
+              justifyContent: "space-between",
+              marginTop: "24px",
+            }}
+          >
+            <Button type="link" onClick={handleSkip} disabled={submitting}>
+              Skip setup
+            </Button>
+            <Space>
+              {step > 0 && (
+                <Button onClick={() => setStep(step - 1)} disabled={submitting}>
+                  Back
+                </Button>
+              )}
+              {step < STEPS.length - 1 ? (
+                <Button type="primary" onClick={handleNext}>
+                  Next
+                </Button>
+              ) : (
+                <Button
+                  type="primary"
+                  icon={<RocketOutlined />}
+                  loading={submitting}
+                  onClick={handleFinish}
+                >
+                  Finish setup
+                </Button>
+              )}
+            </Space>
+          </Space>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
@@ -23,8 +23,21 @@ import {
 import { toast } from "sonner";
 import { Layout } from "../components/layout";
 import { useAuth } from "../contexts/AuthContext";
-import { userApi } from "../utils/api";
+import { useCurrency } from "../contexts/CurrencyContext";
+import { userApi, categoriesApi, budgetApi } from "../utils/api";
+import { getRecordCurrency } from "../utils/currency";
 import { handleApiError } from "../utils/errorHandler";
+import { uploadFile } from "../utils/storage";
+import { ExportButton } from "../components/export";
+import { ExchangeRateEditor } from "../components/currency";
+import {
+  fetchAllExpenses,
+  fetchAllIncomes,
+  toExpenseRows,
+  toIncomeRows,
+  toBudgetRows,
+  toCategoryRows,
+} from "../utils/dataExport";
 
 const { Title, Text } = Typography;
 
@@ -41,6 +54,7 @@ interface PasswordFormValues {
 
 export const ProfilePage: React.FC = () => {
   const { user, updateUser } = useAuth();
+  const { format } = useCurrency();
   const [profileForm] = Form.useForm();
   const [passwordForm] = Form.useForm();
   const [loading, setLoading] = useState(false);
@@ -98,52 +112,10 @@ export const ProfilePage: React.FC = () => {
     }
   };
 
-  const uploadToCloudinary = async (file: File): Promise<string> => {
-    const cloudName = process.env.REACT_APP_CLOUDINARY_CLOUD_NAME;
-    const uploadPreset = process.env.REACT_APP_CLOUDINARY_UPLOAD_PRESET;
-
-    // console.log("Cloudinary Config:", { cloudName, uploadPreset });
-
-    if (!cloudName || !uploadPreset) {
-      throw new Error(
-        "Cloudinary configuration is missing. Please check your environment variables."
-      );
-    }
-
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("upload_preset", uploadPreset);
-    formData.append("cloud_name", cloudName);
-
-    try {
-      const response = await fetch(
-        `https://api.cloudinary.com/v1_1/${cloudName}/image/upload`,
-        {
-          method: "POST",
-          body: formData,
-        }
-      );
-
-      if (!response.ok) {
-        // const errorText = await response.text();
-        // console.error("Cloudinary error response:", errorText);
-        throw new Error(
-          `Upload failed: ${response.status} ${response.statusText}`
-        );
-      }
-
-      const data = await response.json();
-      return data.secure_url;
-    } catch (error) {
-      // console.error("Cloudinary upload error:", error);
-      throw new Error("Failed to upload image");
-    }
-  };
-
   const handleImageUpload = async (file: File) => {
     setImageUploading(true);
     try {
-      const imageUrl = await uploadToCloudinary(file);
+      const { url: imageUrl } = await uploadFile(file);
       setProfileImage(imageUrl);
 
       // Get current form values to update profile with new image
@@ -222,6 +194,27 @@ export const ProfilePage: React.FC = () => {
     }
   };
 
+  const getAllDataSheets = async () => {
+    const [categoriesResponse, expenses, incomes, budgetsResponse] =
+      await Promise.all([
+        categoriesApi.getCategories(),
+        fetchAllExpenses(),
+        fetchAllIncomes(),
+        budgetApi.getBudgets(),
+      ]);
+    const categories = categoriesResponse.data || [];
+
+    return [
+      { name: "Expenses", rows: toExpenseRows(expenses, categories) },
+      { name: "Income", rows: toIncomeRows(incomes) },
+      {
+        name: "Budgets",
+        rows: toBudgetRows(budgetsResponse.data || [], categories),
+      },
+      { name: "Categories", rows: toCategoryRows(categories) },
+    ];
+  };
+
   const beforeUpload = (file: File) => {
     const isJpgOrPng = file.type === "image/jpeg" || file.type === "image/png";
     if (!isJpgOrPng) {
@@ -427,6 +420,15 @@ export const ProfilePage: React.FC = () => {
           </Col>
         </Row>
 
+        {/* Currency Settings */}
+        <Row gutter={[24, 24]} style={{ marginTop: "24px" }}>
+          <Col span={24}>
+            <Card title="Currency & Exchange Rates">
+              <ExchangeRateEditor />
+            </Card>
+          </Col>
+        </Row>
+
         {/* Account Information Display */}
         <Row gutter={[24, 24]} style={{ marginTop: "24px" }}>
           <Col span={24}>
@@ -454,6 +456,20 @@ export const ProfilePage: React.FC = () => {
                     </Text>
                   </div>
                 </Col>
+                {typeof user?.openingBalance === "number" && (
+                  <Col xs={24} sm={12}>
+                    <div>
+                      <Text strong>Opening Balance</Text>
+                      <br />
+                      <Text type="secondary">
+                        {format(
+                          user.openingBalance,
+                          getRecordCurrency(user.openingBalanceCurrency)
+                        )}
+                      </Text>
+                    </div>
+                  </Col>
+                )}
                 <Col xs={24} sm={12}>
                   <div>
                     <Text strong>Account Status</Text>
@@ -463,6 +479,18 @@ export const ProfilePage: React.FC = () => {
                     </Text>
                   </div>
                 </Col>
+                <Col xs={24} sm={12}>
+                  <div>
+                    <Text strong>Your Data</Text>
+                    <br />
+                    <ExportButton
+                      getSheets={getAllDataSheets}
+                      fileName="expense-tracker-data"
+                      label="Download all my data"
+                      buttonProps={{ style: { marginTop: "8px" } }}
+                    />
+                  </div>
+                </Col>
               </Row>
             </Card>
           </Col>
@@ -0,0 +1,615 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  Card,
+  Table,
+  Button,
+  Space,
+  Tag,
+  Typography,
+  Row,
+  Col,
+  Statistic,
+  Select,
+  Switch,
+  Popconfirm,
+  Tooltip,
+} from "antd";
+import {
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  CheckOutlined,
+  StepForwardOutlined,
+  SyncOutlined,
+  ReloadOutlined,
+} from "@ant-design/icons";
+import dayjs from "dayjs";
+import { toast } from "sonner";
+import { Layout } from "../components/layout";
+import { Category, RecurringOccurrence, RecurringTransaction } from "../types";
+import { recurringApi, categoriesApi } from "../utils/api";
+import { handleApiError } from "../utils/errorHandler";
+import { useCurrency } from "../contexts/CurrencyContext";
+import { getRecordCurrency } from "../utils/currency";
+import {
+  describeSchedule,
+  getOccurrences,
+  getUpcomingOccurrences,
+} from "../utils/recurrence";
+import { RecurringForm, OccurrenceForm } from "../components/recurring";
+import type { RecurringFormData } from "../components/recurring/RecurringForm";
+
+const { Title, Text } = Typography;
+
+// How far back unconfirmed occurrences are still shown as overdue
+const OVERDUE_WINDOW_DAYS = 30;
+
+const statusColors: Record<string, string> = {
+  pending: "gold",
+  confirmed: "green",
+  skipped: "default",
+};
+
+export const RecurringPage: React.FC = () => {
+  const { toBase, format } = useCurrency();
+  const [recurringList, setRecurringList] = useState<RecurringTransaction[]>(
+    []
+  );
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRecurring, setEditingRecurring] = useState<
+    RecurringTransaction | undefined
+  >();
+  const [editingOccurrence, setEditingOccurrence] = useState<
+    RecurringOccurrence | undefined
+  >();
+  const [daysAhead, setDaysAhead] = useState(30);
+  const [showHandled, setShowHandled] = useState(false);
+
+  const fetchRecurring = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await recurringApi.getRecurring();
+      if (response.success && response.data) {
+        setRecurringList(response.data);
+      }
+    } catch (error: any) {
+      handleApiError(error, "fetch recurring schedules");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      const response = await categoriesApi.getCategories();
+      if (response.success && response.data) {
+        setCategories(response.data);
+      }
+    } catch (error: any) {
+      handleApiError(error, "fetch categories");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRecurring();
+    fetchCategories();
+  }, [fetchRecurring, fetchCategories]);
+
+  // Replace a single series in state with the version returned by the API
+  const replaceRecurring = (updated?: RecurringTransaction) => {
+    if (!updated) return;
+    setRecurringList((list) =>
+      list.map((item) => (item.id === updated.id ? updated : item))
+    );
+  };
+
+  const occurrences = useMemo(() => {
+    const today = dayjs().startOf("day");
+    const upcoming = getUpcomingOccurrences(
+      recurringList,
+      today.subtract(OVERDUE_WINDOW_DAYS, "day"),
+      today.add(daysAhead, "day").endOf("day")
+    );
+    // Past occurrences are only interesting while they still need action
+    return upcoming.filter(
+      (occurrence) =>
+        (showHandled || occurrence.status === "pending") &&
+        (occurrence.status === "pending" ||
+          !dayjs(occurrence.dueDate).isBefore(today))
+    );
+  }, [recurringList, daysAhead, showHandled]);
+
+  const pendingCount = occurrences.filter((o) => o.status === "pending").length;
+  const overdueCount = occurrences.filter(
+    (o) => o.status === "pending" && dayjs(o.dueDate).isBefore(dayjs(), "day")
+  ).length;
+  const upcomingExpenses = occurrences
+    .filter((o) => o.status === "pending" && o.recurring.type === "expense")
+    .reduce((sum, o) => sum + toBase(o.amount, o.recurring.currency), 0);
+  const upcomingIncome = occurrences
+    .filter((o) => o.status === "pending" && o.recurring.type === "income")
+    .reduce((sum, o) => sum + toBase(o.amount, o.recurring.currency), 0);
+
+  const getCategoryName = (categoryId?: string) => {
+    const category = categories.find((cat) => cat.id === categoryId);
+    return category?.name || "Unknown";
+  };
+
+  const getNextDueDate = (recurring: RecurringTransaction) => {
+    const today = dayjs().startOf("day");
+    const next = getOccurrences(recurring, today, today.add(2, "year")).find(
+      (occurrence) => occurrence.status === "pending"
+    );
+    return next ? dayjs(next.dueDate).format("MMM DD, YYYY") : "—";
+  };
+
+  const handleSubmitRecurring = async (data: RecurringFormData) => {
+    try {
+      if (editingRecurring) {
+        const { type, ...changes } = data;
+        const response = await recurringApi.updateRecurring(
+          editingRecurring.id,
+          { ...changes, endDate: changes.endDate || null }
+        );
+        if (response.success) {
+          toast.success("Recurring schedule updated successfully!");
+          replaceRecurring(response.data);
+        }
+      } else {
+        const response = await recurringApi.createRecurring(data);
+        if (response.success) {
+          toast.success("Recurring schedule created successfully!");
+          fetchRecurring();
+        }
+      }
+      setIsFormOpen(false);
+      setEditingRecurring(undefined);
+    } catch (error: any) {
+      throw error;
+    }
+  };
+
+  const handleToggleActive = async (
+    recurring: RecurringTransaction,
+    isActive: boolean
+  ) => {
+    try {
+      const response = await recurringApi.updateRecurring(recurring.id, {
+        isActive,
+      });
+      if (response.success) {
+        replaceRecurring(response.data);
+      }
+    } catch (error: any) {
+      handleApiError(error, "update recurring schedule");
+    }
+  };
+
+  const handleDeleteRecurring = async (id: string) => {
+    try {
+      const response = await recurringApi.deleteRecurring(id);
+      if (response.success) {
+        toast.success("Recurring schedule deleted successfully!");
+        setRecurringList((list) => list.filter((item) => item.id !== id));
+      }
+    } catch (error: any) {
+      handleApiError(error, "delete recurring schedule");
+    }
+  };
+
+  const handleConfirm = async (occurrence: RecurringOccurrence) => {
+    try {
+      const response = await recurringApi.confirmOccurrence(
+        occurrence.recurring.id,
+        {
+          date: occurrence.scheduledDate,
+          transactionDate: dayjs(occurrence.dueDate).toISOString(),
+          amount: occurrence.amount,
+          currency: occurrence.recurring.currency,
+          description: occurrence.description,
+          categoryId: occurrence.categoryId,
+          source: occurrence.source,
+        }
+      );
+      if (response.success) {
+        toast.success(
+          `${
+            occurrence.recurring.type === "income" ? "Income" : "Expense"
+          } recorded successfully!`
+        );
+        replaceRecurring(response.data);
+      }
+    } catch (error: any) {
+      handleApiError(error, "confirm occurrence");
+    }
+  };
+
+  const handleSkip = async (occurrence: RecurringOccurrence) => {
+    try {
+      const response = await recurringApi.skipOccurrence(
+        occurrence.recurring.id,
+        occurrence.scheduledDate
+      );
+      if (response.success) {
+        toast.success("Occurrence skipped");
+        replaceRecurring(response.data);
+      }
+    } catch (error: any) {
+      handleApiError(error, "skip occurrence");
+    }
+  };
+
+  const handleUpdateOccurrence = async (data: {
+    amount: number;
+    description: string;
+    categoryId?: string;
+    source?: string;
+  }) => {
+    if (!editingOccurrence) return;
+
+    try {
+      const response = await recurringApi.updateOccurrence(
+        editingOccurrence.recurring.id,
+        editingOccurrence.scheduledDate,
+        data
+      );
+      if (response.success) {
+        toast.success("Occurrence updated successfully!");
+        replaceRecurring(response.data);
+        setEditingOccurrence(undefined);
+      }
+    } catch (error: any) {
+      throw error;
+    }
+  };
+
+  const occurrenceColumns = [
+    {
+      title: "Due Date",
+      dataIndex: "dueDate",
+      key: "dueDate",
+      width: 140,
+      render: (dueDate: string, record: RecurringOccurrence) => {
+        const isOverdue =
+          record.status === "pending" &&
+          dayjs(dueDate).isBefore(dayjs(), "day");
+        return (
+          <Space direction="vertical" size={0}>
+            <span style={{ color: isOverdue ? "#ff4d4f" : undefined }}>
+              {dayjs(dueDate).format("MMM DD, YYYY")}
+            </span>
+            {dueDate !== record.scheduledDate && (
+              <Text type="secondary" style={{ fontSize: "12px" }}>
+                Scheduled {dayjs(record.scheduledDate).format("MMM DD")}
+              </Text>
+            )}
+          </Space>
+        );
+      },
+    },
+    {
+      title: "Description",
+      dataIndex: "description",
+      key: "description",
+      width: 200,
+      ellipsis: true,
+      render: (description: string, record: RecurringOccurrence) => (
+        <Space>
+          {description}
+          {record.isModified && <Tag color="purple">Edited</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: "Category / Source",
+      key: "category",
+      width: 140,
+      render: (record: RecurringOccurrence) =>
+        record.recurring.type === "income" ? (
+          <Tag color="green">{record.source}</Tag>
+        ) : (
+          <Tag color="blue">{getCategoryName(record.categoryId)}</Tag>
+        ),
+    },
+    {
+      title: "Amount",
+      dataIndex: "amount",
+      key: "amount",
+      width: 110,
+      render: (amount: number, record: RecurringOccurrence) =>
+        record.recurring.type === "income" ? (
+          <span style={{ color: "#52c41a", fontWeight: "bold" }}>
+            +{format(amount, getRecordCurrency(record.recurring.currency))}
+          </span>
+        ) : (
+          <span style={{ color: "#ff4d4f", fontWeight: "bold" }}>
+            -{format(amount, getRecordCurrency(record.recurring.currency))}
+          </span>
+        ),
+    },
+    {
+      title: "Status",
+      dataIndex: "status",
+      key: "status",
+      width: 100,
+      render: (status: string) => (
+        <Tag color={statusColors[status]}>
+          {status.charAt(0).toUpperCase() + status.slice(1)}
+        </Tag>
+      ),
+    },
+    {
+      title: "Actions",
+      key: "actions",
+      width: 140,
+      fixed: "right" as const,
+      render: (_: any, record: RecurringOccurrence) =>
+        record.status === "pending" && (
+          <Space>
+            <Tooltip title="Confirm">
+              <Button
+                icon={<CheckOutlined />}
+                size="small"
+                type="primary"
+                onClick={() => handleConfirm(record)}
+              />
+            </Tooltip>
+            <Tooltip title="Edit this occurrence">
+              <Button
+                icon={<EditOutlined />}
+                size="small"
+                onClick={() => setEditingOccurrence(record)}
+              />
+            </Tooltip>
+            <Popconfirm
+              title="Skip Occurrence"
+              description="Skip only this occurrence?"
+              onConfirm={() => handleSkip(record)}
+              okText="Yes"
+              cancelText="No"
+            >
+              <Tooltip title="Skip">
+                <Button icon={<StepForwardOutlined />} size="small" />
+              </Tooltip>
+            </Popconfirm>
+          </Space>
+        ),
+    },
+  ];
+
+  const seriesColumns = [
+    {
+      title: "Description",
+      dataIndex: "description",
+      key: "description",
+      width: 200,
+      ellipsis: true,
+    },
+    {
+      title: "Type",
+      dataIndex: "type",
+      key: "type",
+      width: 100,
+      render: (type: string) => (
+        <Tag color={type === "income" ? "green" : "red"}>
+          {type === "income" ? "Income" : "Expense"}
+        </Tag>
+      ),
+    },
+    {
+      title: "Amount",
+      dataIndex: "amount",
+      key: "amount",
+      width: 100,
+      render: (amount: number, record: RecurringTransaction) =>
+        format(amount, getRecordCurrency(record.currency)),
+    },
+    {
+      title: "Schedule",
+      key: "schedule",
+      width: 140,
+      render: (record: RecurringTransaction) => describeSchedule(record),
+    },
+    {
+      title: "Next Due",
+      key: "nextDue",
+      width: 130,
+      render: (record: RecurringTransaction) =>
+        record.isActive ? getNextDueDate(record) : "—",
+    },
+    {
+      title: "Ends",
+      dataIndex: "endDate",
+      key: "endDate",
+      width: 130,
+      render: (endDate?: string) =>
+        endDate ? dayjs(endDate).format("MMM DD, YYYY") : "Never",
+    },
+    {
+      title: "Active",
+      dataIndex: "isActive",
+      key: "isActive",
+      width: 80,
+      render: (isActive: boolean, record: RecurringTransaction) => (
+        <Switch
+          size="small"
+          checked={isActive}
+          onChange={(checked) => handleToggleActive(record, checked)}
+        />
+      ),
+    },
+    {
+      title: "Actions",
+      key: "actions",
+      width: 120,
+      fixed: "right" as const,
+      render: (_: any, record: RecurringTransaction) => (
+        <Space>
+          <Button
+            icon={<EditOutlined />}
+            size="small"
+            onClick={() => {
+              setEditingRecurring(record);
+              setIsFormOpen(true);
+            }}
+          />
+          <Popconfirm
+            title="Delete Schedule"
+            description="Delete this schedule? Recorded transactions are kept."
+            onConfirm={() => handleDeleteRecurring(record.id)}
+            okText="Yes"
+            cancelText="No"
+          >
+            <Button icon={<DeleteOutlined />} size="small" danger />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Layout>
+      <div style={{ padding: "24px" }}>
+        <Row gutter={[16, 16]} style={{ marginBottom: "24px" }}>
+          <Col span={24}>
+            <Title level={2}>
+              <SyncOutlined style={{ marginRight: "8px" }} />
+              Recurring Transactions
+            </Title>
+          </Col>
+        </Row>
+
+        {/* Stats Cards */}
+        <Row gutter={[16, 16]} style={{ marginBottom: "24px" }}>
+          <Col xs={24} sm={12} md={6}>
+            <Card>
+              <Statistic title="Pending" value={pendingCount} />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} md={6}>
+            <Card>
+              <Statistic
+                title="Overdue"
+                value={overdueCount}
+                valueStyle={{
+                  color: overdueCount > 0 ? "#ff4d4f" : undefined,
+                }}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} md={6}>
+            <Card>
+              <Statistic
+                title="Upcoming Expenses"
+                value={upcomingExpenses}
+                formatter={(value) => format(Number(value))}
+                valueStyle={{ color: "#ff4d4f" }}
+              />
+            </Card>
+          </Col>
+          <Col xs={24} sm={12} md={6}>
+            <Card>
+              <Statistic
+                title="Upcoming Income"
+                value={upcomingIncome}
+                formatter={(value) => format(Number(value))}
+                valueStyle={{ color: "#52c41a" }}
+              />
+            </Card>
+          </Col>
+        </Row>
+
+        {/* Upcoming Occurrences */}
+        <Card
+          title="Upcoming Occurrences"
+          style={{ marginBottom: "16px" }}
+          extra={
+            <Space>
+              <Space size="small">
+                <Switch
+                  size="small"
+                  checked={showHandled}
+                  onChange={setShowHandled}
+                />
+                <Text type="secondary">Show confirmed/skipped</Text>
+              </Space>
+              <Select
+                value={daysAhead}
+                onChange={setDaysAhead}
+                style={{ width: 140 }}
+                options={[
+                  { value: 7, label: "Next 7 days" },
+                  { value: 30, label: "Next 30 days" },
+                  { value: 60, label: "Next 60 days" },
+                  { value: 90, label: "Next 90 days" },
+                ]}
+              />
+              <Button
+                icon={<ReloadOutlined />}
+                onClick={fetchRecurring}
+                loading={loading}
+              />
+            </Space>
+          }
+        >
+          <Table
+            columns={occurrenceColumns}
+            dataSource={occurrences}
+            rowKey={(record) =>
+              `${record.recurring.id}-${record.scheduledDate}`
+            }
+            loading={loading}
+            scroll={{ x: 800 }}
+            pagination={{ pageSize: 10, hideOnSinglePage: true }}
+          />
+        </Card>
+
+        {/* Series */}
+        <Card
+          title="Schedules"
+          extra={
+            <Button
+              type="primary"
+              icon={<PlusOutlined />}
+              onClick={() => {
+                setEditingRecurring(undefined);
+                setIsFormOpen(true);
+              }}
+            >
+              Add Schedule
+            </Button>
+          }
+        >
+          <Table
+            columns={seriesColumns}
+            dataSource={recurringList}
+            rowKey="id"
+            loading={loading}
+            scroll={{ x: 900 }}
+            pagination={{ pageSize: 10, hideOnSinglePage: true }}
+          />
+        </Card>
+
+        <RecurringForm
+          isOpen={isFormOpen}
+          onClose={() => {
+            setIsFormOpen(false);
+            setEditingRecurring(undefined);
+          }}
+          onSubmit={handleSubmitRecurring}
+          recurring={editingRecurring}
+        />
+
+        <OccurrenceForm
+          isOpen={!!editingOccurrence}
+          onClose={() => setEditingOccurrence(undefined)}
+          onSubmit={handleUpdateOccurrence}
+          occurrence={editingOccurrence}
+          categories={categories}
+        />
+      </div>
+    </Layout>
+  );
+};
@@ -0,0 +1,333 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  Button,
+  Space,
+  Typography,
+  Row,
+  Col,
+  Statistic,
+  Select,
+  DatePicker,
+} from "antd";
+import { BarChartOutlined, ReloadOutlined } from "@ant-design/icons";
+import { Layout } from "../components/layout";
+import {
+  Category,
+  Expense,
+  ExpenseStats,
+  IncomeVsExpenseStats,
+  Income,
+} from "../types";
+import { categoriesApi, expensesApi, incomeApi } from "../utils/api";
+import { handleApiError } from "../utils/errorHandler";
+import { useCurrency } from "../contexts/CurrencyContext";
+import { convertExpenseStats, convertIncomeStats } from "../utils/currency";
+import {
+  fetchAllIncomes,
+  fetchExpensesInRanges,
+  isInDateRange,
+} from "../utils/dataExport";
+import { buildCategoryStats } from "../utils/splits";
+import {
+  ComparisonPeriods,
+  ComparisonPreset,
+  PeriodRange,
+  compareTotals,
+  comparisonPresetLabels,
+  formatPeriodLabel,
+  getCategoryTotals,
+  getIncomeSourceTotals,
+  getPercentChange,
+  getPresetPeriods,
+} from "../utils/periodComparison";
+import { ChangeText, PeriodComparisonCard } from "../components/reports";
+
+const { Title, Text } = Typography;
+const { RangePicker } = DatePicker;
+
+const toDayRange = ([start, end]: PeriodRange): PeriodRange => [
+  start.startOf("day"),
+  end.endOf("day"),
+];
+
+interface PeriodData {
+  expenseStats: ExpenseStats;
+  incomeStats: IncomeVsExpenseStats;
+  incomes: Income[];
+}
+
+export const ReportsPage: React.FC = () => {
+  const { toBase, format } = useCurrency();
+  const [preset, setPreset] = useState<ComparisonPreset>("month");
+  const [periods, setPeriods] = useState<ComparisonPeriods>(() =>
+    getPresetPeriods("month")
+  );
+  const [current, setCurrent] = useState<PeriodData | null>(null);
+  const [previous, setPrevious] = useState<PeriodData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchPeriod = useCallback(
+    async (
+      period: PeriodRange,
+      categories: Category[],
+      expenses: Expense[]
+    ): Promise<PeriodData> => {
+      const range = toDayRange(period);
+      const params = {
+        startDate: range[0].toISOString(),
+        endDate: range[1].toISOString(),
+      };
+      const [statsResponse, incomeStatsResponse, incomes] = await Promise.all([
+        expensesApi.getStats(params),
+        incomeApi.getIncomeStats(params),
+        fetchAllIncomes(params),
+      ]);
+      const periodExpenses = expenses.filter((expense) =>
+        isInDateRange(expense.date, range)
+      );
+      return {
+        // Category totals count each split under its own category, like the
+        // dashboard, rather than the server's totals by primary category
+        expenseStats: {
+          ...convertExpenseStats(
+            statsResponse.data || {
+              totalStats: { totalAmount: 0, totalCount: 0, averageAmount: 0 },
+              categoryStats: [],
+              monthlyStats: [],
+            },
+            toBase
+          ),
+          categoryStats: buildCategoryStats(periodExpenses, categories, toBase),
+        },
+        incomeStats: convertIncomeStats(
+          incomeStatsResponse.data || {
+            totalIncome: 0,
+            totalExpenses: 0,
+            netSavings: 0,
+            savingsRate: 0,
+            monthlyComparison: [],
+          },
+          toBase
+        ),
+        incomes,
+      };
+    },
+    [toBase]
+  );
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Back-to-back periods share one download of their expenses
+      const [categoriesResponse, expenses] = await Promise.all([
+        categoriesApi.getCategories(),
+        fetchExpensesInRanges([
+          toDayRange(periods.current),
+          toDayRange(periods.previous),
+        ]),
+      ]);
+      const categories = categoriesResponse.data || [];
+      const [currentData, previousData] = await Promise.all([
+        fetchPeriod(periods.current, categories, expenses),
+        fetchPeriod(periods.previous, categories, expenses),
+      ]);
+      setCurrent(currentData);
+      setPrevious(previousData);
+    } catch (error: any) {
+      handleApiError(error, "fetch reports");
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchPeriod, periods]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const handlePresetChange = (value: ComparisonPreset) => {
+    setPreset(value);
+    if (value !== "custom") {
+      setPeriods(getPresetPeriods(value));
+    }
+  };
+
+  const handleRangeChange = (key: keyof ComparisonPeriods, dates: any) => {
+    if (dates?.[0] && dates?.[1]) {
+      setPreset("custom");
+      setPeriods((currentPeriods) => ({
+        ...currentPeriods,
+        [key]: [dates[0].startOf("day"), dates[1].endOf("day")],
+      }));
+    }
+  };
+
+  const currentLabel = formatPeriodLabel(periods.current);
+  const previousLabel = formatPeriodLabel(periods.previous);
+
+  const categoryRows = compareTotals(
+    current ? getCategoryTotals(current.expenseStats) : {},
+    previous ? getCategoryTotals(previous.expenseStats) : {}
+  );
+  const sourceRows = compareTotals(
+    current ? getIncomeSourceTotals(current.incomes, toBase) : {},
+    previous ? getIncomeSourceTotals(previous.incomes, toBase) : {}
+  );
+
+  const summary = [
+    {
+      title: "Income",
+      current: current?.incomeStats.totalIncome || 0,
+      previous: previous?.incomeStats.totalIncome || 0,
+      higherIsBetter: true,
+    },
+    {
+      title: "Expenses",
+      current: current?.expenseStats.totalStats.totalAmount || 0,
+      previous: previous?.expenseStats.totalStats.totalAmount || 0,
+      higherIsBetter: false,
+    },
+    {
+      title: "Net Savings",
+      current: current?.incomeStats.netSavings || 0,
+      previous: previous?.incomeStats.netSavings || 0,
+      higherIsBetter: true,
+    },
+  ];
+  const currentRate = current?.incomeStats.savingsRate || 0;
+  const previousRate = previous?.incomeStats.savingsRate || 0;
+  const rateChange = currentRate - previousRate;
+
+  return (
+    <Layout>
+      <div style={{ padding: "24px" }}>
+        <Row
+          gutter={[16, 16]}
+          style={{ marginBottom: "24px" }}
+          justify="space-between"
+          align="middle"
+        >
+          <Col>
+            <Title level={2} style={{ margin: 0 }}>
+              <BarChartOutlined style={{ marginRight: "8px" }} />
+              Reports
+            </Title>
+          </Col>
+          <Col>
+            <Button
+              icon={<ReloadOutlined />}
+              onClick={fetchReports}
+              loading={loading}
+            >
+              Refresh
+            </Button>
+          </Col>
+        </Row>
+
+        {/* Period selection */}
+        <Card style={{ marginBottom: "24px" }}>
+          <Row gutter={[16, 16]} align="bottom">
+            <Col xs={24} md={8}>
+              <Text type="secondary">Compare</Text>
+              <Select
+                value={preset}
+                onChange={handlePresetChange}
+                style={{ width: "100%", marginTop: "4px" }}
+                options={Object.entries(comparisonPresetLabels).map(
+                  ([value, label]) => ({ value, label })
+                )}
+              />
+            </Col>
+            <Col xs={24} md={8}>
+              <Text type="secondary">Period</Text>
+              <RangePicker
+                value={periods.current}
+                onChange={(dates) => handleRangeChange("current", dates)}
+                format="YYYY-MM-DD"
+                allowClear={false}
+                style={{ width: "100%", marginTop: "4px" }}
+              />
+            </Col>
+            <Col xs={24} md={8}>
+              <Text type="secondary">Compared with</Text>
+              <RangePicker
+                value={periods.previous}
+                onChange={(dates) => handleRangeChange("previous", dates)}
+                format="YYYY-MM-DD"
+                allowClear={false}
+                style={{ width: "100%", marginTop: "4px" }}
+              />
+            </Col>
+          </Row>
+        </Card>
+
+        {/* Stats Cards */}
+        <Row gutter={[16, 16]} style={{ marginBottom: "24px" }}>
+          {summary.map((item) => (
+            <Col xs={24} sm={12} md={6} key={item.title}>
+              <Card loading={loading && !current}>
+                <Statistic
+                  title={item.title}
+                  value={item.current}
+                  formatter={(value) => format(Number(value))}
+                />
+                <ChangeText
+                  delta={item.current - item.previous}
+                  change={getPercentChange(item.current, item.previous)}
+                  higherIsBetter={item.higherIsBetter}
+                />
+                <div>
+                  <Text type="secondary" style={{ fontSize: "12px" }}>
+                    {format(item.previous)} in the earlier period
+                  </Text>
+                </div>
+              </Card>
+            </Col>
+          ))}
+          <Col xs={24} sm={12} md={6}>
+            <Card loading={loading && !current}>
+              <Statistic
+                title="Savings Rate"
+                value={currentRate}
+                precision={1}
+                suffix="%"
+              />
+              {rateChange === 0 ? (
+                <Text type="secondary">No change</Text>
+              ) : (
+                <Text type={rateChange > 0 ? "success" : "danger"}>
+                  {rateChange > 0 ? "+" : ""}
+                  {rateChange.toFixed(1)} pts
+                </Text>
+              )}
+              <div>
+                <Text type="secondary" style={{ fontSize: "12px" }}>
+                  {previousRate.toFixed(1)}% in the earlier period
+                </Text>
+              </div>
+            </Card>
+          </Col>
+        </Row>
+
+        <Space direction="vertical" size={24} style={{ width: "100%" }}>
+          <PeriodComparisonCard
+            title="Spending by Category"
+            rows={categoryRows}
+            currentLabel={currentLabel}
+            previousLabel={previousLabel}
+            higherIsBetter={false}
+            loading={loading && !current}
+          />
+          <PeriodComparisonCard
+            title="Income by Source"
+            rows={sourceRows}
+            currentLabel={currentLabel}
+            previousLabel={previousLabel}
+            higherIsBetter
+            loading={loading && !current}
+          />
+        </Space>
+      </div>
+    </Layout>
+  );
+};
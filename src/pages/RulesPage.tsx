@@ -0,0 +1,384 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  Table,
+  Button,
+  Space,
+  Tag,
+  Typography,
+  Row,
+  Col,
+  Switch,
+  Popconfirm,
+  Tooltip,
+} from "antd";
+import {
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  ArrowUpOutlined,
+  ArrowDownOutlined,
+  ExperimentOutlined,
+  ThunderboltOutlined,
+  ReloadOutlined,
+} from "@ant-design/icons";
+import { toast } from "sonner";
+import { Layout } from "../components/layout";
+import { CategoryIcon } from "../components/categories";
+import { TagChips } from "../components/tags";
+import { RuleForm, RuleTestModal } from "../components/rules";
+import type { RuleFormData } from "../components/rules/RuleForm";
+import { CategorizationRule, Category, Tag as TagType } from "../types";
+import { categoriesApi, rulesApi, tagsApi } from "../utils/api";
+import { handleApiError } from "../utils/errorHandler";
+import { useCurrency } from "../contexts/CurrencyContext";
+import {
+  describeRuleConditions,
+  sortRules,
+} from "../utils/categorizationRules";
+
+const { Title, Paragraph, Text } = Typography;
+
+export const RulesPage: React.FC = () => {
+  const { format } = useCurrency();
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<TagType[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<
+    CategorizationRule | undefined
+  >();
+  const [testingRule, setTestingRule] = useState<
+    CategorizationRule | undefined
+  >();
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await rulesApi.getRules();
+      if (response.success && response.data) {
+        setRules(sortRules(response.data));
+      }
+    } catch (error: any) {
+      handleApiError(error, "fetch rules");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchLookups = useCallback(async () => {
+    try {
+      const [categoriesResponse, tagsResponse] = await Promise.all([
+        categoriesApi.getCategories(),
+        tagsApi.getTags(),
+      ]);
+      setCategories(categoriesResponse.data || []);
+      setTags(tagsResponse.data || []);
+    } catch (error: any) {
+      handleApiError(error, "fetch categories and tags");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+    fetchLookups();
+  }, [fetchRules, fetchLookups]);
+
+  // Replace a single rule in state with the version returned by the API
+  const replaceRule = (updated?: CategorizationRule) => {
+    if (!updated) return;
+    setRules((list) =>
+      list.map((item) => (item.id === updated.id ? updated : item))
+    );
+  };
+
+  const handleSubmitRule = async (data: RuleFormData) => {
+    try {
+      if (editingRule) {
+        const response = await rulesApi.updateRule(editingRule.id, {
+          ...data,
+          categoryId: data.categoryId || null,
+        });
+        if (response.success) {
+          toast.success("Rule updated successfully!");
+          replaceRule(response.data);
+        }
+      } else {
+        // New rules go to the end so existing ones keep their precedence
+        const lowest = rules.length ? rules[rules.length - 1].priority : 0;
+        const response = await rulesApi.createRule({
+          ...data,
+          priority: lowest + 1,
+        });
+        if (response.success) {
+          toast.success("Rule created successfully!");
+          fetchRules();
+        }
+      }
+      setIsFormOpen(false);
+      setEditingRule(undefined);
+    } catch (error: any) {
+      throw error;
+    }
+  };
+
+  const handleToggle = async (
+    rule: CategorizationRule,
+    changes: { enabled?: boolean; autoApply?: boolean }
+  ) => {
+    try {
+      const response = await rulesApi.updateRule(rule.id, changes);
+      if (response.success) {
+        replaceRule(response.data);
+      }
+    } catch (error: any) {
+      handleApiError(error, "update rule");
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    try {
+      const response = await rulesApi.deleteRule(id);
+      if (response.success) {
+        toast.success("Rule deleted successfully!");
+        setRules((list) => list.filter((item) => item.id !== id));
+      }
+    } catch (error: any) {
+      handleApiError(error, "delete rule");
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    const previous = rules;
+    setRules(
+      reordered.map((rule, position) => ({ ...rule, priority: position }))
+    );
+
+    try {
+      const response = await rulesApi.reorderRules(
+        reordered.map((rule) => rule.id)
+      );
+      if (response.success && response.data) {
+        setRules(sortRules(response.data));
+      }
+    } catch (error: any) {
+      setRules(previous);
+      handleApiError(error, "reorder rules");
+    }
+  };
+
+  const renderOutcome = (rule: CategorizationRule) => {
+    const category = categories.find((item) => item.id === rule.categoryId);
+    const ruleTags = tags.filter((tag) => rule.tagIds?.includes(tag.id));
+    return (
+      <Space size={[4, 4]} wrap>
+        {category && (
+          <Tag color={category.color}>
+            <Space size={4}>
+              <CategoryIcon icon={category.icon} />
+              {category.name}
+            </Space>
+          </Tag>
+        )}
+        <TagChips tags={ruleTags} />
+        {!category && ruleTags.length === 0 && <Text type="secondary">—</Text>}
+      </Space>
+    );
+  };
+
+  const columns = [
+    {
+      title: "Order",
+      key: "order",
+      width: 90,
+      render: (_: any, record: CategorizationRule, index: number) => (
+        <Space size={4}>
+          <Button
+            icon={<ArrowUpOutlined />}
+            size="small"
+            type="text"
+            disabled={index === 0}
+            onClick={() => handleMove(index, -1)}
+          />
+          <Button
+            icon={<ArrowDownOutlined />}
+            size="small"
+            type="text"
+            disabled={index === rules.length - 1}
+            onClick={() => handleMove(index, 1)}
+          />
+        </Space>
+      ),
+    },
+    {
+      title: "Name",
+      dataIndex: "name",
+      key: "name",
+      width: 160,
+      ellipsis: true,
+    },
+    {
+      title: "Type",
+      dataIndex: "transactionType",
+      key: "transactionType",
+      width: 100,
+      render: (type: string) => (
+        <Tag color={type === "income" ? "green" : "red"}>
+          {type === "income" ? "Income" : "Expense"}
+        </Tag>
+      ),
+    },
+    {
+      title: "When",
+      key: "conditions",
+      width: 240,
+      render: (record: CategorizationRule) =>
+        describeRuleConditions(record.conditions, format).join(", ") || "—",
+    },
+    {
+      title: "Then",
+      key: "outcome",
+      width: 200,
+      render: (record: CategorizationRule) => renderOutcome(record),
+    },
+    {
+      title: "Automatic",
+      dataIndex: "autoApply",
+      key: "autoApply",
+      width: 100,
+      render: (autoApply: boolean, record: CategorizationRule) => (
+        <Tooltip title="Off: offered as a suggestion instead">
+          <Switch
+            size="small"
+            checked={autoApply}
+            onChange={(checked) => handleToggle(record, { autoApply: checked })}
+          />
+        </Tooltip>
+      ),
+    },
+    {
+      title: "Enabled",
+      dataIndex: "enabled",
+      key: "enabled",
+      width: 90,
+      render: (enabled: boolean, record: CategorizationRule) => (
+        <Switch
+          size="small"
+          checked={enabled}
+          onChange={(checked) => handleToggle(record, { enabled: checked })}
+        />
+      ),
+    },
+    {
+      title: "Actions",
+      key: "actions",
+      width: 140,
+      fixed: "right" as const,
+      render: (_: any, record: CategorizationRule) => (
+        <Space>
+          <Tooltip title="Test against history">
+            <Button
+              icon={<ExperimentOutlined />}
+              size="small"
+              onClick={() => setTestingRule(record)}
+            />
+          </Tooltip>
+          <Button
+            icon={<EditOutlined />}
+            size="small"
+            onClick={() => {
+              setEditingRule(record);
+              setIsFormOpen(true);
+            }}
+          />
+          <Popconfirm
+            title="Delete Rule"
+            description="Delete this rule? Transactions it already filed are kept."
+            onConfirm={() => handleDeleteRule(record.id)}
+            okText="Yes"
+            cancelText="No"
+          >
+            <Button icon={<DeleteOutlined />} size="small" danger />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Layout>
+      <div style={{ padding: "24px" }}>
+        <Row gutter={[16, 16]} style={{ marginBottom: "24px" }}>
+          <Col span={24}>
+            <Title level={2}>
+              <ThunderboltOutlined style={{ marginRight: "8px" }} />
+              Rules
+            </Title>
+            <Paragraph type="secondary">
+              Rules file new expenses and income as you add or import them.
+              They're checked from top to bottom and the first match wins.
+            </Paragraph>
+          </Col>
+        </Row>
+
+        <Card
+          title="Categorization Rules"
+          extra={
+            <Space>
+              <Button
+                icon={<ReloadOutlined />}
+                onClick={fetchRules}
+                loading={loading}
+              />
+              <Button
+                type="primary"
+                icon={<PlusOutlined />}
+                onClick={() => {
+                  setEditingRule(undefined);
+                  setIsFormOpen(true);
+                }}
+              >
+                Add Rule
+              </Button>
+            </Space>
+          }
+        >
+          <Table
+            columns={columns}
+            dataSource={rules}
+            rowKey="id"
+            loading={loading}
+            scroll={{ x: 1100 }}
+            pagination={false}
+          />
+        </Card>
+
+        <RuleForm
+          isOpen={isFormOpen}
+          onClose={() => {
+            setIsFormOpen(false);
+            setEditingRule(undefined);
+          }}
+          onSubmit={handleSubmitRule}
+          rule={editingRule}
+          categories={categories}
+        />
+
+        <RuleTestModal
+          isOpen={!!testingRule}
+          onClose={() => setTestingRule(undefined)}
+          rule={testingRule}
+          categories={categories}
+        />
+      </div>
+    </Layout>
+  );
+};
@@ -4,3 +4,8 @@ export { CategoriesPage } from "./CategoriesPage";
 export { IncomePage } from "./IncomePage";
 export { BudgetPage } from "./BudgetPage";
 export { ProfilePage } from "./ProfilePage";
+export { RecurringPage } from "./RecurringPage";
+export { GoalsPage } from "./GoalsPage";
+export { ReportsPage } from "./ReportsPage";
+export { OnboardingPage } from "./OnboardingPage";
+export { RulesPage } from "./RulesPage";
@@ -0,0 +1,57 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Picked up by react-scripts at build time, which injects the precache
+// manifest below (workbox InjectManifest)
+import { clientsClaim } from "workbox-core";
+import { ExpirationPlugin } from "workbox-expiration";
+import { precacheAndRoute, createHandlerBoundToURL } from "workbox-precaching";
+import { registerRoute } from "workbox-routing";
+import { CacheFirst, StaleWhileRevalidate } from "workbox-strategies";
+
+declare const self: ServiceWorkerGlobalScope;
+
+clientsClaim();
+
+precacheAndRoute(self.__WB_MANIFEST);
+
+// App shell: every client-side route is served by index.html
+const fileExtensionRegexp = new RegExp("/[^/?]+\\.[^/]+$");
+registerRoute(({ request, url }: { request: Request; url: URL }) => {
+  if (request.mode !== "navigate") return false;
+  if (url.pathname.startsWith("/_")) return false;
+  if (url.pathname.match(fileExtensionRegexp)) return false;
+  return true;
+}, createHandlerBoundToURL(process.env.PUBLIC_URL + "/index.html"));
+
+// Same-origin static files that aren't part of the build (icons, manifest)
+registerRoute(
+  ({ url }) =>
+    url.origin === self.location.origin &&
+    /\.(png|ico|svg|json)$/.test(url.pathname),
+  new StaleWhileRevalidate({
+    cacheName: "static-assets",
+    plugins: [new ExpirationPlugin({ maxEntries: 50 })],
+  })
+);
+
+// Receipts and avatars rarely change once uploaded
+registerRoute(
+  ({ url }) => url.hostname === "res.cloudinary.com",
+  new CacheFirst({
+    cacheName: "uploaded-images",
+    plugins: [
+      new ExpirationPlugin({
+        maxEntries: 200,
+        maxAgeSeconds: 30 * 24 * 60 * 60,
+      }),
+    ],
+  })
+);
+
+// Sent by the update prompt so the new build takes over straight away
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+});
@@ -0,0 +1,85 @@
+import { toast } from "sonner";
+
+// Registers the service worker built from src/service-worker.ts. Only runs in
+// production builds, since the dev server doesn't emit one
+interface RegisterConfig {
+  onSuccess?: (registration: ServiceWorkerRegistration) => void;
+  onUpdate?: (registration: ServiceWorkerRegistration) => void;
+}
+
+const watchForUpdates = (
+  registration: ServiceWorkerRegistration,
+  config?: RegisterConfig
+) => {
+  registration.onupdatefound = () => {
+    const installingWorker = registration.installing;
+    if (!installingWorker) return;
+
+    installingWorker.onstatechange = () => {
+      if (installingWorker.state !== "installed") return;
+      // With an existing controller this is a new build waiting to take over,
+      // otherwise it's the first install and everything is now cached
+      if (navigator.serviceWorker.controller) {
+        config?.onUpdate?.(registration);
+      } else {
+        config?.onSuccess?.(registration);
+      }
+    };
+  };
+};
+
+export const register = (config?: RegisterConfig) => {
+  if (
+    process.env.NODE_ENV !== "production" ||
+    !("serviceWorker" in navigator)
+  ) {
+    return;
+  }
+
+  const publicUrl = new URL(process.env.PUBLIC_URL, window.location.href);
+  // A service worker can't control pages on another origin (e.g. a CDN)
+  if (publicUrl.origin !== window.location.origin) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .then((registration) => {
+        watchForUpdates(registration, config);
+        // A build deployed before this tab was opened may already be waiting
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          config?.onUpdate?.(registration);
+        }
+      })
+      .catch(() => {
+        // Registration failures only cost offline support; the app still works
+      });
+  });
+};
+
+export const unregister = () => {
+  if (!("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((registration) => registration.unregister())
+    .catch(() => undefined);
+};
+
+// Tells the waiting worker to activate, then reloads onto the new build
+const activateUpdate = (registration: ServiceWorkerRegistration) => {
+  let reloaded = false;
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (reloaded) return;
+    reloaded = true;
+    window.location.reload();
+  });
+  registration.waiting?.postMessage({ type: "SKIP_WAITING" });
+};
+
+export const promptForUpdate = (registration: ServiceWorkerRegistration) => {
+  toast.info("A new version of Expense Tracker is available", {
+    duration: Infinity,
+    action: {
+      label: "Reload",
+      onClick: () => activateUpdate(registration),
+    },
+  });
+};
@@ -3,15 +3,41 @@ export interface User {
   email: string;
   name: string;
   avatar?: string;
+  baseCurrency?: string;
+  dashboardLayout?: DashboardWidgetLayout[];
+  // When the dashboard layout was last changed, on whichever device
+  dashboardLayoutUpdatedAt?: string;
+  // Money the user had when they started tracking, kept out of income totals
+  openingBalance?: number;
+  openingBalanceCurrency?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export type DashboardWidgetSize = "small" | "medium" | "large" | "full";
+
+// One entry per visible dashboard widget, in display order
+export interface DashboardWidgetLayout {
+  id: string;
+  size: DashboardWidgetSize;
+}
+
 export interface Category {
   id: string;
   name: string;
   icon: string;
   color: string;
+  // Subcategories point at their parent; top-level categories have none
+  parentId?: string | null;
+  userId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
   userId?: string;
   createdAt: string;
   updatedAt: string;
@@ -20,13 +46,35 @@ export interface Category {
 export interface Expense {
   id: string;
   amount: number;
+  currency?: string;
   description: string;
   categoryId: string;
   category?: Category;
+  splits?: ExpenseSplit[];
+  attachments?: ExpenseAttachment[];
+  tags?: Tag[];
   userId: string;
   date: string;
   createdAt: string;
   updatedAt: string;
+  // Set locally on records changed offline that haven't synced yet
+  pendingSync?: boolean;
+}
+
+export interface ExpenseSplit {
+  id?: string;
+  amount: number;
+  categoryId: string;
+  category?: Category;
+  note?: string;
+}
+
+export interface ExpenseAttachment {
+  id?: string;
+  url: string;
+  name: string;
+  type: string;
+  size?: number;
 }
 
 export interface AuthResponse {
@@ -38,6 +86,12 @@ export interface AuthResponse {
   };
 }
 
+export type SortOrder = "asc" | "desc";
+
+export type ExpenseSortField = "date" | "amount" | "category";
+
+export type IncomeSortField = "date" | "amount" | "source";
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -53,47 +107,98 @@ export interface ExpenseStats {
   };
   categoryStats: {
     categoryId: string;
+    currency?: string;
     _sum: { amount: number };
     _count: { id: number };
     category: {
       id: string;
       name: string;
       color: string;
+      icon?: string;
     };
   }[];
   monthlyStats: {
     month: string;
+    currency?: string;
     total_amount: number;
     expense_count: number;
   }[];
+  currencyStats?: {
+    currency: string;
+    _sum: { amount: number };
+    _count: { id: number };
+  }[];
 }
 
 export interface Income {
   id: string;
   amount: number;
+  currency?: string;
   description: string;
   source: string;
+  tags?: Tag[];
   userId: string;
   date: string;
   createdAt: string;
   updatedAt: string;
+  // Set locally on records changed offline that haven't synced yet
+  pendingSync?: boolean;
 }
 
 export interface Budget {
   id: string;
   name: string;
   amount: number;
-  period: "monthly" | "yearly";
+  currency?: string;
+  spent?: number;
+  // Spent amounts per expense currency, converted client-side
+  spentByCurrency?: Record<string, number>;
+  period: BudgetPeriod;
   startDate: string;
   endDate?: string;
   isActive: boolean;
+  // Creates the next period's budget once this one ends
+  autoRenew?: boolean;
+  // Envelope budgets carry unused or overspent money between periods
+  mode?: BudgetMode;
+  rolloverPolicy?: RolloverPolicy;
+  // Largest amount carried either way when the policy is "capped"
+  rolloverCap?: number;
+  // Set on renewed budgets: the budget they follow and, for envelopes, the
+  // carry-over it ended with
+  previousBudgetId?: string;
+  carriedIn?: number;
   userId: string;
   categoryId?: string;
+  // The category and all its subcategories, filled in client-side
+  categoryIds?: string[];
   category?: Category;
   createdAt: string;
   updatedAt: string;
 }
 
+export type BudgetPeriod =
+  | "weekly"
+  | "biweekly"
+  | "monthly"
+  | "quarterly"
+  | "yearly";
+
+export type BudgetMode = "standard" | "envelope";
+
+export type RolloverPolicy = "none" | "full" | "capped";
+
+export interface BudgetPeriodSummary {
+  startDate: string;
+  endDate: string;
+  budgeted: number;
+  carriedIn: number;
+  available: number;
+  spent: number;
+  remaining: number;
+  carryOver: number;
+}
+
 export interface BudgetAlert {
   budgetId: string;
   budgetName: string;
@@ -110,8 +215,123 @@ export interface IncomeVsExpenseStats {
   savingsRate: number;
   monthlyComparison: {
     month: string;
+    currency?: string;
     income: number;
     expenses: number;
     savings: number;
   }[];
 }
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export type WeekendAdjustment =
+  | "none"
+  | "skip"
+  | "next_weekday"
+  | "previous_weekday";
+
+export type OccurrenceStatus = "pending" | "confirmed" | "skipped";
+
+// Per-instance override of a recurring series, keyed by its scheduled date
+export interface RecurringOccurrenceOverride {
+  date: string;
+  status: OccurrenceStatus;
+  amount?: number;
+  description?: string;
+  categoryId?: string;
+  source?: string;
+  transactionId?: string;
+}
+
+export interface RecurringTransaction {
+  id: string;
+  type: "expense" | "income";
+  amount: number;
+  currency?: string;
+  description: string;
+  categoryId?: string;
+  category?: Category;
+  source?: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string;
+  weekendAdjustment: WeekendAdjustment;
+  skipDates: string[];
+  overrides: RecurringOccurrenceOverride[];
+  isActive: boolean;
+  userId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecurringOccurrence {
+  recurring: RecurringTransaction;
+  scheduledDate: string;
+  dueDate: string;
+  status: OccurrenceStatus;
+  amount: number;
+  description: string;
+  categoryId?: string;
+  source?: string;
+  isModified: boolean;
+  transactionId?: string;
+}
+
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  currency?: string;
+  deadline?: string;
+  color?: string;
+  contributions?: GoalContribution[];
+  userId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GoalContribution {
+  id: string;
+  goalId: string;
+  amount: number;
+  date: string;
+  note?: string;
+  createdAt: string;
+}
+
+export type RuleTransactionType = "expense" | "income";
+
+// Every condition that is set has to match; amounts are in base currency
+export interface RuleConditions {
+  descriptionContains?: string;
+  descriptionRegex?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  // Income only: matches sources containing this text
+  source?: string;
+}
+
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  transactionType: RuleTransactionType;
+  conditions: RuleConditions;
+  categoryId?: string;
+  tagIds?: string[];
+  // Applied straight away rather than offered as a suggestion
+  autoApply: boolean;
+  enabled: boolean;
+  // Lower numbers are checked first
+  priority: number;
+  userId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Rates are units of each currency per one unit of the reference currency
+export interface ExchangeRateTable {
+  reference: string;
+  rates: Record<string, number>;
+  updatedAt: string;
+}
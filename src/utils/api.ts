@@ -3,14 +3,42 @@ import {
   ApiResponse,
   AuthResponse,
   User,
+  Tag,
   Expense,
+  ExpenseAttachment,
+  ExpenseSortField,
   Category,
   ExpenseStats,
   Income,
+  IncomeSortField,
+  SortOrder,
   Budget,
+  BudgetMode,
+  BudgetPeriod,
+  RolloverPolicy,
   IncomeVsExpenseStats,
   BudgetAlert,
+  RecurringTransaction,
+  RecurrenceFrequency,
+  WeekendAdjustment,
+  SavingsGoal,
+  GoalContribution,
+  DashboardWidgetLayout,
+  CategorizationRule,
+  RuleConditions,
+  RuleTransactionType,
 } from "../types";
+import {
+  applyPendingMutations,
+  cacheResponse,
+  getCachedResponse,
+  isCacheableRequest,
+  isOfflineError,
+  replayQueue,
+  resolveQueuedMutation,
+  withOfflineQueue,
+} from "./offlineSync";
+import { QueuedMutation } from "./offlineStore";
 
 // Create axios instance with base configuration
 const api = axios.create({
@@ -57,12 +85,34 @@ api.interceptors.request.use(
 
 // Response interceptor for error handling and token refresh
 api.interceptors.response.use(
-  (response) => {
+  async (response) => {
+    // Keep a copy of list data for offline use, with queued changes on top
+    if (isCacheableRequest(response.config)) {
+      cacheResponse(response.config, response.data);
+      response.data = await applyPendingMutations(
+        response.config,
+        response.data
+      );
+    }
     return response;
   },
   async (error) => {
     const originalRequest = error.config;
 
+    // Serve the last cached copy when the server can't be reached
+    if (isOfflineError(error) && isCacheableRequest(originalRequest)) {
+      const cached = await getCachedResponse(originalRequest);
+      if (cached) {
+        return {
+          data: await applyPendingMutations(originalRequest, cached),
+          status: 200,
+          statusText: "OK (offline cache)",
+          headers: {},
+          config: originalRequest,
+        };
+      }
+    }
+
     // If auth is completely invalid, reject immediately
     if (isAuthInvalid) {
       return Promise.reject(
@@ -226,11 +276,34 @@ export const userApi = {
     name: string;
     email: string;
     avatar?: string;
+    baseCurrency?: string;
   }): Promise<ApiResponse<{ user: User }>> => {
     const response = await api.put("/user/profile", data);
     return response.data;
   },
 
+  updateDashboardLayout: async (
+    layout: DashboardWidgetLayout[],
+    updatedAt: string
+  ): Promise<ApiResponse<{ user: User }>> => {
+    const response = await api.put("/user/dashboard-layout", {
+      layout,
+      updatedAt,
+    });
+    return response.data;
+  },
+
+  updateOpeningBalance: async (
+    amount: number,
+    currency: string
+  ): Promise<ApiResponse<{ user: User }>> => {
+    const response = await api.put("/user/opening-balance", {
+      amount,
+      currency,
+    });
+    return response.data;
+  },
+
   changePassword: async (
     currentPassword: string,
     newPassword: string
@@ -254,6 +327,7 @@ export const categoriesApi = {
     name: string;
     icon: string;
     color: string;
+    parentId?: string | null;
   }): Promise<ApiResponse<Category>> => {
     const response = await api.post("/categories", data);
     return response.data;
@@ -261,14 +335,65 @@ export const categoriesApi = {
 
   updateCategory: async (
     id: string,
-    data: { name: string; icon: string; color: string }
+    data: {
+      name?: string;
+      icon?: string;
+      color?: string;
+      parentId?: string | null;
+    }
   ): Promise<ApiResponse<Category>> => {
     const response = await api.put(`/categories/${id}`, data);
     return response.data;
   },
 
-  deleteCategory: async (id: string): Promise<ApiResponse> => {
-    const response = await api.delete(`/categories/${id}`);
+  // With reassignTo, the category's expenses, splits, budgets and recurring
+  // transactions move to that category before it is deleted
+  deleteCategory: async (
+    id: string,
+    reassignTo?: string
+  ): Promise<ApiResponse> => {
+    const response = await api.delete(`/categories/${id}`, {
+      params: reassignTo ? { reassignTo } : undefined,
+    });
+    return response.data;
+  },
+
+  // Moves everything filed under the category, subcategories included, into
+  // the target and deletes it
+  mergeCategory: async (
+    id: string,
+    targetId: string
+  ): Promise<ApiResponse<Category>> => {
+    const response = await api.post(`/categories/${id}/merge`, { targetId });
+    return response.data;
+  },
+};
+
+// Tags API
+export const tagsApi = {
+  getTags: async (): Promise<ApiResponse<Tag[]>> => {
+    const response = await api.get("/tags");
+    return response.data;
+  },
+
+  createTag: async (data: {
+    name: string;
+    color: string;
+  }): Promise<ApiResponse<Tag>> => {
+    const response = await api.post("/tags", data);
+    return response.data;
+  },
+
+  updateTag: async (
+    id: string,
+    data: { name: string; color: string }
+  ): Promise<ApiResponse<Tag>> => {
+    const response = await api.put(`/tags/${id}`, data);
+    return response.data;
+  },
+
+  deleteTag: async (id: string): Promise<ApiResponse> => {
+    const response = await api.delete(`/tags/${id}`);
     return response.data;
   },
 };
@@ -279,9 +404,16 @@ export const expensesApi = {
     page?: number;
     limit?: number;
     categoryId?: string;
+    // Comma-separated category ids; matches expenses filed under any of them
+    // or with a split line in one
+    categoryIds?: string;
     startDate?: string;
     endDate?: string;
     search?: string;
+    // Comma-separated tag ids; matches transactions with any of them
+    tags?: string;
+    sortBy?: ExpenseSortField;
+    sortOrder?: SortOrder;
   }): Promise<
     ApiResponse<{
       expenses: Expense[];
@@ -296,11 +428,33 @@ export const expensesApi = {
 
   createExpense: async (data: {
     amount: number;
+    currency?: string;
     description: string;
     categoryId: string;
     date: string;
-  }): Promise<ApiResponse<Expense>> => {
-    const response = await api.post("/expenses", data);
+    splits?: { amount: number; categoryId: string; note?: string }[];
+    attachments?: Omit<ExpenseAttachment, "id">[];
+    tagIds?: string[];
+  }): Promise<ApiResponse<Expense>> =>
+    withOfflineQueue(
+      { entity: "expense", action: "create", payload: data },
+      async () => {
+        const response = await api.post("/expenses", data);
+        return response.data;
+      }
+    ),
+
+  createExpensesBulk: async (
+    expenses: {
+      amount: number;
+      currency?: string;
+      description: string;
+      categoryId: string;
+      date: string;
+      tagIds?: string[];
+    }[]
+  ): Promise<ApiResponse<{ expenses: Expense[]; count: number }>> => {
+    const response = await api.post("/expenses/bulk", { expenses });
     return response.data;
   },
 
@@ -308,24 +462,41 @@ export const expensesApi = {
     id: string,
     data: {
       amount: number;
+      currency?: string;
       description: string;
       categoryId: string;
       date: string;
+      // An empty array removes existing splits
+      splits?: { amount: number; categoryId: string; note?: string }[];
+      attachments?: Omit<ExpenseAttachment, "id">[];
+      tagIds?: string[];
     }
-  ): Promise<ApiResponse<Expense>> => {
-    const response = await api.put(`/expenses/${id}`, data);
-    return response.data;
-  },
-
-  deleteExpense: async (id: string): Promise<ApiResponse> => {
-    const response = await api.delete(`/expenses/${id}`);
-    return response.data;
-  },
+  ): Promise<ApiResponse<Expense>> =>
+    withOfflineQueue(
+      { entity: "expense", action: "update", entityId: id, payload: data },
+      async () => {
+        const response = await api.put(`/expenses/${id}`, data);
+        return response.data;
+      }
+    ),
+
+  deleteExpense: async (id: string): Promise<ApiResponse> =>
+    withOfflineQueue(
+      { entity: "expense", action: "delete", entityId: id },
+      async () => {
+        const response = await api.delete(`/expenses/${id}`);
+        return response.data;
+      }
+    ),
 
   getStats: async (params?: {
     startDate?: string;
     endDate?: string;
     categoryId?: string;
+    // Like getExpenses, but split expenses only count their lines in these
+    categoryIds?: string;
+    search?: string;
+    tags?: string;
   }): Promise<ApiResponse<ExpenseStats>> => {
     const response = await api.get("/expenses/stats", { params });
     return response.data;
@@ -340,6 +511,9 @@ export const incomeApi = {
     startDate?: string;
     endDate?: string;
     search?: string;
+    tags?: string;
+    sortBy?: IncomeSortField;
+    sortOrder?: SortOrder;
   }): Promise<
     ApiResponse<{
       incomes: Income[];
@@ -354,31 +528,47 @@ export const incomeApi = {
 
   createIncome: async (data: {
     amount: number;
+    currency?: string;
     description: string;
     source: string;
     date: string;
-  }): Promise<ApiResponse<Income>> => {
-    const response = await api.post("/income", data);
-    return response.data;
-  },
+    tagIds?: string[];
+  }): Promise<ApiResponse<Income>> =>
+    withOfflineQueue(
+      { entity: "income", action: "create", payload: data },
+      async () => {
+        const response = await api.post("/income", data);
+        return response.data;
+      }
+    ),
 
   updateIncome: async (
     id: string,
     data: {
       amount: number;
+      currency?: string;
       description: string;
       source: string;
       date: string;
+      tagIds?: string[];
     }
-  ): Promise<ApiResponse<Income>> => {
-    const response = await api.put(`/income/${id}`, data);
-    return response.data;
-  },
-
-  deleteIncome: async (id: string): Promise<ApiResponse> => {
-    const response = await api.delete(`/income/${id}`);
-    return response.data;
-  },
+  ): Promise<ApiResponse<Income>> =>
+    withOfflineQueue(
+      { entity: "income", action: "update", entityId: id, payload: data },
+      async () => {
+        const response = await api.put(`/income/${id}`, data);
+        return response.data;
+      }
+    ),
+
+  deleteIncome: async (id: string): Promise<ApiResponse> =>
+    withOfflineQueue(
+      { entity: "income", action: "delete", entityId: id },
+      async () => {
+        const response = await api.delete(`/income/${id}`);
+        return response.data;
+      }
+    ),
 
   getIncomeStats: async (params?: {
     startDate?: string;
@@ -399,10 +589,17 @@ export const budgetApi = {
   createBudget: async (data: {
     name: string;
     amount: number;
-    period: "monthly" | "yearly";
+    currency?: string;
+    period: BudgetPeriod;
     startDate: string;
     endDate?: string;
     categoryId?: string;
+    mode?: BudgetMode;
+    rolloverPolicy?: RolloverPolicy;
+    rolloverCap?: number;
+    autoRenew?: boolean;
+    previousBudgetId?: string;
+    carriedIn?: number;
   }): Promise<ApiResponse<Budget>> => {
     const response = await api.post("/budget", data);
     return response.data;
@@ -413,11 +610,16 @@ export const budgetApi = {
     data: {
       name?: string;
       amount?: number;
-      period?: "monthly" | "yearly";
+      currency?: string;
+      period?: BudgetPeriod;
       startDate?: string;
       endDate?: string;
       categoryId?: string;
       isActive?: boolean;
+      mode?: BudgetMode;
+      rolloverPolicy?: RolloverPolicy;
+      rolloverCap?: number;
+      autoRenew?: boolean;
     }
   ): Promise<ApiResponse<Budget>> => {
     const response = await api.put(`/budget/${id}`, data);
@@ -429,10 +631,231 @@ export const budgetApi = {
     return response.data;
   },
 
-  getBudgetAlerts: async (): Promise<ApiResponse<BudgetAlert[]>> => {
-    const response = await api.get("/budget/alerts");
+  // Budgets at or above the threshold percentage of their amount
+  getBudgetAlerts: async (params?: {
+    threshold?: number;
+  }): Promise<ApiResponse<BudgetAlert[]>> => {
+    const response = await api.get("/budget/alerts", { params });
+    return response.data;
+  },
+};
+
+// Recurring API
+export const recurringApi = {
+  getRecurring: async (): Promise<ApiResponse<RecurringTransaction[]>> => {
+    const response = await api.get("/recurring");
+    return response.data;
+  },
+
+  createRecurring: async (data: {
+    type: "expense" | "income";
+    amount: number;
+    currency?: string;
+    description: string;
+    categoryId?: string;
+    source?: string;
+    frequency: RecurrenceFrequency;
+    interval: number;
+    startDate: string;
+    endDate?: string;
+    weekendAdjustment: WeekendAdjustment;
+    skipDates: string[];
+  }): Promise<ApiResponse<RecurringTransaction>> => {
+    const response = await api.post("/recurring", data);
     return response.data;
   },
+
+  updateRecurring: async (
+    id: string,
+    data: {
+      amount?: number;
+      currency?: string;
+      description?: string;
+      categoryId?: string;
+      source?: string;
+      frequency?: RecurrenceFrequency;
+      interval?: number;
+      startDate?: string;
+      endDate?: string | null;
+      weekendAdjustment?: WeekendAdjustment;
+      skipDates?: string[];
+      isActive?: boolean;
+    }
+  ): Promise<ApiResponse<RecurringTransaction>> => {
+    const response = await api.put(`/recurring/${id}`, data);
+    return response.data;
+  },
+
+  deleteRecurring: async (id: string): Promise<ApiResponse> => {
+    const response = await api.delete(`/recurring/${id}`);
+    return response.data;
+  },
+
+  // Creates the expense/income for a single occurrence and marks it confirmed
+  confirmOccurrence: async (
+    id: string,
+    data: {
+      date: string;
+      transactionDate: string;
+      amount: number;
+      currency?: string;
+      description: string;
+      categoryId?: string;
+      source?: string;
+    }
+  ): Promise<ApiResponse<RecurringTransaction>> => {
+    const response = await api.post(
+      `/recurring/${id}/occurrences/confirm`,
+      data
+    );
+    return response.data;
+  },
+
+  skipOccurrence: async (
+    id: string,
+    date: string
+  ): Promise<ApiResponse<RecurringTransaction>> => {
+    const response = await api.post(`/recurring/${id}/occurrences/skip`, {
+      date,
+    });
+    return response.data;
+  },
+
+  // Overrides a single occurrence without touching the rest of the series
+  updateOccurrence: async (
+    id: string,
+    date: string,
+    data: {
+      amount?: number;
+      description?: string;
+      categoryId?: string;
+      source?: string;
+    }
+  ): Promise<ApiResponse<RecurringTransaction>> => {
+    const response = await api.put(
+      `/recurring/${id}/occurrences/${date}`,
+      data
+    );
+    return response.data;
+  },
+};
+
+// Savings goals API
+export const goalsApi = {
+  getGoals: async (): Promise<ApiResponse<SavingsGoal[]>> => {
+    const response = await api.get("/goals");
+    return response.data;
+  },
+
+  createGoal: async (data: {
+    name: string;
+    targetAmount: number;
+    currency?: string;
+    deadline?: string;
+    color?: string;
+  }): Promise<ApiResponse<SavingsGoal>> => {
+    const response = await api.post("/goals", data);
+    return response.data;
+  },
+
+  updateGoal: async (
+    id: string,
+    data: {
+      name?: string;
+      targetAmount?: number;
+      currency?: string;
+      // null clears the deadline
+      deadline?: string | null;
+      color?: string;
+    }
+  ): Promise<ApiResponse<SavingsGoal>> => {
+    const response = await api.put(`/goals/${id}`, data);
+    return response.data;
+  },
+
+  deleteGoal: async (id: string): Promise<ApiResponse> => {
+    const response = await api.delete(`/goals/${id}`);
+    return response.data;
+  },
+
+  addContribution: async (
+    goalId: string,
+    data: { amount: number; date: string; note?: string }
+  ): Promise<ApiResponse<GoalContribution>> => {
+    const response = await api.post(`/goals/${goalId}/contributions`, data);
+    return response.data;
+  },
+
+  deleteContribution: async (
+    goalId: string,
+    contributionId: string
+  ): Promise<ApiResponse> => {
+    const response = await api.delete(
+      `/goals/${goalId}/contributions/${contributionId}`
+    );
+    return response.data;
+  },
+};
+
+// Auto-categorization rules API
+export const rulesApi = {
+  getRules: async (): Promise<ApiResponse<CategorizationRule[]>> => {
+    const response = await api.get("/rules");
+    return response.data;
+  },
+
+  createRule: async (data: {
+    name: string;
+    transactionType: RuleTransactionType;
+    conditions: RuleConditions;
+    categoryId?: string;
+    tagIds?: string[];
+    autoApply: boolean;
+    enabled: boolean;
+    priority?: number;
+  }): Promise<ApiResponse<CategorizationRule>> => {
+    const response = await api.post("/rules", data);
+    return response.data;
+  },
+
+  updateRule: async (
+    id: string,
+    data: {
+      name?: string;
+      transactionType?: RuleTransactionType;
+      conditions?: RuleConditions;
+      // null clears the category
+      categoryId?: string | null;
+      tagIds?: string[];
+      autoApply?: boolean;
+      enabled?: boolean;
+    }
+  ): Promise<ApiResponse<CategorizationRule>> => {
+    const response = await api.put(`/rules/${id}`, data);
+    return response.data;
+  },
+
+  deleteRule: async (id: string): Promise<ApiResponse> => {
+    const response = await api.delete(`/rules/${id}`);
+    return response.data;
+  },
+
+  // Saves the evaluation order; the first id gets the highest priority
+  reorderRules: async (
+    ids: string[]
+  ): Promise<ApiResponse<CategorizationRule[]>> => {
+    const response = await api.put("/rules/order", { ids });
+    return response.data;
+  },
+};
+
+// Offline sync API
+export const syncApi = {
+  // Replays changes queued while offline, oldest first
+  replay: () => replayQueue(api),
+
+  resolve: (mutation: QueuedMutation, resolution: "keep-mine" | "discard") =>
+    resolveQueuedMutation(api, mutation, resolution),
 };
 
 export { api };
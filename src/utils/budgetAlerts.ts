@@ -0,0 +1,102 @@
+import dayjs from "dayjs";
+import { BudgetAlert } from "../types";
+
+// Both are kept per user so a shared browser doesn't mix accounts
+const SETTINGS_KEY_PREFIX = "budgetAlertSettings";
+const STATE_KEY_PREFIX = "budgetAlertState";
+
+export const ALERT_THRESHOLDS = [50, 80, 100];
+
+export interface BudgetAlertSettings {
+  thresholds: number[];
+}
+
+// Per budget: the threshold the user last dismissed, and any snooze
+export interface BudgetAlertState {
+  [budgetId: string]: {
+    dismissedThreshold?: number;
+    snoozedUntil?: string;
+  };
+}
+
+export interface ActiveBudgetAlert extends BudgetAlert {
+  threshold: number;
+}
+
+const DEFAULT_SETTINGS: BudgetAlertSettings = {
+  thresholds: [80, 100],
+};
+
+// Signed-out sessions get the defaults
+export const loadAlertSettings = (userId?: string): BudgetAlertSettings => {
+  if (!userId) return DEFAULT_SETTINGS;
+  try {
+    const stored = localStorage.getItem(`${SETTINGS_KEY_PREFIX}:${userId}`);
+    if (!stored) return DEFAULT_SETTINGS;
+    const settings = JSON.parse(stored) as BudgetAlertSettings;
+    if (!Array.isArray(settings.thresholds)) return DEFAULT_SETTINGS;
+    return settings;
+  } catch (error) {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveAlertSettings = (
+  userId: string,
+  settings: BudgetAlertSettings
+) => {
+  localStorage.setItem(
+    `${SETTINGS_KEY_PREFIX}:${userId}`,
+    JSON.stringify(settings)
+  );
+};
+
+export const loadAlertState = (userId?: string): BudgetAlertState => {
+  if (!userId) return {};
+  try {
+    return JSON.parse(
+      localStorage.getItem(`${STATE_KEY_PREFIX}:${userId}`) || "{}"
+    );
+  } catch (error) {
+    return {};
+  }
+};
+
+export const saveAlertState = (userId: string, state: BudgetAlertState) => {
+  localStorage.setItem(`${STATE_KEY_PREFIX}:${userId}`, JSON.stringify(state));
+};
+
+// Highest enabled threshold the budget has reached, if any
+export const getCrossedThreshold = (percentage: number, thresholds: number[]) =>
+  [...thresholds]
+    .sort((a, b) => b - a)
+    .find((threshold) => percentage >= threshold);
+
+// A dismissed alert comes back once the budget passes a higher threshold
+export const getActiveAlerts = (
+  alerts: BudgetAlert[],
+  thresholds: number[],
+  state: BudgetAlertState,
+  now = dayjs()
+): ActiveBudgetAlert[] =>
+  alerts
+    .map((alert) => ({
+      ...alert,
+      threshold: getCrossedThreshold(alert.percentage, thresholds),
+    }))
+    .filter((alert): alert is ActiveBudgetAlert => {
+      if (alert.threshold === undefined) return false;
+      const budgetState = state[alert.budgetId];
+      if (!budgetState) return true;
+      if (
+        budgetState.snoozedUntil &&
+        dayjs(budgetState.snoozedUntil).isAfter(now)
+      ) {
+        return false;
+      }
+      return (
+        budgetState.dismissedThreshold === undefined ||
+        alert.threshold > budgetState.dismissedThreshold
+      );
+    })
+    .sort((a, b) => b.percentage - a.percentage);
@@ -0,0 +1,172 @@
+import dayjs from "dayjs";
+import { Budget, BudgetPeriod, BudgetPeriodSummary } from "../types";
+import { budgetApi } from "./api";
+
+type RenewableBudget = Pick<
+  Budget,
+  | "id"
+  | "name"
+  | "amount"
+  | "currency"
+  | "startDate"
+  | "endDate"
+  | "categoryId"
+  | "isActive"
+  | "autoRenew"
+  | "mode"
+  | "rolloverPolicy"
+  | "rolloverCap"
+  | "previousBudgetId"
+> & { period?: BudgetPeriod; history?: BudgetPeriodSummary[] };
+
+const periodSteps: Record<
+  BudgetPeriod,
+  { amount: number; unit: dayjs.ManipulateType }
+> = {
+  weekly: { amount: 1, unit: "week" },
+  biweekly: { amount: 2, unit: "week" },
+  monthly: { amount: 1, unit: "month" },
+  quarterly: { amount: 3, unit: "month" },
+  yearly: { amount: 1, unit: "year" },
+};
+
+export const budgetPeriodLabels: Record<BudgetPeriod, string> = {
+  weekly: "Weekly",
+  biweekly: "Every 2 weeks",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  yearly: "Yearly",
+};
+
+// Budgets saved before periods were selectable are monthly
+export const addBudgetPeriods = (
+  date: dayjs.Dayjs,
+  period: BudgetPeriod = "monthly",
+  count = 1
+) => {
+  const step = periodSteps[period] || periodSteps.monthly;
+  return date.add(step.amount * count, step.unit);
+};
+
+export const getPeriodEnd = (start: dayjs.Dayjs, period?: BudgetPeriod) =>
+  addBudgetPeriods(start.startOf("day"), period)
+    .subtract(1, "day")
+    .endOf("day");
+
+// The calendar window containing the given day; bi-weekly windows start on
+// the current week so they line up with the weekly view
+export const getCurrentPeriodWindow = (
+  period: BudgetPeriod,
+  today: dayjs.Dayjs = dayjs()
+) => {
+  let start: dayjs.Dayjs;
+  switch (period) {
+    case "weekly":
+    case "biweekly":
+      start = today.startOf("week");
+      break;
+    case "quarterly":
+      start = today.startOf("month").month(Math.floor(today.month() / 3) * 3);
+      break;
+    case "yearly":
+      start = today.startOf("year");
+      break;
+    default:
+      start = today.startOf("month");
+  }
+  return { startDate: start, endDate: getPeriodEnd(start, period) };
+};
+
+// Steps forward from an ended budget to the window that contains today
+export const getRenewalWindow = (
+  budget: Pick<RenewableBudget, "period" | "startDate" | "endDate">,
+  today: dayjs.Dayjs = dayjs()
+) => {
+  let start = budget.endDate
+    ? dayjs(budget.endDate).add(1, "day").startOf("day")
+    : addBudgetPeriods(dayjs(budget.startDate).startOf("day"), budget.period);
+  let end = getPeriodEnd(start, budget.period);
+  while (end.isBefore(today, "day")) {
+    start = end.add(1, "day").startOf("day");
+    end = getPeriodEnd(start, budget.period);
+  }
+  return { startDate: start, endDate: end };
+};
+
+export const isBudgetDueForRenewal = (
+  budget: Pick<Budget, "autoRenew" | "isActive" | "endDate">,
+  today: dayjs.Dayjs = dayjs()
+) =>
+  !!budget.autoRenew &&
+  budget.isActive &&
+  !!budget.endDate &&
+  dayjs(budget.endDate).isBefore(today, "day");
+
+// The budget that already took over from this one, if any: either linked by
+// previousBudgetId or, for budgets renewed before that link existed, the
+// same budget starting the day after this one ended
+const findSuccessor = (budget: RenewableBudget, budgets: RenewableBudget[]) =>
+  budgets.find(
+    (other) =>
+      other.id !== budget.id &&
+      (other.previousBudgetId === budget.id ||
+        (!other.previousBudgetId &&
+          other.name === budget.name &&
+          other.categoryId === budget.categoryId &&
+          !!budget.endDate &&
+          dayjs(other.startDate).isSame(
+            dayjs(budget.endDate).add(1, "day"),
+            "day"
+          )))
+  );
+
+// Creates the next period's budget for every auto-renewing budget that has
+// ended, and retires the old one so it stays as history. Envelope budgets
+// carry their final carry-over into the new budget, whose window also covers
+// any periods missed while the app wasn't opened. Safe to run again: a budget
+// that already has a successor is only retired. Returns how many budgets were
+// renewed.
+export const renewExpiredBudgets = async (
+  budgets: RenewableBudget[],
+  today: dayjs.Dayjs = dayjs()
+) => {
+  const expired = budgets.filter((budget) =>
+    isBudgetDueForRenewal(budget, today)
+  );
+  if (expired.length === 0) return 0;
+
+  // Checked against a fresh list in case another tab renewed them meanwhile
+  const current = (await budgetApi.getBudgets()).data || budgets;
+  let renewed = 0;
+
+  for (const budget of expired) {
+    if (!findSuccessor(budget, current)) {
+      const window = getRenewalWindow(budget, today);
+      const isEnvelope = budget.mode === "envelope";
+      await budgetApi.createBudget({
+        name: budget.name,
+        amount: budget.amount,
+        currency: budget.currency,
+        period: budget.period || "monthly",
+        startDate: (isEnvelope
+          ? dayjs(budget.endDate).add(1, "day").startOf("day")
+          : window.startDate
+        ).toISOString(),
+        endDate: window.endDate.toISOString(),
+        categoryId: budget.categoryId,
+        mode: budget.mode,
+        rolloverPolicy: budget.rolloverPolicy,
+        rolloverCap: budget.rolloverCap,
+        autoRenew: true,
+        previousBudgetId: budget.id,
+        carriedIn: isEnvelope
+          ? budget.history?.slice(-1)[0]?.carryOver ?? 0
+          : undefined,
+      });
+      renewed += 1;
+    }
+    await budgetApi.updateBudget(budget.id, { isActive: false });
+  }
+
+  return renewed;
+};
@@ -0,0 +1,105 @@
+import dayjs, { Dayjs } from "dayjs";
+import { Budget, BudgetPeriodSummary, Expense, RolloverPolicy } from "../types";
+import { getBudgetSpent } from "./currency";
+import { addBudgetPeriods } from "./budgetPeriods";
+import { getBudgetSpentByCurrency, roundAmount } from "./splits";
+
+export type RolloverBudget = Pick<
+  Budget,
+  | "amount"
+  | "currency"
+  | "categoryId"
+  | "categoryIds"
+  | "startDate"
+  | "endDate"
+  | "rolloverPolicy"
+  | "rolloverCap"
+  | "carriedIn"
+> & { period?: Budget["period"] };
+
+export const ROLLOVER_POLICY_LABELS: Record<RolloverPolicy, string> = {
+  none: "No rollover",
+  full: "Roll over everything",
+  capped: "Roll over up to a cap",
+};
+
+// Splits the budget window into its periods, stopping at the current one
+export const getBudgetPeriods = (
+  budget: Pick<Budget, "startDate" | "endDate"> & {
+    period?: Budget["period"];
+  },
+  today: Dayjs = dayjs()
+) => {
+  const windowEnd = budget.endDate ? dayjs(budget.endDate).endOf("day") : null;
+  const periods: { start: Dayjs; end: Dayjs }[] = [];
+
+  let start = dayjs(budget.startDate).startOf("day");
+  while (!start.isAfter(today) && (!windowEnd || start.isBefore(windowEnd))) {
+    const next = addBudgetPeriods(start, budget.period);
+    const end = next.subtract(1, "day").endOf("day");
+    periods.push({
+      start,
+      end: windowEnd && end.isAfter(windowEnd) ? windowEnd : end,
+    });
+    start = next;
+  }
+  return periods;
+};
+
+// Leftover money (or overspending, as a negative) carried into the next period
+export const applyRolloverPolicy = (
+  remaining: number,
+  policy: RolloverPolicy = "none",
+  cap?: number
+) => {
+  if (policy === "none") return 0;
+  if (policy === "capped" && cap !== undefined && cap !== null) {
+    return Math.max(-cap, Math.min(cap, remaining));
+  }
+  return remaining;
+};
+
+export const buildRolloverHistory = (
+  budget: RolloverBudget,
+  expenses: Expense[],
+  convert: (amount: number, from: string, to: string) => number,
+  today: Dayjs = dayjs()
+): BudgetPeriodSummary[] => {
+  // Renewed envelopes start from where the previous budget left off
+  let carriedIn = roundAmount(budget.carriedIn || 0);
+
+  return getBudgetPeriods(budget, today).map(({ start, end }) => {
+    const spentByCurrency = getBudgetSpentByCurrency(
+      {
+        categoryId: budget.categoryId,
+        categoryIds: budget.categoryIds,
+        startDate: start.toISOString(),
+        endDate: end.toISOString(),
+      },
+      expenses
+    );
+    const spent = roundAmount(
+      getBudgetSpent({ spentByCurrency, currency: budget.currency }, convert)
+    );
+    const available = roundAmount(budget.amount + carriedIn);
+    const remaining = roundAmount(available - spent);
+    const summary: BudgetPeriodSummary = {
+      startDate: start.toISOString(),
+      endDate: end.toISOString(),
+      budgeted: budget.amount,
+      carriedIn,
+      available,
+      spent,
+      remaining,
+      carryOver: roundAmount(
+        applyRolloverPolicy(
+          remaining,
+          budget.rolloverPolicy,
+          budget.rolloverCap
+        )
+      ),
+    };
+    carriedIn = summary.carryOver;
+    return summary;
+  });
+};
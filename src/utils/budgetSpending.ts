@@ -0,0 +1,90 @@
+import dayjs, { Dayjs } from "dayjs";
+import { Budget, BudgetPeriodSummary, Category, Expense } from "../types";
+import { RolloverBudget, buildRolloverHistory } from "./budgetRollover";
+import { getDescendantIds } from "./categoryTree";
+import {
+  BudgetForecast,
+  FORECAST_LOOKBACK_DAYS,
+  projectBudgetSpending,
+} from "./forecast";
+import { getBudgetSpentByCurrency } from "./splits";
+
+type SpendingBudget = RolloverBudget & Pick<Budget, "isActive" | "mode">;
+
+// Budgets still running, or that ended within the forecast lookback, get
+// split-aware figures. Older ones keep the server's spent amount so the
+// expenses needed don't grow with the account's history
+const tracksSpending = (budget: SpendingBudget, since: Dayjs) =>
+  budget.isActive || (!!budget.endDate && dayjs(budget.endDate).isAfter(since));
+
+// The expenses addBudgetSpending needs, which also cover the forecast's history
+export const getBudgetSpendingRange = (
+  budgets: SpendingBudget[],
+  today: Dayjs = dayjs()
+): [Dayjs, Dayjs] => {
+  const since = today.subtract(FORECAST_LOOKBACK_DAYS, "day");
+  const tracked = budgets.filter((budget) => tracksSpending(budget, since));
+  const start = tracked.reduce(
+    (earliest, budget) =>
+      dayjs(budget.startDate).isBefore(earliest)
+        ? dayjs(budget.startDate)
+        : earliest,
+    since
+  );
+  const end = tracked.reduce(
+    (latest, budget) =>
+      budget.endDate && dayjs(budget.endDate).isAfter(latest)
+        ? dayjs(budget.endDate)
+        : latest,
+    today
+  );
+  return [start.startOf("day"), end.endOf("day")];
+};
+
+// The server counts a split expense in full under its own category, so
+// spending is recalculated from the expenses, counting only the lines in each
+// budget's category or its subcategories.
+// Envelope budgets also get their per-period carry-over history, and running
+// budgets a projection to the end of their current period
+export const addBudgetSpending = <T extends SpendingBudget>(
+  budgets: T[],
+  expenses: Expense[],
+  categories: Category[],
+  convert: (amount: number, from: string, to: string) => number,
+  today: Dayjs = dayjs()
+): (T & {
+  spentByCurrency?: Record<string, number>;
+  history?: BudgetPeriodSummary[];
+  forecast?: BudgetForecast;
+})[] => {
+  const since = today.subtract(FORECAST_LOOKBACK_DAYS, "day");
+  return budgets.map((listedBudget) => {
+    if (!tracksSpending(listedBudget, since)) return listedBudget;
+    const budget = {
+      ...listedBudget,
+      categoryIds: listedBudget.categoryId
+        ? getDescendantIds(categories, listedBudget.categoryId)
+        : undefined,
+    };
+    const history =
+      budget.mode === "envelope"
+        ? buildRolloverHistory(budget, expenses, convert, today)
+        : undefined;
+    const current = history?.slice(-1)[0];
+    return {
+      ...budget,
+      spentByCurrency: getBudgetSpentByCurrency(budget, expenses),
+      history,
+      forecast: budget.isActive
+        ? projectBudgetSpending(
+            budget,
+            current || budget,
+            current ? current.available : budget.amount,
+            expenses,
+            convert,
+            today
+          )
+        : undefined,
+    };
+  });
+};
@@ -0,0 +1,215 @@
+import {
+  CategorizationRule,
+  Category,
+  Expense,
+  Income,
+  RuleConditions,
+  RuleTransactionType,
+} from "../types";
+
+export interface RuleTarget {
+  type: RuleTransactionType;
+  description?: string;
+  // In base currency, like the rule's amount range
+  amount?: number | null;
+  source?: string;
+}
+
+export interface RuleMatch {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  currency?: string;
+  currentCategoryId?: string;
+  // Already filed the way the rule would file it
+  unchanged: boolean;
+}
+
+// Patterns are matched case-insensitively; invalid ones never match
+export const compileRulePattern = (pattern?: string) => {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern, "i");
+  } catch (error) {
+    return null;
+  }
+};
+
+export const hasRuleConditions = (conditions: RuleConditions) =>
+  !!(
+    conditions.descriptionContains?.trim() ||
+    conditions.descriptionRegex ||
+    conditions.minAmount !== undefined ||
+    conditions.maxAmount !== undefined ||
+    conditions.source?.trim()
+  );
+
+// Returns why a rule can't be saved, or undefined when it's fine
+export const getRuleConditionsError = (conditions: RuleConditions) => {
+  if (!hasRuleConditions(conditions)) {
+    return "Add at least one condition";
+  }
+  if (
+    conditions.descriptionRegex &&
+    !compileRulePattern(conditions.descriptionRegex)
+  ) {
+    return "The regular expression is not valid";
+  }
+  if (
+    conditions.minAmount !== undefined &&
+    conditions.maxAmount !== undefined &&
+    conditions.minAmount > conditions.maxAmount
+  ) {
+    return "The minimum amount is above the maximum";
+  }
+  return undefined;
+};
+
+// Rules without any conditions match nothing rather than everything
+export const matchesRule = (
+  rule: Pick<CategorizationRule, "transactionType" | "conditions">,
+  target: RuleTarget
+) => {
+  const { conditions } = rule;
+  if (rule.transactionType !== target.type) return false;
+  if (!hasRuleConditions(conditions)) return false;
+
+  const description = (target.description || "").toLowerCase();
+  const contains = conditions.descriptionContains?.trim().toLowerCase();
+  if (contains && !description.includes(contains)) return false;
+
+  if (conditions.descriptionRegex) {
+    const pattern = compileRulePattern(conditions.descriptionRegex);
+    if (!pattern || !pattern.test(target.description || "")) return false;
+  }
+
+  if (
+    conditions.minAmount !== undefined ||
+    conditions.maxAmount !== undefined
+  ) {
+    if (target.amount === undefined || target.amount === null) return false;
+    const amount = Math.abs(target.amount);
+    if (conditions.minAmount !== undefined && amount < conditions.minAmount) {
+      return false;
+    }
+    if (conditions.maxAmount !== undefined && amount > conditions.maxAmount) {
+      return false;
+    }
+  }
+
+  const source = conditions.source?.trim().toLowerCase();
+  if (source && !(target.source || "").toLowerCase().includes(source)) {
+    return false;
+  }
+
+  return true;
+};
+
+export const sortRules = <T extends Pick<CategorizationRule, "priority">>(
+  rules: T[]
+) => [...rules].sort((a, b) => a.priority - b.priority);
+
+// The first enabled rule, in priority order, that matches
+export const findMatchingRule = (
+  rules: CategorizationRule[],
+  target: RuleTarget
+) => sortRules(rules).find((rule) => rule.enabled && matchesRule(rule, target));
+
+// Rules left on a category that no longer exists, which would file
+// transactions under a missing id, are left out
+export const withExistingCategories = (
+  rules: CategorizationRule[],
+  categories: Pick<Category, "id">[]
+) =>
+  rules.filter(
+    (rule) =>
+      !rule.categoryId ||
+      categories.some((category) => category.id === rule.categoryId)
+  );
+
+// Short descriptions of a rule's conditions for lists and previews
+export const describeRuleConditions = (
+  conditions: RuleConditions,
+  format: (amount: number) => string
+) => {
+  const parts: string[] = [];
+  if (conditions.descriptionContains?.trim()) {
+    parts.push(
+      `description contains "${conditions.descriptionContains.trim()}"`
+    );
+  }
+  if (conditions.descriptionRegex) {
+    parts.push(`description matches /${conditions.descriptionRegex}/`);
+  }
+  if (
+    conditions.minAmount !== undefined &&
+    conditions.maxAmount !== undefined
+  ) {
+    parts.push(
+      `amount ${format(conditions.minAmount)}–${format(conditions.maxAmount)}`
+    );
+  } else if (conditions.minAmount !== undefined) {
+    parts.push(`amount at least ${format(conditions.minAmount)}`);
+  } else if (conditions.maxAmount !== undefined) {
+    parts.push(`amount up to ${format(conditions.maxAmount)}`);
+  }
+  if (conditions.source?.trim()) {
+    parts.push(`source contains "${conditions.source.trim()}"`);
+  }
+  return parts;
+};
+
+// Which past transactions a rule would catch, newest first
+export const testRuleAgainstHistory = (
+  rule: Pick<
+    CategorizationRule,
+    "transactionType" | "conditions" | "categoryId" | "tagIds"
+  >,
+  history: { expenses: Expense[]; incomes: Income[] },
+  toBase: (amount: number, currency?: string) => number
+): RuleMatch[] => {
+  const hasTags = (tagIds: string[]) =>
+    (rule.tagIds || []).every((tagId) => tagIds.includes(tagId));
+
+  const matches: RuleMatch[] =
+    rule.transactionType === "expense"
+      ? history.expenses
+          .filter((expense) =>
+            matchesRule(rule, {
+              type: "expense",
+              description: expense.description,
+              amount: toBase(Number(expense.amount) || 0, expense.currency),
+            })
+          )
+          .map((expense) => ({
+            id: expense.id,
+            date: expense.date,
+            description: expense.description,
+            amount: Number(expense.amount) || 0,
+            currency: expense.currency,
+            currentCategoryId: expense.categoryId,
+            unchanged:
+              (!rule.categoryId || expense.categoryId === rule.categoryId) &&
+              hasTags((expense.tags || []).map((tag) => tag.id)),
+          }))
+      : history.incomes
+          .filter((income) =>
+            matchesRule(rule, {
+              type: "income",
+              description: income.description,
+              amount: toBase(Number(income.amount) || 0, income.currency),
+              source: income.source,
+            })
+          )
+          .map((income) => ({
+            id: income.id,
+            date: income.date,
+            description: income.description || income.source,
+            amount: Number(income.amount) || 0,
+            currency: income.currency,
+            unchanged: hasTags((income.tags || []).map((tag) => tag.id)),
+          }));
+
+  return matches.sort((a, b) => b.date.localeCompare(a.date));
+};
@@ -0,0 +1,23 @@
+import { budgetApi, rulesApi } from "./api";
+
+// Points budgets and rules still filed under the moved categories at the
+// target, so none are left on a category that no longer exists. Budgets on a
+// parent of the moved categories stay where they are
+export const moveCategoryReferences = async (
+  categoryIds: string[],
+  targetId: string
+) => {
+  const [budgetsResponse, rulesResponse] = await Promise.all([
+    budgetApi.getBudgets(),
+    rulesApi.getRules(),
+  ]);
+  const isMoved = (item: { categoryId?: string }) =>
+    !!item.categoryId && categoryIds.includes(item.categoryId);
+
+  for (const budget of (budgetsResponse.data || []).filter(isMoved)) {
+    await budgetApi.updateBudget(budget.id, { categoryId: targetId });
+  }
+  for (const rule of (rulesResponse.data || []).filter(isMoved)) {
+    await rulesApi.updateRule(rule.id, { categoryId: targetId });
+  }
+};
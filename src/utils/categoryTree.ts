@@ -0,0 +1,167 @@
+import { Category, ExpenseStats } from "../types";
+
+type CategoryNode = Pick<Category, "id" | "name"> &
+  Partial<Pick<Category, "icon" | "color" | "parentId">>;
+
+export type CategoryTree<T extends CategoryNode> = T & {
+  children: CategoryTree<T>[];
+};
+
+export interface CategoryTreeOption {
+  value: string;
+  title: string;
+  icon?: string;
+  color?: string;
+  disabled?: boolean;
+  children: CategoryTreeOption[];
+}
+
+// Parents that are missing (deleted, or hidden from this user) or that would
+// make a loop are ignored, so those categories sit at the top level
+const getParentId = <T extends CategoryNode>(
+  byId: Map<string, T>,
+  category: T
+): string | null => {
+  const visited = new Set([category.id]);
+  let parentId = category.parentId;
+  while (parentId && byId.has(parentId)) {
+    if (visited.has(parentId)) return null;
+    visited.add(parentId);
+    parentId = byId.get(parentId)!.parentId;
+  }
+  return category.parentId && byId.has(category.parentId)
+    ? category.parentId
+    : null;
+};
+
+export const buildCategoryTree = <T extends CategoryNode>(
+  categories: T[]
+): CategoryTree<T>[] => {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const nodes = new Map<string, CategoryTree<T>>(
+    categories.map((category) => [category.id, { ...category, children: [] }])
+  );
+  const roots: CategoryTree<T>[] = [];
+
+  categories.forEach((category) => {
+    const node = nodes.get(category.id)!;
+    const parentId = getParentId(byId, category);
+    if (parentId) {
+      nodes.get(parentId)!.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const sortByName = (list: CategoryTree<T>[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach((node) => sortByName(node.children));
+  };
+  sortByName(roots);
+  return roots;
+};
+
+// The category itself followed by everything nested under it
+export const getDescendantIds = (
+  categories: CategoryNode[],
+  categoryId: string
+): string[] => {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const ids = [categoryId];
+  for (let index = 0; index < ids.length; index++) {
+    categories.forEach((category) => {
+      if (
+        getParentId(byId, category) === ids[index] &&
+        !ids.includes(category.id)
+      ) {
+        ids.push(category.id);
+      }
+    });
+  }
+  return ids;
+};
+
+export const getRootCategoryId = (
+  categories: CategoryNode[],
+  categoryId: string
+) => {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  let current = byId.get(categoryId);
+  let parentId = current ? getParentId(byId, current) : null;
+  while (current && parentId) {
+    current = byId.get(parentId);
+    parentId = current ? getParentId(byId, current) : null;
+  }
+  return current?.id || categoryId;
+};
+
+// e.g. "Food > Restaurants"
+export const getCategoryPath = (
+  categories: CategoryNode[],
+  categoryId: string
+) => {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const names: string[] = [];
+  let current = byId.get(categoryId);
+  while (current) {
+    names.unshift(current.name);
+    const parentId = getParentId(byId, current);
+    current = parentId ? byId.get(parentId) : undefined;
+  }
+  return names.join(" > ");
+};
+
+// A category can't be moved under itself or one of its own subcategories
+export const canReparent = (
+  categories: CategoryNode[],
+  categoryId: string,
+  parentId: string | null
+) => !parentId || !getDescendantIds(categories, categoryId).includes(parentId);
+
+// Tree data for antd's TreeSelect, optionally disabling some categories
+export const toCategoryTreeOptions = (
+  categories: CategoryNode[],
+  disabledIds: string[] = []
+): CategoryTreeOption[] => {
+  const toOption = (node: CategoryTree<CategoryNode>): CategoryTreeOption => ({
+    value: node.id,
+    title: node.name,
+    icon: node.icon || undefined,
+    color: node.color,
+    disabled: disabledIds.includes(node.id) || undefined,
+    children: node.children.map(toOption),
+  });
+  return buildCategoryTree(categories).map(toOption);
+};
+
+// Folds subcategory totals into their top-level category
+export const rollUpCategoryStats = (
+  categoryStats: ExpenseStats["categoryStats"],
+  categories: Category[]
+): ExpenseStats["categoryStats"] => {
+  const totals = new Map<string, ExpenseStats["categoryStats"][0]>();
+
+  categoryStats.forEach((stat) => {
+    const rootId = getRootCategoryId(categories, stat.categoryId);
+    const existing = totals.get(rootId);
+    if (existing) {
+      existing._sum.amount += stat._sum.amount;
+      existing._count.id += stat._count.id;
+      return;
+    }
+    const root = categories.find((category) => category.id === rootId);
+    totals.set(rootId, {
+      ...stat,
+      categoryId: rootId,
+      _sum: { amount: stat._sum.amount },
+      _count: { id: stat._count.id },
+      category: root
+        ? { id: root.id, name: root.name, color: root.color, icon: root.icon }
+        : stat.category,
+    });
+  });
+
+  return Array.from(totals.values()).sort(
+    (a, b) => b._sum.amount - a._sum.amount
+  );
+};
@@ -0,0 +1,211 @@
+import { ExpenseStats } from "../types";
+
+// ECharts options shared by the dashboard and the printable statement. All
+// amounts are expected in base currency already.
+type Formatter = (amount: number) => string;
+
+const axisFormatter = (format: Formatter) => (value: number) =>
+  format(value).replace(/\.00$/, "");
+
+// Renders a category icon as an image URL for rich-text chart labels
+export type IconImageGetter = (
+  icon?: string,
+  color?: string
+) => string | undefined;
+
+// Axis label settings that put each category's icon before its name
+export const iconAxisLabel = (
+  categories: { icon?: string; color?: string }[],
+  getIconImage?: IconImageGetter
+) => {
+  const images = categories.map((category) =>
+    getIconImage?.(category.icon, category.color)
+  );
+  return {
+    formatter: (value: string, index: number) =>
+      images[index] ? `{icon${index}|} ${value}` : value,
+    rich: images.reduce<Record<string, object>>((rich, image, index) => {
+      if (image) {
+        rich[`icon${index}`] = {
+          backgroundColor: { image },
+          width: 14,
+          height: 14,
+        };
+      }
+      return rich;
+    }, {}),
+  };
+};
+
+export const getIncomeVsExpenseChartOption = (
+  totalIncome: number,
+  totalExpenses: number,
+  format: Formatter
+) => {
+  if (totalIncome === 0 && totalExpenses === 0) {
+    return {
+      title: {
+        text: "No income or expense data available",
+        left: "center",
+      },
+    };
+  }
+
+  return {
+    tooltip: {
+      trigger: "item",
+      formatter: (params: any) => {
+        return `${params.name}: ${format(params.value)} (${params.percent}%)`;
+      },
+    },
+    legend: {
+      bottom: "0%",
+      left: "center",
+    },
+    series: [
+      {
+        type: "pie",
+        radius: ["40%", "70%"],
+        center: ["50%", "50%"],
+        data: [
+          {
+            value: totalIncome,
+            name: "Income",
+            itemStyle: { color: "#52c41a" },
+          },
+          {
+            value: totalExpenses,
+            name: "Expenses",
+            itemStyle: { color: "#ff4d4f" },
+          },
+        ],
+        emphasis: {
+          itemStyle: {
+            shadowBlur: 10,
+            shadowOffsetX: 0,
+            shadowColor: "rgba(0, 0, 0, 0.5)",
+          },
+        },
+      },
+    ],
+  };
+};
+
+export const getCategoryExpenseChartOption = (
+  categoryStats: ExpenseStats["categoryStats"],
+  format: Formatter,
+  getIconImage?: IconImageGetter
+) => {
+  if (categoryStats.length === 0) {
+    return {
+      title: {
+        text: "No category data available",
+        left: "center",
+      },
+    };
+  }
+
+  return {
+    tooltip: {
+      trigger: "axis",
+      axisPointer: {
+        type: "shadow",
+      },
+      formatter: (params: any) => {
+        const param = params[0];
+        return `${param.name}: ${format(param.value)}`;
+      },
+    },
+    xAxis: {
+      type: "category",
+      data: categoryStats.map((cat) => cat.category.name),
+      axisLabel: {
+        rotate: 45,
+        interval: 0,
+        ...iconAxisLabel(
+          categoryStats.map((cat) => cat.category),
+          getIconImage
+        ),
+      },
+    },
+    yAxis: {
+      type: "value",
+      axisLabel: {
+        formatter: axisFormatter(format),
+      },
+    },
+    series: [
+      {
+        type: "bar",
+        data: categoryStats.map((cat) => ({
+          value: cat._sum.amount,
+          itemStyle: {
+            color: cat.category.color || "#1890ff",
+          },
+        })),
+        emphasis: {
+          itemStyle: {
+            shadowBlur: 10,
+            shadowColor: "rgba(0, 0, 0, 0.5)",
+          },
+        },
+      },
+    ],
+  };
+};
+
+export const getBudgetProgressChartOption = (
+  budgets: { name: string; amount: number; spent: number }[],
+  format: Formatter
+) => {
+  if (budgets.length === 0) {
+    return {
+      title: {
+        text: "No budget data available",
+        left: "center",
+      },
+    };
+  }
+
+  return {
+    tooltip: {
+      trigger: "axis",
+      formatter: (params: any) => {
+        const budgetParam = params.find((p: any) => p.seriesName === "Budget");
+        const spentParam = params.find((p: any) => p.seriesName === "Spent");
+        return `${budgetParam.name}<br/>
+                Budget: ${format(budgetParam.value)}<br/>
+                Spent: ${format(spentParam.value)}<br/>
+                Remaining: ${format(budgetParam.value - spentParam.value)}`;
+      },
+    },
+    xAxis: {
+      type: "category",
+      data: budgets.map((budget) => budget.name),
+      axisLabel: {
+        rotate: 45,
+        interval: 0,
+      },
+    },
+    yAxis: {
+      type: "value",
+      axisLabel: {
+        formatter: axisFormatter(format),
+      },
+    },
+    series: [
+      {
+        name: "Budget",
+        type: "bar",
+        data: budgets.map((budget) => budget.amount),
+        itemStyle: { color: "#1890ff" },
+      },
+      {
+        name: "Spent",
+        type: "bar",
+        data: budgets.map((budget) => budget.spent),
+        itemStyle: { color: "#ff4d4f" },
+      },
+    ],
+  };
+};
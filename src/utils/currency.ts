@@ -0,0 +1,274 @@
+import {
+  Budget,
+  ExchangeRateTable,
+  ExpenseStats,
+  IncomeVsExpenseStats,
+} from "../types";
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Records saved before currencies existed were all in US dollars, whatever
+// the user's base currency is now
+export const getRecordCurrency = (currency?: string | null) =>
+  currency || DEFAULT_CURRENCY;
+
+const STORAGE_KEY = "exchangeRates";
+
+export const CURRENCIES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "CAD",
+  "AUD",
+  "CHF",
+  "CNY",
+  "INR",
+  "BDT",
+  "SGD",
+  "AED",
+  "SAR",
+  "SEK",
+  "NOK",
+  "DKK",
+  "NZD",
+  "MXN",
+  "BRL",
+  "ZAR",
+  "TRY",
+  "THB",
+  "MYR",
+  "PKR",
+];
+
+const DEFAULT_RATES: ExchangeRateTable = {
+  reference: DEFAULT_CURRENCY,
+  rates: { [DEFAULT_CURRENCY]: 1 },
+  updatedAt: new Date(0).toISOString(),
+};
+
+export const loadExchangeRates = (): ExchangeRateTable => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_RATES;
+    const table = JSON.parse(stored) as ExchangeRateTable;
+    if (!table.reference || !table.rates) return DEFAULT_RATES;
+    return {
+      ...table,
+      rates: { ...table.rates, [table.reference]: 1 },
+    };
+  } catch (error) {
+    return DEFAULT_RATES;
+  }
+};
+
+export const saveExchangeRates = (table: ExchangeRateTable) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(table));
+};
+
+export const hasRate = (currency: string, table: ExchangeRateTable) =>
+  currency === table.reference || !!table.rates[currency];
+
+// Amounts without a known rate are passed through unconverted; the currency
+// context keeps track of those currencies so the app can warn about them
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  table: ExchangeRateTable
+) => {
+  if (from === to) return amount;
+  const fromRate = from === table.reference ? 1 : table.rates[from];
+  const toRate = to === table.reference ? 1 : table.rates[to];
+  if (!fromRate || !toRate) return amount;
+  return (amount / fromRate) * toRate;
+};
+
+export const formatMoney = (amount: number, currency = DEFAULT_CURRENCY) => {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(amount);
+  } catch (error) {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+// Re-expresses every rate relative to a new reference currency
+export const rebaseExchangeRates = (
+  table: ExchangeRateTable,
+  reference: string
+): ExchangeRateTable => {
+  if (table.reference === reference) return table;
+  const referenceRate = table.rates[reference];
+  if (!referenceRate) {
+    return { ...table, reference, rates: { [reference]: 1 } };
+  }
+  const rates = Object.fromEntries(
+    Object.entries({ ...table.rates, [table.reference]: 1 }).map(
+      ([currency, rate]) => [currency, rate / referenceRate]
+    )
+  );
+  return { ...table, reference, rates: { ...rates, [reference]: 1 } };
+};
+
+// Accepts {"EUR": 0.92}, {"base": "USD", "rates": {...}} or "EUR,0.92" lines
+export const parseExchangeRates = (
+  content: string
+): { reference?: string; rates: Record<string, number> } => {
+  const rates: Record<string, number> = {};
+  const addRate = (code: string, value: unknown) => {
+    const rate = Number(value);
+    const currency = code.trim().toUpperCase();
+    if (/^[A-Z]{3}$/.test(currency) && rate > 0) rates[currency] = rate;
+  };
+
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{")) {
+    const data = JSON.parse(trimmed);
+    const source =
+      data.rates && typeof data.rates === "object" ? data.rates : data;
+    Object.entries(source).forEach(([code, value]) => addRate(code, value));
+    const reference = data.base || data.reference;
+    return {
+      reference:
+        typeof reference === "string" ? reference.toUpperCase() : undefined,
+      rates,
+    };
+  }
+
+  trimmed.split(/\r?\n/).forEach((line) => {
+    const [code, value] = line.split(/[,;\t]/);
+    if (code && value) addRate(code, value);
+  });
+  return { rates };
+};
+
+// Merges the per-currency rows of the stats endpoint into base currency totals
+export const convertExpenseStats = (
+  stats: ExpenseStats,
+  toBase: (amount: number, currency?: string) => number
+): ExpenseStats => {
+  const categoryStats = new Map<string, ExpenseStats["categoryStats"][0]>();
+  stats.categoryStats.forEach((stat) => {
+    const amount = toBase(Number(stat._sum.amount) || 0, stat.currency);
+    const existing = categoryStats.get(stat.categoryId);
+    if (existing) {
+      existing._sum.amount += amount;
+      existing._count.id += stat._count.id;
+    } else {
+      categoryStats.set(stat.categoryId, {
+        ...stat,
+        currency: undefined,
+        _sum: { amount },
+        _count: { ...stat._count },
+      });
+    }
+  });
+
+  const monthlyStats = new Map<string, ExpenseStats["monthlyStats"][0]>();
+  stats.monthlyStats.forEach((stat) => {
+    const amount = toBase(Number(stat.total_amount) || 0, stat.currency);
+    const existing = monthlyStats.get(stat.month);
+    if (existing) {
+      existing.total_amount += amount;
+      existing.expense_count += Number(stat.expense_count);
+    } else {
+      monthlyStats.set(stat.month, {
+        month: stat.month,
+        total_amount: amount,
+        expense_count: Number(stat.expense_count),
+      });
+    }
+  });
+
+  const totalStats = stats.currencyStats
+    ? stats.currencyStats.reduce(
+        (totals, stat) => ({
+          totalAmount:
+            totals.totalAmount +
+            toBase(Number(stat._sum.amount) || 0, stat.currency),
+          totalCount: totals.totalCount + stat._count.id,
+          averageAmount: 0,
+        }),
+        { totalAmount: 0, totalCount: 0, averageAmount: 0 }
+      )
+    : { ...stats.totalStats };
+  if (stats.currencyStats) {
+    totalStats.averageAmount =
+      totalStats.totalCount > 0
+        ? totalStats.totalAmount / totalStats.totalCount
+        : 0;
+  }
+
+  return {
+    ...stats,
+    totalStats,
+    categoryStats: Array.from(categoryStats.values()),
+    monthlyStats: Array.from(monthlyStats.values()),
+  };
+};
+
+// Same for the income stats endpoint: one row per month in base currency, with
+// the totals rebuilt from those rows when the server splits by currency
+export const convertIncomeStats = (
+  stats: IncomeVsExpenseStats,
+  toBase: (amount: number, currency?: string) => number
+): IncomeVsExpenseStats => {
+  const months = new Map<
+    string,
+    IncomeVsExpenseStats["monthlyComparison"][0]
+  >();
+  stats.monthlyComparison.forEach((stat) => {
+    const income = toBase(Number(stat.income) || 0, stat.currency);
+    const expenses = toBase(Number(stat.expenses) || 0, stat.currency);
+    const existing = months.get(stat.month);
+    if (existing) {
+      existing.income += income;
+      existing.expenses += expenses;
+      existing.savings = existing.income - existing.expenses;
+    } else {
+      months.set(stat.month, {
+        month: stat.month,
+        income,
+        expenses,
+        savings: income - expenses,
+      });
+    }
+  });
+  const monthlyComparison = Array.from(months.values()).sort((a, b) =>
+    a.month.localeCompare(b.month)
+  );
+
+  const byCurrency = stats.monthlyComparison.some((stat) => stat.currency);
+  const totalIncome = byCurrency
+    ? monthlyComparison.reduce((sum, stat) => sum + stat.income, 0)
+    : Number(stats.totalIncome) || 0;
+  const totalExpenses = byCurrency
+    ? monthlyComparison.reduce((sum, stat) => sum + stat.expenses, 0)
+    : Number(stats.totalExpenses) || 0;
+  const netSavings = totalIncome - totalExpenses;
+
+  return {
+    totalIncome,
+    totalExpenses,
+    netSavings,
+    savingsRate: totalIncome > 0 ? (netSavings / totalIncome) * 100 : 0,
+    monthlyComparison,
+  };
+};
+
+// Spent amount of a budget expressed in the budget's own currency
+export const getBudgetSpent = (
+  budget: Pick<Budget, "spent" | "spentByCurrency" | "currency">,
+  convert: (amount: number, from: string, to: string) => number
+) => {
+  const budgetCurrency = getRecordCurrency(budget.currency);
+  if (!budget.spentByCurrency) return budget.spent || 0;
+  return Object.entries(budget.spentByCurrency).reduce(
+    (sum, [currency, amount]) =>
+      sum + convert(Number(amount) || 0, currency, budgetCurrency),
+    0
+  );
+};
@@ -0,0 +1,207 @@
+import { DashboardWidgetLayout, DashboardWidgetSize } from "../types";
+
+const STORAGE_KEY_PREFIX = "dashboardLayout";
+
+export type DashboardWidgetId =
+  | "total-income"
+  | "total-expenses"
+  | "net-savings"
+  | "savings-goals"
+  | "budget-adherence"
+  | "budget-overview"
+  | "monthly-comparison"
+  | "income-vs-expense"
+  | "category-expenses"
+  | "budget-progress"
+  | "monthly-trend"
+  | "tag-expenses"
+  | "month-forecast";
+
+export interface DashboardWidgetDefinition {
+  id: DashboardWidgetId;
+  title: string;
+  defaultSize: DashboardWidgetSize;
+  sizes: DashboardWidgetSize[];
+}
+
+export const DASHBOARD_WIDGET_SIZES: Record<
+  DashboardWidgetSize,
+  { label: string; span?: number }
+> = {
+  // Small widgets share a row, wrapping below ~220px each
+  small: { label: "S" },
+  medium: { label: "M", span: 12 },
+  large: { label: "L", span: 16 },
+  full: { label: "Full", span: 24 },
+};
+
+const STAT_SIZES: DashboardWidgetSize[] = ["small", "medium"];
+const CHART_SIZES: DashboardWidgetSize[] = ["medium", "large", "full"];
+
+// Every widget the dashboard knows how to render, in default order
+export const DASHBOARD_WIDGETS: DashboardWidgetDefinition[] = [
+  {
+    id: "total-income",
+    title: "Total Income",
+    defaultSize: "small",
+    sizes: STAT_SIZES,
+  },
+  {
+    id: "total-expenses",
+    title: "Total Expenses",
+    defaultSize: "small",
+    sizes: STAT_SIZES,
+  },
+  {
+    id: "net-savings",
+    title: "Net Savings",
+    defaultSize: "small",
+    sizes: STAT_SIZES,
+  },
+  {
+    id: "savings-goals",
+    title: "Savings Goals",
+    defaultSize: "small",
+    sizes: STAT_SIZES,
+  },
+  {
+    id: "budget-adherence",
+    title: "Budget Adherence",
+    defaultSize: "small",
+    sizes: STAT_SIZES,
+  },
+  {
+    id: "budget-overview",
+    title: "Budget Progress Overview",
+    defaultSize: "full",
+    sizes: CHART_SIZES,
+  },
+  {
+    id: "monthly-comparison",
+    title: "Monthly Income vs Expenses",
+    defaultSize: "full",
+    sizes: CHART_SIZES,
+  },
+  {
+    id: "income-vs-expense",
+    title: "Income vs Expenses",
+    defaultSize: "medium",
+    sizes: CHART_SIZES,
+  },
+  {
+    id: "category-expenses",
+    title: "Spending by Category",
+    defaultSize: "medium",
+    sizes: CHART_SIZES,
+  },
+  {
+    id: "budget-progress",
+    title: "Budget Usage",
+    defaultSize: "medium",
+    sizes: CHART_SIZES,
+  },
+  {
+    id: "monthly-trend",
+    title: "Monthly Trend",
+    defaultSize: "medium",
+    sizes: CHART_SIZES,
+  },
+  {
+    id: "tag-expenses",
+    title: "Spending by Tag",
+    defaultSize: "medium",
+    sizes: CHART_SIZES,
+  },
+  {
+    id: "month-forecast",
+    title: "Month Forecast",
+    defaultSize: "medium",
+    sizes: CHART_SIZES,
+  },
+];
+
+export const getWidgetDefinition = (id: string) =>
+  DASHBOARD_WIDGETS.find((widget) => widget.id === id);
+
+export const DEFAULT_DASHBOARD_LAYOUT: DashboardWidgetLayout[] =
+  DASHBOARD_WIDGETS.map(({ id, defaultSize }) => ({ id, size: defaultSize }));
+
+// Drops widgets that no longer exist or repeat, and sizes a widget no longer
+// supports, so a layout saved by an older version still renders
+export const normalizeDashboardLayout = (
+  layout: unknown
+): DashboardWidgetLayout[] | undefined => {
+  if (!Array.isArray(layout)) return undefined;
+  const seen = new Set<string>();
+  return layout.flatMap((item) => {
+    const definition = getWidgetDefinition(item?.id);
+    if (!definition || seen.has(definition.id)) return [];
+    seen.add(definition.id);
+    return [
+      {
+        id: definition.id,
+        size: definition.sizes.includes(item.size)
+          ? item.size
+          : definition.defaultSize,
+      },
+    ];
+  });
+};
+
+export interface StoredDashboardLayout {
+  layout: DashboardWidgetLayout[];
+  updatedAt?: string;
+}
+
+// Older versions stored the bare layout, without when it was saved
+export const loadDashboardLayout = (
+  userId: string
+): StoredDashboardLayout | undefined => {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEY_PREFIX}:${userId}`);
+    if (!stored) return undefined;
+    const parsed = JSON.parse(stored);
+    const layout = normalizeDashboardLayout(
+      Array.isArray(parsed) ? parsed : parsed?.layout
+    );
+    if (!layout) return undefined;
+    return {
+      layout,
+      updatedAt:
+        typeof parsed?.updatedAt === "string" ? parsed.updatedAt : undefined,
+    };
+  } catch (error) {
+    return undefined;
+  }
+};
+
+export const saveDashboardLayout = (
+  userId: string,
+  layout: DashboardWidgetLayout[],
+  updatedAt: string
+) => {
+  localStorage.setItem(
+    `${STORAGE_KEY_PREFIX}:${userId}`,
+    JSON.stringify({ layout, updatedAt })
+  );
+};
+
+// Whether a layout saved at updatedAt is newer than one saved at than
+export const isNewerDashboardLayout = (updatedAt?: string, than?: string) =>
+  !!updatedAt &&
+  (!than || new Date(updatedAt).getTime() > new Date(than).getTime());
+
+// Moves a widget to where another one currently sits
+export const moveDashboardWidget = (
+  layout: DashboardWidgetLayout[],
+  id: string,
+  targetId: string
+) => {
+  const from = layout.findIndex((widget) => widget.id === id);
+  const to = layout.findIndex((widget) => widget.id === targetId);
+  if (from === -1 || to === -1 || from === to) return layout;
+  const next = [...layout];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
@@ -0,0 +1,284 @@
+import dayjs, { Dayjs } from "dayjs";
+import { Budget, Category, Expense, Income, Tag } from "../types";
+import { expensesApi, incomeApi } from "./api";
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+export type ExportRow = Record<string, string | number | boolean | null>;
+
+export interface ExportSheet {
+  name: string;
+  rows: ExportRow[];
+}
+
+export interface ExpenseFilters {
+  search?: string;
+  categoryId?: string;
+  categoryIds?: string;
+  startDate?: string;
+  endDate?: string;
+  tags?: string;
+}
+
+export interface IncomeFilters {
+  search?: string;
+  startDate?: string;
+  endDate?: string;
+  tags?: string;
+}
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 500;
+
+// Walks every page of a paginated endpoint and concatenates the results
+export const fetchAllPages = async <T>(
+  fetchPage: (
+    page: number,
+    limit: number
+  ) => Promise<{ items: T[]; totalPages: number } | null>
+): Promise<T[]> => {
+  const items: T[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  while (page <= totalPages && page <= MAX_PAGES) {
+    const result = await fetchPage(page, PAGE_SIZE);
+    if (!result) break;
+    items.push(...result.items);
+    totalPages = result.totalPages;
+    page += 1;
+  }
+
+  return items;
+};
+
+export const fetchAllExpenses = (filters: ExpenseFilters = {}) =>
+  fetchAllPages<Expense>(async (page, limit) => {
+    const response = await expensesApi.getExpenses({ ...filters, page, limit });
+    return response.success && response.data
+      ? {
+          items: response.data.expenses,
+          totalPages: response.data.totalPages,
+        }
+      : null;
+  });
+
+// Fetches the expenses in several date ranges, merging ranges that overlap
+// or sit next to each other so no expense is downloaded twice
+export const fetchExpensesInRanges = async (ranges: [Dayjs, Dayjs][]) => {
+  const merged = [...ranges]
+    .sort((a, b) => a[0].valueOf() - b[0].valueOf())
+    .reduce<[Dayjs, Dayjs][]>((list, [start, end]) => {
+      const last = list[list.length - 1];
+      if (last && !start.isAfter(last[1].add(1, "day"))) {
+        return [
+          ...list.slice(0, -1),
+          [last[0], end.isAfter(last[1]) ? end : last[1]],
+        ];
+      }
+      return [...list, [start, end]];
+    }, []);
+  const results = await Promise.all(
+    merged.map(([start, end]) =>
+      fetchAllExpenses({
+        startDate: start.toISOString(),
+        endDate: end.toISOString(),
+      })
+    )
+  );
+  return results.flat();
+};
+
+export const isInDateRange = (date: string, [start, end]: [Dayjs, Dayjs]) =>
+  !dayjs(date).isBefore(start) && !dayjs(date).isAfter(end);
+
+export const fetchAllIncomes = (filters: IncomeFilters = {}) =>
+  fetchAllPages<Income>(async (page, limit) => {
+    const response = await incomeApi.getIncomes({ ...filters, page, limit });
+    return response.success && response.data
+      ? { items: response.data.incomes, totalPages: response.data.totalPages }
+      : null;
+  });
+
+const formatDate = (date?: string) =>
+  date ? dayjs(date).format("YYYY-MM-DD") : null;
+
+const formatTags = (tags?: Tag[]) =>
+  tags && tags.length > 0 ? tags.map((tag) => tag.name).join(", ") : null;
+
+type CategoryLookup = Pick<Category, "id" | "name">[];
+
+const getCategoryName = (
+  categories: CategoryLookup,
+  categoryId?: string,
+  category?: { name: string }
+) => {
+  if (category?.name) return category.name;
+  if (!categoryId) return null;
+  return categories.find((cat) => cat.id === categoryId)?.name || "Unknown";
+};
+
+export const toExpenseRows = (
+  expenses: Expense[],
+  categories: CategoryLookup
+): ExportRow[] =>
+  expenses.map((expense) => ({
+    Date: formatDate(expense.date),
+    Description: expense.description,
+    Category: getCategoryName(categories, expense.categoryId, expense.category),
+    Amount: expense.amount,
+    Currency: expense.currency ?? null,
+    Splits:
+      expense.splits && expense.splits.length > 0
+        ? expense.splits
+            .map(
+              (split) =>
+                `${getCategoryName(
+                  categories,
+                  split.categoryId,
+                  split.category
+                )}: ${split.amount}${split.note ? ` (${split.note})` : ""}`
+            )
+            .join("; ")
+        : null,
+    Tags: formatTags(expense.tags),
+    "Created At": expense.createdAt,
+    ID: expense.id,
+  }));
+
+export const toIncomeRows = (incomes: Income[]): ExportRow[] =>
+  incomes.map((income) => ({
+    Date: formatDate(income.date),
+    Description: income.description,
+    Source: income.source,
+    Amount: income.amount,
+    Currency: income.currency ?? null,
+    Tags: formatTags(income.tags),
+    "Created At": income.createdAt,
+    ID: income.id,
+  }));
+
+export const toBudgetRows = (
+  budgets: Budget[],
+  categories: CategoryLookup
+): ExportRow[] =>
+  budgets.map((budget) => ({
+    Name: budget.name,
+    Category:
+      getCategoryName(categories, budget.categoryId, budget.category) ||
+      "All Categories",
+    Period: budget.period,
+    Amount: budget.amount,
+    Currency: budget.currency ?? null,
+    Spent: budget.spent ?? null,
+    "Start Date": formatDate(budget.startDate),
+    "End Date": formatDate(budget.endDate),
+    Active: budget.isActive,
+    "Auto Renew": !!budget.autoRenew,
+    Mode: budget.mode || "standard",
+    Rollover:
+      budget.mode === "envelope" ? budget.rolloverPolicy || "none" : null,
+    "Rollover Cap": budget.rolloverCap ?? null,
+    ID: budget.id,
+  }));
+
+// Text starting with these is run as a formula by spreadsheet apps, so it
+// gets a leading apostrophe. Numbers like -5 are left alone
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: ExportRow[string]) => {
+  if (value === null || value === undefined) return "";
+  const text =
+    typeof value === "string" && FORMULA_PREFIX.test(value)
+      ? `'${value}`
+      : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: ExportRow[]) => {
+  if (rows.length === 0) return "";
+  const headers = Object.keys(rows[0]);
+  const lines = [
+    headers.map(escapeCsvValue).join(","),
+    ...rows.map((row) =>
+      headers.map((header) => escapeCsvValue(row[header])).join(",")
+    ),
+  ];
+  return lines.join("\r\n");
+};
+
+export const toCategoryRows = (categories: Category[]): ExportRow[] =>
+  categories.map((category) => ({
+    Name: category.name,
+    Icon: category.icon || null,
+    Color: category.color,
+    Type: category.userId ? "Custom" : "Default",
+    ID: category.id,
+  }));
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const toSheetKey = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "_");
+
+// Writes the sheets as one file per sheet (CSV) or a single file (JSON/XLSX)
+export const exportSheets = async (
+  sheets: ExportSheet[],
+  format: ExportFormat,
+  baseName: string
+) => {
+  const fileName = `${baseName}-${dayjs().format("YYYY-MM-DD")}`;
+
+  if (format === "csv") {
+    sheets.forEach((sheet) => {
+      const name =
+        sheets.length > 1 ? `${fileName}-${toSheetKey(sheet.name)}` : fileName;
+      // Prefix a BOM so Excel picks up UTF-8
+      downloadBlob(
+        new Blob(["\uFEFF" + toCsv(sheet.rows)], {
+          type: "text/csv;charset=utf-8",
+        }),
+        `${name}.csv`
+      );
+    });
+    return;
+  }
+
+  if (format === "json") {
+    const data =
+      sheets.length === 1
+        ? sheets[0].rows
+        : Object.fromEntries(
+            sheets.map((sheet) => [toSheetKey(sheet.name), sheet.rows])
+          );
+    downloadBlob(
+      new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }),
+      `${fileName}.json`
+    );
+    return;
+  }
+
+  // Loaded on demand to keep the spreadsheet library out of the main bundle
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+  await writeXlsxFile(
+    sheets.map((sheet) => {
+      const headers = sheet.rows.length ? Object.keys(sheet.rows[0]) : [];
+      return {
+        sheet: sheet.name.slice(0, 31),
+        data: [
+          headers,
+          ...sheet.rows.map((row) => headers.map((header) => row[header])),
+        ],
+      };
+    })
+  ).toFile(`${fileName}.xlsx`);
+};
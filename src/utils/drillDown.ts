@@ -0,0 +1,20 @@
+import { Dayjs } from "dayjs";
+
+// Link to the expenses list with its URL filters set, in the same format the
+// page writes them, so a drill-down can be bookmarked or shared
+export const getExpensesLink = (filters: {
+  categoryId?: string;
+  tagIds?: string[];
+  startDate?: Dayjs;
+  endDate?: Dayjs;
+}) => {
+  const params = new URLSearchParams();
+  if (filters.categoryId) params.set("categoryId", filters.categoryId);
+  if (filters.tagIds?.length) params.set("tags", filters.tagIds.join(","));
+  if (filters.startDate && filters.endDate) {
+    params.set("startDate", filters.startDate.format("YYYY-MM-DD"));
+    params.set("endDate", filters.endDate.format("YYYY-MM-DD"));
+  }
+  const query = params.toString();
+  return query ? `/expenses?${query}` : "/expenses";
+};
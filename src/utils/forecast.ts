@@ -0,0 +1,235 @@
+import dayjs, { Dayjs } from "dayjs";
+import { Budget, Category, Expense } from "../types";
+import {
+  getCategoryAllocations,
+  isInBudgetCategory,
+  roundAmount,
+} from "./splits";
+import { getRecordCurrency } from "./currency";
+
+export const FORECAST_LOOKBACK_DAYS = 90;
+
+const DAY_KEY_FORMAT = "YYYY-MM-DD";
+// Two-sided 80% interval for a normal distribution
+const Z_80 = 1.2816;
+
+export interface SpendingProjection {
+  spentToDate: number;
+  projected: number;
+  low: number;
+  high: number;
+  dailyRate: number;
+}
+
+export interface CategoryForecast extends SpendingProjection {
+  categoryId: string;
+  name: string;
+  color: string;
+}
+
+// Daily totals keyed by YYYY-MM-DD; amountFor returns 0 to leave an expense out
+export const buildDailyTotals = (
+  expenses: Expense[],
+  amountFor: (expense: Expense) => number
+) =>
+  expenses.reduce<Record<string, number>>((totals, expense) => {
+    const amount = amountFor(expense);
+    if (!amount) return totals;
+    const key = dayjs(expense.date).format(DAY_KEY_FORMAT);
+    totals[key] = (totals[key] || 0) + amount;
+    return totals;
+  }, {});
+
+const sumDays = (daily: Record<string, number>, from: Dayjs, to: Dayjs) => {
+  let total = 0;
+  for (let day = from; !day.isAfter(to, "day"); day = day.add(1, "day")) {
+    total += daily[day.format(DAY_KEY_FORMAT)] || 0;
+  }
+  return total;
+};
+
+// Projects spending to the end of a period from what has been spent so far,
+// blended with the recent daily average. Early in a period the history
+// dominates; the band widens with the number of days still to go.
+export const projectPeriodSpending = ({
+  daily,
+  periodStart,
+  periodEnd,
+  today = dayjs(),
+  lookbackDays = FORECAST_LOOKBACK_DAYS,
+}: {
+  daily: Record<string, number>;
+  periodStart: Dayjs;
+  periodEnd: Dayjs;
+  today?: Dayjs;
+  lookbackDays?: number;
+}): SpendingProjection => {
+  const start = periodStart.startOf("day");
+  const end = periodEnd.startOf("day");
+  const totalDays = end.diff(start, "day") + 1;
+  const elapsedDays = Math.min(
+    Math.max(today.startOf("day").diff(start, "day") + 1, 0),
+    totalDays
+  );
+  const remainingDays = totalDays - elapsedDays;
+
+  const spentToDate =
+    elapsedDays > 0
+      ? sumDays(daily, start, start.add(elapsedDays - 1, "day"))
+      : 0;
+
+  const history: number[] = [];
+  for (let offset = lookbackDays - 1; offset >= 0; offset -= 1) {
+    history.push(
+      daily[today.subtract(offset, "day").format(DAY_KEY_FORMAT)] || 0
+    );
+  }
+  const mean = history.reduce((sum, value) => sum + value, 0) / lookbackDays;
+  const deviation = Math.sqrt(
+    history.reduce((sum, value) => sum + (value - mean) ** 2, 0) / lookbackDays
+  );
+
+  const currentRate = elapsedDays > 0 ? spentToDate / elapsedDays : mean;
+  const weight = elapsedDays / totalDays;
+  const dailyRate = weight * currentRate + (1 - weight) * mean;
+
+  const projected = spentToDate + dailyRate * remainingDays;
+  const spread = Z_80 * deviation * Math.sqrt(remainingDays);
+
+  return {
+    spentToDate: roundAmount(spentToDate),
+    projected: roundAmount(projected),
+    low: roundAmount(Math.max(spentToDate, projected - spread)),
+    high: roundAmount(projected + spread),
+    dailyRate: roundAmount(dailyRate),
+  };
+};
+
+// Abramowitz-Stegun approximation of the standard normal CDF
+const normalCdf = (x: number) => {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(x) / Math.SQRT2));
+  const erf =
+    1 -
+    t *
+      (0.254829592 +
+        t *
+          (-0.284496736 +
+            t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// Chance the period ends above the limit, read off the projection's band
+export const getExceedProbability = (
+  projection: SpendingProjection,
+  limit: number
+) => {
+  if (projection.spentToDate > limit) return 1;
+  const deviation = (projection.high - projection.projected) / Z_80;
+  if (deviation <= 0) return projection.projected > limit ? 1 : 0;
+  return 1 - normalCdf((limit - projection.projected) / deviation);
+};
+
+// Month-end projection for all spending and for each category
+export const buildMonthForecast = (
+  expenses: Expense[],
+  categories: Category[],
+  toBase: (amount: number, currency?: string) => number,
+  today: Dayjs = dayjs()
+) => {
+  const periodStart = today.startOf("month");
+  const periodEnd = today.endOf("month");
+
+  const total = projectPeriodSpending({
+    daily: buildDailyTotals(expenses, (expense) =>
+      toBase(Number(expense.amount) || 0, expense.currency)
+    ),
+    periodStart,
+    periodEnd,
+    today,
+  });
+
+  const categoryIds = new Set(
+    expenses.flatMap((expense) =>
+      getCategoryAllocations(expense).map((allocation) => allocation.categoryId)
+    )
+  );
+
+  const byCategory: CategoryForecast[] = Array.from(categoryIds)
+    .map((categoryId) => {
+      const category = categories.find((item) => item.id === categoryId);
+      return {
+        categoryId,
+        name: category?.name || "Unknown",
+        color: category?.color || "",
+        ...projectPeriodSpending({
+          daily: buildDailyTotals(expenses, (expense) =>
+            getCategoryAllocations(expense)
+              .filter((allocation) => allocation.categoryId === categoryId)
+              .reduce(
+                (sum, allocation) =>
+                  sum + toBase(allocation.amount, allocation.currency),
+                0
+              )
+          ),
+          periodStart,
+          periodEnd,
+          today,
+        }),
+      };
+    })
+    .filter((forecast) => forecast.projected > 0)
+    .sort((a, b) => b.projected - a.projected);
+
+  return { total, byCategory };
+};
+
+export interface BudgetForecast extends SpendingProjection {
+  limit: number;
+  exceedProbability: number;
+}
+
+// Projects a budget's spending (in the budget's currency) to the end of the
+// given window; undefined when the window isn't running today
+export const projectBudgetSpending = (
+  budget: Pick<Budget, "categoryId" | "categoryIds" | "currency">,
+  window: { startDate: string; endDate?: string },
+  limit: number,
+  expenses: Expense[],
+  convert: (amount: number, from: string, to: string) => number,
+  today: Dayjs = dayjs()
+): BudgetForecast | undefined => {
+  const periodStart = dayjs(window.startDate);
+  const periodEnd = window.endDate ? dayjs(window.endDate) : null;
+  if (!periodEnd || today.isBefore(periodStart, "day")) return undefined;
+  if (today.isAfter(periodEnd, "day")) return undefined;
+
+  const budgetCurrency = getRecordCurrency(budget.currency);
+  const projection = projectPeriodSpending({
+    daily: buildDailyTotals(expenses, (expense) =>
+      getCategoryAllocations(expense)
+        .filter((allocation) =>
+          isInBudgetCategory(budget, allocation.categoryId)
+        )
+        .reduce(
+          (sum, allocation) =>
+            sum +
+            convert(
+              allocation.amount,
+              getRecordCurrency(allocation.currency),
+              budgetCurrency
+            ),
+          0
+        )
+    ),
+    periodStart,
+    periodEnd,
+    today,
+  });
+
+  return {
+    ...projection,
+    limit,
+    exceedProbability: getExceedProbability(projection, limit),
+  };
+};
@@ -0,0 +1,104 @@
+import dayjs, { Dayjs } from "dayjs";
+import { SavingsGoal } from "../types";
+import { roundAmount } from "./splits";
+
+export type GoalStatus =
+  | "completed"
+  | "on-track"
+  | "behind"
+  | "overdue"
+  | "no-deadline";
+
+// Window used to judge the recent saving pace
+const PACE_MONTHS = 3;
+
+export const GOAL_COLORS = [
+  "#1890ff",
+  "#52c41a",
+  "#faad14",
+  "#eb2f96",
+  "#722ed1",
+  "#13c2c2",
+];
+
+export const goalStatusLabels: Record<GoalStatus, string> = {
+  completed: "Completed",
+  "on-track": "On track",
+  behind: "Behind",
+  overdue: "Past deadline",
+  "no-deadline": "No deadline",
+};
+
+export const getGoalSaved = (goal: Pick<SavingsGoal, "contributions">) =>
+  roundAmount(
+    (goal.contributions || []).reduce(
+      (sum, contribution) => sum + (Number(contribution.amount) || 0),
+      0
+    )
+  );
+
+export const getGoalRemaining = (
+  goal: Pick<SavingsGoal, "contributions" | "targetAmount">
+) => roundAmount(Math.max(goal.targetAmount - getGoalSaved(goal), 0));
+
+export const getGoalProgress = (
+  goal: Pick<SavingsGoal, "contributions" | "targetAmount">
+) =>
+  goal.targetAmount > 0
+    ? Math.min((getGoalSaved(goal) / goal.targetAmount) * 100, 100)
+    : 0;
+
+// Whole months left, counting a started month as one to save in
+export const getMonthsRemaining = (deadline: string, today: Dayjs = dayjs()) =>
+  Math.max(Math.ceil(dayjs(deadline).diff(today, "month", true)), 0);
+
+// What has to go in each month from now on to hit the target by the deadline
+export const getRequiredMonthlyContribution = (
+  goal: Pick<SavingsGoal, "contributions" | "targetAmount" | "deadline">,
+  today: Dayjs = dayjs()
+) => {
+  const remaining = getGoalRemaining(goal);
+  if (remaining === 0) return 0;
+  if (!goal.deadline) return undefined;
+  const months = getMonthsRemaining(goal.deadline, today);
+  return roundAmount(months > 0 ? remaining / months : remaining);
+};
+
+export const getAverageMonthlyContribution = (
+  goal: Pick<SavingsGoal, "contributions">,
+  today: Dayjs = dayjs()
+) => {
+  const since = today.subtract(PACE_MONTHS, "month");
+  const recent = (goal.contributions || []).filter((contribution) =>
+    dayjs(contribution.date).isAfter(since)
+  );
+  return roundAmount(
+    recent.reduce((sum, contribution) => sum + Number(contribution.amount), 0) /
+      PACE_MONTHS
+  );
+};
+
+// When the goal will be reached at the recent pace, if it's being saved for
+export const getProjectedCompletion = (
+  goal: Pick<SavingsGoal, "contributions" | "targetAmount">,
+  today: Dayjs = dayjs()
+) => {
+  const remaining = getGoalRemaining(goal);
+  if (remaining === 0) return today;
+  const pace = getAverageMonthlyContribution(goal, today);
+  if (pace <= 0) return undefined;
+  return today.add(Math.ceil(remaining / pace), "month");
+};
+
+export const getGoalStatus = (
+  goal: Pick<SavingsGoal, "contributions" | "targetAmount" | "deadline">,
+  today: Dayjs = dayjs()
+): GoalStatus => {
+  if (getGoalRemaining(goal) === 0) return "completed";
+  if (!goal.deadline) return "no-deadline";
+  if (dayjs(goal.deadline).isBefore(today, "day")) return "overdue";
+  const required = getRequiredMonthlyContribution(goal, today) || 0;
+  return getAverageMonthlyContribution(goal, today) >= required
+    ? "on-track"
+    : "behind";
+};
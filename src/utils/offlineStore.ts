@@ -0,0 +1,151 @@
+// Minimal promise wrapper around IndexedDB for the offline cache and the
+// queue of changes made while offline
+const DB_NAME = "expense-tracker-offline";
+const DB_VERSION = 1;
+const CACHE_STORE = "cache";
+const QUEUE_STORE = "queue";
+
+export type OfflineEntity = "expense" | "income";
+export type OfflineAction = "create" | "update" | "delete";
+export type QueuedMutationStatus = "pending" | "conflict" | "failed";
+
+export interface QueuedMutation {
+  id?: number;
+  entity: OfflineEntity;
+  action: OfflineAction;
+  // Server id, or a temporary "offline-" id for records created offline
+  entityId: string;
+  payload?: Record<string, any>;
+  // updatedAt of the record when it was edited offline, used to spot conflicts
+  baseUpdatedAt?: string;
+  status: QueuedMutationStatus;
+  error?: string;
+  serverRecord?: Record<string, any>;
+  createdAt: string;
+}
+
+interface CacheEntry {
+  key: string;
+  data: any;
+  cachedAt: string;
+}
+
+const listeners = new Set<() => void>();
+
+export const subscribeToOfflineStore = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const isSupported = () => typeof indexedDB !== "undefined";
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: "key" });
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getCacheEntry = async (key: string) => {
+  if (!isSupported()) return undefined;
+  const entry = await runRequest<CacheEntry | undefined>(
+    CACHE_STORE,
+    "readonly",
+    (store) => store.get(key)
+  );
+  return entry?.data;
+};
+
+export const putCacheEntry = async (key: string, data: any) => {
+  if (!isSupported()) return;
+  await runRequest(CACHE_STORE, "readwrite", (store) =>
+    store.put({ key, data, cachedAt: new Date().toISOString() })
+  );
+};
+
+export const getAllCacheEntries = async () => {
+  if (!isSupported()) return [];
+  return runRequest<CacheEntry[]>(CACHE_STORE, "readonly", (store) =>
+    store.getAll()
+  );
+};
+
+export const getQueuedMutations = async () => {
+  if (!isSupported()) return [];
+  const items = await runRequest<QueuedMutation[]>(
+    QUEUE_STORE,
+    "readonly",
+    (store) => store.getAll()
+  );
+  return items.sort((a, b) => (a.id || 0) - (b.id || 0));
+};
+
+export const addQueuedMutation = async (mutation: QueuedMutation) => {
+  if (!isSupported()) {
+    throw new Error("Offline storage is not available in this browser");
+  }
+  const id = await runRequest<number>(QUEUE_STORE, "readwrite", (store) =>
+    store.add(mutation)
+  );
+  notify();
+  return { ...mutation, id };
+};
+
+export const updateQueuedMutation = async (mutation: QueuedMutation) => {
+  if (!isSupported()) return;
+  await runRequest(QUEUE_STORE, "readwrite", (store) => store.put(mutation));
+  notify();
+};
+
+export const removeQueuedMutation = async (id: number) => {
+  if (!isSupported()) return;
+  await runRequest(QUEUE_STORE, "readwrite", (store) => store.delete(id));
+  notify();
+};
+
+export const clearOfflineStore = async () => {
+  if (!isSupported()) return;
+  await runRequest(CACHE_STORE, "readwrite", (store) => store.clear());
+  await runRequest(QUEUE_STORE, "readwrite", (store) => store.clear());
+  notify();
+};
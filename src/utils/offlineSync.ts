@@ -0,0 +1,366 @@
+import type { AxiosInstance } from "axios";
+import { ApiResponse } from "../types";
+import {
+  OfflineAction,
+  OfflineEntity,
+  QueuedMutation,
+  addQueuedMutation,
+  getAllCacheEntries,
+  getCacheEntry,
+  getQueuedMutations,
+  putCacheEntry,
+  removeQueuedMutation,
+  updateQueuedMutation,
+} from "./offlineStore";
+
+export const TEMP_ID_PREFIX = "offline-";
+
+const ENTITY_PATHS: Record<OfflineEntity, string> = {
+  expense: "/expenses",
+  income: "/income",
+};
+
+const LIST_KEYS: Record<OfflineEntity, string> = {
+  expense: "expenses",
+  income: "incomes",
+};
+
+// GET endpoints whose last response is kept for offline use
+const CACHEABLE_PATHS = [
+  /^\/auth\/me$/,
+  /^\/categories$/,
+  /^\/tags$/,
+  /^\/budget$/,
+  /^\/expenses$/,
+  /^\/expenses\/stats$/,
+  /^\/income$/,
+  /^\/income\/stats$/,
+];
+
+interface RequestLike {
+  method?: string;
+  url?: string;
+  params?: Record<string, any>;
+}
+
+interface MutationRequest {
+  entity: OfflineEntity;
+  action: OfflineAction;
+  entityId?: string;
+  payload?: Record<string, any>;
+}
+
+export const isOfflineError = (error: any) =>
+  !error?.response &&
+  (error?.code === "ERR_NETWORK" ||
+    (typeof navigator !== "undefined" && !navigator.onLine));
+
+const getPath = (config: RequestLike) => (config.url || "").split("?")[0];
+
+const getEntityForListPath = (path: string) =>
+  (Object.keys(ENTITY_PATHS) as OfflineEntity[]).find(
+    (entity) => ENTITY_PATHS[entity] === path
+  );
+
+const getCacheKey = (config: RequestLike) => {
+  const params = Object.entries(config.params || {})
+    .filter(([, value]) => value !== undefined && value !== null)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `${getPath(config)}?${new URLSearchParams(
+    params.map(([key, value]) => [key, String(value)])
+  ).toString()}`;
+};
+
+export const isCacheableRequest = (config?: RequestLike) =>
+  !!config &&
+  (config.method || "get").toLowerCase() === "get" &&
+  CACHEABLE_PATHS.some((pattern) => pattern.test(getPath(config)));
+
+export const cacheResponse = (config: RequestLike, data: any) =>
+  putCacheEntry(getCacheKey(config), data).catch(() => undefined);
+
+export const getCachedResponse = (config: RequestLike) =>
+  getCacheEntry(getCacheKey(config)).catch(() => undefined);
+
+const toOptimisticRecord = (mutation: QueuedMutation) => ({
+  ...mutation.payload,
+  id: mutation.entityId,
+  createdAt: mutation.createdAt,
+  updatedAt: mutation.createdAt,
+  pendingSync: true,
+});
+
+// Lays queued changes over a list response so offline edits show up at once
+export const applyPendingMutations = async (config: RequestLike, data: any) => {
+  const entity = getEntityForListPath(getPath(config));
+  const listKey = entity && LIST_KEYS[entity];
+  if (!entity || !listKey || !Array.isArray(data?.data?.[listKey])) {
+    return data;
+  }
+
+  const queue = (await getQueuedMutations().catch(() => [])).filter(
+    (mutation) => mutation.entity === entity && mutation.status !== "failed"
+  );
+  if (queue.length === 0) return data;
+
+  let items: any[] = data.data[listKey];
+  queue.forEach((mutation) => {
+    if (mutation.action === "delete") {
+      items = items.filter((item) => item.id !== mutation.entityId);
+    } else if (mutation.action === "update") {
+      items = items.map((item) =>
+        item.id === mutation.entityId
+          ? { ...item, ...mutation.payload, pendingSync: true }
+          : item
+      );
+    }
+  });
+
+  if ((Number(config.params?.page) || 1) === 1) {
+    const created = queue
+      .filter((mutation) => mutation.action === "create")
+      .map(toOptimisticRecord);
+    items = [...created.reverse(), ...items];
+  }
+
+  return { ...data, data: { ...data.data, [listKey]: items } };
+};
+
+const findCachedRecord = async (entity: OfflineEntity, id: string) => {
+  const prefix = `${ENTITY_PATHS[entity]}?`;
+  const entries = await getAllCacheEntries().catch(() => []);
+  for (const entry of entries) {
+    if (!entry.key.startsWith(prefix)) continue;
+    const list = entry.data?.data?.[LIST_KEYS[entity]];
+    const match = Array.isArray(list)
+      ? list.find((item: any) => item.id === id)
+      : undefined;
+    if (match) return match;
+  }
+  return undefined;
+};
+
+const queueOfflineMutation = async <T>({
+  entity,
+  action,
+  entityId,
+  payload,
+}: MutationRequest): Promise<ApiResponse<T>> => {
+  const queue = await getQueuedMutations();
+  const related = queue.filter(
+    (mutation) => mutation.entity === entity && mutation.entityId === entityId
+  );
+  const now = new Date().toISOString();
+  const message = "Saved offline. It will sync when you're back online.";
+
+  if (action === "create") {
+    const queued = await addQueuedMutation({
+      entity,
+      action,
+      entityId: `${TEMP_ID_PREFIX}${Date.now()}-${Math.random()
+        .toString(36)
+        .slice(2, 8)}`,
+      payload,
+      status: "pending",
+      createdAt: now,
+    });
+    return { success: true, data: toOptimisticRecord(queued) as T, message };
+  }
+
+  // Edits to records that only exist in the queue are folded into their create
+  const pendingCreate = related.find(
+    (mutation) => mutation.action === "create"
+  );
+  if (pendingCreate) {
+    if (action === "delete") {
+      await Promise.all(
+        related.map((mutation) => removeQueuedMutation(mutation.id as number))
+      );
+      return { success: true, message };
+    }
+    const merged = {
+      ...pendingCreate,
+      payload: { ...pendingCreate.payload, ...payload },
+    };
+    await updateQueuedMutation(merged);
+    return { success: true, data: toOptimisticRecord(merged) as T, message };
+  }
+
+  const cached = await findCachedRecord(entity, entityId as string);
+  const pendingUpdate = related.find(
+    (mutation) => mutation.action === "update"
+  );
+  const baseUpdatedAt = pendingUpdate?.baseUpdatedAt ?? cached?.updatedAt;
+
+  if (action === "delete") {
+    if (pendingUpdate) await removeQueuedMutation(pendingUpdate.id as number);
+    await addQueuedMutation({
+      entity,
+      action,
+      entityId: entityId as string,
+      baseUpdatedAt,
+      status: "pending",
+      createdAt: now,
+    });
+    return { success: true, message };
+  }
+
+  if (pendingUpdate) {
+    await updateQueuedMutation({
+      ...pendingUpdate,
+      payload: { ...pendingUpdate.payload, ...payload },
+    });
+  } else {
+    await addQueuedMutation({
+      entity,
+      action,
+      entityId: entityId as string,
+      payload,
+      baseUpdatedAt,
+      status: "pending",
+      createdAt: now,
+    });
+  }
+  return {
+    success: true,
+    data: { ...cached, ...payload, id: entityId, pendingSync: true } as T,
+    message,
+  };
+};
+
+// Sends the request, or queues it when the server cannot be reached
+export const withOfflineQueue = async <T>(
+  mutation: MutationRequest,
+  request: () => Promise<ApiResponse<T>>
+): Promise<ApiResponse<T>> => {
+  if (mutation.entityId?.startsWith(TEMP_ID_PREFIX)) {
+    return queueOfflineMutation<T>(mutation);
+  }
+  try {
+    return await request();
+  } catch (error) {
+    if (isOfflineError(error)) return queueOfflineMutation<T>(mutation);
+    throw error;
+  }
+};
+
+class SyncConflictError extends Error {
+  serverRecord?: Record<string, any>;
+
+  constructor(message: string, serverRecord?: Record<string, any>) {
+    super(message);
+    this.serverRecord = serverRecord;
+  }
+}
+
+// Returns false when there is nothing left to do (already deleted remotely)
+const checkForConflict = async (api: AxiosInstance, item: QueuedMutation) => {
+  try {
+    const response = await api.get(
+      `${ENTITY_PATHS[item.entity]}/${item.entityId}`
+    );
+    const serverRecord = response.data?.data;
+    if (
+      item.baseUpdatedAt &&
+      serverRecord?.updatedAt &&
+      serverRecord.updatedAt !== item.baseUpdatedAt
+    ) {
+      throw new SyncConflictError(
+        "Changed on another device after it was edited offline",
+        serverRecord
+      );
+    }
+    return true;
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      if (item.action === "delete") return false;
+      throw new SyncConflictError("Deleted on another device");
+    }
+    throw error;
+  }
+};
+
+const replayMutation = async (
+  api: AxiosInstance,
+  item: QueuedMutation,
+  force = false
+) => {
+  const basePath = ENTITY_PATHS[item.entity];
+
+  if (item.action === "create") {
+    await api.post(basePath, item.payload);
+  } else if (force || (await checkForConflict(api, item))) {
+    if (item.action === "delete") {
+      await api.delete(`${basePath}/${item.entityId}`).catch((error) => {
+        if (error.response?.status !== 404) throw error;
+      });
+    } else if (force && !item.serverRecord) {
+      // Keeping an edit to a record deleted elsewhere recreates it
+      await api.post(basePath, item.payload);
+    } else {
+      await api.put(`${basePath}/${item.entityId}`, item.payload);
+    }
+  }
+
+  await removeQueuedMutation(item.id as number);
+};
+
+export interface SyncResult {
+  applied: number;
+  conflicts: number;
+  failed: number;
+  offline: boolean;
+}
+
+export const replayQueue = async (api: AxiosInstance): Promise<SyncResult> => {
+  const result: SyncResult = {
+    applied: 0,
+    conflicts: 0,
+    failed: 0,
+    offline: false,
+  };
+
+  for (const item of await getQueuedMutations()) {
+    if (item.status !== "pending") continue;
+    try {
+      await replayMutation(api, item);
+      result.applied += 1;
+    } catch (error: any) {
+      if (isOfflineError(error)) {
+        result.offline = true;
+        break;
+      }
+      if (error instanceof SyncConflictError) {
+        await updateQueuedMutation({
+          ...item,
+          status: "conflict",
+          error: error.message,
+          serverRecord: error.serverRecord,
+        });
+        result.conflicts += 1;
+      } else {
+        await updateQueuedMutation({
+          ...item,
+          status: "failed",
+          error: error.response?.data?.message || error.message,
+        });
+        result.failed += 1;
+      }
+    }
+  }
+
+  return result;
+};
+
+// "keep-mine" overwrites the server copy; "discard" drops the offline change
+export const resolveQueuedMutation = async (
+  api: AxiosInstance,
+  item: QueuedMutation,
+  resolution: "keep-mine" | "discard"
+) => {
+  if (resolution === "discard") {
+    await removeQueuedMutation(item.id as number);
+    return;
+  }
+  await replayMutation(api, item, item.status === "conflict");
+};
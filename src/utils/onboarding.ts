@@ -0,0 +1,427 @@
+import dayjs from "dayjs";
+import { BudgetPeriod, User } from "../types";
+import {
+  budgetApi,
+  categoriesApi,
+  expensesApi,
+  incomeApi,
+  tagsApi,
+  userApi,
+} from "./api";
+import { getCurrentPeriodWindow } from "./budgetPeriods";
+
+// Templates are plain data: a new entry in ONBOARDING_TEMPLATES is all it
+// takes to offer another starting setup. Amounts are in the user's base
+// currency and budgets/samples refer to categories by name.
+export interface CategoryTemplate {
+  name: string;
+  icon: string;
+  color: string;
+  children?: CategoryTemplate[];
+}
+
+export interface BudgetTemplate {
+  name: string;
+  amount: number;
+  period: BudgetPeriod;
+  categoryName?: string;
+}
+
+export interface SampleExpenseTemplate {
+  description: string;
+  amount: number;
+  categoryName: string;
+  daysAgo: number;
+}
+
+export interface SampleIncomeTemplate {
+  description: string;
+  source: string;
+  amount: number;
+  daysAgo: number;
+}
+
+export interface OnboardingTemplate {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  categories: CategoryTemplate[];
+  budget: BudgetTemplate;
+  sampleExpenses: SampleExpenseTemplate[];
+  sampleIncome: SampleIncomeTemplate[];
+}
+
+export const ONBOARDING_TEMPLATES: OnboardingTemplate[] = [
+  {
+    id: "household",
+    name: "Household",
+    description: "Running a home: groceries, bills, transport and family.",
+    icon: "house",
+    categories: [
+      {
+        name: "Food",
+        icon: "utensils",
+        color: "#fa8c16",
+        children: [
+          { name: "Groceries", icon: "shopping-cart", color: "#fa8c16" },
+          { name: "Restaurants", icon: "pizza", color: "#fa541c" },
+        ],
+      },
+      {
+        name: "Home",
+        icon: "house",
+        color: "#1890ff",
+        children: [
+          { name: "Rent & Mortgage", icon: "building-2", color: "#1890ff" },
+          { name: "Utilities", icon: "zap", color: "#13c2c2" },
+          { name: "Internet & Phone", icon: "wifi", color: "#2f54eb" },
+        ],
+      },
+      {
+        name: "Transport",
+        icon: "car",
+        color: "#722ed1",
+        children: [
+          { name: "Fuel", icon: "fuel", color: "#722ed1" },
+          { name: "Public Transport", icon: "bus", color: "#9254de" },
+        ],
+      },
+      { name: "Health", icon: "heart-pulse", color: "#eb2f96" },
+      { name: "Kids", icon: "baby", color: "#faad14" },
+      { name: "Entertainment", icon: "film", color: "#52c41a" },
+      { name: "Shopping", icon: "shopping-bag", color: "#a0d911" },
+    ],
+    budget: {
+      name: "Groceries",
+      amount: 600,
+      period: "monthly",
+      categoryName: "Food",
+    },
+    sampleExpenses: [
+      {
+        description: "Weekly shop",
+        amount: 124.5,
+        categoryName: "Groceries",
+        daysAgo: 2,
+      },
+      {
+        description: "Electricity bill",
+        amount: 85,
+        categoryName: "Utilities",
+        daysAgo: 5,
+      },
+      {
+        description: "Family dinner out",
+        amount: 68.2,
+        categoryName: "Restaurants",
+        daysAgo: 7,
+      },
+      { description: "Fuel", amount: 55, categoryName: "Fuel", daysAgo: 9 },
+    ],
+    sampleIncome: [
+      {
+        description: "Monthly salary",
+        source: "Salary",
+        amount: 3800,
+        daysAgo: 10,
+      },
+    ],
+  },
+  {
+    id: "student",
+    name: "Student",
+    description: "Tight budgets: tuition, books, rent and going out.",
+    icon: "graduation-cap",
+    categories: [
+      {
+        name: "Education",
+        icon: "graduation-cap",
+        color: "#1890ff",
+        children: [
+          { name: "Tuition", icon: "landmark", color: "#1890ff" },
+          { name: "Books & Supplies", icon: "book-open", color: "#2f54eb" },
+        ],
+      },
+      { name: "Rent", icon: "building-2", color: "#722ed1" },
+      {
+        name: "Food",
+        icon: "utensils",
+        color: "#fa8c16",
+        children: [
+          { name: "Groceries", icon: "shopping-cart", color: "#fa8c16" },
+          { name: "Coffee & Snacks", icon: "coffee", color: "#d48806" },
+        ],
+      },
+      { name: "Transport", icon: "bus", color: "#13c2c2" },
+      { name: "Going Out", icon: "beer", color: "#eb2f96" },
+      { name: "Subscriptions", icon: "tv", color: "#52c41a" },
+    ],
+    budget: {
+      name: "Food",
+      amount: 250,
+      period: "monthly",
+      categoryName: "Food",
+    },
+    sampleExpenses: [
+      {
+        description: "Textbook",
+        amount: 45,
+        categoryName: "Books & Supplies",
+        daysAgo: 3,
+      },
+      {
+        description: "Campus coffee",
+        amount: 4.2,
+        categoryName: "Coffee & Snacks",
+        daysAgo: 1,
+      },
+      {
+        description: "Supermarket",
+        amount: 38.6,
+        categoryName: "Groceries",
+        daysAgo: 4,
+      },
+      {
+        description: "Bus pass",
+        amount: 30,
+        categoryName: "Transport",
+        daysAgo: 8,
+      },
+    ],
+    sampleIncome: [
+      {
+        description: "Part-time job",
+        source: "Part-time job",
+        amount: 650,
+        daysAgo: 6,
+      },
+    ],
+  },
+  {
+    id: "freelancer",
+    name: "Freelancer",
+    description: "Business costs kept apart from personal spending.",
+    icon: "briefcase",
+    categories: [
+      {
+        name: "Business",
+        icon: "briefcase",
+        color: "#1890ff",
+        children: [
+          { name: "Software & Tools", icon: "laptop", color: "#1890ff" },
+          { name: "Equipment", icon: "wrench", color: "#2f54eb" },
+          { name: "Coworking", icon: "building-2", color: "#13c2c2" },
+          { name: "Business Travel", icon: "plane", color: "#722ed1" },
+        ],
+      },
+      {
+        name: "Taxes & Fees",
+        icon: "landmark",
+        color: "#f5222d",
+        children: [
+          { name: "Income Tax", icon: "receipt", color: "#f5222d" },
+          { name: "Bank Fees", icon: "credit-card", color: "#cf1322" },
+        ],
+      },
+      { name: "Insurance", icon: "shield", color: "#faad14" },
+      {
+        name: "Personal",
+        icon: "wallet",
+        color: "#52c41a",
+        children: [
+          { name: "Groceries", icon: "shopping-cart", color: "#52c41a" },
+          { name: "Eating Out", icon: "utensils", color: "#fa8c16" },
+        ],
+      },
+    ],
+    budget: {
+      name: "Business costs",
+      amount: 400,
+      period: "monthly",
+      categoryName: "Business",
+    },
+    sampleExpenses: [
+      {
+        description: "Design software subscription",
+        amount: 54.99,
+        categoryName: "Software & Tools",
+        daysAgo: 2,
+      },
+      {
+        description: "Coworking day pass",
+        amount: 25,
+        categoryName: "Coworking",
+        daysAgo: 4,
+      },
+      {
+        description: "Transfer fee",
+        amount: 3.5,
+        categoryName: "Bank Fees",
+        daysAgo: 6,
+      },
+      {
+        description: "Lunch",
+        amount: 14.8,
+        categoryName: "Eating Out",
+        daysAgo: 1,
+      },
+    ],
+    sampleIncome: [
+      {
+        description: "Invoice #001",
+        source: "Client work",
+        amount: 2400,
+        daysAgo: 12,
+      },
+    ],
+  },
+];
+
+export const SAMPLE_TAG_NAME = "Sample data";
+
+export const getOnboardingTemplate = (id?: string) =>
+  ONBOARDING_TEMPLATES.find((template) => template.id === id);
+
+export const countTemplateCategories = (
+  categories: CategoryTemplate[]
+): number =>
+  categories.reduce(
+    (count, category) =>
+      count + 1 + countTemplateCategories(category.children || []),
+    0
+  );
+
+export interface OnboardingSetup {
+  template: OnboardingTemplate;
+  currency: string;
+  startingBalance?: number;
+  budget?: BudgetTemplate;
+  includeSampleData: boolean;
+}
+
+// Creates the template's categories (reusing any with the same name), then
+// the starting balance, first budget and sample data. onProgress gets a short
+// description of each step as it starts. Resolves with the updated profile
+// when a starting balance was saved.
+export const applyOnboardingSetup = async (
+  setup: OnboardingSetup,
+  onProgress?: (step: string) => void
+) => {
+  const { template, currency } = setup;
+  const today = dayjs();
+  let updatedUser: User | undefined;
+
+  onProgress?.("Creating categories");
+  const existing = (await categoriesApi.getCategories()).data || [];
+  const idsByName = new Map<string, string>(
+    existing.map((category) => [category.name.toLowerCase(), category.id])
+  );
+
+  const createCategories = async (
+    categories: CategoryTemplate[],
+    parentId: string | null
+  ) => {
+    for (const category of categories) {
+      let id = idsByName.get(category.name.toLowerCase());
+      if (!id) {
+        const response = await categoriesApi.createCategory({
+          name: category.name,
+          icon: category.icon,
+          color: category.color,
+          parentId,
+        });
+        if (!response.data) {
+          throw new Error(response.message || "Failed to create categories");
+        }
+        id = response.data.id;
+        idsByName.set(category.name.toLowerCase(), id);
+      }
+      await createCategories(category.children || [], id);
+    }
+  };
+  await createCategories(template.categories, null);
+
+  const getCategoryId = (name?: string) =>
+    name ? idsByName.get(name.toLowerCase()) : undefined;
+
+  // Saved as the profile's opening balance rather than as income, so it
+  // doesn't inflate income totals or the savings rate
+  if (setup.startingBalance && setup.startingBalance > 0) {
+    onProgress?.("Recording your starting balance");
+    const response = await userApi.updateOpeningBalance(
+      setup.startingBalance,
+      currency
+    );
+    updatedUser = response.data?.user;
+  }
+
+  if (setup.budget && setup.budget.amount > 0) {
+    onProgress?.("Creating your first budget");
+    const window = getCurrentPeriodWindow(setup.budget.period, today);
+    await budgetApi.createBudget({
+      name: setup.budget.name,
+      amount: setup.budget.amount,
+      currency,
+      period: setup.budget.period,
+      startDate: window.startDate.toISOString(),
+      endDate: window.endDate.toISOString(),
+      categoryId: getCategoryId(setup.budget.categoryName),
+      autoRenew: true,
+    });
+  }
+
+  if (setup.includeSampleData) {
+    onProgress?.("Adding sample data");
+    // Tagged so the samples are easy to find and delete later
+    const tags = (await tagsApi.getTags()).data || [];
+    const tag =
+      tags.find((item) => item.name === SAMPLE_TAG_NAME) ||
+      (await tagsApi.createTag({ name: SAMPLE_TAG_NAME, color: "#8c8c8c" }))
+        .data;
+    const tagIds = tag ? [tag.id] : undefined;
+
+    for (const sample of template.sampleExpenses) {
+      const categoryId = getCategoryId(sample.categoryName);
+      if (!categoryId) continue;
+      await expensesApi.createExpense({
+        amount: sample.amount,
+        currency,
+        description: sample.description,
+        categoryId,
+        date: today.subtract(sample.daysAgo, "day").toISOString(),
+        tagIds,
+      });
+    }
+    for (const sample of template.sampleIncome) {
+      await incomeApi.createIncome({
+        amount: sample.amount,
+        currency,
+        description: sample.description,
+        source: sample.source,
+        date: today.subtract(sample.daysAgo, "day").toISOString(),
+        tagIds,
+      });
+    }
+  }
+
+  return updatedUser;
+};
+
+// Remembers that a user finished or skipped onboarding on this device
+const STORAGE_KEY_PREFIX = "onboarding";
+
+export const isOnboardingDismissed = (userId: string) => {
+  try {
+    return !!localStorage.getItem(`${STORAGE_KEY_PREFIX}:${userId}`);
+  } catch (error) {
+    return false;
+  }
+};
+
+export const dismissOnboarding = (userId: string) => {
+  localStorage.setItem(
+    `${STORAGE_KEY_PREFIX}:${userId}`,
+    dayjs().toISOString()
+  );
+};
@@ -0,0 +1,156 @@
+import dayjs, { Dayjs } from "dayjs";
+import { ExpenseStats, Income } from "../types";
+import { roundAmount } from "./splits";
+
+export type ComparisonPreset =
+  | "month"
+  | "quarter"
+  | "year"
+  | "month-last-year"
+  | "custom";
+
+export type PeriodRange = [Dayjs, Dayjs];
+
+export interface ComparisonPeriods {
+  current: PeriodRange;
+  previous: PeriodRange;
+}
+
+export interface ComparisonRow {
+  key: string;
+  name: string;
+  color?: string;
+  icon?: string;
+  current: number;
+  previous: number;
+  delta: number;
+  // Percentage change from the previous period; null when it had nothing
+  change: number | null;
+}
+
+export const comparisonPresetLabels: Record<ComparisonPreset, string> = {
+  month: "This month vs last month",
+  quarter: "This quarter vs last quarter",
+  year: "This year vs last year",
+  "month-last-year": "This month vs same month last year",
+  custom: "Custom periods",
+};
+
+const quarterStart = (date: Dayjs) =>
+  date.startOf("month").month(Math.floor(date.month() / 3) * 3);
+
+// Both periods run to the same point, so a half-finished month is compared
+// with the same days of the one before it
+export const getPresetPeriods = (
+  preset: Exclude<ComparisonPreset, "custom">,
+  today: Dayjs = dayjs()
+): ComparisonPeriods => {
+  const end = today.endOf("day");
+  switch (preset) {
+    case "quarter": {
+      const start = quarterStart(today);
+      return {
+        current: [start, end],
+        previous: [
+          start.subtract(3, "month"),
+          today.subtract(3, "month").endOf("day"),
+        ],
+      };
+    }
+    case "year":
+      return {
+        current: [today.startOf("year"), end],
+        previous: [
+          today.subtract(1, "year").startOf("year"),
+          today.subtract(1, "year").endOf("day"),
+        ],
+      };
+    case "month-last-year":
+      return {
+        current: [today.startOf("month"), end],
+        previous: [
+          today.subtract(1, "year").startOf("month"),
+          today.subtract(1, "year").endOf("day"),
+        ],
+      };
+    case "month":
+    default: {
+      const previous = today.subtract(1, "month");
+      return {
+        current: [today.startOf("month"), end],
+        previous: [previous.startOf("month"), previous.endOf("day")],
+      };
+    }
+  }
+};
+
+export const getPercentChange = (current: number, previous: number) =>
+  previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+interface TotalEntry {
+  name: string;
+  color?: string;
+  icon?: string;
+  amount: number;
+}
+
+// Lines two sets of totals up by key, including keys only one period has
+export const compareTotals = (
+  current: Record<string, TotalEntry>,
+  previous: Record<string, TotalEntry>
+): ComparisonRow[] =>
+  Array.from(new Set([...Object.keys(current), ...Object.keys(previous)]))
+    .map((key) => {
+      const currentAmount = roundAmount(current[key]?.amount || 0);
+      const previousAmount = roundAmount(previous[key]?.amount || 0);
+      const entry = current[key] || previous[key];
+      return {
+        key,
+        name: entry.name,
+        color: entry.color,
+        icon: entry.icon,
+        current: currentAmount,
+        previous: previousAmount,
+        delta: roundAmount(currentAmount - previousAmount),
+        change: getPercentChange(currentAmount, previousAmount),
+      };
+    })
+    .sort(
+      (a, b) =>
+        Math.max(b.current, b.previous) - Math.max(a.current, a.previous)
+    );
+
+// Expects stats already converted to base currency
+export const getCategoryTotals = (stats: ExpenseStats) =>
+  stats.categoryStats.reduce<Record<string, TotalEntry>>((totals, stat) => {
+    const existing = totals[stat.categoryId];
+    totals[stat.categoryId] = {
+      name: stat.category?.name || "Unknown",
+      color: stat.category?.color,
+      icon: stat.category?.icon,
+      amount: (existing?.amount || 0) + (Number(stat._sum.amount) || 0),
+    };
+    return totals;
+  }, {});
+
+// Sources are free text, so "Salary" and "salary " count as one
+export const getIncomeSourceTotals = (
+  incomes: Income[],
+  toBase: (amount: number, currency?: string) => number
+) =>
+  incomes.reduce<Record<string, TotalEntry>>((totals, income) => {
+    const name = income.source.trim() || "Other";
+    const key = name.toLowerCase();
+    totals[key] = {
+      name: totals[key]?.name || name,
+      amount:
+        (totals[key]?.amount || 0) +
+        toBase(Number(income.amount) || 0, income.currency),
+    };
+    return totals;
+  }, {});
+
+export const formatPeriodLabel = ([start, end]: PeriodRange) =>
+  start.isSame(end, "year")
+    ? `${start.format("MMM D")} - ${end.format("MMM D, YYYY")}`
+    : `${start.format("MMM D, YYYY")} - ${end.format("MMM D, YYYY")}`;
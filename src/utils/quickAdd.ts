@@ -0,0 +1,23 @@
+// Turns text shared into the installed app (e.g. a payment confirmation)
+// into a starting point for a new expense
+export const parseSharedExpense = (shared: {
+  title?: string;
+  text?: string;
+  url?: string;
+}) => {
+  const text = [shared.title, shared.text].filter(Boolean).join(" ").trim();
+  const amountMatch = text.match(
+    /(?:[$€£¥₹]\s?(\d[\d,]*(?:\.\d{1,2})?))|(\d[\d,]*\.\d{2})\b/
+  );
+  const amount = amountMatch
+    ? Number((amountMatch[1] || amountMatch[2]).replace(/,/g, ""))
+    : undefined;
+
+  return {
+    description: (shared.title || shared.text || shared.url || "").slice(
+      0,
+      200
+    ),
+    amount: amount && !Number.isNaN(amount) ? amount : undefined,
+  };
+};
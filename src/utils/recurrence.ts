@@ -0,0 +1,149 @@
+import dayjs from "dayjs";
+import {
+  RecurrenceFrequency,
+  RecurringOccurrence,
+  RecurringTransaction,
+  WeekendAdjustment,
+} from "../types";
+
+export const DATE_KEY_FORMAT = "YYYY-MM-DD";
+
+const frequencyUnits: Record<RecurrenceFrequency, dayjs.ManipulateType> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+};
+
+export const frequencyLabels: Record<RecurrenceFrequency, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  yearly: "Yearly",
+};
+
+export const weekendAdjustmentLabels: Record<WeekendAdjustment, string> = {
+  none: "Keep weekend dates",
+  skip: "Skip weekend occurrences",
+  next_weekday: "Move to next weekday",
+  previous_weekday: "Move to previous weekday",
+};
+
+const isWeekend = (date: dayjs.Dayjs) => date.day() === 0 || date.day() === 6;
+
+// Returns the adjusted due date, or null when the occurrence should be skipped
+const applyWeekendAdjustment = (
+  date: dayjs.Dayjs,
+  adjustment: WeekendAdjustment
+): dayjs.Dayjs | null => {
+  if (!isWeekend(date) || adjustment === "none") return date;
+  if (adjustment === "skip") return null;
+
+  const step = adjustment === "next_weekday" ? 1 : -1;
+  let adjusted = date;
+  while (isWeekend(adjusted)) {
+    adjusted = adjusted.add(step, "day");
+  }
+  return adjusted;
+};
+
+export const describeSchedule = (
+  recurring: Pick<RecurringTransaction, "frequency" | "interval">
+) => {
+  const interval = recurring.interval || 1;
+  if (interval === 1) return frequencyLabels[recurring.frequency];
+  return `Every ${interval} ${frequencyUnits[recurring.frequency]}s`;
+};
+
+// Expands a series into its scheduled dates (YYYY-MM-DD) within [from, to].
+// Dates are always derived from the start date so month-end days don't drift.
+export const getScheduledDates = (
+  recurring: Pick<
+    RecurringTransaction,
+    "frequency" | "interval" | "startDate" | "endDate"
+  >,
+  from: dayjs.Dayjs,
+  to: dayjs.Dayjs
+): string[] => {
+  const unit = frequencyUnits[recurring.frequency];
+  const interval = Math.max(recurring.interval || 1, 1);
+  const start = dayjs(recurring.startDate).startOf("day");
+  const seriesEnd = recurring.endDate
+    ? dayjs(recurring.endDate).endOf("day")
+    : null;
+  const rangeEnd = seriesEnd && seriesEnd.isBefore(to) ? seriesEnd : to;
+  const dates: string[] = [];
+
+  // Jump close to the range start instead of walking from the first occurrence
+  let index = 0;
+  if (start.isBefore(from)) {
+    index = Math.max(Math.floor(from.diff(start, unit) / interval) - 1, 0);
+  }
+
+  for (;;) {
+    const date = start.add(index * interval, unit);
+    if (date.isAfter(rangeEnd)) break;
+    if (!date.isBefore(from.startOf("day"))) {
+      dates.push(date.format(DATE_KEY_FORMAT));
+    }
+    index += 1;
+  }
+
+  return dates;
+};
+
+// Builds the occurrences of a series within [from, to], applying skip rules
+// and per-instance overrides
+export const getOccurrences = (
+  recurring: RecurringTransaction,
+  from: dayjs.Dayjs,
+  to: dayjs.Dayjs
+): RecurringOccurrence[] => {
+  const skipDates = new Set(recurring.skipDates || []);
+  const overrides = new Map(
+    (recurring.overrides || []).map((override) => [override.date, override])
+  );
+
+  return getScheduledDates(recurring, from, to).reduce<RecurringOccurrence[]>(
+    (occurrences, scheduledDate) => {
+      if (skipDates.has(scheduledDate)) return occurrences;
+
+      const dueDate = applyWeekendAdjustment(
+        dayjs(scheduledDate),
+        recurring.weekendAdjustment
+      );
+      if (!dueDate) return occurrences;
+
+      const override = overrides.get(scheduledDate);
+      occurrences.push({
+        recurring,
+        scheduledDate,
+        dueDate: dueDate.format(DATE_KEY_FORMAT),
+        status: override?.status || "pending",
+        amount: override?.amount ?? recurring.amount,
+        description: override?.description ?? recurring.description,
+        categoryId: override?.categoryId ?? recurring.categoryId,
+        source: override?.source ?? recurring.source,
+        isModified:
+          !!override &&
+          (override.amount !== undefined ||
+            override.description !== undefined ||
+            override.categoryId !== undefined ||
+            override.source !== undefined),
+        transactionId: override?.transactionId,
+      });
+      return occurrences;
+    },
+    []
+  );
+};
+
+export const getUpcomingOccurrences = (
+  recurringList: RecurringTransaction[],
+  from: dayjs.Dayjs,
+  to: dayjs.Dayjs
+): RecurringOccurrence[] =>
+  recurringList
+    .filter((recurring) => recurring.isActive)
+    .flatMap((recurring) => getOccurrences(recurring, from, to))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
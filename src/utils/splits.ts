@@ -0,0 +1,125 @@
+import dayjs from "dayjs";
+import { Budget, Category, Expense, ExpenseStats } from "../types";
+import { getRecordCurrency } from "./currency";
+
+export interface CategoryAllocation {
+  categoryId: string;
+  amount: number;
+  currency?: string;
+}
+
+// Rounds to cents so split sums compare cleanly against the total
+export const roundAmount = (amount: number) =>
+  Math.round((amount + Number.EPSILON) * 100) / 100;
+
+export const isSplitExpense = (expense: Pick<Expense, "splits">) =>
+  !!expense.splits && expense.splits.length > 0;
+
+export const getSplitRemainder = (
+  total: number,
+  splits: { amount?: number | null }[]
+) =>
+  roundAmount(
+    total - splits.reduce((sum, split) => sum + (Number(split.amount) || 0), 0)
+  );
+
+// An expense counts under each split's category, or its own when unsplit
+export const getCategoryAllocations = (
+  expense: Expense
+): CategoryAllocation[] =>
+  isSplitExpense(expense)
+    ? expense.splits!.map((split) => ({
+        categoryId: split.categoryId,
+        amount: Number(split.amount) || 0,
+        currency: expense.currency,
+      }))
+    : [
+        {
+          categoryId: expense.categoryId,
+          amount: Number(expense.amount) || 0,
+          currency: expense.currency,
+        },
+      ];
+
+// The part of an expense filed under any of the given categories
+export const getAmountInCategories = (
+  expense: Expense,
+  categoryIds: string[]
+) =>
+  roundAmount(
+    getCategoryAllocations(expense)
+      .filter((allocation) => categoryIds.includes(allocation.categoryId))
+      .reduce((sum, allocation) => sum + allocation.amount, 0)
+  );
+
+export const buildCategoryStats = (
+  expenses: Expense[],
+  categories: Category[],
+  toBase: (amount: number, currency?: string) => number
+): ExpenseStats["categoryStats"] => {
+  const stats = new Map<string, ExpenseStats["categoryStats"][0]>();
+
+  expenses.forEach((expense) => {
+    getCategoryAllocations(expense).forEach((allocation) => {
+      const amount = toBase(allocation.amount, allocation.currency);
+      const existing = stats.get(allocation.categoryId);
+      if (existing) {
+        existing._sum.amount += amount;
+        existing._count.id += 1;
+        return;
+      }
+      const category = categories.find(
+        (cat) => cat.id === allocation.categoryId
+      );
+      stats.set(allocation.categoryId, {
+        categoryId: allocation.categoryId,
+        _sum: { amount },
+        _count: { id: 1 },
+        category: {
+          id: allocation.categoryId,
+          name: category?.name || "Unknown",
+          color: category?.color || "",
+          icon: category?.icon,
+        },
+      });
+    });
+  });
+
+  return Array.from(stats.values()).sort(
+    (a, b) => b._sum.amount - a._sum.amount
+  );
+};
+
+// Budgets on a parent category also count spending in its subcategories
+export const isInBudgetCategory = (
+  budget: Pick<Budget, "categoryId" | "categoryIds">,
+  categoryId: string
+) =>
+  !budget.categoryId ||
+  (budget.categoryIds
+    ? budget.categoryIds.includes(categoryId)
+    : categoryId === budget.categoryId);
+
+// Spent amounts per currency for a budget, counting only matching splits
+export const getBudgetSpentByCurrency = (
+  budget: Pick<Budget, "categoryId" | "categoryIds" | "startDate" | "endDate">,
+  expenses: Expense[]
+) => {
+  const start = dayjs(budget.startDate).startOf("day");
+  const end = budget.endDate ? dayjs(budget.endDate).endOf("day") : null;
+
+  return expenses.reduce<Record<string, number>>((spent, expense) => {
+    const date = dayjs(expense.date);
+    if (date.isBefore(start) || (end && date.isAfter(end))) return spent;
+
+    getCategoryAllocations(expense)
+      .filter((allocation) => isInBudgetCategory(budget, allocation.categoryId))
+      .forEach((allocation) => {
+        const currency = getRecordCurrency(allocation.currency);
+        spent[currency] = roundAmount(
+          (spent[currency] || 0) + allocation.amount
+        );
+      });
+    return spent;
+  }, {});
+};
@@ -0,0 +1,166 @@
+import dayjs from "dayjs";
+import { Expense } from "../types";
+import {
+  findDuplicate,
+  parseAmount,
+  parseCsv,
+  parseQif,
+} from "./statementImport";
+
+const toDay = (date: string | null) =>
+  date ? dayjs(date).format("YYYY-MM-DD") : null;
+
+const makeExpense = (overrides: Partial<Expense>) =>
+  ({
+    id: "expense-1",
+    amount: 12.5,
+    description: "Corner Shop",
+    date: dayjs("2024-03-05").toISOString(),
+    categoryId: "category-1",
+    ...overrides,
+  } as Expense);
+
+describe("parseAmount", () => {
+  test("reads dots as decimals and commas as thousands", () => {
+    expect(parseAmount("1,234.56")).toBe(1234.56);
+    expect(parseAmount("$ 5")).toBe(5);
+    expect(parseAmount("-12.00")).toBe(-12);
+  });
+
+  test("reads commas as decimals in European amounts", () => {
+    expect(parseAmount("1.234,56")).toBe(1234.56);
+    expect(parseAmount("12,5")).toBe(12.5);
+  });
+
+  test("treats a comma followed by three digits as a thousands separator", () => {
+    expect(parseAmount("1,234")).toBe(1234);
+  });
+
+  test("reads parenthesised and trailing-minus amounts as negative", () => {
+    expect(parseAmount("(12.00)")).toBe(-12);
+    expect(parseAmount("(1,234.56)")).toBe(-1234.56);
+    expect(parseAmount("12.00-")).toBe(-12);
+  });
+
+  test("returns null for blanks and text", () => {
+    expect(parseAmount("")).toBeNull();
+    expect(parseAmount("n/a")).toBeNull();
+  });
+});
+
+describe("parseCsv", () => {
+  test("keeps newlines, delimiters and escaped quotes inside quoted fields", () => {
+    const rows = parseCsv(
+      'Date,Amount,Description\r\n2024-03-05,12.50,"Corner Shop\nMain St, ""North"""\r\n'
+    );
+    expect(rows).toEqual([
+      ["Date", "Amount", "Description"],
+      ["2024-03-05", "12.50", 'Corner Shop\nMain St, "North"'],
+    ]);
+  });
+
+  test("detects semicolon delimiters and skips blank lines", () => {
+    expect(parseCsv("Date;Amount\n\n05.03.2024;12,50\n")).toEqual([
+      ["Date", "Amount"],
+      ["05.03.2024", "12,50"],
+    ]);
+  });
+});
+
+describe("parseQif", () => {
+  test("reads dates with apostrophe years", () => {
+    const [first, second] = parseQif(
+      "!Type:Bank\nD3/5'24\nT-12.50\nPCorner Shop\n^\nD12/31'2023\nT-3.00\n^\n"
+    );
+    expect(toDay(first.date)).toBe("2024-03-05");
+    expect(first.amount).toBe(-12.5);
+    expect(first.description).toBe("Corner Shop");
+    expect(toDay(second.date)).toBe("2023-12-31");
+  });
+
+  test("reads dashed dates", () => {
+    const [transaction] = parseQif("!Type:Bank\nD03-05-2024\nT-1.00\n^\n");
+    expect(toDay(transaction.date)).toBe("2024-03-05");
+  });
+});
+
+describe("findDuplicate", () => {
+  const existing = makeExpense({});
+
+  test("matches the same amount on the same day with a similar description", () => {
+    expect(
+      findDuplicate(
+        {
+          date: dayjs("2024-03-05T18:00:00").toISOString(),
+          amount: -12.5,
+          description: "CORNER SHOP #123",
+        },
+        [existing]
+      )
+    ).toBe(existing);
+  });
+
+  test("matches when either description is empty", () => {
+    expect(
+      findDuplicate({ date: existing.date, amount: 12.5, description: "" }, [
+        existing,
+      ])
+    ).toBe(existing);
+  });
+
+  test("ignores a different amount, day or description", () => {
+    const transaction = {
+      date: existing.date,
+      amount: 12.5,
+      description: "Corner Shop",
+    };
+    expect(
+      findDuplicate({ ...transaction, amount: 12.51 }, [existing])
+    ).toBeUndefined();
+    expect(
+      findDuplicate(
+        { ...transaction, date: dayjs("2024-03-06").toISOString() },
+        [existing]
+      )
+    ).toBeUndefined();
+    expect(
+      findDuplicate({ ...transaction, description: "Petrol Station" }, [
+        existing,
+      ])
+    ).toBeUndefined();
+  });
+
+  test("ignores the same amount in a different currency", () => {
+    const euros = makeExpense({ currency: "EUR" });
+    const transaction = {
+      date: existing.date,
+      amount: 12.5,
+      description: "Corner Shop",
+    };
+    expect(
+      findDuplicate({ ...transaction, currency: "EUR" }, [existing])
+    ).toBeUndefined();
+    expect(findDuplicate(transaction, [euros])).toBeUndefined();
+    expect(findDuplicate({ ...transaction, currency: "EUR" }, [euros])).toBe(
+      euros
+    );
+    // Records without a currency are US dollars
+    expect(findDuplicate({ ...transaction, currency: "USD" }, [existing])).toBe(
+      existing
+    );
+  });
+
+  test("skips transactions without a date or amount", () => {
+    expect(
+      findDuplicate({ date: null, amount: 12.5, description: "Corner Shop" }, [
+        existing,
+      ])
+    ).toBeUndefined();
+    expect(
+      findDuplicate(
+        { date: existing.date, amount: null, description: "Corner Shop" },
+        [existing]
+      )
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,331 @@
+import dayjs from "dayjs";
+import customParseFormat from "dayjs/plugin/customParseFormat";
+import { Expense } from "../types";
+import { getRecordCurrency } from "./currency";
+
+dayjs.extend(customParseFormat);
+
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+export interface ParsedTransaction {
+  key: string;
+  date: string | null;
+  amount: number | null;
+  description: string;
+  externalId?: string;
+  raw: string[];
+}
+
+export interface CsvColumnMapping {
+  date?: number;
+  amount?: number;
+  description?: number;
+  dateFormat: string;
+  hasHeader: boolean;
+}
+
+export const DATE_FORMATS = [
+  "YYYY-MM-DD",
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "M/D/YYYY",
+  "D/M/YYYY",
+  "DD.MM.YYYY",
+  "MM/DD/YY",
+  "DD/MM/YY",
+  "YYYYMMDD",
+  "DD-MM-YYYY",
+  "MMM D, YYYY",
+];
+
+export const detectFormat = (
+  fileName: string,
+  content: string
+): StatementFormat => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "qif") return "qif";
+  if (/<OFX>/i.test(content)) return "ofx";
+  if (/^!Type:/im.test(content)) return "qif";
+  return "csv";
+};
+
+// Parses amounts such as "1,234.56", "-12.00", "(12.00)", "$ 5" or "1.234,56"
+export const parseAmount = (value: string): number | null => {
+  if (!value) return null;
+  let text = value.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  text = text.replace(/[^\d.,-]/g, "");
+  if (text.startsWith("-")) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  if (lastComma > lastDot && text.length - lastComma - 1 !== 3) {
+    // Comma is the decimal separator
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else {
+    text = text.replace(/,/g, "");
+  }
+
+  const amount = parseFloat(text);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+// Returns the date as an ISO string, or null if it doesn't match the format
+export const parseDate = (value: string, format: string): string | null => {
+  if (!value) return null;
+  const parsed = dayjs(value.trim(), format, true);
+  return parsed.isValid() ? parsed.toISOString() : null;
+};
+
+// Guesses the date format that parses the most sample values
+export const guessDateFormat = (samples: string[]): string => {
+  let best = DATE_FORMATS[0];
+  let bestCount = -1;
+  DATE_FORMATS.forEach((format) => {
+    const count = samples.filter(
+      (sample) => sample && dayjs(sample.trim(), format, true).isValid()
+    ).length;
+    if (count > bestCount) {
+      best = format;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const detectDelimiter = (content: string) => {
+  const firstLine = content.split(/\r?\n/)[0] || "";
+  const candidates = [",", ";", "\t", "|"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best
+  );
+};
+
+// RFC 4180 style parser: quoted fields may contain delimiters, quotes and newlines
+export const parseCsv = (content: string): string[][] => {
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+};
+
+// Picks likely date/amount/description columns from the header names
+export const guessCsvMapping = (rows: string[][]): CsvColumnMapping => {
+  const header = (rows[0] || []).map((cell) => cell.trim().toLowerCase());
+  const findColumn = (patterns: RegExp[]) => {
+    for (const pattern of patterns) {
+      const index = header.findIndex((cell) => pattern.test(cell));
+      if (index !== -1) return index;
+    }
+    return undefined;
+  };
+
+  const date = findColumn([/^date$/, /posted|transaction date|date/]);
+  const amount = findColumn([/^amount$/, /amount|debit|value|sum/]);
+  const description = findColumn([
+    /^description$/,
+    /description|payee|memo|details|narrative|name/,
+  ]);
+  const hasHeader = [date, amount, description].some(
+    (index) => index !== undefined
+  );
+  const sampleRows = rows.slice(hasHeader ? 1 : 0, 20);
+
+  return {
+    date,
+    amount,
+    description,
+    hasHeader,
+    dateFormat:
+      date !== undefined
+        ? guessDateFormat(sampleRows.map((cells) => cells[date] || ""))
+        : DATE_FORMATS[0],
+  };
+};
+
+export const applyCsvMapping = (
+  rows: string[][],
+  mapping: CsvColumnMapping
+): ParsedTransaction[] =>
+  rows.slice(mapping.hasHeader ? 1 : 0).map((cells, index) => ({
+    key: `csv-${index}`,
+    date:
+      mapping.date !== undefined
+        ? parseDate(cells[mapping.date] || "", mapping.dateFormat)
+        : null,
+    amount:
+      mapping.amount !== undefined
+        ? parseAmount(cells[mapping.amount] || "")
+        : null,
+    description:
+      mapping.description !== undefined
+        ? (cells[mapping.description] || "").trim()
+        : "",
+    raw: cells,
+  }));
+
+// Handles both SGML (unclosed tags) and XML flavours of OFX
+const readOfxTag = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? match[1].trim() : "";
+};
+
+// Statement currency declared in the OFX header, if any
+export const parseOfxCurrency = (content: string) => {
+  const currency = readOfxTag(content, "CURDEF").toUpperCase();
+  return /^[A-Z]{3}$/.test(currency) ? currency : undefined;
+};
+
+export const parseOfx = (content: string): ParsedTransaction[] => {
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+
+  return blocks.map((block, index) => {
+    const body = block.split(/<\/STMTTRN>/i)[0];
+    const postedAt = readOfxTag(body, "DTPOSTED").slice(0, 8);
+    const name = readOfxTag(body, "NAME");
+    const memo = readOfxTag(body, "MEMO");
+    const fields = [postedAt, readOfxTag(body, "TRNAMT"), name, memo];
+
+    return {
+      key: `ofx-${index}`,
+      date: parseDate(postedAt, "YYYYMMDD"),
+      amount: parseAmount(readOfxTag(body, "TRNAMT")),
+      description: [name, memo].filter(Boolean).join(" - "),
+      externalId: readOfxTag(body, "FITID") || undefined,
+      raw: fields,
+    };
+  });
+};
+
+const QIF_DATE_FORMATS = ["MM/DD/YYYY", "M/D/YYYY", "MM/DD/YY", "M/D/YY"];
+
+// QIF dates look like 01/31/2024, 1/31'24 or 01-31-2024
+const parseQifDate = (value: string) => {
+  const normalized = value.trim().replace("'", "/").replace(/-/g, "/");
+  for (const format of QIF_DATE_FORMATS) {
+    const date = parseDate(normalized, format);
+    if (date) return date;
+  }
+  return parseDate(normalized, "DD/MM/YYYY");
+};
+
+export const parseQif = (content: string): ParsedTransaction[] => {
+  const transactions: ParsedTransaction[] = [];
+  let fields: Record<string, string> = {};
+  let raw: string[] = [];
+
+  content.split(/\r?\n/).forEach((line) => {
+    if (!line || line.startsWith("!")) return;
+
+    if (line.startsWith("^")) {
+      if (raw.length > 0) {
+        transactions.push({
+          key: `qif-${transactions.length}`,
+          date: parseQifDate(fields.D || ""),
+          amount: parseAmount(fields.T || fields.U || ""),
+          description: [fields.P, fields.M].filter(Boolean).join(" - "),
+          externalId: fields.N || undefined,
+          raw,
+        });
+      }
+      fields = {};
+      raw = [];
+      return;
+    }
+
+    const code = line.charAt(0);
+    // Split lines (S/E/$) repeat per split; keep the first value of each code
+    if (!(code in fields)) fields[code] = line.slice(1).trim();
+    raw.push(line);
+  });
+
+  return transactions;
+};
+
+const normalizeDescription = (description: string) =>
+  description.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// An existing expense counts as a duplicate when it has the same amount in
+// the same currency, falls on the same day and has a similar description (or
+// none to compare)
+export const findDuplicate = (
+  transaction: {
+    date: string | null;
+    amount: number | null;
+    description: string;
+    currency?: string;
+  },
+  expenses: Expense[]
+): Expense | undefined => {
+  if (!transaction.date || transaction.amount === null) return undefined;
+  const day = dayjs(transaction.date).format("YYYY-MM-DD");
+  const amount = Math.abs(transaction.amount);
+  const description = normalizeDescription(transaction.description);
+  const currency = getRecordCurrency(transaction.currency);
+
+  return expenses.find((expense) => {
+    if (getRecordCurrency(expense.currency) !== currency) return false;
+    if (Math.abs(expense.amount - amount) >= 0.005) return false;
+    if (dayjs(expense.date).format("YYYY-MM-DD") !== day) return false;
+    const existing = normalizeDescription(expense.description);
+    return (
+      !description ||
+      !existing ||
+      existing.includes(description) ||
+      description.includes(existing)
+    );
+  });
+};
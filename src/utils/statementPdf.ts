@@ -0,0 +1,421 @@
+import dayjs, { Dayjs } from "dayjs";
+import * as echarts from "echarts";
+import { Budget, Category, Expense, Income, User } from "../types";
+import { budgetApi, categoriesApi } from "./api";
+import { fetchAllExpenses, fetchAllIncomes } from "./dataExport";
+import {
+  buildCategoryStats,
+  getCategoryAllocations,
+  isInBudgetCategory,
+  roundAmount,
+} from "./splits";
+import { getDescendantIds } from "./categoryTree";
+import { budgetPeriodLabels } from "./budgetPeriods";
+import { getIncomeSourceTotals } from "./periodComparison";
+import {
+  getBudgetProgressChartOption,
+  getCategoryExpenseChartOption,
+  getIncomeVsExpenseChartOption,
+} from "./chartOptions";
+import { getRecordCurrency } from "./currency";
+
+interface StatementOptions {
+  month: Dayjs;
+  user: User | null;
+  baseCurrency: string;
+  toBase: (amount: number, currency?: string) => number;
+  convert: (amount: number, from: string, to: string) => number;
+  format: (amount: number, currency?: string) => string;
+}
+
+const PAGE_MARGIN = 40;
+const BRAND_COLOR: [number, number, number] = [24, 144, 255];
+
+// The built-in PDF fonts only cover Latin-1, so amounts use currency codes
+// rather than symbols like ₹ or ৳
+const formatPdfMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      currencyDisplay: "code",
+    })
+      .format(amount)
+      .replace(/\u00a0/g, " ");
+  } catch (error) {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
+
+// Draws an ECharts option off-screen and returns it as a PNG data URL
+const renderChartImage = (option: object, width: number, height: number) => {
+  const container = document.createElement("div");
+  const chart = echarts.init(container, undefined, {
+    renderer: "canvas",
+    width,
+    height,
+  });
+  try {
+    chart.setOption({ ...option, animation: false });
+    return chart.getDataURL({
+      type: "png",
+      pixelRatio: 2,
+      backgroundColor: "#fff",
+    });
+  } finally {
+    chart.dispose();
+  }
+};
+
+const fetchStatementData = async (month: Dayjs) => {
+  const params = {
+    startDate: month.startOf("month").toISOString(),
+    endDate: month.endOf("month").toISOString(),
+  };
+  const [expenses, incomes, categoriesResponse, budgetsResponse] =
+    await Promise.all([
+      fetchAllExpenses(params),
+      fetchAllIncomes(params),
+      categoriesApi.getCategories(),
+      budgetApi.getBudgets(),
+    ]);
+  const categories = categoriesResponse.data || [];
+  const budgets = (budgetsResponse.data || [])
+    .filter(
+      (budget) =>
+        !dayjs(budget.startDate).isAfter(month.endOf("month")) &&
+        (!budget.endDate ||
+          !dayjs(budget.endDate).isBefore(month.startOf("month")))
+    )
+    .map((budget) => ({
+      ...budget,
+      categoryIds: budget.categoryId
+        ? getDescendantIds(categories, budget.categoryId)
+        : undefined,
+    }));
+  return { expenses, incomes, categories, budgets };
+};
+
+// Spending against a budget within the statement month, in budget currency
+const getMonthBudgetSpent = (
+  budget: Budget,
+  expenses: Expense[],
+  month: Dayjs,
+  convert: StatementOptions["convert"]
+) => {
+  const from = month.startOf("month");
+  const budgetStart = dayjs(budget.startDate);
+  const start = budgetStart.isAfter(from) ? budgetStart : from;
+  const budgetEnd = budget.endDate ? dayjs(budget.endDate) : undefined;
+  const end =
+    budgetEnd && budgetEnd.isBefore(month.endOf("month"))
+      ? budgetEnd
+      : month.endOf("month");
+  const budgetCurrency = getRecordCurrency(budget.currency);
+
+  return expenses
+    .filter((expense) => {
+      const date = dayjs(expense.date);
+      return !date.isBefore(start, "day") && !date.isAfter(end, "day");
+    })
+    .flatMap(getCategoryAllocations)
+    .filter((allocation) => isInBudgetCategory(budget, allocation.categoryId))
+    .reduce(
+      (sum, allocation) =>
+        sum +
+        convert(
+          allocation.amount,
+          getRecordCurrency(allocation.currency),
+          budgetCurrency
+        ),
+      0
+    );
+};
+
+const getCategoryName = (categories: Category[], categoryId?: string) =>
+  categories.find((category) => category.id === categoryId)?.name ||
+  "Uncategorized";
+
+const describeExpenseCategory = (expense: Expense, categories: Category[]) =>
+  expense.splits && expense.splits.length > 1
+    ? `Split: ${expense.splits
+        .map((split) => getCategoryName(categories, split.categoryId))
+        .join(", ")}`
+    : getCategoryName(categories, expense.categoryId);
+
+// Builds the month's statement as a PDF, entirely in the browser
+export const generateMonthlyStatement = async ({
+  month,
+  user,
+  baseCurrency,
+  toBase,
+  convert,
+  format,
+}: StatementOptions) => {
+  const [{ jsPDF }, { default: autoTable }, data] = await Promise.all([
+    import("jspdf"),
+    import("jspdf-autotable"),
+    fetchStatementData(month),
+  ]);
+  const { expenses, incomes, categories, budgets } = data;
+  const money = (amount: number, currency = baseCurrency) =>
+    formatPdfMoney(amount, currency);
+
+  const totalExpenses = roundAmount(
+    expenses.reduce(
+      (sum, expense) => sum + toBase(Number(expense.amount), expense.currency),
+      0
+    )
+  );
+  const totalIncome = roundAmount(
+    incomes.reduce(
+      (sum, income) => sum + toBase(Number(income.amount), income.currency),
+      0
+    )
+  );
+  const netSavings = roundAmount(totalIncome - totalExpenses);
+  const categoryStats = buildCategoryStats(expenses, categories, toBase).sort(
+    (a, b) => b._sum.amount - a._sum.amount
+  );
+  const sourceTotals = Object.values(
+    getIncomeSourceTotals(incomes, toBase)
+  ).sort((a, b) => b.amount - a.amount);
+  const budgetRows = budgets.map((budget) => {
+    const currency = getRecordCurrency(budget.currency);
+    const spent = getMonthBudgetSpent(budget, expenses, month, convert);
+    return { budget, currency, spent };
+  });
+
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const tableEnd = () =>
+    (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable
+      .finalY;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(60);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(13);
+    doc.setTextColor(33, 33, 33);
+    doc.text(text, PAGE_MARGIN, y + 14);
+    y += 24;
+  };
+
+  const table = (head: string[], body: (string | number)[][]) => {
+    autoTable(doc, {
+      startY: y,
+      head: [head],
+      body,
+      theme: "striped",
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+      styles: { fontSize: 9, cellPadding: 4 },
+      headStyles: { fillColor: BRAND_COLOR },
+    });
+    y = tableEnd() + 20;
+  };
+
+  // Title block
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(20);
+  doc.setTextColor(...BRAND_COLOR);
+  doc.text("Monthly Statement", PAGE_MARGIN, y + 20);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+  doc.setTextColor(80, 80, 80);
+  doc.text(month.format("MMMM YYYY"), PAGE_MARGIN, y + 40);
+  doc.text(
+    [user?.name, user?.email].filter(Boolean).join(" - "),
+    pageWidth - PAGE_MARGIN,
+    y + 20,
+    { align: "right" }
+  );
+  doc.text(`Amounts in ${baseCurrency}`, pageWidth - PAGE_MARGIN, y + 40, {
+    align: "right",
+  });
+  y += 64;
+
+  heading("Summary");
+  table(
+    ["", "Amount"],
+    [
+      ["Total income", money(totalIncome)],
+      ["Total expenses", money(totalExpenses)],
+      ["Net savings", money(netSavings)],
+      [
+        "Savings rate",
+        totalIncome > 0
+          ? `${((netSavings / totalIncome) * 100).toFixed(1)}%`
+          : "-",
+      ],
+      ["Transactions", String(expenses.length + incomes.length)],
+    ]
+  );
+
+  // Charts, two side by side and the budget chart below
+  const chartWidth = (contentWidth - 16) / 2;
+  const chartHeight = chartWidth * 0.75;
+  ensureSpace(chartHeight + 20);
+  const baseFormat = (amount: number) => format(amount);
+  doc.addImage(
+    renderChartImage(
+      getIncomeVsExpenseChartOption(totalIncome, totalExpenses, baseFormat),
+      400,
+      300
+    ),
+    "PNG",
+    PAGE_MARGIN,
+    y,
+    chartWidth,
+    chartHeight
+  );
+  doc.addImage(
+    renderChartImage(
+      getCategoryExpenseChartOption(categoryStats, baseFormat),
+      400,
+      300
+    ),
+    "PNG",
+    PAGE_MARGIN + chartWidth + 16,
+    y,
+    chartWidth,
+    chartHeight
+  );
+  y += chartHeight + 20;
+
+  heading("Spending by Category");
+  table(
+    ["Category", "Expenses", "Amount", "Share"],
+    categoryStats.length > 0
+      ? categoryStats.map((stat) => [
+          stat.category.name,
+          stat._count.id,
+          money(stat._sum.amount),
+          totalExpenses > 0
+            ? `${((stat._sum.amount / totalExpenses) * 100).toFixed(1)}%`
+            : "-",
+        ])
+      : [["No expenses this month", "", "", ""]]
+  );
+
+  heading("Budget Performance");
+  if (budgetRows.length > 0) {
+    const budgetChartHeight = contentWidth * 0.35;
+    ensureSpace(budgetChartHeight + 20);
+    doc.addImage(
+      renderChartImage(
+        getBudgetProgressChartOption(
+          budgetRows.map(({ budget, currency, spent }) => ({
+            name: budget.category ? budget.category.name : budget.name,
+            amount: toBase(budget.amount, currency),
+            spent: toBase(spent, currency),
+          })),
+          baseFormat
+        ),
+        800,
+        280
+      ),
+      "PNG",
+      PAGE_MARGIN,
+      y,
+      contentWidth,
+      budgetChartHeight
+    );
+    y += budgetChartHeight + 12;
+  }
+  table(
+    ["Budget", "Period", "Budgeted", "Spent this month", "Used"],
+    budgetRows.length > 0
+      ? budgetRows.map(({ budget, currency, spent }) => [
+          budget.category
+            ? `${budget.name} (${budget.category.name})`
+            : budget.name,
+          budgetPeriodLabels[budget.period] || budget.period,
+          money(budget.amount, currency),
+          money(spent, currency),
+          budget.amount > 0
+            ? `${((spent / budget.amount) * 100).toFixed(1)}%`
+            : "-",
+        ])
+      : [["No budgets ran this month", "", "", "", ""]]
+  );
+
+  heading("Income by Source");
+  table(
+    ["Source", "Amount", "Share"],
+    sourceTotals.length > 0
+      ? sourceTotals.map((source) => [
+          source.name,
+          money(source.amount),
+          totalIncome > 0
+            ? `${((source.amount / totalIncome) * 100).toFixed(1)}%`
+            : "-",
+        ])
+      : [["No income this month", "", ""]]
+  );
+
+  heading("Transactions");
+  const transactions = [
+    ...expenses.map((expense) => ({
+      date: expense.date,
+      row: [
+        dayjs(expense.date).format("MMM DD"),
+        "Expense",
+        expense.description,
+        describeExpenseCategory(expense, categories),
+        `-${money(
+          Number(expense.amount),
+          getRecordCurrency(expense.currency)
+        )}`,
+      ],
+    })),
+    ...incomes.map((income: Income) => ({
+      date: income.date,
+      row: [
+        dayjs(income.date).format("MMM DD"),
+        "Income",
+        income.description,
+        income.source,
+        money(Number(income.amount), getRecordCurrency(income.currency)),
+      ],
+    })),
+  ].sort((a, b) => dayjs(a.date).valueOf() - dayjs(b.date).valueOf());
+  table(
+    ["Date", "Type", "Description", "Category / Source", "Amount"],
+    transactions.length > 0
+      ? transactions.map((transaction) => transaction.row)
+      : [["", "", "No transactions this month", "", ""]]
+  );
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page += 1) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(140, 140, 140);
+    doc.text(
+      `Generated ${dayjs().format("MMM DD, YYYY HH:mm")}`,
+      PAGE_MARGIN,
+      pageHeight - 20
+    );
+    doc.text(
+      `Page ${page} of ${pageCount}`,
+      pageWidth - PAGE_MARGIN,
+      pageHeight - 20,
+      { align: "right" }
+    );
+  }
+
+  return doc.output("blob");
+};
@@ -0,0 +1,92 @@
+export interface StoredFile {
+  url: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+export interface UploadOptions {
+  folder?: string;
+}
+
+// Anything that can turn a File into a URL can back uploads: Cloudinary in
+// production, the local adapter in tests and self-hosted setups
+export interface StorageAdapter {
+  name: string;
+  upload: (file: File, options?: UploadOptions) => Promise<StoredFile>;
+}
+
+export const createCloudinaryAdapter = (
+  cloudName = process.env.REACT_APP_CLOUDINARY_CLOUD_NAME,
+  uploadPreset = process.env.REACT_APP_CLOUDINARY_UPLOAD_PRESET
+): StorageAdapter => ({
+  name: "cloudinary",
+  upload: async (file, options = {}) => {
+    if (!cloudName || !uploadPreset) {
+      throw new Error(
+        "Cloudinary configuration is missing. Please check your environment variables."
+      );
+    }
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("upload_preset", uploadPreset);
+    formData.append("cloud_name", cloudName);
+    if (options.folder) formData.append("folder", options.folder);
+
+    // "auto" accepts PDFs as well as images
+    const response = await fetch(
+      `https://api.cloudinary.com/v1_1/${cloudName}/auto/upload`,
+      {
+        method: "POST",
+        body: formData,
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Upload failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data = await response.json();
+    return {
+      url: data.secure_url,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+    };
+  },
+});
+
+// Stores files inline as data URLs, so no external service is needed
+export const createLocalAdapter = (): StorageAdapter => ({
+  name: "local",
+  upload: (file) =>
+    new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () =>
+        resolve({
+          url: reader.result as string,
+          name: file.name,
+          type: file.type,
+          size: file.size,
+        });
+      reader.onerror = () => reject(new Error("Failed to read file"));
+      reader.readAsDataURL(file);
+    }),
+});
+
+let activeAdapter: StorageAdapter =
+  process.env.REACT_APP_STORAGE_ADAPTER === "local"
+    ? createLocalAdapter()
+    : createCloudinaryAdapter();
+
+export const getStorageAdapter = () => activeAdapter;
+
+export const setStorageAdapter = (adapter: StorageAdapter) => {
+  activeAdapter = adapter;
+};
+
+export const uploadFile = (file: File, options?: UploadOptions) =>
+  activeAdapter.upload(file, options);
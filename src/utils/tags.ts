@@ -0,0 +1,30 @@
+import { Expense, Tag } from "../types";
+
+export interface TagStat {
+  tag: Tag;
+  amount: number;
+  count: number;
+}
+
+// An expense with several tags counts in full under each of them
+export const buildTagStats = (
+  expenses: Expense[],
+  toBase: (amount: number, currency?: string) => number
+): TagStat[] => {
+  const stats = new Map<string, TagStat>();
+
+  expenses.forEach((expense) => {
+    const amount = toBase(Number(expense.amount) || 0, expense.currency);
+    (expense.tags || []).forEach((tag) => {
+      const existing = stats.get(tag.id);
+      if (existing) {
+        existing.amount += amount;
+        existing.count += 1;
+      } else {
+        stats.set(tag.id, { tag, amount, count: 1 });
+      }
+    });
+  });
+
+  return Array.from(stats.values()).sort((a, b) => b.amount - a.amount);
+};